@@ -51,6 +51,12 @@ class Settings(BaseSettings):
     # Upload / Processing
     max_upload_size_mb: int = 10
     upload_processing_concurrency: int = 5
+    # Chunked (resumable) uploads — POST /api/uploads/sessions
+    upload_chunk_size_mb: int = 5
+    max_chunked_upload_size_mb: int = 500
+    chunked_upload_retention_hours: int = 48  # chunks of abandoned sessions are purged after this
+    # ZIP uploads — all entries are held in memory while unpacking
+    max_container_unpacked_size_mb: int = 200
 
     # CORS
     cors_origins: list[str] = ["http://localhost:5173", "http://localhost:3000"]
@@ -5,6 +5,7 @@ from app.models.database import (
     Carrier,
     CarrierAlias,
     CitySurcharge,
+    ConsistencyFinding,
     ConsultantNote,
     DieselFloater,
     ExtractionCorrection,
@@ -59,6 +60,7 @@ __all__ = [
     "User",
     "Project",
     "ConsultantNote",
+    "ConsistencyFinding",
     "Report",
     "TariffTable",
     "TariffRate",
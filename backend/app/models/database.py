@@ -3,9 +3,9 @@
 Column names and types mirror the Supabase schema exactly.
 All tenant-scoped tables carry a tenant_id column (RLS enforced at DB level).
 
-Table inventory (40 tables):
-  Core:     tenant, carrier, carrier_alias, upload, fx_rate, users
-  Project:  project, consultant_note, report
+Table inventory (41 tables):
+  Core:     tenant, carrier, carrier_alias, upload, upload_session, fx_rate, users
+  Project:  project, consultant_note, report, consistency_finding
   Tariff:   tariff_table, tariff_rate, tariff_zone_map, tariff_nebenkosten,
             tariff_surcharge, tariff_special_condition, tariff_ftl_rate,
             diesel_floater, maut_table, maut_rate, maut_zone_map,
@@ -23,10 +23,12 @@ from typing import Any
 from uuid import UUID
 
 from sqlalchemy import (
+    BigInteger,
     Boolean,
     Date,
     DateTime,
     ForeignKey,
+    Index,
     Integer,
     Numeric,
     SmallInteger,
@@ -152,14 +154,74 @@ class Upload(Base):
     )
     # Added by migration 015
     doc_type: Mapped[str | None] = mapped_column(String(50))
+    # Added by migration 025 — set on documents unpacked from a ZIP archive or e-mail
+    parent_upload_id: Mapped[UUID | None] = mapped_column(
+        ForeignKey("upload.id", ondelete="SET NULL"), index=True
+    )
+
+    # Added by migration 023 — the user confirmed a second upload of the same file
+    allow_duplicate: Mapped[bool] = mapped_column(
+        Boolean, nullable=False, server_default=text("false")
+    )
 
-    __table_args__ = (UniqueConstraint("tenant_id", "file_hash"),)
+    # Unique per tenant and hash except for rows uploaded with allow_duplicate
+    __table_args__ = (
+        Index(
+            "uq_upload_tenant_file_hash",
+            "tenant_id",
+            "file_hash",
+            unique=True,
+            postgresql_where=text("NOT allow_duplicate"),
+        ),
+        Index("idx_upload_tenant_file_hash", "tenant_id", "file_hash"),
+    )
 
     # Relationships
     tenant: Mapped["Tenant"] = relationship(back_populates="uploads")
     project: Mapped["Project | None"] = relationship(back_populates="uploads")
 
 
+class UploadSession(Base):
+    """Resumable chunked upload in progress (migration 024).
+
+    Chunks live on disk (ChunkedUploadService) until the session is completed;
+    upload_id points to the upload created from the assembled file.
+
+    RLS: tenant_id = app.current_tenant.
+    """
+
+    __tablename__ = "upload_session"
+
+    id: Mapped[UUID] = mapped_column(
+        primary_key=True, server_default=text("gen_random_uuid()")
+    )
+    tenant_id: Mapped[UUID] = mapped_column(ForeignKey("tenant.id"), nullable=False)
+    project_id: Mapped[UUID | None] = mapped_column(ForeignKey("project.id"))
+    filename: Mapped[str] = mapped_column(String(500), nullable=False)
+    mime_type: Mapped[str | None] = mapped_column(String(100))
+    file_size: Mapped[int] = mapped_column(BigInteger, nullable=False)
+    file_hash: Mapped[str] = mapped_column(String(64), nullable=False)
+    chunk_size: Mapped[int] = mapped_column(Integer, nullable=False)
+    total_chunks: Mapped[int] = mapped_column(Integer, nullable=False)
+    doc_type: Mapped[str | None] = mapped_column(String(50))
+    allow_duplicate: Mapped[bool] = mapped_column(
+        Boolean, nullable=False, server_default=text("false")
+    )
+    status: Mapped[str] = mapped_column(String(20), nullable=False, server_default=text("'open'"))
+    upload_id: Mapped[UUID | None] = mapped_column(ForeignKey("upload.id", ondelete="SET NULL"))
+    created_by: Mapped[UUID | None] = mapped_column()
+    created_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+    updated_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+
+    __table_args__ = (
+        Index("idx_upload_session_hash", "tenant_id", "file_hash", "status"),
+    )
+
+
 class FxRate(Base):
     """Historical FX rates. No RLS — global reference data."""
 
@@ -231,6 +293,8 @@ class Project(Base):
         DateTime(timezone=True), server_default=text("now()")
     )
     deleted_at: Mapped[datetime | None] = mapped_column(DateTime(timezone=True))
+    # Last ConsistencyService.check(); None = never checked
+    consistency_checked_at: Mapped[datetime | None] = mapped_column(DateTime(timezone=True))
 
     # Relationships
     tenant: Mapped["Tenant"] = relationship(back_populates="projects")
@@ -300,6 +364,49 @@ class Report(Base):
     project: Mapped["Project"] = relationship(back_populates="reports")
 
 
+class ConsistencyFinding(Base):
+    """Cross-document inconsistency within a project (migration 026).
+
+    Written by ConsistencyService, one row per fingerprint; status is the
+    reviewer's decision (open | accepted | fixed) and blocks the final phase
+    while open.
+
+    RLS: tenant_id = app.current_tenant.
+    """
+
+    __tablename__ = "consistency_finding"
+
+    id: Mapped[UUID] = mapped_column(
+        primary_key=True, server_default=text("gen_random_uuid()")
+    )
+    tenant_id: Mapped[UUID] = mapped_column(ForeignKey("tenant.id"), nullable=False)
+    project_id: Mapped[UUID] = mapped_column(
+        ForeignKey("project.id", ondelete="CASCADE"), nullable=False
+    )
+    check_type: Mapped[str] = mapped_column(String(50), nullable=False)
+    severity: Mapped[str] = mapped_column(String(20), nullable=False)
+    fingerprint: Mapped[str] = mapped_column(String(255), nullable=False)
+    message: Mapped[str] = mapped_column(Text, nullable=False)
+    refs: Mapped[list[dict[str, Any]]] = mapped_column(
+        JSONB, nullable=False, server_default=text("'[]'::jsonb")
+    )
+    status: Mapped[str] = mapped_column(String(20), nullable=False, server_default=text("'open'"))
+    resolution_note: Mapped[str | None] = mapped_column(Text)
+    resolved_by: Mapped[UUID | None] = mapped_column()
+    resolved_at: Mapped[datetime | None] = mapped_column(DateTime(timezone=True))
+    first_seen_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+    last_seen_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+
+    __table_args__ = (
+        UniqueConstraint("project_id", "fingerprint"),
+        Index("idx_consistency_finding_status", "project_id", "status"),
+    )
+
+
 # ============================================================================
 # 3. TARIFF SYSTEM
 # ============================================================================
@@ -595,6 +702,7 @@ class DestatisDieselPrice(Base):
     """Cached monthly diesel reference prices fetched from Destatis GENESIS.
 
     Global table (no tenant scope) — same Destatis price applies to all tenants.
+    Written by fetches only; manual prices are DestatisPriceOverride rows.
     """
 
     __tablename__ = "destatis_diesel_price"
@@ -617,6 +725,66 @@ class DestatisDieselPrice(Base):
     )
 
 
+class DestatisPriceOverride(Base):
+    """A tenant's manual or imported monthly diesel price (migration 022).
+
+    Takes precedence over the shared destatis_diesel_price row for this tenant
+    only. The override conflicts with Destatis while the published value
+    differs from both price_ct and confirmed_fetched_ct.
+
+    RLS: tenant_id = app.current_tenant.
+    """
+
+    __tablename__ = "destatis_price_override"
+
+    id: Mapped[UUID] = mapped_column(
+        primary_key=True, server_default=text("gen_random_uuid()")
+    )
+    tenant_id: Mapped[UUID] = mapped_column(ForeignKey("tenant.id"), nullable=False)
+    price_year: Mapped[int] = mapped_column(SmallInteger, nullable=False)
+    price_month: Mapped[int] = mapped_column(SmallInteger, nullable=False)
+    series_code: Mapped[str] = mapped_column(String(50), nullable=False)
+    price_ct: Mapped[Decimal] = mapped_column(Numeric(7, 2), nullable=False)
+    # Destatis value the tenant chose to override (None = never confirmed)
+    confirmed_fetched_ct: Mapped[Decimal | None] = mapped_column(Numeric(7, 2))
+    updated_by: Mapped[UUID | None] = mapped_column()
+    updated_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+
+    __table_args__ = (
+        UniqueConstraint("tenant_id", "price_year", "price_month", "series_code"),
+    )
+
+
+class DestatisPriceAudit(Base):
+    """Change history of Destatis prices and overrides (migration 022).
+
+    tenant_id notes whose override changed (NULL for fetches).
+
+    RLS: tenant_id IS NULL OR tenant_id = app.current_tenant.
+    """
+
+    __tablename__ = "destatis_price_audit"
+
+    id: Mapped[UUID] = mapped_column(
+        primary_key=True, server_default=text("gen_random_uuid()")
+    )
+    price_year: Mapped[int] = mapped_column(SmallInteger, nullable=False)
+    price_month: Mapped[int] = mapped_column(SmallInteger, nullable=False)
+    series_code: Mapped[str] = mapped_column(String(50), nullable=False)
+    action: Mapped[str] = mapped_column(String(20), nullable=False)
+    old_price_ct: Mapped[Decimal | None] = mapped_column(Numeric(7, 2))
+    new_price_ct: Mapped[Decimal | None] = mapped_column(Numeric(7, 2))
+    old_source: Mapped[str | None] = mapped_column(String(20))
+    new_source: Mapped[str | None] = mapped_column(String(20))
+    tenant_id: Mapped[UUID | None] = mapped_column()
+    changed_by: Mapped[UUID | None] = mapped_column()
+    changed_at: Mapped[datetime] = mapped_column(
+        DateTime(timezone=True), nullable=False, server_default=text("now()")
+    )
+
+
 class MautTable(Base):
     """Maut tariff header (distance-range based)."""
 
@@ -1,9 +1,16 @@
 """Carriers router — global carrier listing and per-tenant alias management.
 
 GET    /api/carriers                                  → list all carriers
+GET    /api/carriers/{id}/usage                       → uploads/shipments/tariffs referencing a carrier
 GET    /api/carriers/{id}/aliases                     → list tenant's aliases for a carrier
 POST   /api/carriers/{id}/aliases                     → create alias mapping
+PUT    /api/carriers/{id}/aliases/{alias_text}        → rename an alias
 DELETE /api/carriers/{id}/aliases/{alias_text}        → delete an alias
+POST   /api/carriers/{id}/merge/preview               → counts a merge into {id} would re-point
+POST   /api/carriers/{id}/merge                       → fold other carriers into {id}
+                                                        (re-benchmark runs in the background)
+
+Alias texts are stored stripped + lowercase, matching CarrierService lookups.
 
 Port of backend_legacy/src/modules/upload/entities/carrier-alias.entity.ts
 Issue: #50
@@ -15,7 +22,7 @@ from datetime import datetime
 from uuid import UUID
 
 import structlog
-from fastapi import APIRouter, Depends, HTTPException, Request
+from fastapi import APIRouter, BackgroundTasks, Depends, HTTPException, Request
 from pydantic import BaseModel, ConfigDict, Field
 from pydantic.alias_generators import to_camel
 from sqlalchemy import delete, select
@@ -25,6 +32,8 @@ from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.middleware.tenant_middleware import get_current_tenant_db
 from app.models.database import Carrier, CarrierAlias
+from app.services.benchmark_service import get_benchmark_service
+from app.services.carrier_service import get_carrier_service
 
 logger = structlog.get_logger(__name__)
 
@@ -53,6 +62,70 @@ class AliasResponse(BaseModel):
     carrier_id: UUID
 
 
+class CarrierUploadRef(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True, from_attributes=True)
+
+    id: UUID
+    filename: str
+    project_id: UUID | None = None
+    doc_type: str | None = None
+    status: str | None = None
+    created_at: datetime | None = None
+
+
+class CarrierUsageResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    carrier_id: UUID
+    shipment_count: int
+    upload_count: int
+    tariff_count: int
+    diesel_floater_count: int
+    bracket_count: int
+    alias_count: int
+    uploads: list[CarrierUploadRef]
+
+
+class MergeSourceUsage(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    carrier_id: UUID
+    name: str
+    code_norm: str
+    shipment_count: int
+    upload_count: int
+    tariff_count: int
+    diesel_floater_count: int
+    bracket_count: int
+    alias_count: int
+
+
+class CarrierMergePreviewResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    target_carrier_id: UUID
+    sources: list[MergeSourceUsage]
+    floater_conflict_count: int
+    bracket_conflict_count: int
+
+
+class CarrierMergeResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    target_carrier_id: UUID
+    shipments_repointed: int
+    tariffs_repointed: int
+    diesel_floaters_repointed: int
+    brackets_repointed: int
+    invoice_headers_repointed: int
+    aliases_repointed: int
+    floaters_dropped: int
+    brackets_dropped: int
+    new_aliases: list[str]
+    deleted_carrier_ids: list[UUID]
+    benchmarks_queued: int
+
+
 class CreateCarrierRequest(BaseModel):
     model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
 
@@ -69,6 +142,50 @@ class CreateAliasRequest(BaseModel):
     alias_text: str = Field(..., max_length=255)
 
 
+class MergeCarriersRequest(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    source_carrier_ids: list[UUID] = Field(..., min_length=1)
+
+
+# ---------------------------------------------------------------------------
+# Helpers
+# ---------------------------------------------------------------------------
+
+
+async def _get_carrier_or_404(db: AsyncSession, carrier_id: UUID) -> Carrier:
+    carrier = (
+        await db.execute(select(Carrier).where(Carrier.id == carrier_id))
+    ).scalar_one_or_none()
+    if carrier is None:
+        raise HTTPException(status_code=404, detail="Carrier not found")
+    return carrier
+
+
+async def _get_merge_sources(
+    db: AsyncSession, target_id: UUID, source_ids: list[UUID]
+) -> list[Carrier]:
+    await _get_carrier_or_404(db, target_id)
+    unique_ids = list(dict.fromkeys(source_ids))
+    if target_id in unique_ids:
+        raise HTTPException(status_code=422, detail="Cannot merge a carrier into itself")
+
+    rows = (
+        await db.execute(select(Carrier).where(Carrier.id.in_(unique_ids)))
+    ).scalars().all()
+    if len(rows) != len(unique_ids):
+        raise HTTPException(status_code=404, detail="Carrier not found")
+    by_id = {c.id: c for c in rows}
+    return [by_id[cid] for cid in unique_ids]
+
+
+def _normalize_alias(alias_text: str) -> str:
+    normalized = alias_text.strip().lower()
+    if not normalized:
+        raise HTTPException(status_code=422, detail="Alias text must not be empty")
+    return normalized
+
+
 # ---------------------------------------------------------------------------
 # Endpoints
 # ---------------------------------------------------------------------------
@@ -123,18 +240,36 @@ async def list_carriers(
     return [CarrierResponse.model_validate(c) for c in rows]
 
 
+@router.get("/{carrier_id}/usage", response_model=CarrierUsageResponse)
+async def get_carrier_usage(
+    carrier_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> CarrierUsageResponse:
+    """Count the tenant's records referencing a carrier and list the newest uploads."""
+    await _get_carrier_or_404(db, carrier_id)
+
+    service = get_carrier_service()
+    usage = await service.get_carrier_usage(db, carrier_id)
+    uploads = await service.list_carrier_uploads(db, carrier_id)
+    return CarrierUsageResponse(
+        carrier_id=carrier_id,
+        shipment_count=usage.shipment_count,
+        upload_count=usage.upload_count,
+        tariff_count=usage.tariff_count,
+        diesel_floater_count=usage.diesel_floater_count,
+        bracket_count=usage.bracket_count,
+        alias_count=usage.alias_count,
+        uploads=[CarrierUploadRef.model_validate(u) for u in uploads],
+    )
+
+
 @router.get("/{carrier_id}/aliases", response_model=list[AliasResponse])
 async def list_aliases(
     carrier_id: UUID,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> list[AliasResponse]:
     """List all tenant-specific aliases for a carrier."""
-    # Verify carrier exists
-    carrier = (
-        await db.execute(select(Carrier).where(Carrier.id == carrier_id))
-    ).scalar_one_or_none()
-    if carrier is None:
-        raise HTTPException(status_code=404, detail="Carrier not found")
+    await _get_carrier_or_404(db, carrier_id)
 
     rows = (
         await db.execute(
@@ -154,17 +289,13 @@ async def create_alias(
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> AliasResponse:
     """Create a new alias for a carrier (tenant-scoped)."""
-    carrier = (
-        await db.execute(select(Carrier).where(Carrier.id == carrier_id))
-    ).scalar_one_or_none()
-    if carrier is None:
-        raise HTTPException(status_code=404, detail="Carrier not found")
+    await _get_carrier_or_404(db, carrier_id)
 
     tenant_id = getattr(request.state, "tenant_id", None)
     alias = CarrierAlias(
         tenant_id=tenant_id,
         carrier_id=carrier_id,
-        alias_text=body.alias_text.strip(),
+        alias_text=_normalize_alias(body.alias_text),
     )
     db.add(alias)
     try:
@@ -180,6 +311,46 @@ async def create_alias(
     return AliasResponse.model_validate(alias)
 
 
+@router.put("/{carrier_id}/aliases/{alias_text}", response_model=AliasResponse)
+async def rename_alias(
+    carrier_id: UUID,
+    alias_text: str,
+    body: CreateAliasRequest,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> AliasResponse:
+    """Rename a carrier alias for the current tenant."""
+    alias = (
+        await db.execute(
+            select(CarrierAlias).where(
+                CarrierAlias.carrier_id == carrier_id,
+                CarrierAlias.alias_text == alias_text,
+            )
+        )
+    ).scalar_one_or_none()
+    if alias is None:
+        raise HTTPException(status_code=404, detail="Alias not found")
+
+    new_text = _normalize_alias(body.alias_text)
+    if new_text == alias.alias_text:
+        return AliasResponse.model_validate(alias)
+
+    # alias_text is part of the primary key — update the row in place
+    alias.alias_text = new_text
+    try:
+        await db.flush()
+    except IntegrityError:
+        await db.rollback()
+        raise HTTPException(
+            status_code=409,
+            detail=f"Alias '{new_text}' already exists for this tenant",
+        )
+
+    logger.info(
+        "carrier_alias_renamed", carrier_id=str(carrier_id), old=alias_text, new=new_text
+    )
+    return AliasResponse.model_validate(alias)
+
+
 @router.delete("/{carrier_id}/aliases/{alias_text}", status_code=204)
 async def delete_alias(
     carrier_id: UUID,
@@ -196,3 +367,84 @@ async def delete_alias(
     if result.rowcount == 0:  # type: ignore[attr-defined]
         raise HTTPException(status_code=404, detail="Alias not found")
     logger.info("carrier_alias_deleted", carrier_id=str(carrier_id), alias=alias_text)
+
+
+@router.post("/{carrier_id}/merge/preview", response_model=CarrierMergePreviewResponse)
+async def preview_merge(
+    carrier_id: UUID,
+    body: MergeCarriersRequest,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> CarrierMergePreviewResponse:
+    """Show what merging the source carriers into {carrier_id} would re-point."""
+    sources = await _get_merge_sources(db, carrier_id, body.source_carrier_ids)
+    preview = await get_carrier_service().preview_merge(
+        db, carrier_id, [c.id for c in sources]
+    )
+    return CarrierMergePreviewResponse(
+        target_carrier_id=carrier_id,
+        sources=[
+            MergeSourceUsage(
+                carrier_id=carrier.id,
+                name=carrier.name,
+                code_norm=carrier.code_norm,
+                shipment_count=usage.shipment_count,
+                upload_count=usage.upload_count,
+                tariff_count=usage.tariff_count,
+                diesel_floater_count=usage.diesel_floater_count,
+                bracket_count=usage.bracket_count,
+                alias_count=usage.alias_count,
+            )
+            for carrier, usage in zip(sources, preview.sources)
+        ],
+        floater_conflict_count=preview.floater_conflict_count,
+        bracket_conflict_count=preview.bracket_conflict_count,
+    )
+
+
+@router.post("/{carrier_id}/merge", response_model=CarrierMergeResponse)
+async def merge_carriers(
+    carrier_id: UUID,
+    body: MergeCarriersRequest,
+    request: Request,
+    background_tasks: BackgroundTasks,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> CarrierMergeResponse:
+    """Fold the source carriers into {carrier_id} and re-benchmark affected shipments.
+
+    Re-benchmarking can cover thousands of shipments, so it runs as a
+    background task after the merge is committed; benchmarksQueued is the
+    number of shipments it recalculates.
+    """
+    sources = await _get_merge_sources(db, carrier_id, body.source_carrier_ids)
+    tenant_id = getattr(request.state, "tenant_id", None)
+
+    try:
+        result = await get_carrier_service().merge_carriers(db, tenant_id, carrier_id, sources)
+    except IntegrityError:
+        await db.rollback()
+        raise HTTPException(
+            status_code=409,
+            detail="Merge would create duplicate records for the surviving carrier",
+        )
+
+    # Benchmarks pick tariffs/floaters by carrier — the new rows supersede the old ones
+    if result.shipment_ids:
+        await db.commit()
+        background_tasks.add_task(
+            get_benchmark_service().recalculate, result.shipment_ids, tenant_id
+        )
+
+    return CarrierMergeResponse(
+        target_carrier_id=carrier_id,
+        shipments_repointed=len(result.shipment_ids),
+        tariffs_repointed=result.tariffs_repointed,
+        diesel_floaters_repointed=result.diesel_floaters_repointed,
+        brackets_repointed=result.brackets_repointed,
+        invoice_headers_repointed=result.invoice_headers_repointed,
+        aliases_repointed=result.aliases_repointed,
+        floaters_dropped=result.floaters_dropped,
+        brackets_dropped=result.brackets_dropped,
+        new_aliases=result.new_aliases,
+        deleted_carrier_ids=result.deleted_carrier_ids,
+        benchmarks_queued=len(result.shipment_ids),
+    )
@@ -5,8 +5,22 @@ POST   /api/diesel-floaters                        → create single entry
 PUT    /api/diesel-floaters/{id}                   → update entry
 DELETE /api/diesel-floaters/{id}                   → delete entry
 POST   /api/diesel-floaters/import-csv             → bulk import from CSV text
-GET    /api/diesel-floaters/destatis-prices        → list cached Destatis prices
+GET    /api/diesel-floaters/destatis-prices        → list cached Destatis prices + own manual ones
 POST   /api/diesel-floaters/destatis-prices/fetch  → fetch N months of history from Destatis
+PUT    /api/diesel-floaters/destatis-prices/{year}/{month}          → enter the tenant's own price
+DELETE /api/diesel-floaters/destatis-prices/{year}/{month}          → remove the tenant's price
+POST   /api/diesel-floaters/destatis-prices/{year}/{month}/resolve  → keep manual or fetched value
+POST   /api/diesel-floaters/destatis-prices/import  → import monthly prices from CSV/XLSX
+GET    /api/diesel-floaters/destatis-prices/audit   → change history (optionally one month)
+GET    /api/diesel-floaters/brackets               → list price brackets (optionally by carrier_id)
+POST   /api/diesel-floaters/brackets/parse         → parse a pasted bracket table (no save)
+PUT    /api/diesel-floaters/brackets/table         → create or replace a carrier's bracket table
+DELETE /api/diesel-floaters/brackets/table         → delete a bracket table (carrier + valid_from)
+GET    /api/diesel-floaters/simulation?carrier_id=     → bracket % vs. charged % per month
+GET    /api/diesel-floaters/coverage?project_id=       → carrier × month floater coverage gaps
+GET    /api/diesel-floaters/imports/{upload_id}           → review a floater PDF import
+POST   /api/diesel-floaters/imports/{upload_id}/confirm   → accept the imported brackets
+POST   /api/diesel-floaters/imports/{upload_id}/rollback  → restore the brackets the import replaced
 
 Issue: #62
 """
@@ -15,21 +29,40 @@ from __future__ import annotations
 
 import csv
 import io
-from datetime import date
+from datetime import UTC, date, datetime, timedelta
 from decimal import Decimal
+from typing import Literal
 from uuid import UUID
 
 import structlog
-from fastapi import APIRouter, Depends, HTTPException
+from fastapi import APIRouter, Depends, Form, HTTPException, Request, UploadFile
 from pydantic import BaseModel, ConfigDict, Field, field_validator
 from pydantic.alias_generators import to_camel
-from sqlalchemy import delete, select
+from sqlalchemy import delete, func, or_, select, update
 from sqlalchemy.exc import IntegrityError
 from sqlalchemy.ext.asyncio import AsyncSession
 
+from app.config import settings
 from app.middleware.tenant_middleware import get_current_tenant_db
-from app.models.database import Carrier, DestatisDieselPrice, DieselFloater, DieselPriceBracket
-from app.services.destatis_service import get_destatis_service
+from app.models.database import (
+    Carrier,
+    DestatisDieselPrice,
+    DestatisPriceAudit,
+    DieselFloater,
+    DieselPriceBracket,
+    Project,
+    Upload,
+    User,
+)
+from app.services.destatis_service import TenantPrice, get_destatis_service
+from app.services.diesel_coverage_service import get_diesel_coverage_service
+from app.services.diesel_simulation_service import get_diesel_simulation_service
+from app.services.parsing.destatis_price_parser import parse_price_rows, read_price_rows
+from app.services.parsing.diesel_floater_parser import (
+    DieselBracket,
+    parse_bracket_text,
+    validate_brackets,
+)
 
 logger = structlog.get_logger(__name__)
 
@@ -349,6 +382,11 @@ class DestatisPriceOut(BaseModel):
     price_ct: Decimal
     series_code: str
     fetched_at: str
+    source: str = "fetched"
+    # Destatis value for a manual month; conflict = differs, not yet decided
+    fetched_price_ct: Decimal | None = None
+    conflict: bool = False
+    updated_at: datetime | None = None
 
 
 class DestatisFetchResult(BaseModel):
@@ -359,29 +397,84 @@ class DestatisFetchResult(BaseModel):
     series_code: str
 
 
+class DestatisPriceIn(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    price_ct: Decimal = Field(gt=0, lt=1000)
+    series_code: str | None = None
+
+
+class DestatisConflictResolution(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    keep: Literal["manual", "fetched"]
+    series_code: str | None = None
+
+
+class DestatisImportResult(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    inserted: int
+    updated: int
+    unchanged: int
+    skipped: int
+    errors: list[str]
+
+
+class DestatisAuditOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    year: int
+    month: int
+    series_code: str
+    action: str
+    old_price_ct: Decimal | None
+    new_price_ct: Decimal | None
+    old_source: str | None
+    new_source: str | None
+    changed_by: UUID | None
+    changed_by_email: str | None
+    changed_at: datetime
+
+
+def _price_out(price: TenantPrice) -> DestatisPriceOut:
+    return DestatisPriceOut(
+        year=price.year,
+        month=price.month,
+        price_ct=price.price_ct,
+        series_code=price.series_code,
+        fetched_at=price.fetched_at.isoformat() if price.fetched_at else "",
+        source=price.source,
+        fetched_price_ct=price.fetched_price_ct,
+        conflict=price.conflict,
+        updated_at=price.updated_at,
+    )
+
+
+def _request_actor(request: Request) -> tuple[UUID | None, UUID]:
+    """(user_id, tenant_id) of the caller — manual prices belong to the tenant.
+
+    get_current_tenant_db has already rejected requests without a tenant.
+    """
+    user_id = getattr(request.state, "user_id", None)
+    return UUID(str(user_id)) if user_id else None, UUID(str(request.state.tenant_id))
+
+
+def _check_month(year: int, month: int) -> None:
+    if not 1 <= month <= 12 or not 1990 <= year <= 2100:
+        raise HTTPException(status_code=422, detail=f"Invalid month {month:02d}/{year}")
+
+
 @router.get("/destatis-prices", response_model=list[DestatisPriceOut])
 async def list_destatis_prices(
+    request: Request,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> list[DestatisPriceOut]:
-    """Return all cached Destatis diesel reference prices, newest first."""
-    rows = (
-        await db.execute(
-            select(DestatisDieselPrice).order_by(
-                DestatisDieselPrice.price_year.desc(),
-                DestatisDieselPrice.price_month.desc(),
-            )
-        )
-    ).scalars().all()
-    return [
-        DestatisPriceOut(
-            year=r.price_year,
-            month=r.price_month,
-            price_ct=r.price_ct,
-            series_code=r.series_code,
-            fetched_at=r.fetched_at.isoformat() if r.fetched_at else "",
-        )
-        for r in rows
-    ]
+    """Return the cached Destatis prices, overlaid with the tenant's manual
+    prices, newest first."""
+    _, tenant_id = _request_actor(request)
+    prices = await get_destatis_service().list_prices(db, tenant_id)
+    return [_price_out(p) for p in prices]
 
 
 @router.post("/destatis-prices/fetch", response_model=DestatisFetchResult)
@@ -391,13 +484,13 @@ async def fetch_destatis_prices(
 ) -> DestatisFetchResult:
     """Fetch up to `months` months of Destatis diesel prices into the cache.
 
-    Skips months already cached. Use months=60 for 5 years of history.
+    Skips months already cached. Fetched values are shared by all tenants; a
+    tenant's differing manual price is then shown as conflict. Use months=60
+    for 5 years of history.
     """
     if months < 1 or months > 120:
         raise HTTPException(status_code=400, detail="months must be between 1 and 120")
 
-    from app.config import settings
-
     svc = get_destatis_service()
     fetched = await svc.refresh_recent(db, months=months)
     logger.info("destatis_prices_fetched_via_api", fetched=fetched, months=months)
@@ -408,6 +501,172 @@ async def fetch_destatis_prices(
     )
 
 
+@router.post("/destatis-prices/import", response_model=DestatisImportResult)
+async def import_destatis_prices(
+    request: Request,
+    file: UploadFile,
+    series_code: str | None = Form(None),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DestatisImportResult:
+    """Import monthly prices from a CSV or XLSX file as the tenant's manual prices.
+
+    Columns: Jahr, Monat, Preis[, Serie] or Monat (2024-11, 11.2024, …), Preis.
+    Prices in EUR/l are converted to Ct/l. Fetched months are overridden for
+    this tenant; a differing Destatis value is flagged as conflict.
+    """
+    try:
+        rows = read_price_rows(await file.read(), file.filename or "")
+    except Exception as exc:
+        raise HTTPException(status_code=422, detail=f"Cannot read file: {exc}") from exc
+
+    parsed = parse_price_rows(rows, series_code or settings.destatis_diesel_series)
+    user_id, tenant_id = _request_actor(request)
+    svc = get_destatis_service()
+    counts = {"inserted": 0, "updated": 0, "unchanged": 0}
+    for price in parsed.prices:
+        outcome = await svc.set_manual_price(
+            db,
+            tenant_id,
+            price.year,
+            price.month,
+            price.price_ct,
+            series_code=price.series_code,
+            user_id=user_id,
+            action="import",
+        )
+        counts[outcome] += 1
+
+    logger.info(
+        "destatis_prices_imported",
+        filename=file.filename,
+        errors=len(parsed.errors),
+        **counts,
+    )
+    return DestatisImportResult(**counts, skipped=len(parsed.errors), errors=parsed.errors)
+
+
+@router.get("/destatis-prices/audit", response_model=list[DestatisAuditOut])
+async def list_destatis_audit(
+    request: Request,
+    year: int | None = None,
+    month: int | None = None,
+    limit: int = 200,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> list[DestatisAuditOut]:
+    """Return who changed which Destatis month, newest first.
+
+    Lists Destatis fetches (no tenant) and the caller's own tenant only; the
+    RLS policy of destatis_price_audit (migration 022) enforces the same.
+    """
+    _, tenant_id = _request_actor(request)
+    stmt = (
+        select(DestatisPriceAudit, User.email)
+        .outerjoin(User, User.id == DestatisPriceAudit.changed_by)
+        .where(
+            or_(
+                DestatisPriceAudit.tenant_id.is_(None),
+                DestatisPriceAudit.tenant_id == tenant_id,
+            )
+        )
+        .order_by(DestatisPriceAudit.changed_at.desc())
+        .limit(min(max(limit, 1), 1000))
+    )
+    if year is not None:
+        stmt = stmt.where(DestatisPriceAudit.price_year == year)
+    if month is not None:
+        stmt = stmt.where(DestatisPriceAudit.price_month == month)
+    rows = (await db.execute(stmt)).all()
+    return [
+        DestatisAuditOut(
+            year=a.price_year,
+            month=a.price_month,
+            series_code=a.series_code,
+            action=a.action,
+            old_price_ct=a.old_price_ct,
+            new_price_ct=a.new_price_ct,
+            old_source=a.old_source,
+            new_source=a.new_source,
+            changed_by=a.changed_by,
+            changed_by_email=email,
+            changed_at=a.changed_at,
+        )
+        for a, email in rows
+    ]
+
+
+@router.put("/destatis-prices/{year}/{month}", response_model=DestatisPriceOut)
+async def set_destatis_price(
+    year: int,
+    month: int,
+    body: DestatisPriceIn,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DestatisPriceOut:
+    """Enter a monthly price by hand — for months Destatis has not published
+    or when the API is unreachable. Overrides a fetched value for this tenant."""
+    _check_month(year, month)
+    series = body.series_code or settings.destatis_diesel_series
+    user_id, tenant_id = _request_actor(request)
+    svc = get_destatis_service()
+    await svc.set_manual_price(
+        db, tenant_id, year, month, body.price_ct, series_code=series, user_id=user_id
+    )
+    price = await svc.get_price(db, tenant_id, year, month, series)
+    return _price_out(price)
+
+
+@router.delete("/destatis-prices/{year}/{month}", status_code=204)
+async def delete_destatis_price(
+    year: int,
+    month: int,
+    request: Request,
+    series_code: str | None = None,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> None:
+    """Remove the tenant's manual price, e.g. a mistyped entry.
+
+    Fetched Destatis months are shared and cannot be deleted.
+    """
+    user_id, tenant_id = _request_actor(request)
+    deleted = await get_destatis_service().delete_price(
+        db,
+        tenant_id,
+        year,
+        month,
+        series_code=series_code or settings.destatis_diesel_series,
+        user_id=user_id,
+    )
+    if not deleted:
+        raise HTTPException(status_code=404, detail="Manual price not found")
+
+
+@router.post("/destatis-prices/{year}/{month}/resolve", response_model=DestatisPriceOut)
+async def resolve_destatis_conflict(
+    year: int,
+    month: int,
+    body: DestatisConflictResolution,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DestatisPriceOut:
+    """Settle a month whose manual value differs from the published Destatis value."""
+    user_id, tenant_id = _request_actor(request)
+    try:
+        price = await get_destatis_service().resolve_conflict(
+            db,
+            tenant_id,
+            year,
+            month,
+            body.keep,
+            series_code=body.series_code or settings.destatis_diesel_series,
+            user_id=user_id,
+        )
+    except LookupError as exc:
+        raise HTTPException(status_code=404, detail=str(exc)) from exc
+    except ValueError as exc:
+        raise HTTPException(status_code=409, detail=str(exc)) from exc
+    return _price_out(price)
+
+
 # ---------------------------------------------------------------------------
 # Price bracket table
 # ---------------------------------------------------------------------------
@@ -463,3 +722,602 @@ async def list_brackets(
         )
         for r in rows
     ]
+
+
+class BracketRow(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    price_ct_max: Decimal
+    floater_pct: Decimal
+
+
+class BracketParseRequest(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    text: str = Field(min_length=1)
+
+
+class BracketParseResult(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    brackets: list[BracketRow]
+    errors: list[str]
+
+
+class BracketTableIn(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    carrier_id: UUID
+    valid_from: date
+    valid_until: date | None = None
+    basis: str = "base"
+    brackets: list[BracketRow]
+    # valid_from of the table being edited, when the user moved its start date
+    replaces_valid_from: date | None = None
+
+    @field_validator("basis")
+    @classmethod
+    def validate_basis(cls, v: str) -> str:
+        if v not in _VALID_BASIS:
+            raise ValueError(f"basis must be one of {_VALID_BASIS}")
+        return v
+
+
+class BracketTableResult(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    saved: int
+    # valid_from of earlier tables whose valid_until was set to the day before this one
+    closed_tables: list[date]
+    warnings: list[str]
+
+
+@router.post("/brackets/parse", response_model=BracketParseResult)
+async def parse_brackets(body: BracketParseRequest) -> BracketParseResult:
+    """Parse a bracket table pasted from Excel or an e-mail.
+
+    Nothing is saved; the result pre-fills the bracket editor. Errors cover
+    unreadable lines, range gaps/overlaps and validation of the parsed table.
+    """
+    parsed = parse_bracket_text(body.text)
+    errors = list(parsed.errors)
+    if parsed.brackets:
+        errors.extend(validate_brackets(parsed.brackets))
+    return BracketParseResult(
+        brackets=[
+            BracketRow(price_ct_max=b.price_ct_max, floater_pct=b.floater_pct)
+            for b in parsed.brackets
+        ],
+        errors=errors,
+    )
+
+
+@router.put("/brackets/table", response_model=BracketTableResult)
+async def save_bracket_table(
+    body: BracketTableIn,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> BracketTableResult:
+    """Create or replace a carrier's bracket table for one validity period.
+
+    A table is all brackets sharing carrier + valid_from. Saving replaces
+    those rows. Earlier tables still open on the new valid_from are closed
+    the day before, so the tariff engine never mixes two tables; overlapping
+    a later table is rejected.
+    """
+    if not await _carrier_exists(db, body.carrier_id):
+        raise HTTPException(status_code=404, detail="Carrier not found")
+    if body.valid_until and body.valid_until < body.valid_from:
+        raise HTTPException(status_code=422, detail="validUntil must not be before validFrom")
+
+    errors = validate_brackets(
+        [
+            DieselBracket(price_ct_max=b.price_ct_max, floater_pct=b.floater_pct)
+            for b in body.brackets
+        ]
+    )
+    if errors:
+        raise HTTPException(status_code=422, detail="; ".join(errors))
+
+    from sqlalchemy import text as sa_text
+    tenant_id_row = await db.execute(sa_text("SELECT current_setting('app.current_tenant')::uuid"))
+    tenant_id: UUID = tenant_id_row.scalar_one()
+
+    replaced = {body.valid_from}
+    if body.replaces_valid_from:
+        replaced.add(body.replaces_valid_from)
+
+    # Other tables of this carrier: valid_from → valid_until
+    other_rows = (
+        await db.execute(
+            select(DieselPriceBracket.valid_from, func.max(DieselPriceBracket.valid_until))
+            .where(
+                DieselPriceBracket.carrier_id == body.carrier_id,
+                DieselPriceBracket.valid_from.notin_(replaced),
+            )
+            .group_by(DieselPriceBracket.valid_from)
+        )
+    ).all()
+
+    closed: list[date] = []
+    for other_from, other_until in other_rows:
+        if other_from > body.valid_from:
+            if body.valid_until is None or body.valid_until >= other_from:
+                raise HTTPException(
+                    status_code=409,
+                    detail=(
+                        f"Table overlaps the bracket table valid from {other_from} — "
+                        "set validUntil before that date"
+                    ),
+                )
+        elif other_until is None or other_until >= body.valid_from:
+            closed.append(other_from)
+
+    if closed:
+        await db.execute(
+            update(DieselPriceBracket)
+            .where(
+                DieselPriceBracket.carrier_id == body.carrier_id,
+                DieselPriceBracket.valid_from.in_(closed),
+            )
+            .values(valid_until=body.valid_from - timedelta(days=1))
+        )
+
+    await db.execute(
+        delete(DieselPriceBracket).where(
+            DieselPriceBracket.carrier_id == body.carrier_id,
+            DieselPriceBracket.valid_from.in_(replaced),
+        )
+    )
+    for b in sorted(body.brackets, key=lambda r: r.price_ct_max):
+        db.add(
+            DieselPriceBracket(
+                tenant_id=tenant_id,
+                carrier_id=body.carrier_id,
+                price_ct_max=b.price_ct_max,
+                floater_pct=b.floater_pct,
+                basis=body.basis,
+                valid_from=body.valid_from,
+                valid_until=body.valid_until,
+            )
+        )
+    await db.flush()
+
+    warnings: list[str] = []
+    top = max(b.price_ct_max for b in body.brackets)
+    destatis_high = (
+        await db.execute(select(func.max(DestatisDieselPrice.price_ct)))
+    ).scalar_one_or_none()
+    if destatis_high is not None and destatis_high > top:
+        warnings.append(
+            f"Prices above {top} Ct/l have no bracket — Destatis reached {destatis_high} Ct/l"
+        )
+
+    logger.info(
+        "diesel_bracket_table_saved",
+        carrier_id=str(body.carrier_id),
+        valid_from=str(body.valid_from),
+        brackets=len(body.brackets),
+        closed_tables=[str(d) for d in closed],
+    )
+    return BracketTableResult(
+        saved=len(body.brackets),
+        closed_tables=sorted(closed),
+        warnings=warnings,
+    )
+
+
+@router.delete("/brackets/table", status_code=204)
+async def delete_bracket_table(
+    carrier_id: UUID,
+    valid_from: date,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> None:
+    """Delete all brackets of one carrier table (carrier + valid_from)."""
+    result = await db.execute(
+        delete(DieselPriceBracket).where(
+            DieselPriceBracket.carrier_id == carrier_id,
+            DieselPriceBracket.valid_from == valid_from,
+        )
+    )
+    if result.rowcount == 0:
+        raise HTTPException(status_code=404, detail="Bracket table not found")
+    logger.info(
+        "diesel_bracket_table_deleted", carrier_id=str(carrier_id), valid_from=str(valid_from)
+    )
+
+
+# ---------------------------------------------------------------------------
+# Simulation — Destatis price × brackets vs. invoiced diesel surcharge
+# ---------------------------------------------------------------------------
+
+
+class SimulationMonthOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True, from_attributes=True)
+
+    month: str
+    reference_month: str
+    diesel_price_ct: Decimal | None = None
+    expected_pct: Decimal | None = None
+    shipment_count: int
+    basis_amount: Decimal
+    actual_diesel_amount: Decimal
+    actual_pct: Decimal | None = None
+    expected_diesel_amount: Decimal
+    difference_amount: Decimal
+    uncovered_shipments: int
+
+
+class SimulationTotalsOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True, from_attributes=True)
+
+    shipment_count: int
+    actual_diesel_amount: Decimal
+    expected_diesel_amount: Decimal
+    difference_amount: Decimal
+    uncovered_shipments: int
+
+
+class DieselSimulationOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True, from_attributes=True)
+
+    carrier_id: UUID
+    carrier_name: str | None = None
+    lag_months: int
+    months: list[SimulationMonthOut]
+    totals: SimulationTotalsOut
+    brackets: list[BracketRow]
+
+
+@router.get("/simulation", response_model=DieselSimulationOut)
+async def simulate_diesel_floater(
+    carrier_id: UUID,
+    months: int = 24,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DieselSimulationOut:
+    """Monthly bracket floater % from cached Destatis prices vs. what was invoiced.
+
+    Refresh the Destatis cache first (POST /destatis-prices/fetch) — months
+    without a cached reference price have no expected %.
+    """
+    if months < 1 or months > 120:
+        raise HTTPException(status_code=400, detail="months must be between 1 and 120")
+    if not await _carrier_exists(db, carrier_id):
+        raise HTTPException(status_code=404, detail="Carrier not found")
+
+    simulation = await get_diesel_simulation_service().simulate(db, carrier_id, months=months)
+    return DieselSimulationOut(
+        carrier_id=simulation.carrier_id,
+        carrier_name=simulation.carrier_name,
+        lag_months=simulation.lag_months,
+        months=[SimulationMonthOut.model_validate(m) for m in simulation.months],
+        totals=SimulationTotalsOut.model_validate(simulation.totals),
+        brackets=[
+            BracketRow(price_ct_max=b.price_ct_max, floater_pct=b.floater_pct)
+            for b in simulation.brackets
+        ],
+    )
+
+
+# ---------------------------------------------------------------------------
+# Coverage — which carrier months have neither bracket nor manual rate
+# ---------------------------------------------------------------------------
+
+
+class CoverageCellOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True, from_attributes=True)
+
+    month: str
+    status: str  # bracket | rate | partial | gap
+    covered_days: int
+    days: int
+    shipment_count: int
+    uncovered_shipments: int
+    missing_price: bool
+    overlap: bool
+
+
+class CoverageOverlapOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    kind: str  # rate | bracket
+    first_valid_from: date
+    first_valid_until: date | None
+    second_valid_from: date
+    second_valid_until: date | None
+
+
+class CarrierCoverageOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    carrier_id: UUID
+    carrier_name: str | None
+    shipment_count: int
+    uncovered_shipments: int
+    cells: list[CoverageCellOut]
+    overlaps: list[CoverageOverlapOut]
+
+
+class DieselCoverageOut(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    project_id: UUID
+    months: list[str]
+    carriers: list[CarrierCoverageOut]
+    unassigned_shipments: int
+
+
+@router.get("/coverage", response_model=DieselCoverageOut)
+async def get_diesel_coverage(
+    project_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DieselCoverageOut:
+    """Carrier × month matrix of diesel floater coverage for a project's shipments.
+
+    A month is covered when every day has a bracket table with a cached
+    Destatis price inside its range, or a manual rate — the same order
+    TariffEngineService._get_diesel_floater resolves in.
+    """
+    project = (
+        await db.execute(
+            select(Project.id).where(Project.id == project_id, Project.deleted_at.is_(None))
+        )
+    ).scalar_one_or_none()
+    if project is None:
+        raise HTTPException(status_code=404, detail="Project not found")
+
+    coverage = await get_diesel_coverage_service().coverage(db, project_id)
+    return DieselCoverageOut(
+        project_id=coverage.project_id,
+        months=coverage.months,
+        unassigned_shipments=coverage.unassigned_shipments,
+        carriers=[
+            CarrierCoverageOut(
+                carrier_id=c.carrier_id,
+                carrier_name=c.carrier_name,
+                shipment_count=c.shipment_count,
+                uncovered_shipments=c.uncovered_shipments,
+                cells=[CoverageCellOut.model_validate(cell) for cell in c.cells],
+                overlaps=[
+                    CoverageOverlapOut(
+                        kind=o.kind,
+                        first_valid_from=o.first.valid_from,
+                        first_valid_until=o.first.valid_until,
+                        second_valid_from=o.second.valid_from,
+                        second_valid_until=o.second.valid_until,
+                    )
+                    for o in c.overlaps
+                ],
+            )
+            for c in coverage.carriers
+        ],
+    )
+
+
+# ---------------------------------------------------------------------------
+# Floater PDF import review
+# ---------------------------------------------------------------------------
+
+_IMPORT_ISSUE_TYPE = "diesel_floater_imported"
+
+
+class BracketComparison(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    # "replaced": rows the import overwrote (same valid_from)
+    # "earlier_table": the carrier's table in force before the imported valid_from
+    source: str
+    valid_from: date
+    brackets: list[BracketRow]
+
+
+class DieselImportReview(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    upload_id: UUID
+    filename: str
+    mime_type: str | None = None
+    message: str | None = None
+    # False for imports recorded before brackets were kept in the issue
+    traceable: bool
+    review_status: str | None = None
+    reviewed_at: datetime | None = None
+    carrier_id: UUID | None = None
+    carrier_name: str | None = None
+    valid_from: date | None = None
+    basis: str | None = None
+    imported: list[BracketRow] = []
+    # Current rows of the imported table — differ from imported if edited since
+    stored: list[BracketRow] = []
+    comparison: BracketComparison | None = None
+
+
+def _rows(entries: list[dict]) -> list[BracketRow]:
+    return [
+        BracketRow(price_ct_max=Decimal(e["price_ct_max"]), floater_pct=Decimal(e["floater_pct"]))
+        for e in entries
+    ]
+
+
+async def _load_import(db: AsyncSession, upload_id: UUID) -> tuple[Upload, int, dict]:
+    """Upload plus index and content of its diesel_floater_imported issue."""
+    upload = (
+        await db.execute(select(Upload).where(Upload.id == upload_id))
+    ).scalar_one_or_none()
+    if upload is None:
+        raise HTTPException(status_code=404, detail="Upload not found")
+    for index, issue in enumerate(upload.parsing_issues or []):
+        if isinstance(issue, dict) and issue.get("type") == _IMPORT_ISSUE_TYPE:
+            return upload, index, issue
+    raise HTTPException(status_code=404, detail="Upload has no diesel floater import")
+
+
+async def _table_rows(
+    db: AsyncSession, carrier_id: UUID, valid_from: date
+) -> list[DieselPriceBracket]:
+    return list(
+        (
+            await db.execute(
+                select(DieselPriceBracket)
+                .where(
+                    DieselPriceBracket.carrier_id == carrier_id,
+                    DieselPriceBracket.valid_from == valid_from,
+                )
+                .order_by(DieselPriceBracket.price_ct_max.asc())
+            )
+        ).scalars().all()
+    )
+
+
+def _same_table(stored: list[DieselPriceBracket], imported: list[dict]) -> bool:
+    return sorted((r.price_ct_max, r.floater_pct) for r in stored) == sorted(
+        (Decimal(e["price_ct_max"]), Decimal(e["floater_pct"])) for e in imported
+    )
+
+
+def _set_review_status(
+    upload: Upload, index: int, issue: dict, status: str, request: Request
+) -> dict:
+    updated = {
+        **issue,
+        "review_status": status,
+        "reviewed_at": datetime.now(UTC).isoformat(),
+        "reviewed_by": getattr(request.state, "user_id", None),
+    }
+    issues = list(upload.parsing_issues or [])
+    issues[index] = updated
+    upload.parsing_issues = issues
+    return updated
+
+
+async def _build_review(db: AsyncSession, upload: Upload, issue: dict) -> DieselImportReview:
+    review = DieselImportReview(
+        upload_id=upload.id,
+        filename=upload.filename,
+        mime_type=upload.mime_type,
+        message=issue.get("message"),
+        traceable="brackets" in issue and "carrier_id" in issue,
+        review_status=issue.get("review_status"),
+        reviewed_at=issue.get("reviewed_at"),
+        carrier_name=issue.get("carrier_name"),
+        basis=issue.get("basis"),
+    )
+    if not review.traceable:
+        return review
+
+    carrier_id = UUID(issue["carrier_id"])
+    valid_from = date.fromisoformat(issue["valid_from"])
+    review.carrier_id = carrier_id
+    review.valid_from = valid_from
+    review.imported = _rows(issue["brackets"])
+    review.stored = [
+        BracketRow(price_ct_max=r.price_ct_max, floater_pct=r.floater_pct)
+        for r in await _table_rows(db, carrier_id, valid_from)
+    ]
+
+    previous = issue.get("previous_brackets") or []
+    if previous:
+        review.comparison = BracketComparison(
+            source="replaced", valid_from=valid_from, brackets=_rows(previous)
+        )
+    else:
+        earlier_from = (
+            await db.execute(
+                select(func.max(DieselPriceBracket.valid_from)).where(
+                    DieselPriceBracket.carrier_id == carrier_id,
+                    DieselPriceBracket.valid_from < valid_from,
+                )
+            )
+        ).scalar_one_or_none()
+        if earlier_from is not None:
+            review.comparison = BracketComparison(
+                source="earlier_table",
+                valid_from=earlier_from,
+                brackets=[
+                    BracketRow(price_ct_max=r.price_ct_max, floater_pct=r.floater_pct)
+                    for r in await _table_rows(db, carrier_id, earlier_from)
+                ],
+            )
+    return review
+
+
+@router.get("/imports/{upload_id}", response_model=DieselImportReview)
+async def get_import_review(
+    upload_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DieselImportReview:
+    """Imported brackets of a floater PDF next to the brackets stored before it."""
+    upload, _, issue = await _load_import(db, upload_id)
+    return await _build_review(db, upload, issue)
+
+
+@router.post("/imports/{upload_id}/confirm", response_model=DieselImportReview)
+async def confirm_import(
+    upload_id: UUID,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DieselImportReview:
+    """Mark a pending floater import as reviewed and correct."""
+    upload, index, issue = await _load_import(db, upload_id)
+    if issue.get("review_status") != "pending":
+        raise HTTPException(status_code=409, detail="Import is not pending review")
+    issue = _set_review_status(upload, index, issue, "confirmed", request)
+    await db.flush()
+    logger.info("diesel_floater_import_confirmed", upload_id=str(upload_id))
+    return await _build_review(db, upload, issue)
+
+
+@router.post("/imports/{upload_id}/rollback", response_model=DieselImportReview)
+async def rollback_import(
+    upload_id: UUID,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> DieselImportReview:
+    """Undo a pending floater import: restore the rows it overwrote.
+
+    Refused once the imported table has been edited, so manual corrections
+    are never discarded silently.
+    """
+    upload, index, issue = await _load_import(db, upload_id)
+    if issue.get("review_status") != "pending":
+        raise HTTPException(status_code=409, detail="Import is not pending review")
+
+    carrier_id = UUID(issue["carrier_id"])
+    valid_from = date.fromisoformat(issue["valid_from"])
+    stored = await _table_rows(db, carrier_id, valid_from)
+    if not _same_table(stored, issue["brackets"]):
+        raise HTTPException(
+            status_code=409,
+            detail="Bracket table was changed after the import — edit it in the Preisklassen tab",
+        )
+
+    tenant_id = stored[0].tenant_id if stored else upload.tenant_id
+    await db.execute(
+        delete(DieselPriceBracket).where(
+            DieselPriceBracket.carrier_id == carrier_id,
+            DieselPriceBracket.valid_from == valid_from,
+        )
+    )
+    previous = issue.get("previous_brackets") or []
+    for entry in previous:
+        db.add(
+            DieselPriceBracket(
+                tenant_id=tenant_id,
+                carrier_id=carrier_id,
+                price_ct_max=Decimal(entry["price_ct_max"]),
+                floater_pct=Decimal(entry["floater_pct"]),
+                basis=entry.get("basis") or "base",
+                valid_from=valid_from,
+                valid_until=(
+                    date.fromisoformat(entry["valid_until"]) if entry.get("valid_until") else None
+                ),
+            )
+        )
+    issue = _set_review_status(upload, index, issue, "rolled_back", request)
+    await db.flush()
+    logger.info(
+        "diesel_floater_import_rolled_back",
+        upload_id=str(upload_id),
+        carrier_id=str(carrier_id),
+        restored=len(previous),
+    )
+    return await _build_review(db, upload, issue)
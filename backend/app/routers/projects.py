@@ -3,13 +3,18 @@
 GET    /api/projects                       → list projects
 POST   /api/projects                       → create project
 GET    /api/projects/{id}                  → get project
-PUT    /api/projects/{id}                  → update project
-DELETE /api/projects/{id}                  → soft-delete project
+PUT    /api/projects/{id}                  → update project (validates phase/status transitions)
+DELETE /api/projects/{id}?confirmName=   → soft-delete project and its shipments
+GET    /api/projects/{id}/stats            → counts, upload status mix, latest report KPIs
 GET    /api/projects/{id}/notes            → list consultant notes
 POST   /api/projects/{id}/notes            → create note
 PUT    /api/projects/{id}/notes/{note_id}  → update note
 POST   /api/projects/{id}/notes/{note_id}/resolve → resolve note
+GET    /api/projects/{id}/consistency      → cross-document findings, open ones first
+POST   /api/projects/{id}/consistency/check → re-run the cross-document checks
+POST   /api/projects/{id}/consistency/{finding_id}/resolve → accept / fix / reopen finding
 GET    /api/projects/{id}/reports          → list reports
+GET    /api/projects/{id}/reports/compare?v1=&v2= → diff two report snapshots
 
 Port of backend_legacy/src/modules/project/project.controller.ts
 Issue: #50
@@ -18,18 +23,30 @@ Issue: #50
 from __future__ import annotations
 
 from datetime import datetime
-from typing import Any
+from typing import Any, Literal
 from uuid import UUID
 
 import structlog
-from fastapi import APIRouter, Depends, HTTPException, Request
+from fastapi import APIRouter, Depends, HTTPException, Query, Request
 from pydantic import BaseModel, ConfigDict, Field
 from pydantic.alias_generators import to_camel
 from sqlalchemy import func, select
+from sqlalchemy import update as sa_update
 from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.middleware.tenant_middleware import get_current_tenant_db
-from app.models.database import ConsultantNote, Project, Report, Shipment, Upload
+from app.models.database import (
+    Carrier,
+    ConsistencyFinding,
+    ConsultantNote,
+    Project,
+    Report,
+    Shipment,
+    Upload,
+    User,
+)
+from app.services.consistency_service import get_consistency_service
+from app.services.report_aggregation_service import get_report_service
 
 logger = structlog.get_logger(__name__)
 
@@ -95,6 +112,7 @@ class NoteResponse(_CamelModel):
     priority: str | None = None
     status: str | None = None
     created_by: UUID
+    created_by_name: str | None = None
     created_at: datetime | None = None
     resolved_at: datetime | None = None
 
@@ -126,18 +144,140 @@ class ReportResponse(_CamelModel):
     generated_at: datetime | None = None
 
 
+class MetricDelta(_CamelModel):
+    before: float | None = None
+    after: float | None = None
+    delta: float | None = None
+
+
+class CarrierDiffResponse(_CamelModel):
+    carrier_id: str | None = None
+    carrier_name: str | None = None
+    status: str  # added | removed | changed | unchanged
+    shipment_count: MetricDelta
+    total_actual_cost: MetricDelta
+    total_expected_cost: MetricDelta
+    total_delta: MetricDelta
+    avg_delta_pct: MetricDelta
+    overpay_count: MetricDelta
+
+
+class TopOverpayRef(_CamelModel):
+    shipment_id: str | None = None
+    date: str | None = None
+    origin_zip: str | None = None
+    dest_zip: str | None = None
+    actual_cost: float | None = None
+    expected_cost: float | None = None
+    delta: float | None = None
+    delta_pct: float | None = None
+
+
+class ReportCompareResponse(_CamelModel):
+    report1: ReportResponse
+    report2: ReportResponse
+    # Keys are camelCase statistic names (totalActualCost, overpayRate, …)
+    metrics: dict[str, MetricDelta]
+    carriers: list[CarrierDiffResponse]
+    top_overpays_available: bool
+    top_overpays_entered: list[TopOverpayRef]
+    top_overpays_left: list[TopOverpayRef]
+
+
 class ProjectStatsResponse(_CamelModel):
     project_id: UUID
     upload_count: int
     shipment_count: int
     note_count: int
     report_count: int
+    open_note_count: int = 0
+    upload_status_counts: dict[str, int] = Field(default_factory=dict)
+    # KPIs from the latest report snapshot (None until a report exists)
+    latest_report_id: UUID | None = None
+    latest_report_version: int | None = None
+    latest_report_generated_at: datetime | None = None
+    latest_savings_potential: float | None = None
+    latest_overpay_rate: float | None = None
+
+
+class ConsistencyRefResponse(_CamelModel):
+    upload_id: UUID | None = None
+    filename: str | None = None
+    shipment_id: UUID | None = None
+    reference: str | None = None
+    row: int | None = None
+    page: int | None = None
+
+
+class ConsistencyFindingResponse(_CamelModel):
+    id: UUID
+    check_type: str
+    severity: str  # error | warning
+    message: str
+    refs: list[ConsistencyRefResponse]
+    status: str  # open | accepted | fixed
+    resolution_note: str | None = None
+    resolved_by: UUID | None = None
+    resolved_by_name: str | None = None
+    resolved_at: datetime | None = None
+    first_seen_at: datetime
+    last_seen_at: datetime
+
+
+class ConsistencyResponse(_CamelModel):
+    findings: list[ConsistencyFindingResponse]
+    open_count: int
+    # None until the first check — findings are empty then, but unverified
+    checked_at: datetime | None
+    # Checked, and no open finding blocks the move to the "final" phase
+    can_finalize: bool
+
+
+class ResolveFindingRequest(_CamelModel):
+    status: Literal["open", "accepted", "fixed"]
+    note: str | None = Field(None, max_length=2000)
 
 
 # ---------------------------------------------------------------------------
 # Helpers
 # ---------------------------------------------------------------------------
 
+# Allowed lifecycle moves. Phases only move forward; a project in review can be
+# sent back to in_progress, everything else moves forward one step at a time.
+_PHASE_TRANSITIONS: dict[str, set[str]] = {
+    "quick_check": {"deep_dive"},
+    "deep_dive": {"final"},
+    "final": set(),
+}
+_STATUS_TRANSITIONS: dict[str, set[str]] = {
+    "draft": {"in_progress"},
+    "in_progress": {"review"},
+    "review": {"in_progress", "done"},
+    "done": set(),
+}
+
+
+def _validate_transition(
+    field: str, current: str | None, target: str, transitions: dict[str, set[str]]
+) -> None:
+    """Raise 422 unless ``current → target`` is an allowed lifecycle move.
+
+    Unknown current values (legacy rows) may move to any known value.
+    """
+    if target not in transitions:
+        raise HTTPException(
+            status_code=422,
+            detail=f"Unknown {field} '{target}' — expected one of {', '.join(transitions)}",
+        )
+    if current == target or current not in transitions:
+        return
+    if target not in transitions[current]:
+        allowed = ", ".join(sorted(transitions[current])) or "none"
+        raise HTTPException(
+            status_code=422,
+            detail=f"Invalid {field} transition {current} → {target} (allowed: {allowed})",
+        )
+
 
 async def _get_project_or_404(db: AsyncSession, project_id: UUID) -> Project:
     project = (
@@ -153,6 +293,80 @@ async def _get_project_or_404(db: AsyncSession, project_id: UUID) -> Project:
     return project
 
 
+async def _get_note_or_404(db: AsyncSession, project_id: UUID, note_id: UUID) -> ConsultantNote:
+    note = (
+        await db.execute(
+            select(ConsultantNote).where(
+                ConsultantNote.id == note_id,
+                ConsultantNote.project_id == project_id,
+            )
+        )
+    ).scalar_one_or_none()
+    if note is None:
+        raise HTTPException(status_code=404, detail="Note not found")
+    return note
+
+
+async def _author_names(db: AsyncSession, user_ids: set[UUID]) -> dict[UUID, str]:
+    """Map user ids to a display name (full name, falling back to email)."""
+    if not user_ids:
+        return {}
+    rows = (
+        await db.execute(
+            select(User.id, User.first_name, User.last_name, User.email).where(
+                User.id.in_(user_ids)
+            )
+        )
+    ).all()
+    return {
+        r.id: " ".join(part for part in (r.first_name, r.last_name) if part) or r.email
+        for r in rows
+    }
+
+
+async def _note_to_response(db: AsyncSession, note: ConsultantNote) -> NoteResponse:
+    response = NoteResponse.model_validate(note)
+    response.created_by_name = (await _author_names(db, {note.created_by})).get(note.created_by)
+    return response
+
+
+async def _require_consistent(db: AsyncSession, project: Project) -> None:
+    """Raise 409 while cross-document findings are open (gate for phase "final")."""
+    service = get_consistency_service()
+    await service.check(db, project)
+    open_count = await service.open_count(db, project.id)
+    if open_count:
+        # The 409 rolls the request session back — keep the findings of this
+        # check so GET /consistency shows what blocked the move
+        await db.commit()
+        raise HTTPException(
+            status_code=409,
+            detail=(
+                f"{open_count} unresolved consistency finding(s) — "
+                "accept or fix them before moving to the final phase"
+            ),
+        )
+
+
+async def _consistency_response(
+    db: AsyncSession, project: Project, findings: list[ConsistencyFinding]
+) -> ConsistencyResponse:
+    names = await _author_names(db, {f.resolved_by for f in findings if f.resolved_by})
+    responses = []
+    for f in findings:
+        response = ConsistencyFindingResponse.model_validate(f)
+        response.resolved_by_name = names.get(f.resolved_by) if f.resolved_by else None
+        responses.append(response)
+    open_count = sum(1 for f in findings if f.status == "open")
+    checked_at = project.consistency_checked_at
+    return ConsistencyResponse(
+        findings=responses,
+        open_count=open_count,
+        checked_at=checked_at,
+        can_finalize=checked_at is not None and open_count == 0,
+    )
+
+
 def _project_to_response(p: Project) -> ProjectResponse:
     return ProjectResponse(
         id=p.id,
@@ -226,9 +440,21 @@ async def update_project(
     body: UpdateProjectRequest,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> ProjectResponse:
-    """Update a project's fields."""
+    """Update a project's fields.
+
+    Phase and status changes must follow _PHASE_TRANSITIONS / _STATUS_TRANSITIONS.
+    Moving to phase "final" re-runs the consistency checks and is refused (409)
+    while findings are open.
+    """
     project = await _get_project_or_404(db, project_id)
 
+    if body.phase is not None:
+        _validate_transition("phase", project.phase, body.phase, _PHASE_TRANSITIONS)
+        if body.phase == "final" and project.phase != "final":
+            await _require_consistent(db, project)
+    if body.status is not None:
+        _validate_transition("status", project.status, body.status, _STATUS_TRANSITIONS)
+
     if body.name is not None:
         project.name = body.name
     if body.customer_name is not None:
@@ -250,11 +476,26 @@ async def update_project(
 @router.delete("/{project_id}", status_code=204)
 async def delete_project(
     project_id: UUID,
+    confirm_name: str = Query(..., alias="confirmName", description="Project name, typed back"),
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> None:
-    """Soft-delete a project."""
+    """Soft-delete a project together with its shipments.
+
+    The caller must repeat the project name (422 otherwise). Uploads, reports and
+    notes have no soft-delete column; they stay stored but are only reachable
+    through the project and disappear with it.
+    """
     project = await _get_project_or_404(db, project_id)
-    project.deleted_at = datetime.utcnow()
+    if confirm_name != project.name:
+        raise HTTPException(status_code=422, detail="confirmName does not match the project name")
+
+    now = datetime.utcnow()
+    project.deleted_at = now
+    await db.execute(
+        sa_update(Shipment)
+        .where(Shipment.project_id == project_id, Shipment.deleted_at.is_(None))
+        .values(deleted_at=now)
+    )
     await db.flush()
     logger.info("project_deleted", project_id=str(project_id))
 
@@ -264,7 +505,11 @@ async def get_project_stats(
     project_id: UUID,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> ProjectStatsResponse:
-    """Return aggregate statistics for a project."""
+    """Return aggregate statistics for a project.
+
+    Besides plain counts this includes the upload status distribution and the
+    savings potential / overpay rate from the latest report's data snapshot.
+    """
     await _get_project_or_404(db, project_id)
 
     upload_count = (
@@ -296,12 +541,49 @@ async def get_project_stats(
         )
     ).scalar_one()
 
+    open_note_count = (
+        await db.execute(
+            select(func.count()).select_from(ConsultantNote).where(
+                ConsultantNote.project_id == project_id,
+                ConsultantNote.status.notin_(["resolved", "closed"]),
+            )
+        )
+    ).scalar_one()
+
+    status_rows = (
+        await db.execute(
+            select(Upload.status, func.count())
+            .where(Upload.project_id == project_id)
+            .group_by(Upload.status)
+        )
+    ).all()
+    upload_status_counts = {(status or "unknown"): count for status, count in status_rows}
+
+    latest = (
+        await db.execute(
+            select(Report)
+            .where(Report.project_id == project_id)
+            .order_by(Report.version.desc())
+            .limit(1)
+        )
+    ).scalar_one_or_none()
+    latest_stats: dict[str, Any] = (
+        (latest.data_snapshot or {}).get("statistics", {}) if latest is not None else {}
+    )
+
     return ProjectStatsResponse(
         project_id=project_id,
         upload_count=upload_count,
         shipment_count=shipment_count,
         note_count=note_count,
         report_count=report_count,
+        open_note_count=open_note_count,
+        upload_status_counts=upload_status_counts,
+        latest_report_id=latest.id if latest else None,
+        latest_report_version=latest.version if latest else None,
+        latest_report_generated_at=latest.generated_at if latest else None,
+        latest_savings_potential=latest_stats.get("total_savings_potential"),
+        latest_overpay_rate=latest_stats.get("overpay_rate"),
     )
 
 
@@ -315,7 +597,7 @@ async def list_notes(
     project_id: UUID,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> list[NoteResponse]:
-    """List all consultant notes for a project."""
+    """List all consultant notes for a project, newest first, with author names."""
     await _get_project_or_404(db, project_id)
     rows = (
         await db.execute(
@@ -324,7 +606,13 @@ async def list_notes(
             .order_by(ConsultantNote.created_at.desc())
         )
     ).scalars().all()
-    return [NoteResponse.model_validate(n) for n in rows]
+    authors = await _author_names(db, {n.created_by for n in rows})
+    responses = []
+    for n in rows:
+        response = NoteResponse.model_validate(n)
+        response.created_by_name = authors.get(n.created_by)
+        responses.append(response)
+    return responses
 
 
 @router.post("/{project_id}/notes", response_model=NoteResponse, status_code=201)
@@ -354,7 +642,7 @@ async def create_note(
     db.add(note)
     await db.flush()
     logger.info("note_created", note_id=str(note.id), project_id=str(project_id))
-    return NoteResponse.model_validate(note)
+    return await _note_to_response(db, note)
 
 
 @router.put("/{project_id}/notes/{note_id}", response_model=NoteResponse)
@@ -364,19 +652,13 @@ async def update_note(
     body: UpdateNoteRequest,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> NoteResponse:
-    """Update a consultant note."""
-    await _get_project_or_404(db, project_id)
+    """Update a consultant note.
 
-    note = (
-        await db.execute(
-            select(ConsultantNote).where(
-                ConsultantNote.id == note_id,
-                ConsultantNote.project_id == project_id,
-            )
-        )
-    ).scalar_one_or_none()
-    if note is None:
-        raise HTTPException(status_code=404, detail="Note not found")
+    Moving it to 'resolved' stamps resolved_at like POST .../resolve; moving it
+    out of 'resolved' clears it.
+    """
+    await _get_project_or_404(db, project_id)
+    note = await _get_note_or_404(db, project_id, note_id)
 
     if body.note_type is not None:
         note.note_type = body.note_type
@@ -385,10 +667,14 @@ async def update_note(
     if body.priority is not None:
         note.priority = body.priority
     if body.status is not None:
+        if body.status != "resolved":
+            note.resolved_at = None
+        elif note.status != "resolved" or note.resolved_at is None:
+            note.resolved_at = datetime.utcnow()
         note.status = body.status
 
     await db.flush()
-    return NoteResponse.model_validate(note)
+    return await _note_to_response(db, note)
 
 
 @router.post("/{project_id}/notes/{note_id}/resolve", response_model=NoteResponse)
@@ -399,23 +685,74 @@ async def resolve_note(
 ) -> NoteResponse:
     """Mark a consultant note as resolved."""
     await _get_project_or_404(db, project_id)
+    note = await _get_note_or_404(db, project_id, note_id)
 
-    note = (
+    note.status = "resolved"
+    note.resolved_at = datetime.utcnow()
+    await db.flush()
+    logger.info("note_resolved", note_id=str(note_id))
+    return await _note_to_response(db, note)
+
+
+# ---------------------------------------------------------------------------
+# Consistency sub-resource
+# ---------------------------------------------------------------------------
+
+
+@router.get("/{project_id}/consistency", response_model=ConsistencyResponse)
+async def get_consistency(
+    project_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ConsistencyResponse:
+    """Stored cross-document findings as of the last check (checkedAt; null = never)."""
+    project = await _get_project_or_404(db, project_id)
+    findings = await get_consistency_service().findings(db, project_id)
+    return await _consistency_response(db, project, findings)
+
+
+@router.post("/{project_id}/consistency/check", response_model=ConsistencyResponse)
+async def check_consistency(
+    project_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ConsistencyResponse:
+    """Compare the project's uploads against each other and update the findings."""
+    project = await _get_project_or_404(db, project_id)
+    findings = await get_consistency_service().check(db, project)
+    return await _consistency_response(db, project, findings)
+
+
+@router.post(
+    "/{project_id}/consistency/{finding_id}/resolve",
+    response_model=ConsistencyFindingResponse,
+)
+async def resolve_finding(
+    project_id: UUID,
+    finding_id: UUID,
+    body: ResolveFindingRequest,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ConsistencyFindingResponse:
+    """Mark a finding accepted or fixed, or reopen it."""
+    project = await _get_project_or_404(db, project_id)
+
+    user_id: str | None = getattr(request.state, "user_id", None)
+    if not user_id:
+        raise HTTPException(status_code=401, detail="User not authenticated")
+
+    finding = (
         await db.execute(
-            select(ConsultantNote).where(
-                ConsultantNote.id == note_id,
-                ConsultantNote.project_id == project_id,
+            select(ConsistencyFinding).where(
+                ConsistencyFinding.id == finding_id,
+                ConsistencyFinding.project_id == project_id,
             )
         )
     ).scalar_one_or_none()
-    if note is None:
-        raise HTTPException(status_code=404, detail="Note not found")
+    if finding is None:
+        raise HTTPException(status_code=404, detail="Finding not found")
 
-    note.status = "resolved"
-    note.resolved_at = datetime.utcnow()
-    await db.flush()
-    logger.info("note_resolved", note_id=str(note_id))
-    return NoteResponse.model_validate(note)
+    await get_consistency_service().resolve(db, finding, body.status, body.note, UUID(user_id))
+    response = await _consistency_response(db, project, [finding])
+    return response.findings[0]
 
 
 # ---------------------------------------------------------------------------
@@ -438,3 +775,52 @@ async def list_reports(
         )
     ).scalars().all()
     return [ReportResponse.model_validate(r) for r in rows]
+
+
+@router.get("/{project_id}/reports/compare", response_model=ReportCompareResponse)
+async def compare_reports(
+    project_id: UUID,
+    request: Request,
+    v1: int = Query(..., ge=1, description="Base version"),
+    v2: int = Query(..., ge=1, description="Version compared against the base"),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ReportCompareResponse:
+    """Diff two report snapshots: totals, per-carrier deltas, top-overpay churn."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    result = await get_report_service().compare(db, project_id, tenant_id, v1, v2)
+
+    # Snapshots may carry placeholder names — prefer the current registry name
+    carrier_ids = [c["carrier_id"] for c in result["carriers"] if c["carrier_id"]]
+    names: dict[str, str] = {}
+    if carrier_ids:
+        rows = (
+            await db.execute(
+                select(Carrier.id, Carrier.name).where(
+                    Carrier.id.in_([UUID(cid) for cid in carrier_ids])
+                )
+            )
+        ).all()
+        names = {str(row.id): row.name for row in rows}
+    carriers = [
+        CarrierDiffResponse.model_validate(
+            {**c, "carrier_name": names.get(c["carrier_id"], c["carrier_name"])}
+        )
+        for c in result["carriers"]
+    ]
+
+    return ReportCompareResponse(
+        report1=ReportResponse.model_validate(result["report1"]),
+        report2=ReportResponse.model_validate(result["report2"]),
+        metrics={
+            to_camel(key): MetricDelta.model_validate(value)
+            for key, value in result["metrics"].items()
+        },
+        carriers=carriers,
+        top_overpays_available=result["top_overpays_available"],
+        top_overpays_entered=[
+            TopOverpayRef.model_validate(o) for o in result["top_overpays_entered"]
+        ],
+        top_overpays_left=[
+            TopOverpayRef.model_validate(o) for o in result["top_overpays_left"]
+        ],
+    )
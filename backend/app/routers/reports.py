@@ -0,0 +1,177 @@
+"""Reports router — report generation and snapshot retrieval.
+
+POST   /api/reports/generate?projectId=       → generate a new report version
+GET    /api/reports/latest?projectId=         → latest report version for a project
+GET    /api/reports/{id}                      → report by id
+
+Snapshots are stored snake_case (ReportService.generate) and returned
+camelCase, matching the rest of the API.
+
+Thin HTTP layer over ReportService (services/report_aggregation_service.py).
+Issue: #48
+"""
+
+from __future__ import annotations
+
+from datetime import date, datetime
+from typing import Any, Literal
+from uuid import UUID
+
+import structlog
+from fastapi import APIRouter, Depends, HTTPException, Query, Request
+from pydantic import BaseModel, ConfigDict, Field
+from pydantic.alias_generators import to_camel
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.middleware.tenant_middleware import get_current_tenant_db
+from app.models.database import Project, Report
+from app.services.report_aggregation_service import (
+    GenerateReportOptions,
+    ReportScope,
+    get_report_service,
+)
+
+logger = structlog.get_logger(__name__)
+
+router = APIRouter(prefix="/reports", tags=["reports"])
+
+
+# ---------------------------------------------------------------------------
+# Schemas
+# ---------------------------------------------------------------------------
+
+
+class _CamelModel(BaseModel):
+    model_config = ConfigDict(
+        alias_generator=to_camel,
+        populate_by_name=True,
+        from_attributes=True,
+    )
+
+
+class ReportDetailResponse(_CamelModel):
+    id: UUID
+    project_id: UUID
+    version: int
+    report_type: str
+    title: str | None = None
+    data_snapshot: dict[str, Any]
+    data_completeness: float | None = None
+    shipment_count: int | None = None
+    date_range_start: date | None = None
+    date_range_end: date | None = None
+    generated_by: UUID | None = None
+    generated_at: datetime | None = None
+    notes: str | None = None
+
+
+class GenerateReportRequest(_CamelModel):
+    report_type: Literal["quick_check", "deep_dive", "final"] | None = None
+    title: str | None = Field(None, max_length=255)
+    date_from: date | None = None
+    date_to: date | None = None
+    carrier_ids: list[UUID] | None = None
+    include_top_overpays: bool = True
+    top_overpays_limit: int = Field(10, ge=1, le=100)
+    notes: str | None = None
+
+
+# ---------------------------------------------------------------------------
+# Helpers
+# ---------------------------------------------------------------------------
+
+
+def _camelize(value: Any) -> Any:
+    """Recursively convert dict keys from snake_case to camelCase."""
+    if isinstance(value, dict):
+        return {to_camel(k): _camelize(v) for k, v in value.items()}
+    if isinstance(value, list):
+        return [_camelize(v) for v in value]
+    return value
+
+
+def _report_to_response(report: Report) -> ReportDetailResponse:
+    snapshot = report.data_snapshot or {}
+    completeness = snapshot.get("data_completeness")
+    return ReportDetailResponse(
+        id=report.id,
+        project_id=report.project_id,
+        version=report.version,
+        report_type=report.report_type,
+        title=report.title,
+        data_snapshot=_camelize(snapshot),
+        data_completeness=float(completeness) if completeness is not None else None,
+        shipment_count=report.shipment_count,
+        date_range_start=report.date_range_start,
+        date_range_end=report.date_range_end,
+        generated_by=report.generated_by,
+        generated_at=report.generated_at,
+        notes=snapshot.get("notes"),
+    )
+
+
+# ---------------------------------------------------------------------------
+# Endpoints
+# ---------------------------------------------------------------------------
+
+
+@router.post("/generate", response_model=ReportDetailResponse, status_code=201)
+async def generate_report(
+    body: GenerateReportRequest,
+    request: Request,
+    project_id: UUID = Query(..., alias="projectId"),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ReportDetailResponse:
+    """Generate a new report version for a project."""
+    if body.date_from and body.date_to and body.date_from > body.date_to:
+        raise HTTPException(status_code=422, detail="dateFrom must not be after dateTo")
+
+    tenant_id = getattr(request.state, "tenant_id", None)
+    options = GenerateReportOptions(
+        include_top_overpays=body.include_top_overpays,
+        top_overpays_limit=body.top_overpays_limit,
+        notes=body.notes.strip() if body.notes and body.notes.strip() else None,
+        report_type=body.report_type,
+        title=body.title.strip() if body.title and body.title.strip() else None,
+        scope=ReportScope(
+            date_from=body.date_from,
+            date_to=body.date_to,
+            carrier_ids=body.carrier_ids or None,
+        ),
+    )
+    report = await get_report_service().generate(db, project_id, tenant_id, options)
+    logger.info("report_generated", project_id=str(project_id), report_id=str(report.id))
+    return _report_to_response(report)
+
+
+@router.get("/latest", response_model=ReportDetailResponse)
+async def get_latest_report(
+    request: Request,
+    project_id: UUID = Query(..., alias="projectId"),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ReportDetailResponse:
+    """Return the latest report version for a project."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    report = await get_report_service().get_latest(db, project_id, tenant_id)
+    if report is None:
+        raise HTTPException(status_code=404, detail="No reports found for this project")
+    return _report_to_response(report)
+
+
+@router.get("/{report_id}", response_model=ReportDetailResponse)
+async def get_report(
+    report_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ReportDetailResponse:
+    """Return a report by id; reports of deleted projects are not found."""
+    report = (
+        await db.execute(
+            select(Report)
+            .join(Project, Project.id == Report.project_id)
+            .where(Report.id == report_id, Project.deleted_at.is_(None))
+        )
+    ).scalar_one_or_none()
+    if report is None:
+        raise HTTPException(status_code=404, detail="Report not found")
+    return _report_to_response(report)
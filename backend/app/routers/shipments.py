@@ -1,6 +1,7 @@
 """Shipments router — paginated shipment listing per project.
 
-GET /api/projects/{id}/shipments  → paginated shipment list with filters
+GET /api/projects/{id}/shipments        → paginated shipment list with filters and sorting
+GET /api/projects/{id}/shipments/{sid}  → single shipment with full benchmark breakdown
 
 Port of backend_legacy/src/modules/parsing/entities/shipment.entity.ts
 Issue: #50
@@ -10,17 +11,20 @@ from __future__ import annotations
 
 from datetime import date, datetime
 from decimal import Decimal
+from typing import Any
 from uuid import UUID
 
 import structlog
-from fastapi import APIRouter, Depends, Query
+from fastapi import APIRouter, Depends, HTTPException, Query
 from pydantic import BaseModel, ConfigDict
 from pydantic.alias_generators import to_camel
-from sqlalchemy import select
+from sqlalchemy import func, select
 from sqlalchemy.ext.asyncio import AsyncSession
+from sqlalchemy.orm import aliased
+from sqlalchemy.orm.util import AliasedClass
 
 from app.middleware.tenant_middleware import get_current_tenant_db
-from app.models.database import Shipment, ShipmentBenchmark
+from app.models.database import Carrier, Shipment, ShipmentBenchmark, TariffTable, Upload
 
 logger = structlog.get_logger(__name__)
 
@@ -71,6 +75,36 @@ class ShipmentResponse(BaseModel):
     benchmark: BenchmarkSummary | None = None
 
 
+class BenchmarkDetail(BenchmarkSummary):
+    """Full benchmark incl. the tariff engine's CostBreakdownItem list."""
+
+    tariff_table_id: UUID | None = None
+    tariff_name: str | None = None
+    tariff_upload_id: UUID | None = None
+    zone_calculated: int | None = None
+    chargeable_weight: Decimal | None = None
+    chargeable_basis: str | None = None
+    expected_base_amount: Decimal | None = None
+    expected_diesel_amount: Decimal | None = None
+    expected_toll_amount: Decimal | None = None
+    currency: str | None = None
+    diesel_basis_used: str | None = None
+    diesel_pct_used: Decimal | None = None
+    calc_version: str | None = None
+    cost_breakdown: list[dict[str, Any]] | None = None
+
+
+class ShipmentDetailResponse(ShipmentResponse):
+    invoice_number: str | None = None
+    carrier_name: str | None = None
+    upload_filename: str | None = None
+    actual_other_amount: Decimal | None = None
+    missing_fields: list[str] | None = None
+    extraction_method: str | None = None
+    confidence_score: Decimal | None = None
+    benchmark: BenchmarkDetail | None = None
+
+
 class ShipmentPage(BaseModel):
     model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
 
@@ -81,6 +115,51 @@ class ShipmentPage(BaseModel):
     total_pages: int
 
 
+# ---------------------------------------------------------------------------
+# Helpers
+# ---------------------------------------------------------------------------
+
+# Whitelist of sortable columns — keys are the camelCase names the frontend sends.
+_SORT_COLUMNS = {
+    "date": Shipment.date,
+    "referenceNumber": Shipment.reference_number,
+    "originZip": Shipment.origin_zip,
+    "destZip": Shipment.dest_zip,
+    "weightKg": Shipment.weight_kg,
+    "actualTotalAmount": Shipment.actual_total_amount,
+    "completenessScore": Shipment.completeness_score,
+}
+# Sorted on the shipment's latest benchmark (see _latest_benchmarks)
+_BENCHMARK_SORT_COLUMNS = {
+    "deltaAmount": "delta_amount",
+    "deltaPct": "delta_pct",
+}
+
+
+def _latest_benchmarks(*conditions: Any) -> AliasedClass[ShipmentBenchmark]:
+    """Newest shipment_benchmark row per shipment, as an aliased entity.
+
+    Re-benchmarking appends rows, so joining shipment_benchmark directly would
+    repeat shipments and match stale classifications. get_shipment picks the
+    newest row the same way.
+    """
+    ranked = (
+        select(
+            ShipmentBenchmark,
+            func.row_number()
+            .over(
+                partition_by=ShipmentBenchmark.shipment_id,
+                order_by=ShipmentBenchmark.created_at.desc(),
+            )
+            .label("benchmark_rank"),
+        )
+        .where(*conditions)
+        .subquery()
+    )
+    latest = select(ranked).where(ranked.c.benchmark_rank == 1).subquery("latest_benchmark")
+    return aliased(ShipmentBenchmark, latest)
+
+
 # ---------------------------------------------------------------------------
 # Endpoints
 # ---------------------------------------------------------------------------
@@ -93,9 +172,24 @@ async def list_shipments(
     page_size: int = Query(50, ge=1, le=500),
     classification: str | None = Query(None, description="Filter by benchmark classification"),
     carrier_id: UUID | None = Query(None),
+    date_from: date | None = Query(None, description="Shipment date lower bound (inclusive)"),
+    date_to: date | None = Query(None, description="Shipment date upper bound (inclusive)"),
+    origin_country: str | None = Query(None, min_length=2, max_length=2),
+    dest_country: str | None = Query(None, min_length=2, max_length=2),
+    origin_zip_prefix: str | None = Query(None, max_length=10),
+    dest_zip_prefix: str | None = Query(None, max_length=10),
+    min_completeness: Decimal | None = Query(None, ge=0, le=1),
+    max_completeness: Decimal | None = Query(None, ge=0, le=1),
+    sort_by: str = Query(
+        "date", description="One of: " + ", ".join([*_SORT_COLUMNS, *_BENCHMARK_SORT_COLUMNS])
+    ),
+    sort_dir: str = Query("desc", pattern="^(asc|desc)$"),
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> ShipmentPage:
-    """List shipments for a project with pagination and optional filters."""
+    """List shipments for a project with pagination, optional filters and sorting."""
+    if sort_by not in _SORT_COLUMNS and sort_by not in _BENCHMARK_SORT_COLUMNS:
+        raise HTTPException(status_code=422, detail=f"Unsupported sort_by '{sort_by}'")
+
     base_q = select(Shipment).where(
         Shipment.project_id == project_id,
         Shipment.deleted_at.is_(None),
@@ -103,38 +197,62 @@ async def list_shipments(
 
     if carrier_id is not None:
         base_q = base_q.where(Shipment.carrier_id == carrier_id)
+    if date_from is not None:
+        base_q = base_q.where(Shipment.date >= date_from)
+    if date_to is not None:
+        base_q = base_q.where(Shipment.date <= date_to)
+    if origin_country:
+        base_q = base_q.where(Shipment.origin_country == origin_country.upper())
+    if dest_country:
+        base_q = base_q.where(Shipment.dest_country == dest_country.upper())
+    if origin_zip_prefix:
+        base_q = base_q.where(Shipment.origin_zip.startswith(origin_zip_prefix, autoescape=True))
+    if dest_zip_prefix:
+        base_q = base_q.where(Shipment.dest_zip.startswith(dest_zip_prefix, autoescape=True))
+    if min_completeness is not None:
+        base_q = base_q.where(Shipment.completeness_score >= min_completeness)
+    if max_completeness is not None:
+        base_q = base_q.where(Shipment.completeness_score <= max_completeness)
 
-    # Apply classification filter via join if needed
+    # Apply classification filter via join if needed; delta sorting needs the
+    # benchmark too but must keep shipments that have not been benchmarked yet.
+    latest_bm = _latest_benchmarks()
     if classification is not None:
         base_q = base_q.join(
-            ShipmentBenchmark,
-            ShipmentBenchmark.shipment_id == Shipment.id,
+            latest_bm,
+            latest_bm.shipment_id == Shipment.id,
             isouter=False,
-        ).where(ShipmentBenchmark.classification == classification)
+        ).where(latest_bm.classification == classification)
+    elif sort_by in _BENCHMARK_SORT_COLUMNS:
+        base_q = base_q.join(
+            latest_bm,
+            latest_bm.shipment_id == Shipment.id,
+            isouter=True,
+        )
+    if sort_by in _BENCHMARK_SORT_COLUMNS:
+        sort_col = getattr(latest_bm, _BENCHMARK_SORT_COLUMNS[sort_by])
+    else:
+        sort_col = _SORT_COLUMNS[sort_by]
 
     # Count total
-    from sqlalchemy import func
-
     count_q = select(func.count()).select_from(base_q.subquery())
     total: int = (await db.execute(count_q)).scalar_one()
 
     # Paginated rows
+    order = sort_col.asc().nulls_last() if sort_dir == "asc" else sort_col.desc().nulls_last()
     offset = (page - 1) * page_size
     rows = (
         await db.execute(
-            base_q.order_by(Shipment.date.desc(), Shipment.id).offset(offset).limit(page_size)
+            base_q.order_by(order, Shipment.id).offset(offset).limit(page_size)
         )
     ).scalars().all()
 
-    # Fetch benchmarks for these shipments in one query
+    # Fetch the latest benchmark of these shipments in one query
     ship_ids = [s.id for s in rows]
     benchmarks: dict[UUID, ShipmentBenchmark] = {}
     if ship_ids:
-        bm_rows = (
-            await db.execute(
-                select(ShipmentBenchmark).where(ShipmentBenchmark.shipment_id.in_(ship_ids))
-            )
-        ).scalars().all()
+        page_bm = _latest_benchmarks(ShipmentBenchmark.shipment_id.in_(ship_ids))
+        bm_rows = (await db.execute(select(page_bm))).scalars().all()
         for bm_row in bm_rows:
             benchmarks[bm_row.shipment_id] = bm_row
 
@@ -174,3 +292,68 @@ async def list_shipments(
     return ShipmentPage(
         items=items, total=total, page=page, page_size=page_size, total_pages=total_pages
     )
+
+
+@router.get("/{project_id}/shipments/{shipment_id}", response_model=ShipmentDetailResponse)
+async def get_shipment(
+    project_id: UUID,
+    shipment_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ShipmentDetailResponse:
+    """Return one shipment with its benchmark and line-by-line expected cost breakdown."""
+    shipment = (
+        await db.execute(
+            select(Shipment).where(
+                Shipment.id == shipment_id,
+                Shipment.project_id == project_id,
+                Shipment.deleted_at.is_(None),
+            )
+        )
+    ).scalar_one_or_none()
+    if shipment is None:
+        raise HTTPException(status_code=404, detail="Shipment not found")
+
+    carrier_name: str | None = None
+    if shipment.carrier_id is not None:
+        carrier_name = (
+            await db.execute(select(Carrier.name).where(Carrier.id == shipment.carrier_id))
+        ).scalar_one_or_none()
+
+    upload_filename: str | None = None
+    if shipment.upload_id is not None:
+        upload_filename = (
+            await db.execute(select(Upload.filename).where(Upload.id == shipment.upload_id))
+        ).scalar_one_or_none()
+
+    # A shipment may have been re-benchmarked — the newest row wins
+    bm = (
+        await db.execute(
+            select(ShipmentBenchmark)
+            .where(ShipmentBenchmark.shipment_id == shipment.id)
+            .order_by(ShipmentBenchmark.created_at.desc())
+            .limit(1)
+        )
+    ).scalar_one_or_none()
+
+    benchmark: BenchmarkDetail | None = None
+    if bm is not None:
+        # cost_breakdown is stored as a JSONB list of CostBreakdownItem.to_dict()
+        benchmark = BenchmarkDetail.model_validate(bm)
+        if bm.tariff_table_id is not None:
+            tariff_row = (
+                await db.execute(
+                    select(TariffTable.name, TariffTable.upload_id).where(
+                        TariffTable.id == bm.tariff_table_id
+                    )
+                )
+            ).one_or_none()
+            if tariff_row is not None:
+                benchmark.tariff_name, benchmark.tariff_upload_id = tariff_row
+
+    source = shipment.source_data if isinstance(shipment.source_data, dict) else {}
+    detail = ShipmentDetailResponse.model_validate(shipment)
+    detail.invoice_number = source.get("invoice_number")
+    detail.carrier_name = carrier_name
+    detail.upload_filename = upload_filename
+    detail.benchmark = benchmark
+    return detail
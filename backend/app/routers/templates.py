@@ -0,0 +1,279 @@
+"""Templates router — parsing template library.
+
+GET    /api/templates                  → global + tenant templates (most used first)
+GET    /api/templates/statistics       → count by category, most used
+PUT    /api/templates/{id}             → edit name, notes, mappings, detection rules
+POST   /api/templates/{id}/clone       → copy a template (e.g. for a new carrier)
+DELETE /api/templates/{id}             → soft delete
+POST   /api/templates/{id}/test        → score the template against an upload
+
+Global templates (tenant_id IS NULL) are read-only; clone them to adapt.
+Thin HTTP layer over TemplateService (services/template_service.py).
+"""
+
+from __future__ import annotations
+
+import asyncio
+from datetime import datetime
+from pathlib import Path
+from typing import Any
+from uuid import UUID
+
+import structlog
+from fastapi import APIRouter, Depends, HTTPException, Request
+from pydantic import BaseModel, ConfigDict, Field
+from pydantic.alias_generators import to_camel
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.middleware.tenant_middleware import get_current_tenant_db
+from app.models.database import ParsingTemplate, Upload
+from app.services.document_service import get_document_service
+from app.services.template_service import MATCH_CONFIDENCE_THRESHOLD, get_template_service
+
+logger = structlog.get_logger(__name__)
+
+router = APIRouter(prefix="/templates", tags=["templates"])
+
+
+# ---------------------------------------------------------------------------
+# Schemas
+# ---------------------------------------------------------------------------
+
+
+class _CamelModel(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+
+class TemplateResponse(_CamelModel):
+    id: UUID
+    name: str
+    description: str | None = None
+    file_type: str
+    template_category: str | None = None
+    is_global: bool
+    usage_count: int = 0
+    last_used_at: datetime | None = None
+    created_at: datetime | None = None
+    filename_pattern: str | None = None
+    header_keywords: list[str] = []
+    mime_types: list[str] = []
+    mappings: dict[str, Any]
+
+
+class TemplateStatisticsResponse(_CamelModel):
+    total: int
+    by_category: dict[str, int]
+    most_used: list[TemplateResponse]
+
+
+class UpdateTemplateRequest(_CamelModel):
+    name: str | None = Field(None, min_length=1, max_length=255)
+    notes: str | None = None
+    mappings: dict[str, Any] | None = None
+    filename_pattern: str | None = None
+    header_keywords: list[str] | None = None
+
+
+class CloneTemplateRequest(_CamelModel):
+    name: str = Field(..., min_length=1, max_length=255)
+
+
+class TestTemplateRequest(_CamelModel):
+    upload_id: UUID
+
+
+class TemplateMatchRef(_CamelModel):
+    template_id: UUID
+    template_name: str
+    confidence: float
+
+
+class TemplateTestResponse(_CamelModel):
+    template_id: UUID
+    upload_id: UUID
+    filename: str
+    confidence: float
+    reasons: list[str]
+    threshold: float
+    # True when find_match() would pick this template for the upload
+    selected: bool
+    best_match: TemplateMatchRef | None = None
+    headers: list[str]
+
+
+# ---------------------------------------------------------------------------
+# Helpers
+# ---------------------------------------------------------------------------
+
+
+def _template_to_response(template: ParsingTemplate) -> TemplateResponse:
+    detection = template.detection or {}
+    return TemplateResponse(
+        id=template.id,
+        name=template.name,
+        description=template.description,
+        file_type=template.file_type,
+        template_category=template.template_category,
+        is_global=template.tenant_id is None,
+        usage_count=template.usage_count or 0,
+        last_used_at=template.last_used_at,
+        created_at=template.created_at,
+        filename_pattern=detection.get("filename_pattern"),
+        header_keywords=detection.get("header_keywords") or [],
+        mime_types=detection.get("mime_types") or [],
+        mappings=template.mappings or {},
+    )
+
+
+async def _upload_headers(upload: Upload) -> list[str]:
+    """Column headers of a tabular upload, as the processor passes them to find_match()."""
+    if not upload.storage_url or not Path(upload.storage_url).exists():
+        raise HTTPException(
+            status_code=409,
+            detail="Original file no longer on disk — re-upload required",
+        )
+    file_bytes = await asyncio.to_thread(Path(upload.storage_url).read_bytes)
+    result = await get_document_service().process(
+        file_bytes=file_bytes,
+        filename=upload.filename,
+        mime_type=upload.mime_type,
+    )
+    if not result.dataframes:
+        return []
+    return [str(c) for c in result.dataframes[0].columns.tolist()]
+
+
+# ---------------------------------------------------------------------------
+# Endpoints
+# ---------------------------------------------------------------------------
+
+
+@router.get("", response_model=list[TemplateResponse])
+async def list_templates(
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> list[TemplateResponse]:
+    """List global and tenant templates, most used first."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    templates = await get_template_service().find_all(db, tenant_id)
+    return [_template_to_response(t) for t in templates]
+
+
+@router.get("/statistics", response_model=TemplateStatisticsResponse)
+async def get_template_statistics(
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> TemplateStatisticsResponse:
+    """Template count by category and the five most used templates."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    stats = await get_template_service().get_statistics(db, tenant_id)
+    return TemplateStatisticsResponse(
+        total=stats["total"],
+        by_category=stats["by_category"],
+        most_used=[_template_to_response(t) for t in stats["most_used"]],
+    )
+
+
+@router.put("/{template_id}", response_model=TemplateResponse)
+async def update_template(
+    template_id: UUID,
+    body: UpdateTemplateRequest,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> TemplateResponse:
+    """Edit a tenant template. Global templates are not editable (404)."""
+    updates: dict[str, Any] = body.model_dump(
+        include={"name", "notes", "mappings"}, exclude_unset=True
+    )
+    detection_rules = body.model_dump(
+        include={"filename_pattern", "header_keywords"}, exclude_unset=True
+    )
+    if detection_rules:
+        updates["detection_rules"] = detection_rules
+    tenant_id = getattr(request.state, "tenant_id", None)
+    template = await get_template_service().update(db, template_id, tenant_id, updates)
+    logger.info("template_updated", template_id=str(template_id), fields=sorted(updates))
+    return _template_to_response(template)
+
+
+@router.post("/{template_id}/clone", response_model=TemplateResponse, status_code=201)
+async def clone_template(
+    template_id: UUID,
+    body: CloneTemplateRequest,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> TemplateResponse:
+    """Copy a template (global or tenant) into the tenant's namespace."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    template = await get_template_service().clone(
+        db, template_id, tenant_id, body.name.strip()
+    )
+    return _template_to_response(template)
+
+
+@router.delete("/{template_id}", status_code=204)
+async def delete_template(
+    template_id: UUID,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> None:
+    """Soft-delete a tenant template."""
+    tenant_id = getattr(request.state, "tenant_id", None)
+    await get_template_service().delete(db, template_id, tenant_id)
+
+
+@router.post("/{template_id}/test", response_model=TemplateTestResponse)
+async def test_template(
+    template_id: UUID,
+    body: TestTemplateRequest,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> TemplateTestResponse:
+    """Score a template against an upload exactly as find_match() would.
+
+    Does not change usage stats. Also reports which template find_match()
+    would pick, so a low score can be compared with the winner.
+    """
+    tenant_id = getattr(request.state, "tenant_id", None)
+    template = (
+        await db.execute(
+            select(ParsingTemplate).where(
+                ParsingTemplate.id == template_id,
+                ParsingTemplate.deleted_at.is_(None),
+            )
+        )
+    ).scalar_one_or_none()
+    if template is None:
+        raise HTTPException(status_code=404, detail=f"Template {template_id} not found")
+
+    upload = (
+        await db.execute(select(Upload).where(Upload.id == body.upload_id))
+    ).scalar_one_or_none()
+    if upload is None:
+        raise HTTPException(status_code=404, detail="Upload not found")
+
+    headers = await _upload_headers(upload)
+    ranked = await get_template_service().rank_templates(
+        db, upload, tenant_id, file_content=",".join(headers) if headers else None
+    )
+
+    own = next((m for m in ranked if m.template.id == template_id), None)
+    best = ranked[0] if ranked and ranked[0].confidence >= MATCH_CONFIDENCE_THRESHOLD else None
+    return TemplateTestResponse(
+        template_id=template_id,
+        upload_id=upload.id,
+        filename=upload.filename,
+        confidence=own.confidence if own else 0.0,
+        reasons=own.reasons if own else [f"MIME type {upload.mime_type} not supported"],
+        threshold=MATCH_CONFIDENCE_THRESHOLD,
+        selected=best is not None and best.template.id == template_id,
+        best_match=TemplateMatchRef(
+            template_id=best.template.id,
+            template_name=best.template.name,
+            confidence=best.confidence,
+        )
+        if best
+        else None,
+        headers=headers,
+    )
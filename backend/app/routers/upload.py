@@ -1,42 +1,103 @@
 """Upload router — file ingestion endpoint.
 
 POST /api/uploads                → create upload record + enqueue background processing
-GET  /api/uploads                → list uploads (optional ?project_id=)
+GET  /api/uploads                → list uploads (optional ?project_id=, ?parent_upload_id=)
+POST /api/uploads/duplicates     → existing uploads of the tenant with the given SHA-256 hashes
+POST   /api/uploads/sessions     → start (or resume) a chunked upload of a large file
+GET    /api/uploads/sessions     → open chunked uploads (optional ?project_id=)
+PUT    /api/uploads/sessions/{session_id}/chunks/{index} → store one chunk (raw body)
+POST   /api/uploads/sessions/{session_id}/complete → assemble, verify fileHash, create upload
+DELETE /api/uploads/sessions/{session_id}        → abort and drop stored chunks
+GET  /api/uploads/events         → SSE status stream of a project's uploads (?project_id=)
 GET  /api/uploads/{upload_id}    → poll status
+GET  /api/uploads/{upload_id}/events → SSE status + pipeline stage stream of one upload
+                                      (plus "vision" events of a page analysis run)
+POST /api/uploads/{upload_id}/review/accept → store reviewed column mapping + re-parse
 GET    /api/uploads/{upload_id}/detail  → full upload record (all DB fields + shipments)
 GET    /api/uploads/{upload_id}/file    → download the original file
+GET    /api/uploads/{upload_id}/source  → page sizes (PDF / image) or row preview (CSV / XLSX)
+GET    /api/uploads/{upload_id}/pages/{page_number} → one page rendered as PNG (?thumbnail=true)
+GET    /api/uploads/{upload_id}/locate?q= → positions of a value in the PDF text layer
+GET    /api/uploads/{upload_id}/vision-pages → latest vision pipeline run, page by page
+POST   /api/uploads/{upload_id}/vision-pages → start the vision pipeline over all pages
+POST   /api/uploads/{upload_id}/vision-pages/{page_number}/extract → re-extract one page
+                                          (optionally as a different page type)
 DELETE /api/uploads/{upload_id}         → delete upload, shipments, and file from disk
+                                          (ZIP archives / e-mails: with their child uploads)
+
+Uploads of deleted projects are left out of lists and answer 404.
 """
 
 from __future__ import annotations
 
-from datetime import date, datetime
+import asyncio
+import json
+from collections.abc import AsyncIterator
+from datetime import UTC, date, datetime
 from decimal import Decimal
 from pathlib import Path
 from typing import Any
 from uuid import UUID
 
 import structlog
-from fastapi import APIRouter, BackgroundTasks, Depends, Form, HTTPException, Request, UploadFile
-from fastapi.responses import FileResponse
+from fastapi import (
+    APIRouter,
+    BackgroundTasks,
+    Depends,
+    Form,
+    HTTPException,
+    Query,
+    Request,
+    Response,
+    UploadFile,
+)
+from fastapi.responses import FileResponse, StreamingResponse
 from pydantic import BaseModel, ConfigDict, Field
 from pydantic.alias_generators import to_camel
-from sqlalchemy import delete, select
+from sqlalchemy import delete, exists, or_, select
+from sqlalchemy import update as sa_update
 from sqlalchemy.exc import IntegrityError
 from sqlalchemy.ext.asyncio import AsyncSession
 
+from app.config import settings
 from app.middleware.tenant_middleware import get_current_tenant_db
 from app.models.database import (
     ExtractionCorrection,
     InvoiceHeader,
     InvoiceLine,
     ManualMapping,
+    Project,
     RawExtraction,
     Shipment,
     ShipmentBenchmark,
     Upload,
+    UploadSession,
+)
+from app.services.chunked_upload_service import get_chunked_upload_service
+from app.services.parsing.csv_parser import (
+    DATE_FORMATS,
+    DECIMAL_SEPARATORS,
+    IGNORED_COLUMNS_KEY,
+    SOURCE_ROW_KEY,
+    TEMPLATE_FIELDS,
+    WEIGHT_UNITS,
+)
+from app.services.parsing.vision_pipeline.pipeline_types import PageType
+from app.services.source_document_service import get_source_document_service, source_kind
+from app.services.template_service import get_template_service
+from app.services.upload_event_service import (
+    TERMINAL_STATUSES,
+    UploadEvent,
+    VisionEvent,
+    get_upload_event_service,
+    project_key,
+    upload_key,
 )
 from app.services.upload_processor_service import get_upload_processor
+from app.services.vision_inspection_service import (
+    VisionInspection,
+    get_vision_inspection_service,
+)
 from app.utils.hash import sha256_bytes
 
 logger = structlog.get_logger(__name__)
@@ -58,6 +119,53 @@ class UploadResponse(BaseModel):
     file_hash: str
 
 
+class DuplicateCheckRequest(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    file_hashes: list[str] = Field(max_length=500)
+
+
+class DuplicateUploadResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    file_hash: str
+    upload_id: UUID
+    filename: str
+    project_id: UUID | None = None
+    project_name: str | None = None
+    status: str | None = None
+    received_at: datetime | None = None
+
+
+class UploadSessionCreate(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    filename: str = Field(min_length=1, max_length=500)
+    file_size: int = Field(gt=0)
+    # SHA-256 of the whole file, computed by the client; verified on complete
+    file_hash: str = Field(pattern=r"^[0-9a-fA-F]{64}$")
+    mime_type: str | None = None
+    project_id: UUID | None = None
+    doc_type: str | None = None
+    allow_duplicate: bool = False
+
+
+class UploadSessionResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    session_id: UUID
+    filename: str
+    file_size: int
+    file_hash: str
+    chunk_size: int
+    total_chunks: int
+    received_chunks: list[int]
+    status: str
+    project_id: UUID | None = None
+    upload_id: UUID | None = None
+    created_at: datetime | None = None
+
+
 class UploadStatusResponse(BaseModel):
     model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
 
@@ -84,6 +192,10 @@ class UploadListItemResponse(BaseModel):
     parse_method: str | None = None
     confidence: float | None = None
     received_at: datetime | None = None
+    # Set on documents unpacked from a ZIP archive or e-mail
+    parent_upload_id: UUID | None = None
+    # container (archive / mail headers) or source (path inside the container)
+    meta: dict[str, Any] | None = None
 
 
 class UploadDetailResponse(BaseModel):
@@ -100,6 +212,7 @@ class UploadDetailResponse(BaseModel):
     mime_type: str | None = None
     doc_type: str | None = None
     storage_url: str | None = None
+    parent_upload_id: UUID | None = None
     status: str | None = None
     parse_method: str | None = None
     confidence: float | None = None
@@ -131,6 +244,154 @@ class ShipmentSummary(BaseModel):
     currency: str | None = None
     actual_total_amount: Decimal | None = None
     completeness_score: Decimal | None = None
+    # Position in the source file (from source_data) for the source viewer
+    source_page: int | None = None
+    source_bbox: list[float] | None = None
+    source_row: int | None = None
+
+
+class SourcePageResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    page_number: int
+    width: float
+    height: float
+
+
+class SourceSheetRowResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    # 1 = first data row below the header (matches shipment sourceRow)
+    row_number: int
+    values: list[str | None]
+
+
+class SourceSheetResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    name: str
+    columns: list[str]
+    rows: list[SourceSheetRowResponse]
+    truncated: bool = False
+
+
+class SourceDocumentResponse(BaseModel):
+    """What the source viewer can show: pages (PDF / image) or sheets (CSV / XLSX)."""
+
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    kind: str
+    pages: list[SourcePageResponse] = []
+    sheets: list[SourceSheetResponse] = []
+
+
+class TextHitResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    page_number: int
+    # x0, y0, x1, y1 as fractions of the page size, origin top-left
+    bbox: list[float]
+
+
+class FieldSourcesResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    field: str
+    direct_ocr: int
+    llm_inferred: int
+    missing: int
+
+
+class VisionPageResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    page_number: int
+    page_type: str
+    classified_type: str
+    line_count: int
+    skip_reason: str | None = None
+    confidence: float | None = None
+    direct_ocr_ratio: float | None = None
+    completeness_ratio: float | None = None
+    fields: list[FieldSourcesResponse] = []
+    issues: list[str] = []
+
+
+class VisionInspectionResponse(BaseModel):
+    """Latest vision pipeline run of an upload; pages is empty before the first run."""
+
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    extraction_id: UUID | None = None
+    extracted_at: datetime | None = None
+    confidence: float | None = None
+    review_action: str | None = None
+    pages: list[VisionPageResponse] = []
+    # A run is in flight; its progress arrives on GET /{upload_id}/events
+    running: bool = False
+
+
+class PageExtractRequest(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    page_type: PageType
+
+
+class ReviewMappingItem(BaseModel):
+    """One target field → source column assignment with optional transformations."""
+
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    field: str
+    column: str = Field(..., min_length=1, max_length=100)
+    date_format: str | None = None
+    decimal: str | None = None
+    unit: str | None = None
+
+
+class ReviewAcceptRequest(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    mappings: list[ReviewMappingItem] = Field(..., min_length=1)
+    ignored_columns: list[str] = Field(default_factory=list)
+    save_as_template: bool = False
+    template_name: str | None = Field(None, max_length=255)
+
+
+class ReviewAcceptResponse(BaseModel):
+    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)
+
+    upload_id: UUID
+    status: str
+    template_id: UUID | None = None
+
+
+def _validate_review_mappings(body: ReviewAcceptRequest) -> None:
+    """Reject unknown fields/options and contradictory assignments with 422."""
+    seen: set[str] = set()
+    for m in body.mappings:
+        if m.field not in TEMPLATE_FIELDS:
+            raise HTTPException(status_code=422, detail=f"Unknown target field '{m.field}'")
+        if m.field in seen:
+            raise HTTPException(status_code=422, detail=f"Field '{m.field}' is mapped twice")
+        seen.add(m.field)
+        if m.column in body.ignored_columns:
+            raise HTTPException(
+                status_code=422,
+                detail=f"Column '{m.column}' is both mapped and ignored",
+            )
+        for value, allowed, label in (
+            (m.date_format, DATE_FORMATS, "dateFormat"),
+            (m.decimal, DECIMAL_SEPARATORS, "decimal"),
+            (m.unit, WEIGHT_UNITS, "unit"),
+        ):
+            if value is not None and value not in allowed:
+                raise HTTPException(
+                    status_code=422,
+                    detail=f"Invalid {label} '{value}'. Must be one of: {list(allowed)}",
+                )
+    if body.save_as_template and not (body.template_name or "").strip():
+        raise HTTPException(status_code=422, detail="templateName is required to save a template")
 
 
 # ---------------------------------------------------------------------------
@@ -141,19 +402,74 @@ class ShipmentSummary(BaseModel):
 @router.get("", response_model=list[UploadListItemResponse])
 async def list_uploads(
     project_id: UUID | None = None,
+    parent_upload_id: UUID | None = None,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> list[UploadListItemResponse]:
-    """List uploads for the current tenant, optionally filtered by project."""
-    q = select(Upload).order_by(Upload.received_at.desc())
+    """List uploads for the current tenant, optionally filtered by project or container.
+
+    Uploads of deleted projects are left out.
+    """
+    q = (
+        select(Upload)
+        .outerjoin(Project, Project.id == Upload.project_id)
+        .where(_outside_deleted_projects())
+        .order_by(Upload.received_at.desc())
+    )
     if project_id is not None:
         q = q.where(Upload.project_id == project_id)
+    if parent_upload_id is not None:
+        q = q.where(Upload.parent_upload_id == parent_upload_id)
     rows = (await db.execute(q)).scalars().all()
     return [UploadListItemResponse.model_validate(u) for u in rows]
 
 
+@router.post("/duplicates", response_model=list[DuplicateUploadResponse])
+async def find_duplicate_uploads(
+    body: DuplicateCheckRequest,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> list[DuplicateUploadResponse]:
+    """Existing uploads of the tenant whose file_hash is one of the given hashes.
+
+    The upload form hashes files in the browser and asks before sending a
+    duplicate; one hash can match several uploads (newest first). Uploads of
+    deleted projects are not offered.
+    """
+    hashes = {h.strip().lower() for h in body.file_hashes if h.strip()}
+    if not hashes:
+        return []
+    rows = (
+        await db.execute(
+            select(Upload, Project.name)
+            .outerjoin(Project, Project.id == Upload.project_id)
+            .where(Upload.file_hash.in_(hashes), _outside_deleted_projects())
+            .order_by(Upload.received_at.desc())
+        )
+    ).all()
+    return [
+        DuplicateUploadResponse(
+            file_hash=upload.file_hash,
+            upload_id=upload.id,
+            filename=upload.filename,
+            project_id=upload.project_id,
+            project_name=project_name,
+            status=upload.status,
+            received_at=upload.received_at,
+        )
+        for upload, project_name in rows
+    ]
+
+
 _VALID_DOC_TYPES = {"invoice", "tariff", "shipment_csv"}
 
 
+def _check_doc_type(doc_type: str | None) -> None:
+    if doc_type is not None and doc_type not in _VALID_DOC_TYPES:
+        raise HTTPException(
+            status_code=422,
+            detail=f"Invalid doc_type '{doc_type}'. Must be one of: {sorted(_VALID_DOC_TYPES)}",
+        )
+
+
 @router.post("", response_model=UploadResponse, status_code=202)
 async def create_upload(
     request: Request,
@@ -161,68 +477,151 @@ async def create_upload(
     file: UploadFile,
     project_id: UUID | None = Form(None),
     doc_type: str | None = Form(None),
+    allow_duplicate: bool = Form(False),
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> UploadResponse:
     """Receive a file, create an upload record, and kick off background processing.
 
-    Returns 202 Accepted immediately; poll GET /uploads/{id} for status updates.
+    Returns 202 Accepted immediately; follow GET /uploads/{id}/events (or poll
+    GET /uploads/{id}) for status updates.
     Duplicate uploads (same file_hash + tenant) return the existing record without
-    re-processing.
+    re-processing, unless allow_duplicate is set — the user confirmed in the
+    upload form that the same file should be processed again.
 
     doc_type (optional): explicit type hint — skips auto-detection when provided.
     Allowed values: "invoice", "tariff", "shipment_csv".
     """
-    if doc_type is not None and doc_type not in _VALID_DOC_TYPES:
-        raise HTTPException(
-            status_code=422,
-            detail=f"Invalid doc_type '{doc_type}'. Must be one of: {sorted(_VALID_DOC_TYPES)}",
-        )
+    _check_doc_type(doc_type)
 
     content = await file.read()
     file_hash = sha256_bytes(content)
 
-    # Extract tenant_id from the DB session state (set by get_current_tenant_db)
-    # We need the raw tenant_id UUID for the background task — read it from the
-    # upload once persisted.
+    if not allow_duplicate:
+        existing = await _existing_upload(db, file_hash, file.filename)
+        if existing is not None:
+            return existing
+        allow_duplicate = await _hash_reserved(db, file_hash)
+
+    # Store file to a temp location; real storage layer can be added later
+    storage_path = _storage_path(file_hash, file.filename)
+    storage_path.write_bytes(content)
 
-    # Deduplication check
+    return await _register_upload(
+        db,
+        request,
+        background_tasks,
+        filename=file.filename or "upload",
+        file_hash=file_hash,
+        mime_type=file.content_type,
+        storage_path=storage_path,
+        project_id=project_id,
+        doc_type=doc_type,
+        allow_duplicate=allow_duplicate,
+    )
+
+
+def _storage_path(file_hash: str, filename: str | None) -> Path:
+    storage_dir = Path("uploads")
+    storage_dir.mkdir(parents=True, exist_ok=True)
+    return storage_dir / f"{file_hash}{Path(filename or 'upload').suffix}"
+
+
+def _outside_deleted_projects() -> Any:
+    """Condition for a query outer-joining Project: the upload's project is not deleted."""
+    return or_(Upload.project_id.is_(None), Project.deleted_at.is_(None))
+
+
+def _live_upload(upload_id: UUID) -> Any:
+    """Select one upload; uploads of deleted projects are treated as gone."""
+    return (
+        select(Upload)
+        .outerjoin(Project, Project.id == Upload.project_id)
+        .where(Upload.id == upload_id, _outside_deleted_projects())
+    )
+
+
+async def _existing_upload(
+    db: AsyncSession, file_hash: str, filename: str | None
+) -> UploadResponse | None:
+    """Newest upload of the tenant with this hash, as returned for deduplicated uploads.
+
+    Uploads of deleted projects are not reused — the file is stored again.
+    """
     existing = (
         await db.execute(
-            select(Upload).where(Upload.file_hash == file_hash)
+            select(Upload)
+            .outerjoin(Project, Project.id == Upload.project_id)
+            .where(Upload.file_hash == file_hash, _outside_deleted_projects())
+            .order_by(Upload.received_at.desc())
+            .limit(1)
         )
     ).scalar_one_or_none()
+    if existing is None:
+        return None
+    logger.info(
+        "upload_deduplicated",
+        upload_id=str(existing.id),
+        filename=filename,
+        file_hash=file_hash,
+    )
+    return UploadResponse(
+        upload_id=existing.id,
+        status=existing.status or "pending",
+        filename=existing.filename,
+        file_hash=existing.file_hash,
+    )
 
-    if existing is not None:
-        logger.info(
-            "upload_deduplicated",
-            upload_id=str(existing.id),
-            filename=file.filename,
-            file_hash=file_hash,
-        )
-        return UploadResponse(
-            upload_id=existing.id,
-            status=existing.status or "pending",
-            filename=existing.filename,
-            file_hash=existing.file_hash,
-        )
 
-    # Persist upload record
-    # Store file to a temp location; real storage layer can be added later
-    storage_dir = Path("uploads")
-    storage_dir.mkdir(parents=True, exist_ok=True)
-    storage_path = storage_dir / f"{file_hash}{Path(file.filename or 'upload').suffix}"
-    storage_path.write_bytes(content)
+async def _hash_reserved(db: AsyncSession, file_hash: str) -> bool:
+    """Whether an upload of a deleted project holds the tenant's unique slot for this hash.
 
+    Called when _existing_upload found nothing; the new row is then stored as
+    allow_duplicate so it does not collide with uq_upload_tenant_file_hash.
+    """
+    return bool(
+        (
+            await db.execute(
+                select(
+                    exists().where(Upload.file_hash == file_hash, ~Upload.allow_duplicate)
+                )
+            )
+        ).scalar()
+    )
+
+
+async def _register_upload(
+    db: AsyncSession,
+    request: Request,
+    background_tasks: BackgroundTasks,
+    *,
+    filename: str,
+    file_hash: str,
+    mime_type: str | None,
+    storage_path: Path,
+    project_id: UUID | None,
+    doc_type: str | None,
+    allow_duplicate: bool,
+    upload_session: UploadSession | None = None,
+) -> UploadResponse:
+    """Insert the upload row for a stored file, commit and enqueue processing.
+
+    Without allow_duplicate the row is unique per tenant and hash; losing that
+    race against a concurrent upload of the same file returns 409.
+    A chunked upload passes its session, which is marked completed in the same
+    transaction — after the commit the tenant setting is gone and RLS would
+    hide the session from a later UPDATE.
+    """
     tenant_id_str = getattr(request.state, "tenant_id", None)
     upload = Upload(
         tenant_id=tenant_id_str,
-        filename=file.filename or "upload",
+        filename=filename,
         file_hash=file_hash,
-        mime_type=file.content_type,
+        mime_type=mime_type,
         project_id=project_id,
         storage_url=str(storage_path),
         status="pending",
         doc_type=doc_type,
+        allow_duplicate=allow_duplicate,
     )
     db.add(upload)
     try:
@@ -236,12 +635,15 @@ async def create_upload(
 
     upload_id: UUID = upload.id
     tenant_id: UUID = upload.tenant_id
+    if upload_session is not None:
+        _complete_session(upload_session, upload_id)
 
     logger.info(
         "upload_created",
         upload_id=str(upload_id),
-        filename=file.filename,
+        filename=filename,
         file_hash=file_hash,
+        allow_duplicate=allow_duplicate,
     )
 
     # Commit NOW — same race-condition fix as reprocess: background tasks run
@@ -249,6 +651,8 @@ async def create_upload(
     # released before the background task's first UPDATE upload.
     await db.commit()
 
+    get_upload_event_service().publish(upload_id, "pending", project_id=project_id)
+
     # Enqueue background processing
     processor = get_upload_processor()
     background_tasks.add_task(processor.process_upload, upload_id, tenant_id)
@@ -256,11 +660,363 @@ async def create_upload(
     return UploadResponse(
         upload_id=upload_id,
         status="pending",
-        filename=upload.filename,
+        filename=filename,
         file_hash=file_hash,
     )
 
 
+# ---------------------------------------------------------------------------
+# Chunked (resumable) uploads
+# ---------------------------------------------------------------------------
+
+
+def _session_response(session: UploadSession) -> UploadSessionResponse:
+    return UploadSessionResponse(
+        session_id=session.id,
+        filename=session.filename,
+        file_size=session.file_size,
+        file_hash=session.file_hash,
+        chunk_size=session.chunk_size,
+        total_chunks=session.total_chunks,
+        received_chunks=get_chunked_upload_service().received_chunks(session.id),
+        status=session.status,
+        project_id=session.project_id,
+        upload_id=session.upload_id,
+        created_at=session.created_at,
+    )
+
+
+def _complete_session(session: UploadSession, upload_id: UUID) -> None:
+    session.status = "completed"
+    session.upload_id = upload_id
+    session.updated_at = datetime.now(UTC)
+
+
+async def _open_session(db: AsyncSession, session_id: UUID) -> UploadSession:
+    session = (
+        await db.execute(select(UploadSession).where(UploadSession.id == session_id))
+    ).scalar_one_or_none()
+    if session is None:
+        raise HTTPException(status_code=404, detail="Upload session not found")
+    if session.status != "open":
+        raise HTTPException(status_code=409, detail=f"Upload session is {session.status}")
+    return session
+
+
+@router.post("/sessions", response_model=UploadSessionResponse, status_code=201)
+async def create_upload_session(
+    body: UploadSessionCreate,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> UploadSessionResponse:
+    """Start a chunked upload, or resume the open session for the same file.
+
+    A client that lost its connection (or the page) hashes the file again and
+    gets the existing session back with receivedChunks, so only the missing
+    chunks are sent. Project, doc type and allowDuplicate follow the latest call.
+    """
+    _check_doc_type(body.doc_type)
+    max_bytes = settings.max_chunked_upload_size_mb * 1024 * 1024
+    if body.file_size > max_bytes:
+        raise HTTPException(
+            status_code=413,
+            detail=f"File exceeds {settings.max_chunked_upload_size_mb} MB",
+        )
+
+    file_hash = body.file_hash.lower()
+    session = (
+        await db.execute(
+            select(UploadSession)
+            .where(
+                UploadSession.file_hash == file_hash,
+                UploadSession.file_size == body.file_size,
+                UploadSession.status == "open",
+            )
+            .order_by(UploadSession.created_at.desc())
+            .limit(1)
+        )
+    ).scalar_one_or_none()
+
+    if session is None:
+        chunk_size = settings.upload_chunk_size_mb * 1024 * 1024
+        user_id: str | None = getattr(request.state, "user_id", None)
+        session = UploadSession(
+            tenant_id=getattr(request.state, "tenant_id", None),
+            filename=body.filename,
+            mime_type=body.mime_type,
+            file_size=body.file_size,
+            file_hash=file_hash,
+            chunk_size=chunk_size,
+            total_chunks=(body.file_size + chunk_size - 1) // chunk_size,
+            created_by=UUID(user_id) if user_id else None,
+        )
+        db.add(session)
+    session.filename = body.filename
+    session.project_id = body.project_id
+    session.doc_type = body.doc_type
+    session.allow_duplicate = body.allow_duplicate
+    session.updated_at = datetime.now(UTC)
+    await db.flush()
+    await db.refresh(session)
+
+    logger.info(
+        "upload_session_started",
+        session_id=str(session.id),
+        filename=body.filename,
+        file_size=body.file_size,
+        total_chunks=session.total_chunks,
+    )
+    return _session_response(session)
+
+
+@router.get("/sessions", response_model=list[UploadSessionResponse])
+async def list_upload_sessions(
+    project_id: UUID | None = None,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> list[UploadSessionResponse]:
+    """Open chunked uploads — shown in the upload form as resumable."""
+    q = (
+        select(UploadSession)
+        .where(UploadSession.status == "open")
+        .order_by(UploadSession.created_at.desc())
+    )
+    if project_id is not None:
+        q = q.where(UploadSession.project_id == project_id)
+    rows = (await db.execute(q)).scalars().all()
+    return [_session_response(s) for s in rows]
+
+
+@router.put("/sessions/{session_id}/chunks/{index}", response_model=UploadSessionResponse)
+async def put_upload_chunk(
+    session_id: UUID,
+    index: int,
+    request: Request,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> UploadSessionResponse:
+    """Store chunk `index` (0-based) from the raw request body.
+
+    Every chunk but the last must be exactly chunkSize bytes. Sending a chunk
+    again replaces it, so a client can safely retry after a network error.
+    """
+    session = await _open_session(db, session_id)
+    if not 0 <= index < session.total_chunks:
+        raise HTTPException(
+            status_code=422,
+            detail=f"Chunk index must be between 0 and {session.total_chunks - 1}",
+        )
+    expected = (
+        session.chunk_size
+        if index < session.total_chunks - 1
+        else session.file_size - session.chunk_size * (session.total_chunks - 1)
+    )
+    data = await request.body()
+    if len(data) != expected:
+        raise HTTPException(
+            status_code=422,
+            detail=f"Chunk {index} has {len(data)} bytes, expected {expected}",
+        )
+
+    await get_chunked_upload_service().write_chunk(session_id, index, data)
+    session.updated_at = datetime.now(UTC)
+    return _session_response(session)
+
+
+@router.post(
+    "/sessions/{session_id}/complete", response_model=UploadResponse, status_code=202
+)
+async def complete_upload_session(
+    session_id: UUID,
+    request: Request,
+    background_tasks: BackgroundTasks,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> UploadResponse:
+    """Assemble the chunks, verify size and SHA-256, then create the upload.
+
+    From here on the file is processed like a single-request upload, including
+    deduplication. A hash mismatch drops all chunks (422) — the client has to
+    send the file again. Missing chunks return 409 with their indices.
+    """
+    session = await _open_session(db, session_id)
+    chunks = get_chunked_upload_service()
+
+    response: UploadResponse | None = None
+    allow_duplicate = session.allow_duplicate
+    if not allow_duplicate:
+        response = await _existing_upload(db, session.file_hash, session.filename)
+        if response is None:
+            allow_duplicate = await _hash_reserved(db, session.file_hash)
+
+    if response is None:
+        storage_path = _storage_path(session.file_hash, session.filename)
+        assembling = storage_path.with_name(f"{session_id}.assembling")
+        try:
+            assembled = await chunks.assemble(session_id, session.total_chunks, assembling)
+        except ValueError as exc:
+            raise HTTPException(status_code=409, detail=str(exc))
+        if assembled.file_hash != session.file_hash or assembled.size != session.file_size:
+            assembling.unlink(missing_ok=True)
+            chunks.discard(session_id)
+            logger.warning(
+                "upload_session_hash_mismatch",
+                session_id=str(session_id),
+                expected=session.file_hash,
+                actual=assembled.file_hash,
+            )
+            raise HTTPException(
+                status_code=422,
+                detail="Assembled file does not match fileHash — upload the file again",
+            )
+        assembling.replace(storage_path)
+
+        # Commits the upload together with the completed session
+        response = await _register_upload(
+            db,
+            request,
+            background_tasks,
+            filename=session.filename,
+            file_hash=assembled.file_hash,
+            mime_type=session.mime_type,
+            storage_path=storage_path,
+            project_id=session.project_id,
+            doc_type=session.doc_type,
+            allow_duplicate=allow_duplicate,
+            upload_session=session,
+        )
+    else:
+        _complete_session(session, response.upload_id)
+
+    chunks.discard(session_id)
+    logger.info(
+        "upload_session_completed",
+        session_id=str(session_id),
+        upload_id=str(response.upload_id),
+    )
+    return response
+
+
+@router.delete("/sessions/{session_id}", status_code=204)
+async def abort_upload_session(
+    session_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> None:
+    """Abort an open chunked upload and delete its chunks."""
+    await _open_session(db, session_id)
+    await db.execute(
+        sa_update(UploadSession)
+        .where(UploadSession.id == session_id)
+        .values(status="aborted", updated_at=datetime.now(UTC))
+    )
+    get_chunked_upload_service().discard(session_id)
+
+
+# ---------------------------------------------------------------------------
+# Live status streams (server-sent events)
+# ---------------------------------------------------------------------------
+
+_HEARTBEAT_SECONDS = 15.0
+
+
+def _sse(data: dict[str, Any], event: str = "status") -> str:
+    return f"event: {event}\ndata: {json.dumps(data)}\n\n"
+
+
+def _snapshot(upload: Upload) -> dict[str, Any]:
+    """Current state of an upload: DB status plus the in-memory stage while in flight."""
+    status = upload.status or "pending"
+    latest = get_upload_event_service().latest(upload.id)
+    if latest is not None and status not in TERMINAL_STATUSES:
+        return latest.to_dict()
+    return UploadEvent(upload_id=upload.id, status=status, project_id=upload.project_id).to_dict()
+
+
+async def _event_stream(
+    request: Request,
+    key: str,
+    queue: asyncio.Queue[UploadEvent | VisionEvent],
+    snapshot: list[dict[str, Any]],
+    close_on_terminal: bool,
+    vision: VisionEvent | None = None,
+) -> AsyncIterator[str]:
+    """Yield the snapshot, then live events; a comment line keeps proxies from timing out.
+
+    With close_on_terminal the stream ends once the upload is in a terminal
+    status and no vision run (snapshot `vision`, then vision events) is in flight.
+    """
+    status = snapshot[0]["status"] if snapshot else None
+    running = vision is not None and vision.status == "running"
+    try:
+        for data in snapshot:
+            yield _sse(data)
+        if vision is not None:
+            yield _sse(vision.to_dict(), "vision")
+        if close_on_terminal and status in TERMINAL_STATUSES and not running:
+            return
+        while not await request.is_disconnected():
+            try:
+                event = await asyncio.wait_for(queue.get(), timeout=_HEARTBEAT_SECONDS)
+            except TimeoutError:
+                yield ": keepalive\n\n"
+                continue
+            if isinstance(event, VisionEvent):
+                yield _sse(event.to_dict(), "vision")
+                running = event.status == "running"
+            else:
+                yield _sse(event.to_dict())
+                status = event.status
+            if close_on_terminal and status in TERMINAL_STATUSES and not running:
+                return
+    finally:
+        get_upload_event_service().unsubscribe(key, queue)
+
+
+def _streaming_response(stream: AsyncIterator[str]) -> StreamingResponse:
+    return StreamingResponse(
+        stream,
+        media_type="text/event-stream",
+        # X-Accel-Buffering: nginx would otherwise buffer the stream
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
+
+@router.get("/events")
+async def stream_project_upload_events(
+    request: Request,
+    project_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> StreamingResponse:
+    """Stream status and stage changes of all uploads of a project.
+
+    Starts with one event per upload still pending or parsing, then pushes
+    every change; the stream stays open until the client disconnects.
+    """
+    project = (
+        await db.execute(
+            select(Project.id).where(Project.id == project_id, Project.deleted_at.is_(None))
+        )
+    ).scalar_one_or_none()
+    if project is None:
+        raise HTTPException(status_code=404, detail="Project not found")
+
+    # Subscribe before reading the snapshot so no change falls in between
+    key = project_key(project_id)
+    queue = get_upload_event_service().subscribe(key)
+    uploads = (
+        await db.execute(
+            select(Upload).where(
+                Upload.project_id == project_id,
+                Upload.status.in_(("pending", "parsing")),
+            )
+        )
+    ).scalars().all()
+    snapshot = [_snapshot(u) for u in uploads]
+    # Release the connection — the stream itself never touches the DB
+    await db.commit()
+
+    return _streaming_response(
+        _event_stream(request, key, queue, snapshot, close_on_terminal=False)
+    )
+
+
 @router.get("/{upload_id}", response_model=UploadStatusResponse)
 async def get_upload_status(
     upload_id: UUID,
@@ -268,7 +1024,7 @@ async def get_upload_status(
 ) -> UploadStatusResponse:
     """Poll processing status for an upload."""
     upload = (
-        await db.execute(select(Upload).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
 
     if upload is None:
@@ -285,6 +1041,41 @@ async def get_upload_status(
     )
 
 
+@router.get("/{upload_id}/events")
+async def stream_upload_events(
+    request: Request,
+    upload_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> StreamingResponse:
+    """Stream status and pipeline stage changes of one upload.
+
+    Starts with the current state and the last vision run of the pages panel;
+    closes after a terminal status (parsed, partial_success, failed,
+    needs_manual_review) once no vision run is in flight.
+    """
+    key = upload_key(upload_id)
+    queue = get_upload_event_service().subscribe(key)
+    upload = (
+        await db.execute(_live_upload(upload_id))
+    ).scalar_one_or_none()
+    if upload is None:
+        get_upload_event_service().unsubscribe(key, queue)
+        raise HTTPException(status_code=404, detail="Upload not found")
+    snapshot = [_snapshot(upload)]
+    await db.commit()
+
+    return _streaming_response(
+        _event_stream(
+            request,
+            key,
+            queue,
+            snapshot,
+            close_on_terminal=True,
+            vision=get_upload_event_service().vision_run(upload_id),
+        )
+    )
+
+
 @router.post("/{upload_id}/reprocess", response_model=UploadStatusResponse, status_code=202)
 async def reprocess_upload(
     upload_id: UUID,
@@ -301,18 +1092,11 @@ async def reprocess_upload(
     doc_type (optional): override the document type for this reprocess run.
     Allowed values: "invoice", "tariff", "shipment_csv".
     """
-    if doc_type is not None and doc_type not in _VALID_DOC_TYPES:
-        raise HTTPException(
-            status_code=422,
-            detail=f"Invalid doc_type '{doc_type}'. Must be one of: {sorted(_VALID_DOC_TYPES)}",
-        )
-    from datetime import UTC, datetime
-
-    from sqlalchemy import update as sa_update
+    _check_doc_type(doc_type)
 
     # Verify upload exists and file is on disk before touching status
     upload = (
-        await db.execute(select(Upload).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
 
     if upload is None:
@@ -345,7 +1129,7 @@ async def reprocess_upload(
             doc_type=doc_type,  # None → auto-detect; explicit value → skip detection
             updated_at=datetime.now(UTC),
         )
-        .returning(Upload.tenant_id, Upload.filename)
+        .returning(Upload.tenant_id, Upload.filename, Upload.project_id)
     )
     row = result.one_or_none()
 
@@ -361,6 +1145,7 @@ async def reprocess_upload(
     # background task's UPDATE upload blocks on the lock held by this session.
     await db.commit()
 
+    get_upload_event_service().publish(upload_id, "pending", project_id=row.project_id)
     processor = get_upload_processor()
     background_tasks.add_task(processor.process_upload, upload_id, tenant_id)
 
@@ -381,6 +1166,96 @@ async def reprocess_upload(
     )
 
 
+@router.post(
+    "/{upload_id}/review/accept", response_model=ReviewAcceptResponse, status_code=202
+)
+async def accept_review_mappings(
+    upload_id: UUID,
+    body: ReviewAcceptRequest,
+    request: Request,
+    background_tasks: BackgroundTasks,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> ReviewAcceptResponse:
+    """Store the reviewer's column mapping and re-parse the upload with it.
+
+    The mapping replaces any earlier review of this upload (manual_mapping rows
+    are soft-deleted) and takes precedence over template matching on re-parse.
+    With saveAsTemplate the mapping is also stored as a named parsing template
+    so future uploads of the same format match it.
+    """
+    _validate_review_mappings(body)
+
+    upload = (
+        await db.execute(_live_upload(upload_id))
+    ).scalar_one_or_none()
+    if upload is None:
+        raise HTTPException(status_code=404, detail="Upload not found")
+
+    user_id: str | None = getattr(request.state, "user_id", None)
+    if not user_id:
+        raise HTTPException(status_code=401, detail="User not authenticated")
+    now = datetime.now(UTC)
+
+    await db.execute(
+        sa_update(ManualMapping)
+        .where(ManualMapping.upload_id == upload_id, ManualMapping.deleted_at.is_(None))
+        .values(deleted_at=now)
+    )
+    for m in body.mappings:
+        rule = {
+            k: v
+            for k, v in (("date_format", m.date_format), ("decimal", m.decimal), ("unit", m.unit))
+            if v
+        }
+        db.add(
+            ManualMapping(
+                upload_id=upload_id,
+                field_name=m.field,
+                source_column=m.column,
+                mapping_rule=rule or None,
+                confidence=Decimal("1.00"),
+                created_by=UUID(user_id),
+            )
+        )
+    for column in dict.fromkeys(body.ignored_columns):
+        db.add(
+            ManualMapping(
+                upload_id=upload_id,
+                field_name=IGNORED_COLUMNS_KEY,
+                source_column=column,
+                created_by=UUID(user_id),
+            )
+        )
+
+    template_id: UUID | None = None
+    if body.save_as_template:
+        template = await get_template_service().create_from_mappings(
+            db,
+            tenant_id=upload.tenant_id,
+            upload_id=upload_id,
+            mappings=[m.model_dump(exclude_none=True) for m in body.mappings],
+            template_name=(body.template_name or "").strip(),
+            ignored_columns=body.ignored_columns,
+        )
+        template_id = template.id
+
+    await db.flush()
+    logger.info(
+        "upload_review_mappings_accepted",
+        upload_id=str(upload_id),
+        field_count=len(body.mappings),
+        ignored_count=len(body.ignored_columns),
+        template_id=str(template_id) if template_id else None,
+    )
+
+    # Keep the detected doc type so the re-parse goes straight to the tabular path
+    doc_type = upload.doc_type if upload.doc_type in _VALID_DOC_TYPES else None
+    status = await reprocess_upload(upload_id, background_tasks, doc_type=doc_type, db=db)
+    return ReviewAcceptResponse(
+        upload_id=upload_id, status=status.status, template_id=template_id
+    )
+
+
 @router.get("/{upload_id}/detail", response_model=UploadDetailResponse)
 async def get_upload_detail(
     upload_id: UUID,
@@ -392,7 +1267,7 @@ async def get_upload_detail(
     against the original file.
     """
     upload = (
-        await db.execute(select(Upload).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
 
     if upload is None:
@@ -420,7 +1295,7 @@ async def list_upload_shipments(
 ) -> list[ShipmentSummary]:
     """Return all shipments parsed from a specific upload."""
     upload = (
-        await db.execute(select(Upload.id).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
     if upload is None:
         raise HTTPException(status_code=404, detail="Upload not found")
@@ -437,18 +1312,17 @@ async def list_upload_shipments(
         summary = ShipmentSummary.model_validate(s)
         if isinstance(s.source_data, dict):
             summary.invoice_number = s.source_data.get("invoice_number")
+            summary.source_page = s.source_data.get("page_number")
+            summary.source_bbox = s.source_data.get("bbox")
+            summary.source_row = s.source_data.get(SOURCE_ROW_KEY)
         summaries.append(summary)
     return summaries
 
 
-@router.get("/{upload_id}/file")
-async def download_upload_file(
-    upload_id: UUID,
-    db: AsyncSession = Depends(get_current_tenant_db),
-) -> FileResponse:
-    """Serve the original uploaded file for download / manual comparison."""
+async def _stored_file(db: AsyncSession, upload_id: UUID) -> tuple[Upload, Path]:
+    """Upload row and path of its stored file; 404 when either is missing."""
     upload = (
-        await db.execute(select(Upload).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
 
     if upload is None:
@@ -460,7 +1334,16 @@ async def download_upload_file(
     file_path = Path(upload.storage_url)
     if not file_path.exists():
         raise HTTPException(status_code=404, detail="File not found on disk")
+    return upload, file_path
+
 
+@router.get("/{upload_id}/file")
+async def download_upload_file(
+    upload_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> FileResponse:
+    """Serve the original uploaded file for download / manual comparison."""
+    upload, file_path = await _stored_file(db, upload_id)
     return FileResponse(
         path=str(file_path),
         filename=upload.filename,
@@ -468,37 +1351,252 @@ async def download_upload_file(
     )
 
 
+@router.get("/{upload_id}/source", response_model=SourceDocumentResponse)
+async def get_upload_source(
+    upload_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> SourceDocumentResponse:
+    """Page sizes (PDF / image) or row preview (CSV / XLSX) for the source viewer."""
+    upload, file_path = await _stored_file(db, upload_id)
+    try:
+        source = await asyncio.to_thread(
+            get_source_document_service().describe, file_path, upload.filename
+        )
+    except ValueError as exc:
+        raise HTTPException(status_code=422, detail=str(exc))
+    return SourceDocumentResponse(
+        kind=source.kind,
+        pages=[
+            SourcePageResponse(page_number=p.page_number, width=p.width, height=p.height)
+            for p in source.pages
+        ],
+        sheets=[
+            SourceSheetResponse(
+                name=sheet.name,
+                columns=sheet.columns,
+                rows=[
+                    SourceSheetRowResponse(row_number=number, values=values)
+                    for number, values in sheet.rows
+                ],
+                truncated=sheet.truncated,
+            )
+            for sheet in source.sheets
+        ],
+    )
+
+
+@router.get("/{upload_id}/pages/{page_number}")
+async def get_upload_page_image(
+    upload_id: UUID,
+    page_number: int,
+    thumbnail: bool = Query(False),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> Response:
+    """One page of a PDF / image upload rendered as PNG (1-based page number)."""
+    upload, file_path = await _stored_file(db, upload_id)
+    if source_kind(upload.filename) not in ("pdf", "image"):
+        raise HTTPException(status_code=422, detail="Upload has no pages")
+    try:
+        png = await asyncio.to_thread(
+            get_source_document_service().render_page,
+            file_path,
+            page_number,
+            thumbnail=thumbnail,
+        )
+    except ValueError as exc:
+        raise HTTPException(status_code=404, detail=str(exc))
+    return Response(
+        content=png,
+        media_type="image/png",
+        # The stored file never changes — only deleted with the upload
+        headers={"Cache-Control": "private, max-age=3600"},
+    )
+
+
+@router.get("/{upload_id}/locate", response_model=list[TextHitResponse])
+async def locate_in_upload(
+    upload_id: UUID,
+    q: str = Query(..., min_length=1, max_length=200),
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> list[TextHitResponse]:
+    """Where a value appears in the text layer of a PDF upload (empty for scans)."""
+    upload, file_path = await _stored_file(db, upload_id)
+    if source_kind(upload.filename) != "pdf":
+        return []
+    hits = await asyncio.to_thread(get_source_document_service().locate, file_path, q)
+    return [TextHitResponse(page_number=h.page_number, bbox=list(h.bbox)) for h in hits]
+
+
+def _inspection_response(
+    upload_id: UUID, inspection: VisionInspection | None
+) -> VisionInspectionResponse:
+    run = get_upload_event_service().vision_run(upload_id)
+    running = run is not None and run.status == "running"
+    if inspection is None:
+        return VisionInspectionResponse(running=running)
+    return VisionInspectionResponse(
+        extraction_id=inspection.extraction_id,
+        extracted_at=inspection.extracted_at,
+        confidence=inspection.confidence,
+        review_action=inspection.review_action,
+        pages=[
+            VisionPageResponse(
+                page_number=p.page_number,
+                page_type=p.page_type,
+                classified_type=p.classified_type,
+                line_count=p.line_count,
+                skip_reason=p.skip_reason,
+                confidence=p.confidence,
+                direct_ocr_ratio=p.direct_ocr_ratio,
+                completeness_ratio=p.completeness_ratio,
+                fields=[
+                    FieldSourcesResponse(
+                        field=f.field,
+                        direct_ocr=f.direct_ocr,
+                        llm_inferred=f.llm_inferred,
+                        missing=f.missing,
+                    )
+                    for f in p.fields
+                ],
+                issues=p.issues,
+            )
+            for p in inspection.pages
+        ],
+        running=running,
+    )
+
+
+def _check_no_vision_run(upload_id: UUID) -> None:
+    run = get_upload_event_service().vision_run(upload_id)
+    if run is not None and run.status == "running":
+        raise HTTPException(status_code=409, detail="Page analysis is already running")
+
+
+@router.get("/{upload_id}/vision-pages", response_model=VisionInspectionResponse)
+async def get_vision_pages(
+    upload_id: UUID,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> VisionInspectionResponse:
+    """Page types, per-page confidence and skipped pages of the latest vision run."""
+    if (await db.execute(_live_upload(upload_id))).scalar_one_or_none() is None:
+        raise HTTPException(status_code=404, detail="Upload not found")
+    return _inspection_response(
+        upload_id, await get_vision_inspection_service().inspection(db, upload_id)
+    )
+
+
+@router.post(
+    "/{upload_id}/vision-pages", response_model=VisionInspectionResponse, status_code=202
+)
+async def analyse_vision_pages(
+    upload_id: UUID,
+    background_tasks: BackgroundTasks,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> VisionInspectionResponse:
+    """Start the vision pipeline over every page; stored as a new raw_extraction.
+
+    One LLM call per page, so the run is a background task: progress and the
+    outcome arrive as "vision" events on GET /{upload_id}/events, the response
+    is the latest stored run. Returns 409 while a run is in flight (also for
+    the single-page re-extraction).
+    Review only — shipments of the upload are not touched.
+    """
+    upload, file_path = await _stored_file(db, upload_id)
+    service = get_vision_inspection_service()
+    try:
+        service.check_supported(upload)
+    except ValueError as exc:
+        raise HTTPException(status_code=422, detail=str(exc))
+
+    _check_no_vision_run(upload_id)
+
+    # Published before the response so a stream opened right after sees the run
+    get_upload_event_service().publish_vision(upload_id, "running", step="rendering")
+    background_tasks.add_task(service.run_analysis, upload_id, upload.tenant_id, file_path)
+    logger.info("vision_inspection_queued", upload_id=str(upload_id))
+    return _inspection_response(upload_id, await service.inspection(db, upload_id))
+
+
+@router.post(
+    "/{upload_id}/vision-pages/{page_number}/extract",
+    response_model=VisionInspectionResponse,
+)
+async def extract_vision_page(
+    upload_id: UUID,
+    page_number: int,
+    body: PageExtractRequest,
+    db: AsyncSession = Depends(get_current_tenant_db),
+) -> VisionInspectionResponse:
+    """Re-extract one page (1-based) as body.pageType; other pages keep the latest run."""
+    upload, file_path = await _stored_file(db, upload_id)
+    _check_no_vision_run(upload_id)
+    try:
+        inspection = await get_vision_inspection_service().rerun_page(
+            db, upload, file_path, page_number, body.page_type
+        )
+    except ValueError as exc:
+        raise HTTPException(status_code=422, detail=str(exc))
+    return _inspection_response(upload_id, inspection)
+
+
 @router.delete("/{upload_id}", status_code=204)
 async def delete_upload(
     upload_id: UUID,
     db: AsyncSession = Depends(get_current_tenant_db),
 ) -> None:
-    """Delete an upload and all its associated shipments. Also removes the file from disk."""
+    """Delete an upload and all its associated shipments. Also removes the file from disk.
+
+    Deleting a ZIP archive or e-mail also deletes the child uploads unpacked from it.
+    """
     upload = (
-        await db.execute(select(Upload).where(Upload.id == upload_id))
+        await db.execute(_live_upload(upload_id))
     ).scalar_one_or_none()
 
     if upload is None:
         raise HTTPException(status_code=404, detail="Upload not found")
 
-    shipment_ids = select(Shipment.id).where(Shipment.upload_id == upload_id)
+    uploads = [upload]
+    parent_ids = [upload_id]
+    while parent_ids:
+        children = (
+            (await db.execute(select(Upload).where(Upload.parent_upload_id.in_(parent_ids))))
+            .scalars()
+            .all()
+        )
+        uploads.extend(children)
+        parent_ids = [c.id for c in children]
+    upload_ids = [u.id for u in uploads]
+
+    shipment_ids = select(Shipment.id).where(Shipment.upload_id.in_(upload_ids))
 
     # Delete in FK-safe order
     await db.execute(delete(ShipmentBenchmark).where(ShipmentBenchmark.shipment_id.in_(shipment_ids)))
     await db.execute(delete(InvoiceLine).where(InvoiceLine.shipment_id.in_(shipment_ids)))
-    await db.execute(delete(Shipment).where(Shipment.upload_id == upload_id))
-    await db.execute(delete(InvoiceHeader).where(InvoiceHeader.upload_id == upload_id))
-    await db.execute(delete(ManualMapping).where(ManualMapping.upload_id == upload_id))
-    await db.execute(delete(RawExtraction).where(RawExtraction.upload_id == upload_id))
-    await db.execute(delete(ExtractionCorrection).where(ExtractionCorrection.upload_id == upload_id))
-    await db.execute(delete(Upload).where(Upload.id == upload_id))
+    await db.execute(delete(Shipment).where(Shipment.upload_id.in_(upload_ids)))
+    await db.execute(delete(InvoiceHeader).where(InvoiceHeader.upload_id.in_(upload_ids)))
+    await db.execute(delete(ManualMapping).where(ManualMapping.upload_id.in_(upload_ids)))
+    await db.execute(delete(RawExtraction).where(RawExtraction.upload_id.in_(upload_ids)))
+    await db.execute(
+        delete(ExtractionCorrection).where(ExtractionCorrection.upload_id.in_(upload_ids))
+    )
+    # Children first — parent_upload_id would otherwise be set to NULL on the way
+    for removed in reversed(uploads):
+        await db.execute(delete(Upload).where(Upload.id == removed.id))
     await db.flush()
 
-    # Remove file from disk (best-effort)
-    if upload.storage_url:
-        file_path = Path(upload.storage_url)
-        if file_path.exists():
+    for removed in uploads:
+        if not removed.storage_url:
+            continue
+        # Duplicates of the same file share one stored copy
+        shared = (
+            await db.execute(
+                select(Upload.id).where(Upload.storage_url == removed.storage_url).limit(1)
+            )
+        ).scalar_one_or_none()
+        file_path = Path(removed.storage_url)
+        # Remove file from disk (best-effort)
+        if shared is None and file_path.exists():
             try:
                 file_path.unlink()
             except OSError as exc:
-                logger.warning("delete_file_failed", upload_id=str(upload_id), error=str(exc))
+                logger.warning("delete_file_failed", upload_id=str(removed.id), error=str(exc))
@@ -8,6 +8,7 @@ Key features:
 - Calls TariffEngineService.calculate_expected_cost() per shipment
 - Progress callback for status tracking
 - Returns per-shipment results with error isolation
+- recalculate(): the same as a background task in its own tenant session
 """
 
 from __future__ import annotations
@@ -19,9 +20,10 @@ from typing import Any
 from uuid import UUID
 
 import structlog
-from sqlalchemy import select
+from sqlalchemy import select, text
 from sqlalchemy.ext.asyncio import AsyncSession
 
+from app.db.session import AsyncSessionLocal
 from app.models.database import Shipment
 from app.services.tariff_engine_service import BenchmarkResult, TariffEngineService
 
@@ -174,6 +176,30 @@ class BenchmarkService:
             results=results,
         )
 
+    async def recalculate(self, shipment_ids: list[UUID], tenant_id: UUID) -> None:
+        """Background task: re-benchmark shipments after their carrier changed.
+
+        Opens its own tenant session and commits the new benchmark rows; the
+        earlier rows stay and the newest one per shipment wins. Errors are
+        logged, nothing is raised.
+        """
+        try:
+            async with AsyncSessionLocal() as db:
+                await db.execute(
+                    text("SELECT set_config('app.current_tenant', :tid, true)"),
+                    {"tid": str(tenant_id)},
+                )
+                await self.calculate_benchmarks_bulk(db, shipment_ids, tenant_id)
+                await db.commit()
+        except Exception as exc:
+            self.logger.error(
+                "bulk_benchmark_failed",
+                tenant_id=str(tenant_id),
+                total=len(shipment_ids),
+                error=str(exc),
+                exc_info=True,
+            )
+
     # -----------------------------------------------------------------------
     # Private helpers
     # -----------------------------------------------------------------------
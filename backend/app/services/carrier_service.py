@@ -14,6 +14,9 @@ Key features:
   Successful non-exact matches are auto-saved as new aliases.
 - create_alias() / delete_alias() / list_aliases(): alias CRUD
 - get_carrier_by_code(): look up carrier by normalized code
+- get_carrier_usage() / list_carrier_uploads(): tenant records referencing a carrier
+- preview_merge() / merge_carriers(): fold duplicate or placeholder carriers into
+  a surviving carrier, turning their names into aliases
 - update_billing_type_map(): update carrier JSONB billing_type → line_type map
 """
 
@@ -21,19 +24,30 @@ from __future__ import annotations
 
 import json
 import re
-from dataclasses import dataclass
+from dataclasses import dataclass, field
+from datetime import UTC, datetime
 from typing import Any
 from uuid import UUID
 
 import anthropic
 import structlog
 from fastapi import HTTPException
-from sqlalchemy import delete, select
+from sqlalchemy import and_, delete, exists, func, select, union, update
 from sqlalchemy.dialects.postgresql import insert
+from sqlalchemy.exc import IntegrityError
 from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.config import settings
-from app.models.database import Carrier, CarrierAlias
+from app.models.database import (
+    Carrier,
+    CarrierAlias,
+    DieselFloater,
+    DieselPriceBracket,
+    InvoiceHeader,
+    Shipment,
+    TariffTable,
+    Upload,
+)
 
 logger = structlog.get_logger(__name__)
 
@@ -95,6 +109,81 @@ class CarrierResolutionResult:
     new_alias_saved: bool = False
 
 
+@dataclass
+class CarrierUsage:
+    """Counts of tenant records that reference a carrier."""
+
+    carrier_id: UUID
+    shipment_count: int = 0
+    upload_count: int = 0
+    tariff_count: int = 0
+    diesel_floater_count: int = 0
+    bracket_count: int = 0
+    alias_count: int = 0
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "carrier_id": str(self.carrier_id),
+            "shipment_count": self.shipment_count,
+            "upload_count": self.upload_count,
+            "tariff_count": self.tariff_count,
+            "diesel_floater_count": self.diesel_floater_count,
+            "bracket_count": self.bracket_count,
+            "alias_count": self.alias_count,
+        }
+
+
+@dataclass
+class CarrierMergePreview:
+    """What merge_carriers() would change, computed without writing."""
+
+    target_carrier_id: UUID
+    sources: list[CarrierUsage] = field(default_factory=list)
+    # Source rows dropped because the survivor already has an entry for the same key
+    floater_conflict_count: int = 0
+    bracket_conflict_count: int = 0
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "target_carrier_id": str(self.target_carrier_id),
+            "sources": [s.to_dict() for s in self.sources],
+            "floater_conflict_count": self.floater_conflict_count,
+            "bracket_conflict_count": self.bracket_conflict_count,
+        }
+
+
+@dataclass
+class CarrierMergeResult:
+    """Outcome of merge_carriers()."""
+
+    target_carrier_id: UUID
+    shipment_ids: list[UUID] = field(default_factory=list)
+    tariffs_repointed: int = 0
+    diesel_floaters_repointed: int = 0
+    brackets_repointed: int = 0
+    invoice_headers_repointed: int = 0
+    aliases_repointed: int = 0
+    floaters_dropped: int = 0
+    brackets_dropped: int = 0
+    new_aliases: list[str] = field(default_factory=list)
+    deleted_carrier_ids: list[UUID] = field(default_factory=list)
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "target_carrier_id": str(self.target_carrier_id),
+            "shipments_repointed": len(self.shipment_ids),
+            "tariffs_repointed": self.tariffs_repointed,
+            "diesel_floaters_repointed": self.diesel_floaters_repointed,
+            "brackets_repointed": self.brackets_repointed,
+            "invoice_headers_repointed": self.invoice_headers_repointed,
+            "aliases_repointed": self.aliases_repointed,
+            "floaters_dropped": self.floaters_dropped,
+            "brackets_dropped": self.brackets_dropped,
+            "new_aliases": self.new_aliases,
+            "deleted_carrier_ids": [str(c) for c in self.deleted_carrier_ids],
+        }
+
+
 class CarrierService:
     """Carrier alias resolution and billing type management.
 
@@ -526,6 +615,326 @@ class CarrierService:
         result = await db.execute(select(Carrier).order_by(Carrier.name))
         return list(result.scalars().all())
 
+    # -----------------------------------------------------------------------
+    # Carrier usage
+    # -----------------------------------------------------------------------
+
+    @staticmethod
+    def _carrier_upload_ids(carrier_id: UUID) -> Any:
+        """Subquery of upload ids that produced shipments or tariffs for a carrier."""
+        return union(
+            select(Shipment.upload_id).where(
+                Shipment.carrier_id == carrier_id,
+                Shipment.upload_id.is_not(None),
+                Shipment.deleted_at.is_(None),
+            ),
+            select(TariffTable.upload_id).where(
+                TariffTable.carrier_id == carrier_id,
+                TariffTable.upload_id.is_not(None),
+            ),
+        ).subquery()
+
+    async def get_carrier_usage(
+        self,
+        db: AsyncSession,
+        carrier_id: UUID,
+    ) -> CarrierUsage:
+        """Count the tenant's records that point at a carrier.
+
+        Uploads have no carrier column — an upload counts when at least one
+        of its shipments or tariff tables belongs to the carrier.
+
+        Args:
+            db: Async DB session with tenant context set (RLS scopes the counts).
+            carrier_id: Carrier to inspect.
+
+        Returns:
+            CarrierUsage with one count per referencing table.
+        """
+
+        async def _count(stmt: Any) -> int:
+            return int((await db.execute(stmt)).scalar_one() or 0)
+
+        upload_ids = self._carrier_upload_ids(carrier_id)
+        return CarrierUsage(
+            carrier_id=carrier_id,
+            shipment_count=await _count(
+                select(func.count()).select_from(Shipment).where(
+                    Shipment.carrier_id == carrier_id,
+                    Shipment.deleted_at.is_(None),
+                )
+            ),
+            upload_count=await _count(select(func.count()).select_from(upload_ids)),
+            tariff_count=await _count(
+                select(func.count()).select_from(TariffTable).where(
+                    TariffTable.carrier_id == carrier_id
+                )
+            ),
+            diesel_floater_count=await _count(
+                select(func.count()).select_from(DieselFloater).where(
+                    DieselFloater.carrier_id == carrier_id
+                )
+            ),
+            bracket_count=await _count(
+                select(func.count()).select_from(DieselPriceBracket).where(
+                    DieselPriceBracket.carrier_id == carrier_id
+                )
+            ),
+            alias_count=await _count(
+                select(func.count()).select_from(CarrierAlias).where(
+                    CarrierAlias.carrier_id == carrier_id
+                )
+            ),
+        )
+
+    async def list_carrier_uploads(
+        self,
+        db: AsyncSession,
+        carrier_id: UUID,
+        limit: int = 50,
+    ) -> list[Upload]:
+        """Return the newest uploads whose shipments or tariffs reference a carrier."""
+        upload_ids = self._carrier_upload_ids(carrier_id)
+        result = await db.execute(
+            select(Upload)
+            .where(Upload.id.in_(select(upload_ids.c.upload_id)))
+            .order_by(Upload.created_at.desc())
+            .limit(limit)
+        )
+        return list(result.scalars().all())
+
+    # -----------------------------------------------------------------------
+    # Carrier merge
+    # -----------------------------------------------------------------------
+
+    @staticmethod
+    def _floater_conflicts(target_id: UUID, source_ids: list[UUID]) -> Any:
+        """Source floaters whose (tenant, valid_from) already exists on the target."""
+        target = DieselFloater.__table__.alias("target_floater")
+        return and_(
+            DieselFloater.carrier_id.in_(source_ids),
+            exists().where(
+                target.c.carrier_id == target_id,
+                target.c.tenant_id == DieselFloater.tenant_id,
+                target.c.valid_from == DieselFloater.valid_from,
+            ),
+        )
+
+    @staticmethod
+    def _bracket_conflicts(target_id: UUID, source_ids: list[UUID]) -> Any:
+        """Source brackets whose (tenant, price_ct_max, valid_from) already exists on the target."""
+        target = DieselPriceBracket.__table__.alias("target_bracket")
+        return and_(
+            DieselPriceBracket.carrier_id.in_(source_ids),
+            exists().where(
+                target.c.carrier_id == target_id,
+                target.c.tenant_id == DieselPriceBracket.tenant_id,
+                target.c.price_ct_max == DieselPriceBracket.price_ct_max,
+                target.c.valid_from == DieselPriceBracket.valid_from,
+            ),
+        )
+
+    async def preview_merge(
+        self,
+        db: AsyncSession,
+        target_id: UUID,
+        source_ids: list[UUID],
+    ) -> CarrierMergePreview:
+        """Count what merging source carriers into target would re-point.
+
+        Args:
+            db: Async DB session with tenant context set.
+            target_id: Surviving carrier.
+            source_ids: Carriers to fold into the target.
+
+        Returns:
+            CarrierMergePreview with per-source usage and key conflicts.
+        """
+        preview = CarrierMergePreview(target_carrier_id=target_id)
+        for source_id in source_ids:
+            preview.sources.append(await self.get_carrier_usage(db, source_id))
+
+        preview.floater_conflict_count = int(
+            (
+                await db.execute(
+                    select(func.count()).select_from(DieselFloater).where(
+                        self._floater_conflicts(target_id, source_ids)
+                    )
+                )
+            ).scalar_one()
+            or 0
+        )
+        preview.bracket_conflict_count = int(
+            (
+                await db.execute(
+                    select(func.count()).select_from(DieselPriceBracket).where(
+                        self._bracket_conflicts(target_id, source_ids)
+                    )
+                )
+            ).scalar_one()
+            or 0
+        )
+        return preview
+
+    async def merge_carriers(
+        self,
+        db: AsyncSession,
+        tenant_id: UUID,
+        target_id: UUID,
+        sources: list[Carrier],
+    ) -> CarrierMergeResult:
+        """Fold source carriers into a surviving carrier for the current tenant.
+
+        Re-points shipments, tariffs, diesel floaters, price brackets, invoice
+        headers and aliases. Floater/bracket rows that would collide with an
+        entry the target already has are dropped (the survivor wins). Each
+        source name becomes a tenant alias of the target, and unknown_carrier
+        parsing issues pointing at a source are marked resolved.
+
+        Carriers are global: a source is only deleted once nothing references
+        it any more, so other tenants' data is never orphaned.
+
+        Benchmarks are not recalculated here — callers re-run them for
+        ``result.shipment_ids``.
+
+        Args:
+            db: Async DB session with tenant context set.
+            tenant_id: Current tenant.
+            target_id: Surviving carrier.
+            sources: Carrier rows to fold into the target.
+
+        Returns:
+            CarrierMergeResult with per-table counts.
+        """
+        source_ids = [c.id for c in sources]
+        result = CarrierMergeResult(target_carrier_id=target_id)
+
+        # Uploads are resolved before re-pointing — afterwards the link is gone
+        upload_ids = list(
+            (
+                await db.execute(
+                    select(Shipment.upload_id).where(
+                        Shipment.carrier_id.in_(source_ids),
+                        Shipment.upload_id.is_not(None),
+                    ).union(
+                        select(TariffTable.upload_id).where(
+                            TariffTable.carrier_id.in_(source_ids),
+                            TariffTable.upload_id.is_not(None),
+                        )
+                    )
+                )
+            ).scalars().all()
+        )
+        result.shipment_ids = list(
+            (
+                await db.execute(
+                    select(Shipment.id).where(
+                        Shipment.carrier_id.in_(source_ids),
+                        Shipment.deleted_at.is_(None),
+                    )
+                )
+            ).scalars().all()
+        )
+
+        result.floaters_dropped = (
+            await db.execute(
+                delete(DieselFloater).where(self._floater_conflicts(target_id, source_ids))
+            )
+        ).rowcount or 0
+        result.brackets_dropped = (
+            await db.execute(
+                delete(DieselPriceBracket).where(
+                    self._bracket_conflicts(target_id, source_ids)
+                )
+            )
+        ).rowcount or 0
+
+        async def _repoint(model: Any) -> int:
+            res = await db.execute(
+                update(model)
+                .where(model.carrier_id.in_(source_ids))
+                .values(carrier_id=target_id)
+            )
+            return res.rowcount or 0
+
+        await _repoint(Shipment)
+        result.tariffs_repointed = await _repoint(TariffTable)
+        result.diesel_floaters_repointed = await _repoint(DieselFloater)
+        result.brackets_repointed = await _repoint(DieselPriceBracket)
+        result.invoice_headers_repointed = await _repoint(InvoiceHeader)
+        result.aliases_repointed = (
+            await db.execute(
+                update(CarrierAlias)
+                .where(
+                    CarrierAlias.tenant_id == tenant_id,
+                    CarrierAlias.carrier_id.in_(source_ids),
+                )
+                .values(carrier_id=target_id)
+            )
+        ).rowcount or 0
+
+        for source in sources:
+            alias_text = source.name.strip().lower()
+            if alias_text and alias_text not in result.new_aliases:
+                await self.upsert_alias(db, tenant_id, alias_text, target_id)
+                result.new_aliases.append(alias_text)
+
+        await self._resolve_placeholder_issues(db, upload_ids, source_ids, target_id)
+
+        for source in sources:
+            try:
+                async with db.begin_nested():
+                    await db.execute(delete(Carrier).where(Carrier.id == source.id))
+                result.deleted_carrier_ids.append(source.id)
+            except IntegrityError:
+                self.logger.info(
+                    "merged_carrier_kept", carrier_id=str(source.id), reason="still_referenced"
+                )
+
+        await db.flush()
+        self.logger.info(
+            "carriers_merged",
+            tenant_id=str(tenant_id),
+            target_id=str(target_id),
+            source_ids=[str(s) for s in source_ids],
+            shipments=len(result.shipment_ids),
+            tariffs=result.tariffs_repointed,
+            floaters=result.diesel_floaters_repointed,
+            brackets=result.brackets_repointed,
+            dropped=result.floaters_dropped + result.brackets_dropped,
+            deleted=len(result.deleted_carrier_ids),
+        )
+        return result
+
+    async def _resolve_placeholder_issues(
+        self,
+        db: AsyncSession,
+        upload_ids: list[UUID],
+        source_ids: list[UUID],
+        target_id: UUID,
+    ) -> None:
+        """Mark unknown_carrier parsing issues for merged placeholders as resolved."""
+        if not upload_ids:
+            return
+        source_strs = {str(s) for s in source_ids}
+        uploads = (
+            await db.execute(select(Upload).where(Upload.id.in_(upload_ids)))
+        ).scalars().all()
+        now = datetime.now(UTC).isoformat()
+        for upload in uploads:
+            issues = list(upload.parsing_issues or [])
+            changed = False
+            for i, issue in enumerate(issues):
+                if (
+                    isinstance(issue, dict)
+                    and issue.get("placeholder_carrier_id") in source_strs
+                    and not issue.get("resolved_carrier_id")
+                ):
+                    issues[i] = {**issue, "resolved_carrier_id": str(target_id), "resolved_at": now}
+                    changed = True
+            if changed:
+                upload.parsing_issues = issues
+
     # -----------------------------------------------------------------------
     # billing_type_map management
     # -----------------------------------------------------------------------
@@ -0,0 +1,136 @@
+"""ChunkedUploadService — on-disk chunk store for resumable uploads.
+
+The upload_session row (routers/upload.py) holds the metadata; this service
+only deals with the bytes:
+- write_chunk(): atomic write of one chunk (tmp file + rename), so a dropped
+  connection never leaves a half-written chunk that counts as received
+- received_chunks(): indices already on disk — what a resuming client skips
+- assemble(): concatenate all chunks into the target file while hashing, so
+  the caller can verify the client's SHA-256 before any upload row exists
+- purge_stale(): remove chunk directories of abandoned sessions
+
+Layout: <root>/<session id>/<index>.part
+"""
+
+from __future__ import annotations
+
+import asyncio
+import hashlib
+import shutil
+import time
+from dataclasses import dataclass
+from pathlib import Path
+from uuid import UUID
+
+import structlog
+
+from app.config import settings
+
+logger = structlog.get_logger(__name__)
+
+CHUNK_ROOT = Path("uploads") / "chunks"
+_COPY_BUFFER = 1024 * 1024
+
+
+@dataclass
+class AssembledFile:
+    """Result of assemble(): where the file is and what it hashes to."""
+
+    path: Path
+    size: int
+    file_hash: str
+
+
+class ChunkedUploadService:
+    """Store, list and assemble the chunks of an upload session."""
+
+    def __init__(self, root: Path = CHUNK_ROOT) -> None:
+        self.logger = structlog.get_logger(__name__)
+        self._root = root
+
+    def _session_dir(self, session_id: UUID) -> Path:
+        return self._root / str(session_id)
+
+    def _chunk_path(self, session_id: UUID, index: int) -> Path:
+        return self._session_dir(session_id) / f"{index:06d}.part"
+
+    def received_chunks(self, session_id: UUID) -> list[int]:
+        """Indices of the chunks stored for a session, ascending."""
+        directory = self._session_dir(session_id)
+        if not directory.exists():
+            return []
+        return sorted(int(p.stem) for p in directory.glob("*.part"))
+
+    async def write_chunk(self, session_id: UUID, index: int, data: bytes) -> None:
+        """Store one chunk; an existing chunk with the same index is replaced."""
+
+        def _write() -> None:
+            target = self._chunk_path(session_id, index)
+            target.parent.mkdir(parents=True, exist_ok=True)
+            tmp = target.with_suffix(".tmp")
+            tmp.write_bytes(data)
+            tmp.replace(target)
+
+        await asyncio.to_thread(_write)
+
+    async def assemble(self, session_id: UUID, total_chunks: int, target: Path) -> AssembledFile:
+        """Concatenate chunks 0…total_chunks-1 into `target` and hash the result.
+
+        Raises:
+            ValueError: a chunk is missing; nothing is written.
+        """
+        missing = sorted(set(range(total_chunks)) - set(self.received_chunks(session_id)))
+        if missing:
+            raise ValueError(f"Missing chunks: {missing[:10]}")
+
+        def _assemble() -> AssembledFile:
+            digest = hashlib.sha256()
+            size = 0
+            target.parent.mkdir(parents=True, exist_ok=True)
+            with target.open("wb") as out:
+                for index in range(total_chunks):
+                    with self._chunk_path(session_id, index).open("rb") as chunk:
+                        while block := chunk.read(_COPY_BUFFER):
+                            digest.update(block)
+                            out.write(block)
+                            size += len(block)
+            return AssembledFile(path=target, size=size, file_hash=digest.hexdigest())
+
+        return await asyncio.to_thread(_assemble)
+
+    def discard(self, session_id: UUID) -> None:
+        """Remove all chunks of a session (completed, aborted or corrupt)."""
+        shutil.rmtree(self._session_dir(session_id), ignore_errors=True)
+
+    def purge_stale(self, max_age_hours: int | None = None) -> int:
+        """Remove chunk directories untouched for `max_age_hours`; returns how many."""
+        if not self._root.exists():
+            return 0
+        hours = (
+            max_age_hours
+            if max_age_hours is not None
+            else settings.chunked_upload_retention_hours
+        )
+        cutoff = time.time() - hours * 3600
+        purged = 0
+        for directory in self._root.iterdir():
+            if directory.is_dir() and directory.stat().st_mtime < cutoff:
+                shutil.rmtree(directory, ignore_errors=True)
+                purged += 1
+        if purged:
+            self.logger.info("chunked_upload_sessions_purged", count=purged)
+        return purged
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_chunked_upload_service: ChunkedUploadService | None = None
+
+
+def get_chunked_upload_service() -> ChunkedUploadService:
+    global _chunked_upload_service
+    if _chunked_upload_service is None:
+        _chunked_upload_service = ChunkedUploadService()
+    return _chunked_upload_service
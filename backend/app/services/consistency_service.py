@@ -0,0 +1,430 @@
+"""ConsistencyService — cross-document checks within a project.
+
+CrossDocumentValidator (vision pipeline stage 4) only sees one invoice at a
+time. This service compares all imported documents of a project against each
+other and keeps the results as consistency_finding rows, so a reviewer can
+accept or fix each one and the final phase stays blocked while any is open.
+
+Checks:
+  invoice_total             (warning) — invoice total ≠ sum of its imported lines ±0.02
+  duplicate_billing         (error)   — same shipment reference on more than one invoice
+  missing_in_shipment_list  (warning) — invoiced reference absent from the shipment list
+  weight_mismatch           (warning) — invoice and shipment list disagree on weight_kg
+  amount_mismatch           (error)   — invoice and shipment list disagree on the amount
+
+A finding is identified by its fingerprint (check type + involved references).
+Re-running the check:
+- new fingerprint                → inserted as open
+- reappearing fixed finding      → reopened
+- open finding no longer found   → marked fixed
+- accepted finding               → kept as accepted
+The check stamps project.consistency_checked_at — a project without findings
+is only clean once it was checked.
+"""
+
+from __future__ import annotations
+
+from collections import defaultdict
+from collections.abc import Sequence
+from dataclasses import dataclass, field
+from datetime import UTC, datetime
+from decimal import Decimal
+from typing import Any, Literal
+from uuid import UUID
+
+import structlog
+from sqlalchemy import func, select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.models.database import ConsistencyFinding, Project, Shipment, Upload
+
+logger = structlog.get_logger(__name__)
+
+Severity = Literal["error", "warning"]
+FindingStatus = Literal["open", "accepted", "fixed"]
+
+_TOTAL_TOLERANCE = Decimal("0.02")  # EUR, same as CrossDocumentValidator
+_WEIGHT_TOLERANCE_KG = Decimal("0.5")
+_SEVERITY_ORDER = {"error": 0, "warning": 1}
+_STATUS_ORDER = {"open": 0, "accepted": 1, "fixed": 2}
+
+
+# ---------------------------------------------------------------------------
+# Result types
+# ---------------------------------------------------------------------------
+
+
+@dataclass
+class FindingRef:
+    """One upload / row involved in a finding."""
+
+    upload_id: UUID | None
+    filename: str | None = None
+    shipment_id: UUID | None = None
+    reference: str | None = None
+    row: int | None = None  # invoice line_number or shipment list source_row
+    page: int | None = None  # 1-based invoice page (vision pipeline only)
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "upload_id": str(self.upload_id) if self.upload_id else None,
+            "filename": self.filename,
+            "shipment_id": str(self.shipment_id) if self.shipment_id else None,
+            "reference": self.reference,
+            "row": self.row,
+            "page": self.page,
+        }
+
+
+@dataclass
+class Finding:
+    check_type: str
+    severity: Severity
+    fingerprint: str
+    message: str
+    refs: list[FindingRef] = field(default_factory=list)
+
+
+# ---------------------------------------------------------------------------
+# Checks (pure — operate on loaded Upload / Shipment rows)
+# ---------------------------------------------------------------------------
+
+
+def find_inconsistencies(
+    uploads: Sequence[Upload], shipments: Sequence[Shipment]
+) -> list[Finding]:
+    """All cross-document findings for one project's uploads and shipments."""
+    by_id = {u.id: u for u in uploads}
+    invoice_rows: list[Shipment] = []
+    list_rows: list[Shipment] = []
+    for s in shipments:
+        doc_type = by_id[s.upload_id].doc_type if s.upload_id in by_id else None
+        if doc_type == "invoice":
+            invoice_rows.append(s)
+        elif doc_type == "shipment_csv":
+            list_rows.append(s)
+
+    findings = _invoice_totals(uploads, invoice_rows)
+    findings += _duplicate_billing(by_id, invoice_rows)
+    findings += _against_shipment_list(by_id, invoice_rows, list_rows)
+    return findings
+
+
+def _invoice_totals(uploads: Sequence[Upload], invoice_rows: list[Shipment]) -> list[Finding]:
+    lines_by_upload: dict[UUID, list[Shipment]] = defaultdict(list)
+    for s in invoice_rows:
+        lines_by_upload[s.upload_id].append(s)
+
+    findings: list[Finding] = []
+    for upload in uploads:
+        invoices = (upload.llm_analysis or {}).get("invoices") or []
+        for invoice in invoices:
+            number, total = invoice.get("invoice_number"), invoice.get("total_amount")
+            if not number or total is None:
+                continue
+            # Lines of a single-invoice upload may lack their own invoice_number
+            lines = [
+                s
+                for s in lines_by_upload.get(upload.id, [])
+                if _source(s).get("invoice_number") in (number, None) or len(invoices) == 1
+            ]
+            if not lines:
+                continue
+            line_sum = sum((s.actual_total_amount or Decimal("0") for s in lines), Decimal("0"))
+            diff = abs(Decimal(str(total)) - line_sum)
+            if diff <= _TOTAL_TOLERANCE:
+                continue
+            findings.append(
+                Finding(
+                    check_type="invoice_total",
+                    severity="warning",
+                    fingerprint=f"invoice_total:{upload.id}:{number}",
+                    message=(
+                        f"Invoice {number}: total {float(total):.2f} ≠ sum of "
+                        f"{len(lines)} lines {line_sum:.2f} (diff {diff:.2f})"
+                    ),
+                    refs=[FindingRef(upload_id=upload.id, filename=upload.filename)],
+                )
+            )
+    return findings
+
+
+def _duplicate_billing(
+    uploads: dict[UUID, Upload], invoice_rows: list[Shipment]
+) -> list[Finding]:
+    by_reference: dict[str, list[Shipment]] = defaultdict(list)
+    for s in invoice_rows:
+        if key := _reference_key(s):
+            by_reference[key].append(s)
+
+    findings: list[Finding] = []
+    for key, rows in sorted(by_reference.items()):
+        # Several lines of one invoice (freight + surcharges) are no duplicate
+        invoices = {(s.upload_id, _source(s).get("invoice_number")) for s in rows}
+        if len(invoices) < 2:
+            continue
+        numbers = sorted({str(number) for _, number in invoices if number})
+        findings.append(
+            Finding(
+                check_type="duplicate_billing",
+                severity="error",
+                fingerprint=f"duplicate_billing:{key}",
+                message=(
+                    f"Shipment {rows[0].reference_number} is billed on {len(invoices)} "
+                    f"invoices ({', '.join(numbers) or 'without invoice number'})"
+                ),
+                refs=[_ref(uploads, s) for s in rows],
+            )
+        )
+    return findings
+
+
+def _against_shipment_list(
+    uploads: dict[UUID, Upload], invoice_rows: list[Shipment], list_rows: list[Shipment]
+) -> list[Finding]:
+    # Without a shipment list there is nothing to compare the invoices with
+    if not list_rows:
+        return []
+    listed: dict[str, Shipment] = {}
+    for s in list_rows:
+        if key := _reference_key(s):
+            listed.setdefault(key, s)
+
+    findings: list[Finding] = []
+    seen: set[str] = set()
+    for s in invoice_rows:
+        key = _reference_key(s)
+        if not key or key in seen:
+            continue
+        seen.add(key)
+        match = listed.get(key)
+        if match is None:
+            findings.append(
+                Finding(
+                    check_type="missing_in_shipment_list",
+                    severity="warning",
+                    fingerprint=f"missing_in_shipment_list:{key}",
+                    message=f"Invoiced shipment {s.reference_number} is not in the shipment list",
+                    refs=[_ref(uploads, s)],
+                )
+            )
+            continue
+        refs = [_ref(uploads, s), _ref(uploads, match)]
+        if (
+            s.weight_kg is not None
+            and match.weight_kg is not None
+            and abs(s.weight_kg - match.weight_kg) > _WEIGHT_TOLERANCE_KG
+        ):
+            findings.append(
+                Finding(
+                    check_type="weight_mismatch",
+                    severity="warning",
+                    fingerprint=f"weight_mismatch:{key}",
+                    message=(
+                        f"Shipment {s.reference_number}: invoice weight {s.weight_kg} kg, "
+                        f"shipment list {match.weight_kg} kg"
+                    ),
+                    refs=refs,
+                )
+            )
+        if (
+            s.actual_total_amount is not None
+            and match.actual_total_amount is not None
+            and abs(s.actual_total_amount - match.actual_total_amount) > _TOTAL_TOLERANCE
+        ):
+            findings.append(
+                Finding(
+                    check_type="amount_mismatch",
+                    severity="error",
+                    fingerprint=f"amount_mismatch:{key}",
+                    message=(
+                        f"Shipment {s.reference_number}: invoiced {s.actual_total_amount}, "
+                        f"shipment list {match.actual_total_amount}"
+                    ),
+                    refs=refs,
+                )
+            )
+    return findings
+
+
+def _source(s: Shipment) -> dict[str, Any]:
+    return s.source_data or {}
+
+
+def _reference_key(s: Shipment) -> str | None:
+    ref = (s.reference_number or "").strip().upper()
+    return ref or None
+
+
+def _ref(uploads: dict[UUID, Upload], s: Shipment) -> FindingRef:
+    source = _source(s)
+    upload = uploads.get(s.upload_id) if s.upload_id else None
+    return FindingRef(
+        upload_id=s.upload_id,
+        filename=upload.filename if upload else None,
+        shipment_id=s.id,
+        reference=s.reference_number,
+        row=source.get("source_row", source.get("line_number")),
+        page=source.get("page_number"),
+    )
+
+
+# ---------------------------------------------------------------------------
+# Service
+# ---------------------------------------------------------------------------
+
+
+class ConsistencyService:
+    """Runs the project checks and tracks the reviewer's decision per finding."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+
+    async def check(self, db: AsyncSession, project: Project) -> list[ConsistencyFinding]:
+        """Re-run all checks and reconcile them with the stored findings."""
+        tenant_id, project_id = project.tenant_id, project.id
+        uploads = (
+            (await db.execute(select(Upload).where(Upload.project_id == project_id)))
+            .scalars()
+            .all()
+        )
+        shipments = (
+            (
+                await db.execute(
+                    select(Shipment).where(
+                        Shipment.project_id == project_id,
+                        Shipment.deleted_at.is_(None),
+                    )
+                )
+            )
+            .scalars()
+            .all()
+        )
+        found = find_inconsistencies(uploads, shipments)
+
+        stored = {
+            f.fingerprint: f
+            for f in (
+                await db.execute(
+                    select(ConsistencyFinding).where(ConsistencyFinding.project_id == project_id)
+                )
+            )
+            .scalars()
+            .all()
+        }
+        now = datetime.now(UTC)
+        for finding in found:
+            row = stored.pop(finding.fingerprint, None)
+            refs = [r.to_dict() for r in finding.refs]
+            if row is None:
+                db.add(
+                    ConsistencyFinding(
+                        tenant_id=tenant_id,
+                        project_id=project_id,
+                        check_type=finding.check_type,
+                        severity=finding.severity,
+                        fingerprint=finding.fingerprint,
+                        message=finding.message,
+                        refs=refs,
+                        status="open",
+                        first_seen_at=now,
+                        last_seen_at=now,
+                    )
+                )
+                continue
+            row.severity = finding.severity
+            row.message = finding.message
+            row.refs = refs
+            row.last_seen_at = now
+            if row.status == "fixed":
+                # Marked fixed, but the data still disagrees
+                self._set_status(row, "open", None, None, now)
+
+        # Open findings the data no longer produces were fixed by a re-import
+        for row in stored.values():
+            if row.status == "open":
+                self._set_status(row, "fixed", "No longer detected", None, now)
+
+        project.consistency_checked_at = now
+        await db.flush()
+        self.logger.info(
+            "consistency_check_done", project_id=str(project_id), finding_count=len(found)
+        )
+        return await self.findings(db, project_id)
+
+    async def findings(self, db: AsyncSession, project_id: UUID) -> list[ConsistencyFinding]:
+        """Stored findings — open before decided ones, errors before warnings."""
+        rows = (
+            (
+                await db.execute(
+                    select(ConsistencyFinding).where(ConsistencyFinding.project_id == project_id)
+                )
+            )
+            .scalars()
+            .all()
+        )
+        return sorted(
+            rows,
+            key=lambda f: (
+                _STATUS_ORDER.get(f.status, 0),
+                _SEVERITY_ORDER.get(f.severity, 0),
+                f.check_type,
+                f.fingerprint,
+            ),
+        )
+
+    async def open_count(self, db: AsyncSession, project_id: UUID) -> int:
+        return (
+            await db.execute(
+                select(func.count())
+                .select_from(ConsistencyFinding)
+                .where(
+                    ConsistencyFinding.project_id == project_id,
+                    ConsistencyFinding.status == "open",
+                )
+            )
+        ).scalar_one()
+
+    async def resolve(
+        self,
+        db: AsyncSession,
+        finding: ConsistencyFinding,
+        status: FindingStatus,
+        note: str | None,
+        user_id: UUID,
+    ) -> ConsistencyFinding:
+        """Record the reviewer's decision; "open" clears an earlier one."""
+        self._set_status(finding, status, note, user_id, datetime.now(UTC))
+        await db.flush()
+        self.logger.info(
+            "consistency_finding_resolved", finding_id=str(finding.id), status=status
+        )
+        return finding
+
+    @staticmethod
+    def _set_status(
+        row: ConsistencyFinding,
+        status: FindingStatus,
+        note: str | None,
+        user_id: UUID | None,
+        now: datetime,
+    ) -> None:
+        row.status = status
+        if status == "open":
+            row.resolution_note, row.resolved_by, row.resolved_at = None, None, None
+        else:
+            row.resolution_note, row.resolved_by, row.resolved_at = note, user_id, now
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_consistency_service: ConsistencyService | None = None
+
+
+def get_consistency_service() -> ConsistencyService:
+    global _consistency_service
+    if _consistency_service is None:
+        _consistency_service = ConsistencyService()
+    return _consistency_service
@@ -15,22 +15,31 @@ Key features:
 - fetch_month(): get price for a given year/month, hit cache first
 - resolve_for_date(): apply the 2-month lag and return the reference price
 - refresh_recent(): fetch last 24 months into cache (called on startup / cron)
+- set_manual_price() / delete_price(): offline entry and CSV/XLSX import
+- resolve_conflict(): decide between a manual value and a differing fetch
+
+Fetched prices are shared by all tenants. Manual prices are a tenant's own
+override (destatis_price_override) and never touch the shared row. When
+Destatis publishes a value the tenant has not confirmed, the override is
+reported as conflict until the tenant decides. Every change is written to
+destatis_price_audit.
 """
 
 from __future__ import annotations
 
 import asyncio
+from dataclasses import dataclass
 from datetime import UTC, date, datetime
 from decimal import Decimal
+from uuid import UUID
 
 import httpx
 import structlog
 from sqlalchemy import select
-from sqlalchemy.dialects.postgresql import insert as pg_insert
 from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.config import settings
-from app.models.database import DestatisDieselPrice
+from app.models.database import DestatisDieselPrice, DestatisPriceAudit, DestatisPriceOverride
 
 logger = structlog.get_logger(__name__)
 
@@ -44,6 +53,21 @@ _GUEST = {"username": "GUEST", "password": "GUEST", "language": "de"}
 _DEFAULT_SERIES = settings.destatis_diesel_series  # configurable
 
 
+@dataclass
+class TenantPrice:
+    """A month's reference price as one tenant sees it."""
+
+    year: int
+    month: int
+    series_code: str
+    price_ct: Decimal
+    source: str  # 'fetched' (Destatis) | 'manual' (the tenant's override)
+    fetched_price_ct: Decimal | None = None  # Destatis value behind an override
+    conflict: bool = False
+    fetched_at: datetime | None = None
+    updated_at: datetime | None = None
+
+
 class DestatisDieselService:
     """Fetch and cache monthly diesel reference prices from Destatis GENESIS."""
 
@@ -57,23 +81,26 @@ class DestatisDieselService:
         db: AsyncSession,
         shipment_date: date,
         lag_months: int = 2,
+        tenant_id: UUID | None = None,
     ) -> Decimal | None:
         """Return the reference diesel price (ct/liter) applicable for shipment_date.
 
         Applies the standard 2-month lag: for January shipments, returns the
-        November price (published in December).
+        November price (published in December). The tenant's manual price for
+        that month wins over the Destatis value.
         """
         ref = _subtract_months(shipment_date, lag_months)
-        return await self.fetch_month(db, ref.year, ref.month)
+        return await self.fetch_month(db, ref.year, ref.month, tenant_id=tenant_id)
 
     async def fetch_month(
         self,
         db: AsyncSession,
         year: int,
         month: int,
+        tenant_id: UUID | None = None,
     ) -> Decimal | None:
         """Return diesel price for given year/month. Hits DB cache, fetches if missing."""
-        cached = await self._get_cached(db, year, month)
+        cached = await self._get_cached(db, year, month, tenant_id)
         if cached is not None:
             return cached
 
@@ -88,8 +115,8 @@ class DestatisDieselService:
         fetched = 0
         for i in range(months):
             ref = _subtract_months(today, i)
-            cached = await self._get_cached(db, ref.year, ref.month)
-            if cached is None:
+            row = await self.get_row(db, ref.year, ref.month, _DEFAULT_SERIES)
+            if row is None:
                 price = await self._fetch_from_genesis(ref.year, ref.month)
                 if price is not None:
                     await self._cache(db, ref.year, ref.month, price)
@@ -145,46 +172,339 @@ class DestatisDieselService:
             )
             return None
 
+    # ── manual prices ──────────────────────────────────────────────────────
+
+    async def set_manual_price(
+        self,
+        db: AsyncSession,
+        tenant_id: UUID,
+        year: int,
+        month: int,
+        price_ct: Decimal,
+        series_code: str = _DEFAULT_SERIES,
+        user_id: UUID | None = None,
+        action: str = "manual",
+    ) -> str:
+        """Enter a price by hand (action='manual') or from a file (action='import').
+
+        Stored as the tenant's override; the shared Destatis row is untouched.
+        A hand entry confirms the published value it replaces, an import that
+        differs from a published value is left as conflict. Returns
+        'inserted', 'updated' or 'unchanged' (same price, already overridden).
+        """
+        override = await self.get_override(db, tenant_id, year, month, series_code)
+        if override is not None and override.price_ct == price_ct:
+            return "unchanged"
+
+        shared = await self.get_row(db, year, month, series_code)
+        old_price_ct, old_source = _effective(shared, override)
+        self._audit(
+            db, year, month, series_code, action,
+            old_price_ct=old_price_ct, old_source=old_source,
+            new_price_ct=price_ct, new_source="manual",
+            user_id=user_id, tenant_id=tenant_id,
+        )
+        confirmed = shared.price_ct if shared is not None and action == "manual" else None
+        now = datetime.now(UTC)
+        if override is None:
+            db.add(
+                DestatisPriceOverride(
+                    tenant_id=tenant_id,
+                    price_year=year,
+                    price_month=month,
+                    series_code=series_code,
+                    price_ct=price_ct,
+                    confirmed_fetched_ct=confirmed,
+                    updated_by=user_id,
+                    updated_at=now,
+                )
+            )
+            outcome = "inserted"
+        else:
+            override.price_ct = price_ct
+            override.confirmed_fetched_ct = confirmed
+            override.updated_by = user_id
+            override.updated_at = now
+            outcome = "updated"
+        await db.flush()
+        self.logger.info(
+            "destatis_price_set_manually",
+            year=year, month=month, series=series_code, price_ct=float(price_ct), action=action,
+        )
+        return outcome
+
+    async def resolve_conflict(
+        self,
+        db: AsyncSession,
+        tenant_id: UUID,
+        year: int,
+        month: int,
+        keep: str,
+        series_code: str = _DEFAULT_SERIES,
+        user_id: UUID | None = None,
+    ) -> TenantPrice:
+        """Settle a manual/fetched mismatch: keep='manual' or keep='fetched'.
+
+        keep='fetched' drops the tenant's override; keep='manual' confirms it
+        against the current Destatis value.
+
+        Raises:
+            LookupError: the tenant has no manual price for the month.
+            ValueError: the month has no open conflict or keep is invalid.
+        """
+        if keep not in ("manual", "fetched"):
+            raise ValueError(f"keep must be 'manual' or 'fetched', not {keep!r}")
+        override = await self.get_override(db, tenant_id, year, month, series_code)
+        if override is None:
+            raise LookupError(f"No manual Destatis price for {month:02d}/{year}")
+        shared = await self.get_row(db, year, month, series_code)
+        if shared is None or not _in_conflict(shared, override):
+            raise ValueError(f"{month:02d}/{year} has no open conflict")
+
+        if keep == "fetched":
+            self._audit(
+                db, year, month, series_code, "use_fetched",
+                old_price_ct=override.price_ct, old_source="manual",
+                new_price_ct=shared.price_ct, new_source="fetched",
+                user_id=user_id, tenant_id=tenant_id,
+            )
+            await db.delete(override)
+            await db.flush()
+            return _shared_price(shared)
+
+        self._audit(
+            db, year, month, series_code, "keep_manual",
+            old_price_ct=override.price_ct, old_source="manual",
+            new_price_ct=override.price_ct, new_source="manual",
+            user_id=user_id, tenant_id=tenant_id,
+        )
+        override.confirmed_fetched_ct = shared.price_ct
+        override.updated_by = user_id
+        override.updated_at = datetime.now(UTC)
+        await db.flush()
+        return _override_price(override, shared)
+
+    async def delete_price(
+        self,
+        db: AsyncSession,
+        tenant_id: UUID,
+        year: int,
+        month: int,
+        series_code: str = _DEFAULT_SERIES,
+        user_id: UUID | None = None,
+    ) -> bool:
+        """Remove the tenant's manual price (e.g. a mistyped entry). False if absent.
+
+        The month falls back to the shared Destatis value, if one is cached.
+        """
+        override = await self.get_override(db, tenant_id, year, month, series_code)
+        if override is None:
+            return False
+        shared = await self.get_row(db, year, month, series_code)
+        self._audit(
+            db, year, month, series_code, "deleted",
+            old_price_ct=override.price_ct, old_source="manual",
+            new_price_ct=shared.price_ct if shared else None,
+            new_source="fetched" if shared else None,
+            user_id=user_id, tenant_id=tenant_id,
+        )
+        await db.delete(override)
+        await db.flush()
+        return True
+
+    async def get_price(
+        self, db: AsyncSession, tenant_id: UUID, year: int, month: int, series_code: str
+    ) -> TenantPrice | None:
+        """The month's price as the tenant sees it — override first, then Destatis."""
+        return _tenant_price(
+            await self.get_row(db, year, month, series_code),
+            await self.get_override(db, tenant_id, year, month, series_code),
+        )
+
+    async def list_prices(self, db: AsyncSession, tenant_id: UUID) -> list[TenantPrice]:
+        """All cached months merged with the tenant's overrides, newest first."""
+        shared = {
+            (r.series_code, r.price_year, r.price_month): r
+            for r in (await db.execute(select(DestatisDieselPrice))).scalars().all()
+        }
+        overrides = {
+            (o.series_code, o.price_year, o.price_month): o
+            for o in (
+                await db.execute(
+                    select(DestatisPriceOverride).where(
+                        DestatisPriceOverride.tenant_id == tenant_id
+                    )
+                )
+            ).scalars().all()
+        }
+        prices = [
+            price
+            for key in shared.keys() | overrides.keys()
+            if (price := _tenant_price(shared.get(key), overrides.get(key))) is not None
+        ]
+        return sorted(prices, key=lambda p: (p.year, p.month, p.series_code), reverse=True)
+
     # ── DB cache ───────────────────────────────────────────────────────────
 
-    async def _get_cached(
-        self, db: AsyncSession, year: int, month: int
-    ) -> Decimal | None:
-        row = (
+    async def get_row(
+        self, db: AsyncSession, year: int, month: int, series_code: str
+    ) -> DestatisDieselPrice | None:
+        """Shared (fetched) row for a month and series."""
+        return (
             await db.execute(
                 select(DestatisDieselPrice).where(
                     DestatisDieselPrice.price_year == year,
                     DestatisDieselPrice.price_month == month,
-                    DestatisDieselPrice.series_code == _DEFAULT_SERIES,
+                    DestatisDieselPrice.series_code == series_code,
                 )
             )
         ).scalar_one_or_none()
+
+    async def get_override(
+        self, db: AsyncSession, tenant_id: UUID, year: int, month: int, series_code: str
+    ) -> DestatisPriceOverride | None:
+        """The tenant's manual price for a month and series."""
+        return (
+            await db.execute(
+                select(DestatisPriceOverride).where(
+                    DestatisPriceOverride.tenant_id == tenant_id,
+                    DestatisPriceOverride.price_year == year,
+                    DestatisPriceOverride.price_month == month,
+                    DestatisPriceOverride.series_code == series_code,
+                )
+            )
+        ).scalar_one_or_none()
+
+    async def _get_cached(
+        self, db: AsyncSession, year: int, month: int, tenant_id: UUID | None = None
+    ) -> Decimal | None:
+        if tenant_id is not None:
+            override = await self.get_override(db, tenant_id, year, month, _DEFAULT_SERIES)
+            if override is not None:
+                return Decimal(str(override.price_ct))
+        row = await self.get_row(db, year, month, _DEFAULT_SERIES)
         return Decimal(str(row.price_ct)) if row else None
 
     async def _cache(
         self, db: AsyncSession, year: int, month: int, price_ct: Decimal
     ) -> None:
-        stmt = (
-            pg_insert(DestatisDieselPrice)
-            .values(
+        """Store a fetched price in the shared cache."""
+        row = await self.get_row(db, year, month, _DEFAULT_SERIES)
+        if row is not None and row.price_ct == price_ct:
+            return
+        self._audit(
+            db, year, month, _DEFAULT_SERIES, "fetched",
+            old_price_ct=row.price_ct if row else None,
+            old_source="fetched" if row else None,
+            new_price_ct=price_ct, new_source="fetched",
+        )
+        now = datetime.now(UTC)
+        if row is None:
+            db.add(
+                DestatisDieselPrice(
+                    price_year=year,
+                    price_month=month,
+                    price_ct=price_ct,
+                    series_code=_DEFAULT_SERIES,
+                    fetched_at=now,
+                )
+            )
+        else:
+            row.price_ct = price_ct
+            row.fetched_at = now
+        await db.flush()
+
+    @staticmethod
+    def _audit(
+        db: AsyncSession,
+        year: int,
+        month: int,
+        series_code: str,
+        action: str,
+        *,
+        old_price_ct: Decimal | None,
+        old_source: str | None,
+        new_price_ct: Decimal | None,
+        new_source: str | None,
+        user_id: UUID | None = None,
+        tenant_id: UUID | None = None,
+    ) -> None:
+        db.add(
+            DestatisPriceAudit(
                 price_year=year,
                 price_month=month,
-                price_ct=price_ct,
-                series_code=_DEFAULT_SERIES,
-                fetched_at=datetime.now(UTC),
-            )
-            .on_conflict_do_update(
-                index_elements=["price_year", "price_month", "series_code"],
-                set_={"price_ct": price_ct, "fetched_at": datetime.now(UTC)},
+                series_code=series_code,
+                action=action,
+                old_price_ct=old_price_ct,
+                new_price_ct=new_price_ct,
+                old_source=old_source,
+                new_source=new_source,
+                tenant_id=tenant_id,
+                changed_by=user_id,
             )
         )
-        await db.execute(stmt)
-        await db.flush()
 
 
 # ── helpers ────────────────────────────────────────────────────────────────
 
 
+def _effective(
+    shared: DestatisDieselPrice | None, override: DestatisPriceOverride | None
+) -> tuple[Decimal | None, str | None]:
+    """(price_ct, source) the tenant currently uses for a month."""
+    if override is not None:
+        return override.price_ct, "manual"
+    if shared is not None:
+        return shared.price_ct, "fetched"
+    return None, None
+
+
+def _in_conflict(shared: DestatisDieselPrice | None, override: DestatisPriceOverride) -> bool:
+    """Destatis published a value the tenant has neither entered nor confirmed."""
+    return (
+        shared is not None
+        and shared.price_ct != override.price_ct
+        and shared.price_ct != override.confirmed_fetched_ct
+    )
+
+
+def _tenant_price(
+    shared: DestatisDieselPrice | None, override: DestatisPriceOverride | None
+) -> TenantPrice | None:
+    if override is not None:
+        return _override_price(override, shared)
+    if shared is not None:
+        return _shared_price(shared)
+    return None
+
+
+def _override_price(
+    override: DestatisPriceOverride, shared: DestatisDieselPrice | None
+) -> TenantPrice:
+    return TenantPrice(
+        year=override.price_year,
+        month=override.price_month,
+        series_code=override.series_code,
+        price_ct=override.price_ct,
+        source="manual",
+        fetched_price_ct=shared.price_ct if shared else None,
+        conflict=_in_conflict(shared, override),
+        fetched_at=shared.fetched_at if shared else None,
+        updated_at=override.updated_at,
+    )
+
+
+def _shared_price(shared: DestatisDieselPrice) -> TenantPrice:
+    return TenantPrice(
+        year=shared.price_year,
+        month=shared.price_month,
+        series_code=shared.series_code,
+        price_ct=shared.price_ct,
+        source="fetched",
+        fetched_at=shared.fetched_at,
+    )
+
+
 def _subtract_months(d: date, n: int) -> date:
     month = d.month - n
     year = d.year
@@ -0,0 +1,310 @@
+"""DieselCoverageService — which carrier months have a diesel floater at all.
+
+TariffEngineService._get_diesel_floater resolves a shipment's floater from
+the carrier's bracket table (Destatis price, 2-month lag) and falls back to
+a manual diesel_floater rate. A shipment with neither cannot be benchmarked.
+This service lays that out as a carrier × month matrix for one project so
+gaps can be closed before benchmarking.
+
+Key features:
+- coverage(): per carrier and month — covered days, uncovered shipments
+- Overlapping manual rates or bracket tables are reported per carrier;
+  the engine silently picks one of them
+- Only cached Destatis prices and the tenant's manual prices count — same as
+  the simulation
+"""
+
+from __future__ import annotations
+
+import calendar
+from dataclasses import dataclass, field
+from datetime import date, timedelta
+from decimal import Decimal
+from uuid import UUID
+
+import structlog
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.models.database import Carrier, DieselFloater, DieselPriceBracket, Shipment
+from app.services.diesel_simulation_service import (
+    LAG_MONTHS,
+    BracketRule,
+    bracket_for,
+    load_reference_prices,
+    shift_month,
+)
+
+logger = structlog.get_logger(__name__)
+
+
+# ---------------------------------------------------------------------------
+# Result types
+# ---------------------------------------------------------------------------
+
+
+@dataclass
+class RatePeriod:
+    """A manual rate or a bracket table as a validity period."""
+
+    kind: str  # "rate" | "bracket"
+    valid_from: date
+    valid_until: date | None = None
+
+    def valid_on(self, day: date) -> bool:
+        return self.valid_from <= day and (self.valid_until is None or self.valid_until >= day)
+
+
+@dataclass
+class CoverageOverlap:
+    kind: str  # "rate" | "bracket"
+    first: RatePeriod
+    second: RatePeriod
+
+
+@dataclass
+class CoverageCell:
+    """Floater coverage of one carrier in one calendar month."""
+
+    month: str  # YYYY-MM
+    # bracket = every day via brackets, rate = every day (some via manual rate),
+    # partial = some days, gap = no day covered
+    status: str
+    covered_days: int
+    days: int
+    shipment_count: int = 0
+    uncovered_shipments: int = 0
+    # Destatis price missing for the lag month — brackets cannot apply
+    missing_price: bool = False
+    overlap: bool = False
+
+
+@dataclass
+class CarrierCoverage:
+    carrier_id: UUID
+    carrier_name: str | None
+    shipment_count: int
+    uncovered_shipments: int
+    cells: list[CoverageCell]
+    overlaps: list[CoverageOverlap] = field(default_factory=list)
+
+
+@dataclass
+class DieselCoverage:
+    project_id: UUID
+    months: list[str]
+    carriers: list[CarrierCoverage]
+    # Shipments without carrier can never get a floater
+    unassigned_shipments: int = 0
+
+
+def find_overlaps(periods: list[RatePeriod]) -> list[CoverageOverlap]:
+    """Pairs of periods of the same kind whose validity intersects."""
+    overlaps: list[CoverageOverlap] = []
+    ordered = sorted(periods, key=lambda p: (p.kind, p.valid_from))
+    for i, first in enumerate(ordered):
+        for second in ordered[i + 1:]:
+            if second.kind != first.kind:
+                break
+            if first.valid_until is None or second.valid_from <= first.valid_until:
+                overlaps.append(CoverageOverlap(kind=first.kind, first=first, second=second))
+    return overlaps
+
+
+# ---------------------------------------------------------------------------
+# Service
+# ---------------------------------------------------------------------------
+
+
+class DieselCoverageService:
+    """Carrier × month diesel floater coverage for a project's shipments."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+
+    async def coverage(self, db: AsyncSession, project_id: UUID) -> DieselCoverage:
+        """Build the coverage matrix over the months the project has shipments in.
+
+        Args:
+            db: Async DB session with tenant context set.
+            project_id: Project whose shipments define carriers and months.
+
+        Returns:
+            DieselCoverage with one row per carrier (by name) and one cell per
+            month from the first to the last shipment month.
+        """
+        shipments = (
+            await db.execute(
+                select(Shipment.carrier_id, Shipment.date).where(
+                    Shipment.project_id == project_id,
+                    Shipment.deleted_at.is_(None),
+                )
+            )
+        ).all()
+        if not shipments:
+            return DieselCoverage(project_id=project_id, months=[], carriers=[])
+
+        carrier_ids = {carrier_id for carrier_id, _ in shipments if carrier_id is not None}
+        unassigned = sum(1 for carrier_id, _ in shipments if carrier_id is None)
+
+        names: dict[UUID, str] = {}
+        rules: dict[UUID, list[BracketRule]] = {cid: [] for cid in carrier_ids}
+        rates: dict[UUID, list[RatePeriod]] = {cid: [] for cid in carrier_ids}
+        if carrier_ids:
+            names = {
+                cid: name
+                for cid, name in (
+                    await db.execute(
+                        select(Carrier.id, Carrier.name).where(Carrier.id.in_(carrier_ids))
+                    )
+                ).all()
+            }
+            for b in (
+                await db.execute(
+                    select(DieselPriceBracket).where(DieselPriceBracket.carrier_id.in_(carrier_ids))
+                )
+            ).scalars().all():
+                rules[b.carrier_id].append(
+                    BracketRule(
+                        price_ct_max=b.price_ct_max,
+                        floater_pct=b.floater_pct,
+                        basis=b.basis or "base",
+                        valid_from=b.valid_from,
+                        valid_until=b.valid_until,
+                    )
+                )
+            for r in (
+                await db.execute(
+                    select(DieselFloater).where(DieselFloater.carrier_id.in_(carrier_ids))
+                )
+            ).scalars().all():
+                rates[r.carrier_id].append(
+                    RatePeriod(kind="rate", valid_from=r.valid_from, valid_until=r.valid_until)
+                )
+        prices = await load_reference_prices(db)
+
+        first = min(d for _, d in shipments)
+        last = max(d for _, d in shipments)
+        months: list[tuple[int, int]] = []
+        year, month = first.year, first.month
+        while (year, month) <= (last.year, last.month):
+            months.append((year, month))
+            year, month = shift_month(year, month, 1)
+
+        by_carrier: dict[UUID, list[date]] = {cid: [] for cid in carrier_ids}
+        for carrier_id, ship_date in shipments:
+            if carrier_id is not None:
+                by_carrier[carrier_id].append(ship_date)
+
+        carriers: list[CarrierCoverage] = []
+        for carrier_id in carrier_ids:
+            # Bracket tables are identified by carrier + valid_from
+            tables = [
+                RatePeriod(kind="bracket", valid_from=vf, valid_until=vu)
+                for vf, vu in sorted(
+                    {r.valid_from: r.valid_until for r in rules[carrier_id]}.items()
+                )
+            ]
+            row = self._carrier_row(
+                carrier_id,
+                names.get(carrier_id),
+                months,
+                by_carrier[carrier_id],
+                rules[carrier_id],
+                rates[carrier_id],
+                tables,
+                prices,
+            )
+            carriers.append(row)
+        carriers.sort(key=lambda c: (c.carrier_name or "", str(c.carrier_id)))
+
+        self.logger.info(
+            "diesel_coverage_built",
+            project_id=str(project_id),
+            carriers=len(carriers),
+            months=len(months),
+            uncovered=sum(c.uncovered_shipments for c in carriers),
+        )
+        return DieselCoverage(
+            project_id=project_id,
+            months=[f"{y:04d}-{m:02d}" for y, m in months],
+            carriers=carriers,
+            unassigned_shipments=unassigned,
+        )
+
+    def _carrier_row(
+        self,
+        carrier_id: UUID,
+        carrier_name: str | None,
+        months: list[tuple[int, int]],
+        shipment_dates: list[date],
+        rules: list[BracketRule],
+        rates: list[RatePeriod],
+        tables: list[RatePeriod],
+        prices: dict[tuple[int, int], Decimal],
+    ) -> CarrierCoverage:
+        def covered(day: date, price: Decimal | None) -> tuple[bool, bool]:
+            """(covered by a bracket, covered by a manual rate) — engine order."""
+            by_bracket = price is not None and bracket_for(price, rules, day) is not None
+            return by_bracket, any(r.valid_on(day) for r in rates)
+
+        cells: list[CoverageCell] = []
+        for year, month in months:
+            price = prices.get(shift_month(year, month, -LAG_MONTHS))
+            days = calendar.monthrange(year, month)[1]
+            bracket_days = covered_days = 0
+            overlap = False
+            for offset in range(days):
+                day = date(year, month, 1) + timedelta(days=offset)
+                by_bracket, by_rate = covered(day, price)
+                bracket_days += by_bracket
+                covered_days += by_bracket or by_rate
+                overlap = overlap or (
+                    sum(r.valid_on(day) for r in rates) > 1
+                    or sum(t.valid_on(day) for t in tables) > 1
+                )
+            in_month = [d for d in shipment_dates if (d.year, d.month) == (year, month)]
+            table_in_force = any(t.valid_on(date(year, month, 1)) for t in tables)
+            if bracket_days == days:
+                status = "bracket"
+            elif covered_days == days:
+                status = "rate"
+            elif covered_days:
+                status = "partial"
+            else:
+                status = "gap"
+            cells.append(
+                CoverageCell(
+                    month=f"{year:04d}-{month:02d}",
+                    status=status,
+                    covered_days=covered_days,
+                    days=days,
+                    shipment_count=len(in_month),
+                    uncovered_shipments=sum(1 for d in in_month if not any(covered(d, price))),
+                    missing_price=price is None and table_in_force,
+                    overlap=overlap,
+                )
+            )
+
+        return CarrierCoverage(
+            carrier_id=carrier_id,
+            carrier_name=carrier_name,
+            shipment_count=len(shipment_dates),
+            uncovered_shipments=sum(c.uncovered_shipments for c in cells),
+            cells=cells,
+            overlaps=find_overlaps(rates + tables),
+        )
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_diesel_coverage_service: DieselCoverageService | None = None
+
+
+def get_diesel_coverage_service() -> DieselCoverageService:
+    global _diesel_coverage_service
+    if _diesel_coverage_service is None:
+        _diesel_coverage_service = DieselCoverageService()
+    return _diesel_coverage_service
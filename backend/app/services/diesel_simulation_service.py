@@ -0,0 +1,318 @@
+"""DieselSimulationService — bracket floater % vs. charged diesel surcharge per month.
+
+Combines, for one carrier:
+- destatis_diesel_price: monthly reference price, read with the 2-month lag
+  the tariff engine applies (DestatisDieselService.resolve_for_date)
+- diesel_price_bracket: the carrier's bracket tables
+- shipment.actual_diesel_amount: what the carrier actually invoiced
+
+Each shipment is simulated on its own date, the way
+TariffEngineService._get_diesel_floater resolves brackets, then aggregated
+by month. This is the evidence base for diesel surcharge overbilling.
+
+Key features:
+- bracket_for(): lowest price_ct_max >= reference price, table valid on the date
+- simulate(): monthly series with expected vs. charged floater % and amounts
+- Only cached Destatis prices are used — nothing is fetched from GENESIS here
+"""
+
+from __future__ import annotations
+
+from dataclasses import dataclass, field
+from datetime import date
+from decimal import Decimal
+from uuid import UUID
+
+import structlog
+from sqlalchemy import or_, select
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.config import settings
+from app.models.database import (
+    Carrier,
+    DestatisDieselPrice,
+    DestatisPriceOverride,
+    DieselPriceBracket,
+    Shipment,
+)
+from app.utils.round import round_monetary
+
+logger = structlog.get_logger(__name__)
+
+LAG_MONTHS = 2  # same lag as DestatisDieselService.resolve_for_date
+_HUNDRED = Decimal("100")
+
+
+# ---------------------------------------------------------------------------
+# Result types
+# ---------------------------------------------------------------------------
+
+
+@dataclass
+class BracketRule:
+    """One diesel_price_bracket row, detached from the session."""
+
+    price_ct_max: Decimal
+    floater_pct: Decimal
+    basis: str
+    valid_from: date
+    valid_until: date | None = None
+
+    def valid_on(self, day: date) -> bool:
+        return self.valid_from <= day and (self.valid_until is None or self.valid_until >= day)
+
+
+@dataclass
+class SimulationMonth:
+    """Simulated vs. charged diesel surcharge for one calendar month."""
+
+    month: str  # YYYY-MM
+    reference_month: str  # YYYY-MM of the Destatis price used (month − lag)
+    diesel_price_ct: Decimal | None
+    # Bracket % on the 1st of the month, or weighted over shipments if there are any
+    expected_pct: Decimal | None
+    shipment_count: int = 0
+    basis_amount: Decimal = Decimal("0")
+    actual_diesel_amount: Decimal = Decimal("0")
+    actual_pct: Decimal | None = None
+    expected_diesel_amount: Decimal = Decimal("0")
+    # actual − expected over shipments a bracket could be resolved for
+    difference_amount: Decimal = Decimal("0")
+    # Shipments whose reference price is missing or above the highest bracket
+    uncovered_shipments: int = 0
+
+
+@dataclass
+class SimulationTotals:
+    """Sums over all months of a simulation."""
+
+    shipment_count: int = 0
+    actual_diesel_amount: Decimal = Decimal("0")
+    expected_diesel_amount: Decimal = Decimal("0")
+    difference_amount: Decimal = Decimal("0")
+    uncovered_shipments: int = 0
+
+
+@dataclass
+class DieselSimulation:
+    """Monthly simulation series for one carrier."""
+
+    carrier_id: UUID
+    carrier_name: str | None
+    lag_months: int
+    months: list[SimulationMonth]
+    totals: SimulationTotals
+    # Bracket table in force at the end of the range — drawn as threshold lines
+    brackets: list[BracketRule] = field(default_factory=list)
+
+
+def shift_month(year: int, month: int, delta: int) -> tuple[int, int]:
+    """(year, month) moved by `delta` calendar months."""
+    index = year * 12 + (month - 1) + delta
+    return index // 12, index % 12 + 1
+
+
+def bracket_for(price_ct: Decimal, rules: list[BracketRule], day: date) -> BracketRule | None:
+    """Bracket applying to a reference price on a given day (None = not covered)."""
+    candidates = [r for r in rules if r.valid_on(day) and r.price_ct_max >= price_ct]
+    return min(candidates, key=lambda r: r.price_ct_max) if candidates else None
+
+
+async def load_reference_prices(db: AsyncSession) -> dict[tuple[int, int], Decimal]:
+    """Cached Destatis prices of the configured series by (year, month).
+
+    The tenant's manual prices replace the Destatis value of their month —
+    RLS limits destatis_price_override to the current tenant.
+    """
+    series = settings.destatis_diesel_series
+    rows = (
+        await db.execute(
+            select(DestatisDieselPrice).where(DestatisDieselPrice.series_code == series)
+        )
+    ).scalars().all()
+    prices = {(p.price_year, p.price_month): p.price_ct for p in rows}
+    overrides = (
+        await db.execute(
+            select(DestatisPriceOverride).where(DestatisPriceOverride.series_code == series)
+        )
+    ).scalars().all()
+    prices.update({(o.price_year, o.price_month): o.price_ct for o in overrides})
+    return prices
+
+
+def surcharge_basis(basis: str, base: Decimal, toll: Decimal | None) -> Decimal:
+    """Amount the floater % applies to — same split as the tariff engine."""
+    if basis in ("base_plus_toll", "total"):
+        return base + (toll or Decimal("0"))
+    return base
+
+
+# ---------------------------------------------------------------------------
+# Service
+# ---------------------------------------------------------------------------
+
+
+class DieselSimulationService:
+    """Simulate bracket-based diesel floaters against invoiced surcharges."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+
+    async def simulate(
+        self,
+        db: AsyncSession,
+        carrier_id: UUID,
+        months: int = 24,
+        today: date | None = None,
+    ) -> DieselSimulation:
+        """Build the monthly series for the last `months` months up to today.
+
+        Args:
+            db: Async DB session with tenant context set.
+            carrier_id: Carrier whose brackets and shipments are simulated.
+            months: Number of calendar months, current month included.
+            today: Reference date (tests); defaults to date.today().
+
+        Returns:
+            DieselSimulation ordered oldest month first. Shipments count only
+            with actual_diesel_amount and actual_base_amount set, in EUR.
+        """
+        today = today or date.today()
+        first_year, first_month = shift_month(today.year, today.month, -(months - 1))
+        start = date(first_year, first_month, 1)
+
+        carrier_name = (
+            await db.execute(select(Carrier.name).where(Carrier.id == carrier_id))
+        ).scalar_one_or_none()
+
+        rules = [
+            BracketRule(
+                price_ct_max=r.price_ct_max,
+                floater_pct=r.floater_pct,
+                basis=r.basis or "base",
+                valid_from=r.valid_from,
+                valid_until=r.valid_until,
+            )
+            for r in (
+                await db.execute(
+                    select(DieselPriceBracket).where(DieselPriceBracket.carrier_id == carrier_id)
+                )
+            ).scalars().all()
+        ]
+
+        prices = await load_reference_prices(db)
+
+        shipments = (
+            await db.execute(
+                select(
+                    Shipment.date,
+                    Shipment.actual_base_amount,
+                    Shipment.actual_toll_amount,
+                    Shipment.actual_diesel_amount,
+                ).where(
+                    Shipment.carrier_id == carrier_id,
+                    Shipment.deleted_at.is_(None),
+                    Shipment.date >= start,
+                    Shipment.date <= today,
+                    Shipment.actual_diesel_amount.is_not(None),
+                    Shipment.actual_base_amount.is_not(None),
+                    or_(Shipment.currency.is_(None), Shipment.currency == "EUR"),
+                )
+            )
+        ).all()
+
+        series: dict[str, SimulationMonth] = {}
+        for i in range(months):
+            year, month = shift_month(first_year, first_month, i)
+            ref_year, ref_month = shift_month(year, month, -LAG_MONTHS)
+            price = prices.get((ref_year, ref_month))
+            bracket = bracket_for(price, rules, date(year, month, 1)) if price is not None else None
+            key = f"{year:04d}-{month:02d}"
+            series[key] = SimulationMonth(
+                month=key,
+                reference_month=f"{ref_year:04d}-{ref_month:02d}",
+                diesel_price_ct=price,
+                expected_pct=bracket.floater_pct if bracket else None,
+            )
+
+        # Per-month sums over covered shipments, used for the weighted expected %
+        covered_basis: dict[str, Decimal] = {}
+        for ship_date, base, toll, diesel in shipments:
+            entry = series.get(f"{ship_date.year:04d}-{ship_date.month:02d}")
+            if entry is None:
+                continue
+            bracket = (
+                bracket_for(entry.diesel_price_ct, rules, ship_date)
+                if entry.diesel_price_ct is not None
+                else None
+            )
+            amount = surcharge_basis(bracket.basis if bracket else "base", base, toll)
+            entry.shipment_count += 1
+            entry.basis_amount += amount
+            entry.actual_diesel_amount += diesel
+            if bracket is None:
+                entry.uncovered_shipments += 1
+                continue
+            expected = amount * bracket.floater_pct / _HUNDRED
+            entry.expected_diesel_amount += expected
+            entry.difference_amount += diesel - expected
+            covered_basis[entry.month] = covered_basis.get(entry.month, Decimal("0")) + amount
+
+        for entry in series.values():
+            if entry.basis_amount:
+                entry.actual_pct = round_monetary(
+                    entry.actual_diesel_amount / entry.basis_amount * _HUNDRED
+                )
+            if covered_basis.get(entry.month):
+                entry.expected_pct = round_monetary(
+                    entry.expected_diesel_amount / covered_basis[entry.month] * _HUNDRED
+                )
+            entry.basis_amount = round_monetary(entry.basis_amount)
+            entry.actual_diesel_amount = round_monetary(entry.actual_diesel_amount)
+            entry.expected_diesel_amount = round_monetary(entry.expected_diesel_amount)
+            entry.difference_amount = round_monetary(entry.difference_amount)
+
+        totals = SimulationTotals(
+            shipment_count=sum(m.shipment_count for m in series.values()),
+            actual_diesel_amount=sum(
+                (m.actual_diesel_amount for m in series.values()), Decimal("0")
+            ),
+            expected_diesel_amount=sum(
+                (m.expected_diesel_amount for m in series.values()), Decimal("0")
+            ),
+            difference_amount=sum((m.difference_amount for m in series.values()), Decimal("0")),
+            uncovered_shipments=sum(m.uncovered_shipments for m in series.values()),
+        )
+        current = sorted(
+            (r for r in rules if r.valid_on(today)), key=lambda r: r.price_ct_max
+        )
+
+        self.logger.info(
+            "diesel_simulation_built",
+            carrier_id=str(carrier_id),
+            months=months,
+            shipments=len(shipments),
+            bracket_rows=len(rules),
+        )
+        return DieselSimulation(
+            carrier_id=carrier_id,
+            carrier_name=carrier_name,
+            lag_months=LAG_MONTHS,
+            months=list(series.values()),
+            totals=totals,
+            brackets=current,
+        )
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_diesel_simulation_service: DieselSimulationService | None = None
+
+
+def get_diesel_simulation_service() -> DieselSimulationService:
+    global _diesel_simulation_service
+    if _diesel_simulation_service is None:
+        _diesel_simulation_service = DieselSimulationService()
+    return _diesel_simulation_service
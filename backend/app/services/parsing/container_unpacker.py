@@ -0,0 +1,231 @@
+"""Container unpacking — ZIP archives and e-mails (.eml / Outlook .msg).
+
+Clients send whole folders or forwarded mails; each contained document
+becomes a child upload (UploadProcessorService._process_container_upload)
+and runs through the normal pipeline, document type detection included.
+
+Key features:
+- container_kind(): "zip" / "eml" / "msg" by file extension, None otherwise
+- unpack_container(): supported files with their path inside the container,
+  skipped entries with the reason, and mail meta (subject, sender, date)
+- Nested containers (ZIP in a mail, forwarded mail as attachment) are
+  returned as files and unpacked again as their own child upload
+- Zip-bomb guard: entry count and total uncompressed size are capped
+  before anything is read; a single corrupt entry is skipped, not fatal
+"""
+
+from __future__ import annotations
+
+import email
+import io
+import zipfile
+import zlib
+from dataclasses import dataclass, field
+from email import policy
+from email.utils import parseaddr, parsedate_to_datetime
+from pathlib import PurePosixPath
+from typing import Any
+
+from app.config import settings
+from app.utils.logger import get_logger
+
+logger = get_logger(__name__)
+
+DOCUMENT_EXTENSIONS = (".pdf", ".xls", ".xlsx", ".csv")
+CONTAINER_EXTENSIONS = {".zip": "zip", ".eml": "eml", ".msg": "msg"}
+
+_MAX_ENTRIES = 200
+# Archives listing more entries than this are rejected without reading any
+_MAX_ARCHIVE_ENTRIES = 1000
+
+
+@dataclass
+class ContainerFile:
+    """One document taken out of a container."""
+
+    filename: str
+    content: bytes
+    # Location inside the container ("Rechnungen/2024/RE-123.pdf", "attachment 2")
+    path: str
+
+
+@dataclass
+class ContainerResult:
+    kind: str
+    files: list[ContainerFile] = field(default_factory=list)
+    # "<path>: <reason>" for entries that are not turned into child uploads
+    skipped: list[str] = field(default_factory=list)
+    # Mail headers for e-mails: subject, sender, date (ISO 8601), message_id
+    meta: dict[str, Any] = field(default_factory=dict)
+
+
+def container_kind(filename: str) -> str | None:
+    """'zip', 'eml' or 'msg' for container files, None for plain documents."""
+    return CONTAINER_EXTENSIONS.get(PurePosixPath(filename.lower()).suffix)
+
+
+def unpack_container(content: bytes, filename: str) -> ContainerResult:
+    """Extract the documents of a ZIP archive or e-mail.
+
+    Raises:
+        ValueError: not a container, unreadable, or over the size limits.
+    """
+    kind = container_kind(filename)
+    if kind == "zip":
+        result = _unpack_zip(content)
+    elif kind == "eml":
+        result = _unpack_eml(content)
+    elif kind == "msg":
+        result = _unpack_msg(content)
+    else:
+        raise ValueError(f"'{filename}' is not a ZIP archive or e-mail")
+    logger.info(
+        "container_unpacked",
+        kind=kind,
+        filename=filename,
+        files=len(result.files),
+        skipped=len(result.skipped),
+    )
+    return result
+
+
+def _max_total_bytes() -> int:
+    return settings.max_container_unpacked_size_mb * 1024 * 1024
+
+
+def _accept(result: ContainerResult, filename: str, content: bytes, path: str) -> None:
+    """Add a file if its type can be processed, otherwise record why it was skipped."""
+    suffix = PurePosixPath(filename.lower()).suffix
+    if suffix not in DOCUMENT_EXTENSIONS and suffix not in CONTAINER_EXTENSIONS:
+        result.skipped.append(f"{path}: unsupported file type")
+    elif not content:
+        result.skipped.append(f"{path}: empty file")
+    elif len(result.files) >= _MAX_ENTRIES:
+        result.skipped.append(f"{path}: more than {_MAX_ENTRIES} files")
+    else:
+        result.files.append(ContainerFile(filename=filename, content=content, path=path))
+
+
+# ---------------------------------------------------------------------------
+# ZIP
+# ---------------------------------------------------------------------------
+
+
+def _zip_name(info: zipfile.ZipInfo) -> str:
+    # Without the UTF-8 flag names are CP437 by spec, but Windows writes CP850
+    if info.flag_bits & 0x800:
+        return info.filename
+    try:
+        return info.filename.encode("cp437").decode("cp850")
+    except (UnicodeEncodeError, UnicodeDecodeError):
+        return info.filename
+
+
+def _unpack_zip(content: bytes) -> ContainerResult:
+    try:
+        archive = zipfile.ZipFile(io.BytesIO(content))
+    except zipfile.BadZipFile as exc:
+        raise ValueError(f"Unreadable ZIP archive: {exc}") from exc
+
+    result = ContainerResult(kind="zip")
+    with archive:
+        entries = [i for i in archive.infolist() if not i.is_dir()]
+        if len(entries) > _MAX_ARCHIVE_ENTRIES:
+            raise ValueError(f"ZIP archive has more than {_MAX_ARCHIVE_ENTRIES} entries")
+        if sum(i.file_size for i in entries) > _max_total_bytes():
+            raise ValueError(
+                f"ZIP archive unpacks to more than {settings.max_container_unpacked_size_mb} MB"
+            )
+        for info in entries:
+            path = _zip_name(info)
+            name = PurePosixPath(path).name
+            # macOS resource forks and hidden files
+            if path.startswith("__MACOSX/") or name.startswith((".", "~$")):
+                continue
+            if info.flag_bits & 0x1:
+                result.skipped.append(f"{path}: encrypted")
+                continue
+            if len(result.files) >= _MAX_ENTRIES:
+                result.skipped.append(f"{path}: more than {_MAX_ENTRIES} files")
+                continue
+            try:
+                data = archive.read(info)
+            except (zipfile.BadZipFile, NotImplementedError, EOFError, zlib.error) as exc:
+                # CRC mismatch, unsupported compression, truncated data
+                result.skipped.append(f"{path}: unreadable ({exc})")
+                continue
+            _accept(result, name, data, path)
+    return result
+
+
+# ---------------------------------------------------------------------------
+# E-mail
+# ---------------------------------------------------------------------------
+
+
+def _unpack_eml(content: bytes) -> ContainerResult:
+    message = email.message_from_bytes(content, policy=policy.default)
+    result = ContainerResult(kind="eml")
+    sender_name, sender_address = parseaddr(str(message.get("From", "")))
+    date = None
+    if message.get("Date"):
+        try:
+            date = parsedate_to_datetime(str(message["Date"])).isoformat()
+        except (TypeError, ValueError):
+            date = str(message["Date"])
+    result.meta = {
+        "subject": str(message.get("Subject", "")) or None,
+        "sender": sender_address or sender_name or None,
+        "sender_name": sender_name or None,
+        "date": date,
+        "message_id": str(message.get("Message-ID", "")) or None,
+    }
+
+    for index, part in enumerate(message.iter_attachments(), start=1):  # type: ignore[attr-defined]
+        filename = part.get_filename()
+        # Signature logos and other inline images are part of the mail body
+        if part.get_content_disposition() == "inline" and part.get_content_maintype() == "image":
+            continue
+        if part.get_content_type() == "message/rfc822":
+            # Forwarded mail as attachment — keep it as its own .eml child
+            inner = part.get_content()
+            data = inner.as_bytes()
+            subject = str(inner.get("Subject", "")).replace("/", "-")
+            filename = filename or f"{subject or f'mail-{index}'}.eml"
+        else:
+            data = part.get_payload(decode=True) or b""
+        filename = filename or f"attachment-{index}"
+        _accept(result, PurePosixPath(filename).name, data, filename)
+    return result
+
+
+def _unpack_msg(content: bytes) -> ContainerResult:
+    # Outlook compound file format; only needed for .msg uploads
+    import extract_msg
+
+    try:
+        message = extract_msg.Message(content)
+    except Exception as exc:
+        raise ValueError(f"Unreadable Outlook message: {exc}") from exc
+
+    result = ContainerResult(kind="msg")
+    with message:
+        date = message.date
+        result.meta = {
+            "subject": message.subject or None,
+            "sender": parseaddr(message.sender or "")[1] or message.sender or None,
+            "sender_name": parseaddr(message.sender or "")[0] or None,
+            "date": date.isoformat() if hasattr(date, "isoformat") else date,
+            "message_id": message.messageId or None,
+        }
+        for index, attachment in enumerate(message.attachments, start=1):
+            filename = (
+                attachment.longFilename or attachment.shortFilename or f"attachment-{index}"
+            )
+            data = attachment.data
+            if not isinstance(data, bytes | bytearray):
+                # Embedded Outlook message — skip rather than re-serialise it
+                result.skipped.append(f"{filename}: embedded Outlook message")
+                continue
+            _accept(result, PurePosixPath(filename).name, bytes(data), filename)
+    return result
@@ -61,6 +61,39 @@ _REQUIRED_FIELDS = [
     "actual_total_amount",
     "currency",
 ]
+# source_data key with the data row a shipment came from (1 = first row below the
+# header, same numbering as RowParseError.row) — jump target for the source viewer.
+SOURCE_ROW_KEY = "source_row"
+# Target fields a template mapping may assign (keys of ParsingTemplate.mappings).
+# "_ignore" is reserved for source columns excluded from source_data.
+TEMPLATE_FIELDS = (
+    "date",
+    "carrier_name",
+    "origin_zip",
+    "origin_country",
+    "dest_zip",
+    "dest_country",
+    "weight_kg",
+    "ldm",
+    "pallets",
+    "currency",
+    "actual_total_amount",
+    "actual_base_amount",
+    "diesel_amount",
+    "toll_amount",
+    "reference_number",
+    "service_level",
+)
+IGNORED_COLUMNS_KEY = "_ignore"
+
+# Optional per-field transformations in dict mappings:
+#   {"column": "Datum", "date_format": "mdy"}      day/month order of the source
+#   {"column": "Betrag", "decimal": "comma"}      1.234,56 vs. 1,234.56
+#   {"column": "Gewicht", "unit": "t"}            weight given in tonnes
+DATE_FORMATS = ("dmy", "mdy", "ymd")
+DECIMAL_SEPARATORS = ("comma", "dot")
+WEIGHT_UNITS = ("kg", "t")
+
 _OPTIONAL_FIELDS = [
     "origin_country",
     "dest_country",
@@ -147,6 +180,54 @@ def _extract_from_template(row: dict[str, Any], mapping: Any) -> Any:
     return None
 
 
+def _mapping_option(mapping: Any, key: str) -> str | None:
+    """Return a transformation option of a dict mapping (None for plain column strings)."""
+    if isinstance(mapping, dict):
+        value = mapping.get(key)
+        return str(value) if value else None
+    return None
+
+
+def _parse_date_with_format(value: Any, date_format: str | None) -> date | None:
+    """Parse a date in an explicit component order; falls back to _parse_date()."""
+    if date_format is None or value is None or isinstance(value, date):
+        return _parse_date(value)
+
+    m = re.match(r"^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$", str(value).strip())
+    if not m:
+        logger.warning("unable_to_parse_date", value=str(value), date_format=date_format)
+        return None
+    a, b, c = int(m.group(1)), int(m.group(2)), int(m.group(3))
+    if date_format == "ymd":
+        year, month, day = a, b, c
+    elif date_format == "mdy":
+        month, day, year = a, b, c
+    else:
+        day, month, year = a, b, c
+    if year < 100:
+        year += 2000
+    try:
+        return date(year, month, day)
+    except ValueError:
+        logger.warning("unable_to_parse_date", value=str(value), date_format=date_format)
+        return None
+
+
+def _parse_number_with_decimal(value: Any, decimal: str | None) -> float:
+    """Parse a number with a known decimal separator; falls back to _parse_number()."""
+    if decimal is None or not isinstance(value, str):
+        return _parse_number(value)
+    clean = re.sub(r"[^\d.,-]", "", value)
+    if decimal == "comma":
+        clean = clean.replace(".", "").replace(",", ".")
+    else:
+        clean = clean.replace(",", "")
+    try:
+        return float(clean)
+    except ValueError:
+        return 0.0
+
+
 def _parse_date(value: Any) -> date | None:
     """Parse a date string using common EU/ISO formats.
 
@@ -329,6 +410,7 @@ def parse(
         try:
             shipment = _map_row(row, tenant_id, upload_id, extraction_method="csv_direct")
             if shipment is not None:
+                shipment.source_data[SOURCE_ROW_KEY] = int(idx) + 1  # type: ignore[arg-type]
                 shipments.append(shipment)
         except Exception as exc:
             logger.error(
@@ -394,6 +476,7 @@ def parse_with_template(
         try:
             shipment = _map_row_with_template(row, mappings, tenant_id, upload_id)
             if shipment is not None:
+                shipment.source_data[SOURCE_ROW_KEY] = int(idx) + 1  # type: ignore[arg-type]
                 shipments.append(shipment)
             else:
                 row_errors.append(
@@ -520,15 +603,22 @@ def _map_row_with_template(
     if not row:
         return None
 
+    ignored = set(mappings.get(IGNORED_COLUMNS_KEY) or [])
     shipment = ParsedShipment(
         tenant_id=tenant_id,
         upload_id=upload_id,
         extraction_method="template",
-        source_data=dict(row),
+        source_data={k: v for k, v in row.items() if k not in ignored},
     )
 
+    def number(field_name: str, value: Any) -> float:
+        decimal = _mapping_option(mappings.get(field_name), "decimal")
+        return _parse_number_with_decimal(value, decimal)
+
     date_val = _extract_from_template(row, mappings.get("date"))
-    parsed_date = _parse_date(date_val)
+    parsed_date = _parse_date_with_format(
+        date_val, _mapping_option(mappings.get("date"), "date_format")
+    )
     if parsed_date is None:
         logger.warning("template_skipping_row_invalid_date", row=row, date_value=date_val)
         return None
@@ -548,15 +638,22 @@ def _map_row_with_template(
         _extract_from_template(row, mappings.get("dest_country")) or "DE"
     )
 
-    weight_val = _extract_from_template(row, mappings.get("weight_kg"))
+    weight_mapping = mappings.get("weight_kg")
+    weight_val = _extract_from_template(row, weight_mapping)
     if weight_val is not None:
-        weight = _normalize_weight(weight_val)
+        if _mapping_option(weight_mapping, "decimal") or _mapping_option(weight_mapping, "unit"):
+            weight_num = number("weight_kg", weight_val)
+            if _mapping_option(weight_mapping, "unit") == "t":
+                weight_num *= 1000
+            weight = round_monetary(weight_num) if weight_num >= 0 else None
+        else:
+            weight = _normalize_weight(weight_val)
         if weight is not None:
             shipment.weight_kg = weight
 
     ldm_val = _extract_from_template(row, mappings.get("ldm"))
     if ldm_val is not None:
-        shipment.length_m = round_monetary(_parse_number(ldm_val))
+        shipment.length_m = round_monetary(number("ldm", ldm_val))
 
     pallets_val = _extract_from_template(row, mappings.get("pallets"))
     if pallets_val is not None:
@@ -571,19 +668,19 @@ def _map_row_with_template(
 
     total_val = _extract_from_template(row, mappings.get("actual_total_amount"))
     if total_val is not None:
-        shipment.actual_total_amount = round_monetary(_parse_number(total_val))
+        shipment.actual_total_amount = round_monetary(number("actual_total_amount", total_val))
 
     base_val = _extract_from_template(row, mappings.get("actual_base_amount"))
     if base_val is not None:
-        shipment.actual_base_amount = round_monetary(_parse_number(base_val))
+        shipment.actual_base_amount = round_monetary(number("actual_base_amount", base_val))
 
     diesel_val = _extract_from_template(row, mappings.get("diesel_amount"))
     if diesel_val is not None:
-        shipment.actual_diesel_amount = round_monetary(_parse_number(diesel_val))
+        shipment.actual_diesel_amount = round_monetary(number("diesel_amount", diesel_val))
 
     toll_val = _extract_from_template(row, mappings.get("toll_amount"))
     if toll_val is not None:
-        shipment.actual_toll_amount = round_monetary(_parse_number(toll_val))
+        shipment.actual_toll_amount = round_monetary(number("toll_amount", toll_val))
 
     ref_val = _extract_from_template(row, mappings.get("reference_number"))
     if ref_val:
@@ -0,0 +1,188 @@
+"""Destatis price import — monthly diesel reference prices from CSV/XLSX files.
+
+Analysts keep the GENESIS series in spreadsheets when the API is unreachable
+or a month is not published yet. This module turns such a sheet into
+(year, month, price_ct, series_code) rows; storing them is the job of
+DestatisDieselService.set_manual_price().
+
+Accepted layouts (header row optional, columns in any order with a header):
+- Jahr | Monat | Preis [| Serie]
+- Monat | Preis [| Serie]   with "2024-11", "11.2024", "11/2024", "Nov 2024"
+                             or a full date ("01.11.2024", Excel dates)
+
+Prices below 10 are read as EUR/l and converted to Ct/l.
+"""
+
+from __future__ import annotations
+
+import io
+import re
+from dataclasses import dataclass, field
+from decimal import Decimal, InvalidOperation
+
+import pandas as pd
+
+from app.utils.logger import get_logger
+
+logger = get_logger(__name__)
+
+_YEAR_ALIASES = ("jahr", "year")
+_MONTH_ALIASES = ("monat", "month", "periode", "period", "zeitraum", "datum", "date")
+_PRICE_ALIASES = ("preis", "dieselpreis", "price", "ct/l", "ct", "wert", "value")
+_SERIES_ALIASES = ("serie", "series", "series_code", "reihe", "tabelle")
+
+_MONTH_NAMES = {
+    "jan": 1, "feb": 2, "mär": 3, "mar": 3, "mrz": 3, "apr": 4, "mai": 5, "may": 5,
+    "jun": 6, "jul": 7, "aug": 8, "sep": 9, "okt": 10, "oct": 10, "nov": 11,
+    "dez": 12, "dec": 12,
+}
+
+_ISO_RE = re.compile(r"^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[ T].*)?$")
+_MONTH_YEAR_RE = re.compile(r"^(?:\d{1,2}\.)?(\d{1,2})[./](\d{4})$")
+_NAMED_RE = re.compile(r"^([a-zä]+)\.?\s+(\d{4})$", re.IGNORECASE)
+
+# Prices below this are EUR/l and get converted to Ct/l
+_EUR_PER_LITER_LIMIT = Decimal("10")
+_MAX_PRICE_CT = Decimal("1000")
+
+
+@dataclass
+class MonthlyPrice:
+    year: int
+    month: int
+    price_ct: Decimal
+    series_code: str
+
+
+@dataclass
+class PriceImportParseResult:
+    prices: list[MonthlyPrice]
+    errors: list[str] = field(default_factory=list)
+
+
+def read_price_rows(content: bytes, filename: str) -> list[list[str]]:
+    """Read the first sheet of an XLSX/XLS file or a CSV file as string cells."""
+    if filename.lower().endswith((".xlsx", ".xls")):
+        df = pd.read_excel(io.BytesIO(content), header=None, dtype=str)
+    else:
+        try:
+            text = content.decode("utf-8-sig")
+        except UnicodeDecodeError:
+            text = content.decode("latin-1")
+        df = pd.read_csv(io.StringIO(text), header=None, dtype=str, sep=None, engine="python")
+    df = df.fillna("")
+    return [[str(cell).strip() for cell in row] for row in df.values.tolist()]
+
+
+def parse_period(raw: str) -> tuple[int, int] | None:
+    """Year and month of a period cell, or None if it is not one."""
+    value = raw.strip()
+    if match := _ISO_RE.match(value):
+        year, month = int(match.group(1)), int(match.group(2))
+    elif match := _MONTH_YEAR_RE.match(value):
+        month, year = int(match.group(1)), int(match.group(2))
+    elif match := _NAMED_RE.match(value):
+        name = match.group(1).lower()[:3]
+        if name not in _MONTH_NAMES:
+            return None
+        month, year = _MONTH_NAMES[name], int(match.group(2))
+    else:
+        return None
+    if not 1 <= month <= 12:
+        return None
+    return year, month
+
+
+def _parse_month(raw: str) -> int | None:
+    """Month of a month-only cell ("11", "Nov", "November")."""
+    value = raw.strip().lower()
+    month = int(value) if value.isdigit() else _MONTH_NAMES.get(value[:3])
+    return month if month is not None and 1 <= month <= 12 else None
+
+
+def _parse_price(raw: str) -> Decimal | None:
+    value = raw.strip().replace(" ", "").replace("€", "")
+    # German decimal comma; a dot before a comma is a thousands separator
+    if "," in value:
+        value = value.replace(".", "").replace(",", ".")
+    try:
+        price = Decimal(value)
+    except InvalidOperation:
+        return None
+    return price * 100 if price < _EUR_PER_LITER_LIMIT else price
+
+
+def _find_column(header: list[str], aliases: tuple[str, ...]) -> int | None:
+    for index, cell in enumerate(header):
+        name = cell.strip().lower()
+        # Whole words only: "ct" matches "Preis (Ct/l)" but not "Vertrag"
+        if any(re.search(rf"(?<![a-zäöü]){re.escape(a)}(?![a-zäöü])", name) for a in aliases):
+            return index
+    return None
+
+
+def parse_price_rows(rows: list[list[str]], default_series: str) -> PriceImportParseResult:
+    """Turn spreadsheet rows into monthly prices.
+
+    Args:
+        rows: Cells per row as read by read_price_rows().
+        default_series: Series code for rows without a series column.
+
+    Returns:
+        PriceImportParseResult; rows that cannot be read are reported in
+        `errors` ("Row N: …", 1-based like the spreadsheet) and skipped.
+    """
+    # Keep spreadsheet row numbers for error messages
+    numbered = [(num, row) for num, row in enumerate(rows, start=1) if any(c.strip() for c in row)]
+    if not numbered:
+        return PriceImportParseResult(prices=[], errors=["File contains no rows"])
+
+    header = numbered[0][1]
+    year_col = _find_column(header, _YEAR_ALIASES)
+    month_col = _find_column(header, _MONTH_ALIASES)
+    price_col = _find_column(header, _PRICE_ALIASES)
+    series_col = _find_column(header, _SERIES_ALIASES)
+    has_header = month_col is not None and price_col is not None
+    if not has_header:
+        # Positional: Jahr | Monat | Preis [| Serie] or Monat | Preis [| Serie]
+        width = max(len(row) for _, row in numbered)
+        if width >= 3 and re.fullmatch(r"\d{4}", header[0].strip()) and _parse_month(header[1]):
+            year_col, month_col, price_col = 0, 1, 2
+            series_col = 3 if width > 3 else None
+        else:
+            year_col, month_col, price_col = None, 0, 1
+            series_col = 2 if width > 2 else None
+
+    width = max(c for c in (year_col, month_col, price_col, series_col) if c is not None) + 1
+    result = PriceImportParseResult(prices=[])
+    seen: set[tuple[int, int, str]] = set()
+    for row_num, row in numbered[1:] if has_header else numbered:
+        cells = row + [""] * (width - len(row))
+        period: tuple[int, int] | None = None
+        if year_col is not None:
+            month = _parse_month(cells[month_col])
+            if cells[year_col].strip().isdigit() and month is not None:
+                period = (int(cells[year_col]), month)
+        else:
+            period = parse_period(cells[month_col])
+        if period is None:
+            result.errors.append(f"Row {row_num}: cannot read month from {cells[month_col]!r}")
+            continue
+
+        price = _parse_price(cells[price_col])
+        if price is None or price <= 0 or price >= _MAX_PRICE_CT:
+            result.errors.append(f"Row {row_num}: invalid price {cells[price_col]!r}")
+            continue
+
+        series = (cells[series_col].strip() if series_col is not None else "") or default_series
+        key = (period[0], period[1], series)
+        if key in seen:
+            result.errors.append(f"Row {row_num}: {period[1]:02d}/{period[0]} is listed twice")
+            continue
+        seen.add(key)
+        result.prices.append(
+            MonthlyPrice(year=period[0], month=period[1], price_ct=price, series_code=series)
+        )
+
+    logger.info("destatis_price_rows_parsed", prices=len(result.prices), errors=len(result.errors))
+    return result
@@ -5,12 +5,15 @@ Issue: #63
 Key features:
 - LLM extraction of (price_ct_max, floater_pct) rows from PDF text
 - Returns structured DieselFloaterParseResult with brackets + metadata
+- parse_bracket_text / validate_brackets for tables pasted from Excel or e-mails
+- unique_brackets drops thresholds an extracted table lists twice
 """
 
 from __future__ import annotations
 
 import asyncio
 import json
+import re
 from dataclasses import dataclass, field
 from datetime import date
 from decimal import Decimal
@@ -165,3 +168,134 @@ def get_diesel_floater_parser() -> DieselFloaterParser:
     if _parser is None:
         _parser = DieselFloaterParser()
     return _parser
+
+
+# ---------------------------------------------------------------------------
+# Manual bracket tables — pasted from Excel or copied out of e-mails
+# ---------------------------------------------------------------------------
+
+_DATE_RE = re.compile(r"\b\d{1,2}\.\d{1,2}\.\d{2,4}\b")
+_NUMBER_RE = re.compile(r"\d+(?:[.,]\d+)?")
+_OPEN_ENDED_RE = re.compile(r"^\s*(ab\b|über\b|ueber\b|>)", re.IGNORECASE)
+# Prices below this are EUR/l and get converted to Ct/l
+_EUR_PER_LITER_LIMIT = Decimal("10")
+
+
+@dataclass
+class BracketTextParseResult:
+    brackets: list[DieselBracket]
+    errors: list[str] = field(default_factory=list)
+
+
+def _text_number(raw: str) -> tuple[Decimal, int]:
+    """Value and number of decimal places of a pasted number ("1,459" → 1.459, 3)."""
+    normalized = raw.replace(",", ".")
+    decimals = len(normalized.split(".", 1)[1]) if "." in normalized else 0
+    return Decimal(normalized), decimals
+
+
+def parse_bracket_text(text: str) -> BracketTextParseResult:
+    """Parse a bracket table pasted from Excel or copied out of an e-mail.
+
+    One bracket per line, columns separated by tabs, semicolons, spaces or words:
+        "150,0<TAB>13,5"            → price ≤ 150 Ct/l → 13.5 %
+        "bis 1,50 €/l   13,50 %"    → same, price in EUR/l
+        "1,45 - 1,49   12,00 %"     → price range; checked against the previous line
+
+    Lines without numbers (headers, greetings) are skipped and dates are ignored.
+    Ranges must continue where the previous line ended — a jump larger than
+    the table's last digit (1 ct for "1,45 - 1,49") is reported as a gap.
+    Brackets come back sorted by price.
+    """
+    brackets: list[DieselBracket] = []
+    errors: list[str] = []
+    prev_upper: tuple[Decimal, Decimal] | None = None  # (upper bound Ct/l, step Ct/l)
+
+    for line_no, line in enumerate(text.splitlines(), start=1):
+        numbers = _NUMBER_RE.findall(_DATE_RE.sub(" ", line))
+        if not numbers:
+            continue
+        if _OPEN_ENDED_RE.match(line):
+            errors.append(f"Line {line_no}: open-ended bracket — enter an upper price limit")
+            continue
+        if len(numbers) not in (2, 3):
+            errors.append(f"Line {line_no}: expected price and surcharge, found {len(numbers)} numbers")
+            continue
+
+        upper_raw, upper_decimals = _text_number(numbers[-2])
+        pct, _ = _text_number(numbers[-1])
+        factor = 100 if upper_raw < _EUR_PER_LITER_LIMIT else 1
+        upper = upper_raw * factor
+        step = Decimal(1).scaleb(-upper_decimals) * factor
+
+        if len(numbers) == 3:
+            lower = _text_number(numbers[0])[0] * factor
+            if lower > upper:
+                errors.append(f"Line {line_no}: range {lower}–{upper} Ct/l is reversed")
+                continue
+            if prev_upper is not None:
+                prev_value, prev_step = prev_upper
+                if lower <= prev_value:
+                    errors.append(
+                        f"Line {line_no}: range starts at {lower} Ct/l, overlapping the "
+                        f"previous bracket up to {prev_value} Ct/l"
+                    )
+                elif lower - prev_value > prev_step:
+                    errors.append(
+                        f"Line {line_no}: gap between {prev_value} and {lower} Ct/l"
+                    )
+
+        brackets.append(DieselBracket(price_ct_max=upper, floater_pct=pct))
+        prev_upper = (upper, step)
+
+    brackets.sort(key=lambda b: b.price_ct_max)
+    return BracketTextParseResult(brackets=brackets, errors=errors)
+
+
+def unique_brackets(brackets: list[DieselBracket]) -> tuple[list[DieselBracket], list[str]]:
+    """Keep the first bracket per price_ct_max; one message per dropped row.
+
+    diesel_price_bracket holds one row per threshold and valid_from, so an
+    extracted table that repeats a threshold could not be stored as a whole.
+    """
+    kept: dict[Decimal, DieselBracket] = {}
+    dropped: list[str] = []
+    for b in brackets:
+        first = kept.setdefault(b.price_ct_max, b)
+        if first is not b:
+            dropped.append(
+                f"Price limit {b.price_ct_max} Ct/l is listed more than once — "
+                f"kept {first.floater_pct} %, dropped {b.floater_pct} %"
+            )
+    return list(kept.values()), dropped
+
+
+def validate_brackets(brackets: list[DieselBracket]) -> list[str]:
+    """Check a bracket table before it is saved.
+
+    Each bracket covers prices above the previous price_ct_max up to its own,
+    so a sorted table has no inner gaps; what can go wrong is a threshold
+    listed twice, values out of range, or a surcharge that falls while the
+    diesel price rises.
+    """
+    if not brackets:
+        return ["Bracket table is empty"]
+
+    errors: list[str] = []
+    ordered = sorted(brackets, key=lambda b: b.price_ct_max)
+    for b in ordered:
+        if b.price_ct_max <= 0:
+            errors.append(f"Price limit {b.price_ct_max} Ct/l must be positive")
+        if not Decimal("0") <= b.floater_pct < Decimal("100"):
+            errors.append(
+                f"Surcharge {b.floater_pct} % at {b.price_ct_max} Ct/l must be between 0 and 100"
+            )
+    for prev, cur in zip(ordered, ordered[1:]):
+        if cur.price_ct_max == prev.price_ct_max:
+            errors.append(f"Price limit {cur.price_ct_max} Ct/l is listed more than once")
+        elif cur.floater_pct < prev.floater_pct:
+            errors.append(
+                f"Surcharge falls from {prev.floater_pct} % to {cur.floater_pct} % "
+                f"above {prev.price_ct_max} Ct/l"
+            )
+    return errors
@@ -71,6 +71,9 @@ class InvoiceLine:
     toll_amount: float | None = None
     other_charges: float | None = None
     line_total: float | None = None
+    # Vision pipeline only: 1-based page and row box (fractions of the page size)
+    page_number: int | None = None
+    bbox: list[float] | None = None
 
 
 @dataclass
@@ -479,6 +482,8 @@ class InvoiceParserService:
                 base_amount=line.get("base_amount"),
                 line_total=line.get("line_total"),
                 currency=h.get("currency") or "EUR",
+                page_number=line.get("page_number"),
+                bbox=line.get("bbox"),
             )
             for line in compat.get("lines") or []
         ]
@@ -31,8 +31,9 @@ class ConfidenceScorer:
     """Stage 5: aggregate field-level annotations into a document confidence score."""
 
     def score(
-        self, header: ExtractedHeader, lines: list[ExtractedLine]
+        self, header: ExtractedHeader | None, lines: list[ExtractedLine]
     ) -> ConfidenceScore:
+        """Score a document, or a single page (header is None on pages without one)."""
         field_breakdown: dict[str, FieldSource] = {}
         total_fields = 0
         direct_ocr_count = 0
@@ -40,7 +41,7 @@ class ConfidenceScorer:
         required_total = 0
 
         # ── header fields ────────────────────────────────────────────────────
-        for f in dataclass_fields(header):
+        for f in dataclass_fields(header) if header is not None else ():
             annotated: AnnotatedField = getattr(header, f.name)
             src: FieldSource = annotated.src
             is_required = f.name in _REQUIRED_HEADER_FIELDS
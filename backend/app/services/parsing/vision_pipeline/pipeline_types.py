@@ -72,6 +72,18 @@ class ExtractedLine:
     billing_type: AnnotatedField[str | None]
 
 
+# x0, y0, x1, y1 as fractions of the page size, origin top-left
+BBox = tuple[float, float, float, float]
+
+
+@dataclass
+class SourceRegion:
+    """Where an extracted line sits on the page — jump target in the review UI."""
+
+    page_number: int          # 0-indexed, like ClassifiedPage
+    bbox: BBox | None = None  # None when the model gave no usable position
+
+
 @dataclass
 class PageExtractionResult:
     page_number: int
@@ -79,6 +91,9 @@ class PageExtractionResult:
     header: ExtractedHeader | None = None
     lines: list[ExtractedLine] = field(default_factory=list)
     raw_issues: list[str] = field(default_factory=list)
+    # Row position per entry of `lines` (same order)
+    line_boxes: list[BBox | None] = field(default_factory=list)
+    failed: bool = False      # API or JSON error — page contributed nothing
 
 
 # ─── Stage 4: Cross-document validation ──────────────────────────────────────
@@ -111,6 +126,22 @@ class ReviewAction(str, Enum):
 
 # ─── Pipeline result ──────────────────────────────────────────────────────────
 
+SkipReason = Literal["extraction_failed", "no_data"]
+
+
+@dataclass
+class PageReport:
+    """Per-page outcome of a run — the page inspection panel in the review UI."""
+
+    page_number: int                        # 0-indexed
+    page_type: PageType
+    classified_type: PageType               # Stage 2 verdict; differs when a reviewer overrode it
+    line_count: int
+    skip_reason: SkipReason | None = None   # set when the page contributed neither header nor lines
+    confidence: ConfidenceScore | None = None  # None for skipped pages
+    issues: list[str] = field(default_factory=list)
+
+
 @dataclass
 class PipelineResult:
     header: ExtractedHeader
@@ -119,3 +150,6 @@ class PipelineResult:
     validation: ValidationResult
     review_action: ReviewAction
     all_issues: list[str]
+    # Source page + position per entry of `lines` (same order)
+    line_regions: list[SourceRegion] = field(default_factory=list)
+    pages: list[PageReport] = field(default_factory=list)
@@ -37,6 +37,9 @@ _THRESHOLD_HOLD = 0.50
 # GoBD: retain raw extractions for 10 years
 _RETAIN_YEARS = 10
 
+# raw_extraction.extractor of pipeline runs
+EXTRACTOR = "vision-pipeline-v2"
+
 
 class ReviewGate:
     """Stage 6: threshold routing and GoBD audit trail persistence."""
@@ -95,7 +98,7 @@ class ReviewGate:
                 tenant_id=tenant_id,
                 upload_id=upload_id,
                 doc_type="invoice",
-                extractor="vision-pipeline-v2",
+                extractor=EXTRACTOR,
                 confidence=confidence,
                 payload=payload,
                 issues=issues or None,
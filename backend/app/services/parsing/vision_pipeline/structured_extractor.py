@@ -6,7 +6,8 @@ For each non-continuation page sends a Claude Sonnet message with:
   - optional carrier-specific system prompt hint
 
 Returns PageExtractionResult per page with field-level source annotations
-(direct_ocr | llm_inferred | missing) so Stage 5 can compute confidence.
+(direct_ocr | llm_inferred | missing) so Stage 5 can compute confidence, and
+each line's box on the page for the source viewer in the review UI.
 
 Port of backend_legacy/src/modules/invoice/vision-pipeline/structured-extractor.service.ts
 """
@@ -21,6 +22,7 @@ import anthropic
 from app.config import settings
 from app.services.parsing.vision_pipeline.pipeline_types import (
     AnnotatedField,
+    BBox,
     ClassifiedPage,
     ExtractedHeader,
     ExtractedLine,
@@ -123,6 +125,7 @@ class StructuredExtractor:
                 raw_issues=[
                     f"Page {page.page_number} extraction failed: {exc}"
                 ],
+                failed=True,
             )
 
     def _build_system_prompt(
@@ -182,7 +185,8 @@ class StructuredExtractor:
                 '      "weight_kg":          { "value": "number|null", "src": "..." },\n'
                 '      "unit_price":         { "value": "number|null", "src": "..." },\n'
                 '      "line_total":         { "value": "number|null", "src": "..." },\n'
-                '      "billing_type":       { "value": "LA code|null", "src": "..." }\n'
+                '      "billing_type":       { "value": "LA code|null", "src": "..." },\n'
+                '      "bbox":               [x0, y0, x1, y1]\n'
                 "    }\n"
                 "  ],\n"
                 '  "issues": []\n'
@@ -217,7 +221,8 @@ class StructuredExtractor:
             '      "weight_kg":          { "value": "number|null", "src": "..." },\n'
             '      "unit_price":         { "value": "number|null", "src": "..." },\n'
             '      "line_total":         { "value": "number|null", "src": "..." },\n'
-            '      "billing_type":       { "value": "LA-Code e.g. 200|null", "src": "..." }\n'
+            '      "billing_type":       { "value": "LA-Code e.g. 200|null", "src": "..." },\n'
+            '      "bbox":               [x0, y0, x1, y1]\n'
             "    }\n"
             "  ],\n"
             '  "issues": ["any data quality problems found"]\n'
@@ -227,7 +232,9 @@ class StructuredExtractor:
             "- Remove thousand separators; use period as decimal separator\n"
             '- Extract PLZ from addresses like "D-42551 Velbert" → "42551"\n'
             "- One object per shipment row; skip VAT summary rows and grand-total rows\n"
-            '- If a field is illegible or absent: value=null, src="missing"'
+            '- If a field is illegible or absent: value=null, src="missing"\n'
+            "- bbox: the row's box on the page as fractions (0–1) of page width and height,\n"
+            "  origin top-left; null if you cannot tell"
         )
 
     # ── response parsers ──────────────────────────────────────────────────────
@@ -239,7 +246,8 @@ class StructuredExtractor:
 
             header_raw = data.get("header")
             header = self._parse_header(header_raw) if header_raw else None
-            lines = [self._parse_line(row) for row in (data.get("lines") or [])]
+            rows = data.get("lines") or []
+            lines = [self._parse_line(row) for row in rows]
 
             return PageExtractionResult(
                 page_number=page.page_number,
@@ -247,6 +255,7 @@ class StructuredExtractor:
                 header=header,
                 lines=lines,
                 raw_issues=data.get("issues") or [],
+                line_boxes=[self._parse_bbox(row.get("bbox")) for row in rows],
             )
         except Exception:
             logger.warning(
@@ -259,6 +268,7 @@ class StructuredExtractor:
                 page_type=page.page_type,
                 lines=[],
                 raw_issues=[f"JSON parse error on page {page.page_number}"],
+                failed=True,
             )
 
     def _af(self, raw: dict, key: str) -> AnnotatedField:
@@ -286,6 +296,18 @@ class StructuredExtractor:
             currency=af("currency"),
         )
 
+    def _parse_bbox(self, raw: object) -> BBox | None:
+        """[x0, y0, x1, y1] in 0–1 with x0 < x1 and y0 < y1, else None."""
+        if not isinstance(raw, list) or len(raw) != 4:
+            return None
+        try:
+            x0, y0, x1, y1 = (float(v) for v in raw)
+        except (TypeError, ValueError):
+            return None
+        if not (0 <= x0 < x1 <= 1 and 0 <= y0 < y1 <= 1):
+            return None
+        return (x0, y0, x1, y1)
+
     def _parse_line(self, raw: dict) -> ExtractedLine:
         af = lambda key: self._af(raw, key)
         return ExtractedLine(
@@ -8,12 +8,15 @@
   Stage 6 — ReviewGate:               threshold routing + GoBD raw_extraction audit trail
 
 Returns PipelineResult — callers convert this to InvoiceParseResult for DB import.
+rerun_page() re-extracts a single page (e.g. after a reviewer corrected its
+page type) and re-merges it with the other pages of a stored run.
 
 Port of backend_legacy/src/modules/invoice/vision-pipeline/vision-pipeline.service.ts
 """
 
 from __future__ import annotations
 
+import base64
 from dataclasses import fields as dataclass_fields
 from datetime import date
 from typing import Any
@@ -29,11 +32,15 @@ from app.services.parsing.vision_pipeline.cross_document_validator import (
 from app.services.parsing.vision_pipeline.page_classifier import PageClassifier
 from app.services.parsing.vision_pipeline.pipeline_types import (
     AnnotatedField,
+    ClassifiedPage,
     ExtractedHeader,
     ExtractedLine,
     PageExtractionResult,
+    PageReport,
+    PageType,
     PipelineResult,
     ReviewAction,
+    SourceRegion,
 )
 from app.services.parsing.vision_pipeline.pre_processor import PreProcessor
 from app.services.parsing.vision_pipeline.review_gate import ReviewGate
@@ -75,20 +82,94 @@ class VisionPipeline:
 
         # Stage 2: Page classification
         classified_pages = await self._page_classifier.classify_pages(processed_pages)
+        classified_types = {p.page_number: p.page_type for p in classified_pages}
 
         # Stage 3: Structured extraction (per page)
         page_results = await self._structured_extractor.extract_pages(
             classified_pages, carrier_id=carrier_id
         )
 
-        # Merge: best header + all lines
-        header, lines, issues = self._merge_page_results(page_results)
+        return await self._finish(
+            page_results, classified_types, tenant_id=tenant_id, upload_id=upload_id, db=db
+        )
+
+    async def rerun_page(
+        self,
+        raw_page: PageImage,
+        page_number: int,
+        page_type: PageType,
+        previous: dict[str, Any],
+        *,
+        carrier_id: str | None = None,
+        tenant_id: UUID | None = None,
+        upload_id: UUID | None = None,
+        db: AsyncSession | None = None,
+    ) -> PipelineResult:
+        """Re-extract one page (0-indexed) as `page_type`; Stages 4–6 run on the whole document.
+
+        `previous` is the raw_extraction payload of an earlier run — the other
+        pages keep their stored extraction, so only one Sonnet call is made.
+
+        Raises:
+            ValueError: the previous run has no such page.
+        """
+        stored = {p.page_number: p for p in _page_results_from_payload(previous)}
+        if page_number not in stored:
+            raise ValueError(f"Page {page_number + 1} not in the previous run")
+        classified_types: dict[int, PageType] = {
+            p["page_number"]: p.get("classified_type") or p["page_type"]
+            for p in previous.get("page_results") or []
+        }
+
+        logger.info(
+            "vision_pipeline_page_rerun",
+            page_number=page_number,
+            page_type=page_type,
+            upload_id=str(upload_id) if upload_id else None,
+        )
+
+        [processed] = await self._pre_processor.process_pages([raw_page])
+        [fresh] = await self._structured_extractor.extract_pages(
+            [
+                ClassifiedPage(
+                    page_number=page_number,
+                    page_type=page_type,
+                    image_base64=base64.b64encode(processed.image_bytes).decode(),
+                    width=0,
+                    height=0,
+                )
+            ],
+            carrier_id=carrier_id,
+        )
+        stored[page_number] = fresh
+
+        return await self._finish(
+            [stored[n] for n in sorted(stored)],
+            classified_types,
+            tenant_id=tenant_id,
+            upload_id=upload_id,
+            db=db,
+        )
+
+    async def _finish(
+        self,
+        page_results: list[PageExtractionResult],
+        classified_types: dict[int, PageType],
+        *,
+        tenant_id: UUID | None,
+        upload_id: UUID | None,
+        db: AsyncSession | None,
+    ) -> PipelineResult:
+        """Merge the page results and run Stages 4–6."""
+        # Merge: best header + all lines (with the page and box each line came from)
+        header, lines, regions, issues = self._merge_page_results(page_results)
 
         # Stage 4: Cross-document validation
         validation = self._validator.validate(header, lines)
 
-        # Stage 5: Confidence scoring
+        # Stage 5: Confidence scoring (document, then per page for the inspection panel)
         confidence = self._confidence_scorer.score(header, lines)
+        pages = [self._page_report(pr, classified_types) for pr in page_results]
 
         # Stage 6: Review gate
         review_action = self._review_gate.decide(confidence, validation)
@@ -102,13 +183,14 @@ class VisionPipeline:
                 payload={
                     "header": self._header_to_dict(header),
                     "lines": [self._line_to_dict(line) for line in lines],
+                    "line_regions": [
+                        {"page_number": r.page_number, "bbox": list(r.bbox) if r.bbox else None}
+                        for r in regions
+                    ],
+                    "review_action": review_action.value,
                     "page_results": [
-                        {
-                            "page_number": pr.page_number,
-                            "page_type": pr.page_type,
-                            "raw_issues": pr.raw_issues,
-                        }
-                        for pr in page_results
+                        self._page_to_dict(pr, report)
+                        for pr, report in zip(page_results, pages)
                     ],
                 },
                 confidence=confidence.overall,
@@ -129,6 +211,7 @@ class VisionPipeline:
             review_action=review_action,
             validation_errors=len(validation.errors),
             validation_warnings=len(validation.warnings),
+            skipped_pages=[p.page_number for p in pages if p.skip_reason],
         )
 
         return PipelineResult(
@@ -138,13 +221,44 @@ class VisionPipeline:
             validation=validation,
             review_action=review_action,
             all_issues=all_issues,
+            line_regions=regions,
+            pages=pages,
+        )
+
+    def _page_report(
+        self, page: PageExtractionResult, classified_types: dict[int, PageType]
+    ) -> PageReport:
+        # Mirrors _merge_page_results: cover pages only contribute their header
+        line_count = 0 if page.page_type == "cover" else len(page.lines)
+        has_header = page.header is not None and any(
+            getattr(page.header, f.name).value is not None for f in dataclass_fields(page.header)
+        )
+        skip_reason = (
+            "extraction_failed"
+            if page.failed
+            else "no_data" if line_count == 0 and not has_header else None
+        )
+        return PageReport(
+            page_number=page.page_number,
+            page_type=page.page_type,
+            classified_type=classified_types.get(page.page_number, page.page_type),
+            line_count=line_count,
+            skip_reason=skip_reason,
+            confidence=(
+                None
+                if skip_reason
+                else self._confidence_scorer.score(
+                    page.header, page.lines if line_count else []
+                )
+            ),
+            issues=page.raw_issues,
         )
 
     # ── merge helper ──────────────────────────────────────────────────────────
 
     def _merge_page_results(
         self, pages: list[PageExtractionResult]
-    ) -> tuple[ExtractedHeader, list[ExtractedLine], list[str]]:
+    ) -> tuple[ExtractedHeader, list[ExtractedLine], list[SourceRegion], list[str]]:
         all_issues: list[str] = []
 
         headers_with_number = [
@@ -160,7 +274,7 @@ class VisionPipeline:
 
         if primary_header is None:
             all_issues.append("No header information found in any page")
-            return self._empty_header(), [], all_issues
+            return self._empty_header(), [], [], all_issues
 
         # Merge: fill nulls in primary header from subsequent pages
         merged = _clone_header(primary_header)
@@ -175,12 +289,21 @@ class VisionPipeline:
 
         # Collect lines from all non-cover pages
         lines: list[ExtractedLine] = []
+        regions: list[SourceRegion] = []
         for page in pages:
             if page.page_type != "cover":
                 lines.extend(page.lines)
+                boxes = page.line_boxes or []
+                regions.extend(
+                    SourceRegion(
+                        page_number=page.page_number,
+                        bbox=boxes[i] if i < len(boxes) else None,
+                    )
+                    for i in range(len(page.lines))
+                )
             all_issues.extend(page.raw_issues)
 
-        return merged, lines, all_issues
+        return merged, lines, regions, all_issues
 
     def _empty_header(self) -> ExtractedHeader:
         missing: AnnotatedField[None] = AnnotatedField(value=None, src="missing")
@@ -200,10 +323,18 @@ class VisionPipeline:
     def to_parser_compatible(self, result: PipelineResult) -> dict[str, Any]:
         """Convert PipelineResult to the flat format used by InvoiceParserService."""
         h = result.header
+        regions = result.line_regions
 
         def val(field: AnnotatedField) -> Any:
             return field.value
 
+        def region(idx: int) -> dict[str, Any]:
+            # 1-based page like the source viewer; bbox as fractions of the page
+            if idx >= len(regions):
+                return {"page_number": None, "bbox": None}
+            r = regions[idx]
+            return {"page_number": r.page_number + 1, "bbox": list(r.bbox) if r.bbox else None}
+
         return {
             "header": {
                 "invoice_number": val(h.invoice_number) or "UNKNOWN",
@@ -230,6 +361,7 @@ class VisionPipeline:
                     "base_amount": val(line.unit_price),
                     "line_total": val(line.line_total),
                     "currency": val(h.currency) or "EUR",
+                    **region(idx),
                 }
                 for idx, line in enumerate(result.lines)
             ],
@@ -252,6 +384,72 @@ class VisionPipeline:
             for f in dataclass_fields(line)
         }
 
+    def _page_to_dict(self, page: PageExtractionResult, report: PageReport) -> dict:
+        """Full page extraction — rerun_page() rebuilds the other pages from this."""
+        return {
+            "page_number": page.page_number,
+            "page_type": page.page_type,
+            "classified_type": report.classified_type,
+            "raw_issues": page.raw_issues,
+            "failed": page.failed,
+            "header": self._header_to_dict(page.header) if page.header else None,
+            "lines": [self._line_to_dict(line) for line in page.lines],
+            "line_boxes": [list(b) if b else None for b in page.line_boxes],
+            "line_count": report.line_count,
+            "skip_reason": report.skip_reason,
+            "confidence": (
+                {
+                    "overall": report.confidence.overall,
+                    "direct_ocr_ratio": report.confidence.direct_ocr_ratio,
+                    "completeness_ratio": report.confidence.completeness_ratio,
+                    "field_breakdown": report.confidence.field_breakdown,
+                }
+                if report.confidence
+                else None
+            ),
+        }
+
+
+def _annotated(raw: dict | None) -> AnnotatedField:
+    raw = raw or {}
+    return AnnotatedField(value=raw.get("value"), src=raw.get("src") or "missing")
+
+
+def _page_results_from_payload(payload: dict[str, Any]) -> list[PageExtractionResult]:
+    """Inverse of VisionPipeline._page_to_dict for the pages of a stored run."""
+    results: list[PageExtractionResult] = []
+    for page in payload.get("page_results") or []:
+        header = page.get("header")
+        results.append(
+            PageExtractionResult(
+                page_number=page["page_number"],
+                page_type=page["page_type"],
+                header=(
+                    ExtractedHeader(
+                        **{
+                            f.name: _annotated(header.get(f.name))
+                            for f in dataclass_fields(ExtractedHeader)
+                        }
+                    )
+                    if header
+                    else None
+                ),
+                lines=[
+                    ExtractedLine(
+                        **{
+                            f.name: _annotated(line.get(f.name))
+                            for f in dataclass_fields(ExtractedLine)
+                        }
+                    )
+                    for line in page.get("lines") or []
+                ],
+                raw_issues=page.get("raw_issues") or [],
+                line_boxes=[tuple(b) if b else None for b in page.get("line_boxes") or []],
+                failed=bool(page.get("failed")),
+            )
+        )
+    return results
+
 
 def _clone_header(h: ExtractedHeader) -> ExtractedHeader:
     """Shallow clone of ExtractedHeader so we can mutate without affecting original."""
@@ -9,8 +9,10 @@ Key features:
 - calculateDataCompleteness(): avg completeness_score across shipments
 - getTopOverpays(): top-N drüber-classified benchmarks
 - getDateRange(): MIN/MAX shipment.date for project
-- ReportService.generate(): creates versioned Report snapshot
+- ReportService.generate(): creates versioned Report snapshot, optionally
+  restricted to a date range / carrier subset (ReportScope)
 - ReportService.get_latest() / get_by_version() / list_all() / compare()
+- compare(): totals, per-carrier deltas, shipments entering/leaving top overpays
 - ReportService.prune_old_versions(): keeps latest N, deletes the rest
 """
 
@@ -26,7 +28,7 @@ from fastapi import HTTPException
 from sqlalchemy import func, select
 from sqlalchemy.ext.asyncio import AsyncSession
 
-from app.models.database import Project, Report, Shipment, ShipmentBenchmark
+from app.models.database import Carrier, Project, Report, Shipment, ShipmentBenchmark
 from app.utils.round import round_monetary
 
 logger = structlog.get_logger(__name__)
@@ -37,6 +39,36 @@ logger = structlog.get_logger(__name__)
 # ---------------------------------------------------------------------------
 
 
+@dataclass
+class ReportScope:
+    """Optional restriction of the shipments a report aggregates over."""
+
+    date_from: date | None = None
+    date_to: date | None = None
+    carrier_ids: list[UUID] | None = None
+
+    def is_restricted(self) -> bool:
+        return bool(self.date_from or self.date_to or self.carrier_ids)
+
+    def conditions(self, project_id: UUID) -> list[Any]:
+        """WHERE clauses selecting the project's shipments within this scope."""
+        conds: list[Any] = [Shipment.project_id == project_id]
+        if self.date_from is not None:
+            conds.append(Shipment.date >= self.date_from)
+        if self.date_to is not None:
+            conds.append(Shipment.date <= self.date_to)
+        if self.carrier_ids:
+            conds.append(Shipment.carrier_id.in_(self.carrier_ids))
+        return conds
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "date_from": self.date_from.isoformat() if self.date_from else None,
+            "date_to": self.date_to.isoformat() if self.date_to else None,
+            "carrier_ids": [str(c) for c in self.carrier_ids or []],
+        }
+
+
 @dataclass
 class CarrierAggregation:
     """Aggregated statistics for a single carrier within a project."""
@@ -126,6 +158,7 @@ class ReportAggregationService:
         db: AsyncSession,
         project_id: UUID,
         tenant_id: UUID,
+        scope: ReportScope | None = None,
     ) -> ProjectStatistics:
         """Calculate project-level statistics.
 
@@ -133,6 +166,7 @@ class ReportAggregationService:
             db: Async DB session with tenant context set.
             project_id: Target project.
             tenant_id: Tenant UUID (used for RLS context confirmation in logs).
+            scope: Optional date range / carrier restriction.
 
         Returns:
             ProjectStatistics dataclass.
@@ -145,7 +179,7 @@ class ReportAggregationService:
 
         # Load all shipments for project (RLS filters by tenant automatically)
         shipment_result = await db.execute(
-            select(Shipment).where(Shipment.project_id == project_id)
+            select(Shipment).where(*(scope or ReportScope()).conditions(project_id))
         )
         shipments = list(shipment_result.scalars().all())
 
@@ -225,6 +259,7 @@ class ReportAggregationService:
         db: AsyncSession,
         project_id: UUID,
         tenant_id: UUID,
+        scope: ReportScope | None = None,
     ) -> float:
         """Return average completeness_score for all shipments in project.
 
@@ -233,7 +268,7 @@ class ReportAggregationService:
         """
         result = await db.execute(
             select(func.avg(Shipment.completeness_score)).where(
-                Shipment.project_id == project_id
+                *(scope or ReportScope()).conditions(project_id)
             )
         )
         avg = result.scalar()
@@ -247,6 +282,7 @@ class ReportAggregationService:
         project_id: UUID,
         tenant_id: UUID,
         limit: int = 10,
+        scope: ReportScope | None = None,
     ) -> list[ShipmentBenchmark]:
         """Return top-N over-paid shipments (classification='drüber').
 
@@ -255,7 +291,7 @@ class ReportAggregationService:
         """
         # Load all drüber benchmarks for this project
         shipment_result = await db.execute(
-            select(Shipment.id).where(Shipment.project_id == project_id)
+            select(Shipment.id).where(*(scope or ReportScope()).conditions(project_id))
         )
         shipment_ids = list(shipment_result.scalars().all())
         if not shipment_ids:
@@ -277,6 +313,7 @@ class ReportAggregationService:
         db: AsyncSession,
         project_id: UUID,
         tenant_id: UUID,
+        scope: ReportScope | None = None,
     ) -> dict[str, date | None]:
         """Return MIN/MAX shipment date for a project.
 
@@ -287,7 +324,7 @@ class ReportAggregationService:
             select(
                 func.min(Shipment.date).label("start_date"),
                 func.max(Shipment.date).label("end_date"),
-            ).where(Shipment.project_id == project_id)
+            ).where(*(scope or ReportScope()).conditions(project_id))
         )
         row = result.one()
         return {"start_date": row.start_date, "end_date": row.end_date}
@@ -375,6 +412,82 @@ class ReportAggregationService:
         return results
 
 
+# ---------------------------------------------------------------------------
+# Snapshot comparison helpers
+# ---------------------------------------------------------------------------
+
+_COMPARED_TOTALS = (
+    "total_shipments",
+    "benchmarked_shipments",
+    "total_actual_cost",
+    "total_expected_cost",
+    "total_savings_potential",
+    "overpay_rate",
+)
+
+_COMPARED_CARRIER_FIELDS = (
+    "shipment_count",
+    "total_actual_cost",
+    "total_expected_cost",
+    "total_delta",
+    "avg_delta_pct",
+    "overpay_count",
+)
+
+
+def _metric_delta(before: Any, after: Any) -> dict[str, float | None]:
+    """before/after/delta triple; delta is None when either side is missing."""
+    b = float(before) if before is not None else None
+    a = float(after) if after is not None else None
+    delta = float(round_monetary(a - b)) if a is not None and b is not None else None
+    return {"before": b, "after": a, "delta": delta}
+
+
+def _diff_carriers(
+    carriers1: list[dict[str, Any]],
+    carriers2: list[dict[str, Any]],
+) -> list[dict[str, Any]]:
+    """Per-carrier deltas between two snapshot carrier lists, keyed by carrier_id.
+
+    Status is ``added`` / ``removed`` when a carrier appears in only one
+    snapshot, else ``changed`` or ``unchanged``. Sorted by the absolute
+    change in total_delta, largest first.
+    """
+    by_id1 = {c.get("carrier_id"): c for c in carriers1}
+    by_id2 = {c.get("carrier_id"): c for c in carriers2}
+
+    diffs: list[dict[str, Any]] = []
+    for carrier_id in list(by_id1) + [cid for cid in by_id2 if cid not in by_id1]:
+        c1 = by_id1.get(carrier_id)
+        c2 = by_id2.get(carrier_id)
+        fields = {
+            f: _metric_delta(
+                (c1 or {}).get(f, 0 if c1 is None else None),
+                (c2 or {}).get(f, 0 if c2 is None else None),
+            )
+            for f in _COMPARED_CARRIER_FIELDS
+        }
+        if c1 is None:
+            status = "added"
+        elif c2 is None:
+            status = "removed"
+        elif any(m["delta"] for m in fields.values()):
+            status = "changed"
+        else:
+            status = "unchanged"
+        diffs.append(
+            {
+                "carrier_id": carrier_id,
+                "carrier_name": (c2 or c1 or {}).get("carrier_name"),
+                "status": status,
+                **fields,
+            }
+        )
+
+    diffs.sort(key=lambda d: abs(d["total_delta"]["delta"] or 0), reverse=True)
+    return diffs
+
+
 # ---------------------------------------------------------------------------
 # Report Service
 # ---------------------------------------------------------------------------
@@ -387,6 +500,10 @@ class GenerateReportOptions:
     include_top_overpays: bool = False
     top_overpays_limit: int = 10
     notes: str | None = None
+    # Defaults to the project's current phase
+    report_type: str | None = None
+    title: str | None = None
+    scope: ReportScope = field(default_factory=ReportScope)
 
 
 class ReportService:
@@ -447,14 +564,45 @@ class ReportService:
         next_version = max_version + 1
 
         # Aggregate
+        scope = options.scope
         statistics = await self.aggregation.calculate_project_statistics(
-            db, project_id, tenant_id
+            db, project_id, tenant_id, scope=scope
         )
         data_completeness = await self.aggregation.calculate_data_completeness(
-            db, project_id, tenant_id
+            db, project_id, tenant_id, scope=scope
         )
-        date_range = await self.aggregation.get_date_range(db, project_id, tenant_id)
+        date_range = await self.aggregation.get_date_range(
+            db, project_id, tenant_id, scope=scope
+        )
+        report_type = options.report_type or project.phase or "quick_check"
 
+        top_overpays: list[ShipmentBenchmark] = []
+        shipment_map: dict[UUID, Shipment] = {}
+        if options.include_top_overpays:
+            top_overpays = await self.aggregation.get_top_overpays(
+                db, project_id, tenant_id, options.top_overpays_limit, scope=scope
+            )
+            # Load matching shipment data for each benchmark
+            shipment_ids = [b.shipment_id for b in top_overpays]
+            if shipment_ids:
+                s_result = await db.execute(
+                    select(Shipment).where(Shipment.id.in_(shipment_ids))
+                )
+                for s in s_result.scalars().all():
+                    shipment_map[s.id] = s
+
+        # Store carrier names in the snapshot so it renders (and exports)
+        # without further lookups, even after carriers are renamed or merged
+        carrier_names = await self._carrier_names(
+            db,
+            {c.carrier_id for c in statistics.carriers}
+            | {str(s.carrier_id) for s in shipment_map.values() if s.carrier_id},
+        )
+        for carrier in statistics.carriers:
+            carrier.carrier_name = carrier_names.get(carrier.carrier_id, carrier.carrier_name)
+
+        start_date = date_range.get("start_date")
+        end_date = date_range.get("end_date")
         snapshot: dict[str, Any] = {
             "version": next_version,
             "generated_at": datetime.now(tz=UTC).isoformat(),
@@ -466,31 +614,28 @@ class ReportService:
             },
             "statistics": statistics.to_dict(),
             "data_completeness": data_completeness,
+            "date_range": {
+                "start": start_date.isoformat() if start_date else None,
+                "end": end_date.isoformat() if end_date else None,
+            },
         }
 
         if options.notes:
             snapshot["notes"] = options.notes
 
-        if options.include_top_overpays:
-            top_overpays = await self.aggregation.get_top_overpays(
-                db, project_id, tenant_id, options.top_overpays_limit
-            )
-            # Load matching shipment data for each benchmark
-            shipment_ids = [b.shipment_id for b in top_overpays]
-            shipment_map: dict[UUID, Shipment] = {}
-            if shipment_ids:
-                s_result = await db.execute(
-                    select(Shipment).where(Shipment.id.in_(shipment_ids))
-                )
-                for s in s_result.scalars().all():
-                    shipment_map[s.id] = s
+        if scope.is_restricted():
+            snapshot["scope"] = scope.to_dict()
 
+        if options.include_top_overpays:
             snapshot["top_overpays"] = [
                 {
                     "shipment_id": str(b.shipment_id),
                     "date": str(shipment_map[b.shipment_id].date)
                     if b.shipment_id in shipment_map
                     else None,
+                    "carrier": carrier_names.get(str(shipment_map[b.shipment_id].carrier_id))
+                    if b.shipment_id in shipment_map
+                    else None,
                     "origin_zip": shipment_map[b.shipment_id].origin_zip
                     if b.shipment_id in shipment_map
                     else None,
@@ -509,12 +654,12 @@ class ReportService:
         report = Report(
             project_id=project_id,
             version=next_version,
-            report_type=project.phase or "quick_check",
-            title=f"{project.phase or 'quick_check'} Report v{next_version}",
+            report_type=report_type,
+            title=options.title or f"{report_type} Report v{next_version}",
             data_snapshot=snapshot,
             shipment_count=statistics.total_shipments,
-            date_range_start=date_range.get("start_date"),
-            date_range_end=date_range.get("end_date"),
+            date_range_start=start_date,
+            date_range_end=end_date,
             generated_by=tenant_id,
         )
         db.add(report)
@@ -588,8 +733,13 @@ class ReportService:
     ) -> dict[str, Any]:
         """Compare two report versions and return a delta summary.
 
+        Diffs the stored snapshots only, so results are stable even after
+        shipments or benchmarks change.
+
         Returns:
-            Dict with ``report1``, ``report2``, and ``delta`` keys.
+            Dict with ``report1``, ``report2``, ``delta`` (legacy scalar deltas),
+            ``metrics`` (before/after/delta per total), ``carriers`` (per-carrier
+            diff), and ``top_overpays_entered`` / ``top_overpays_left``.
 
         Raises:
             HTTPException(404): One or both versions not found.
@@ -603,10 +753,23 @@ class ReportService:
                 detail="One or both report versions not found",
             )
 
-        stats1: dict[str, Any] = r1.data_snapshot.get("statistics", {})
-        stats2: dict[str, Any] = r2.data_snapshot.get("statistics", {})
-        completeness1 = float(r1.data_snapshot.get("data_completeness", 0))
-        completeness2 = float(r2.data_snapshot.get("data_completeness", 0))
+        snap1: dict[str, Any] = r1.data_snapshot or {}
+        snap2: dict[str, Any] = r2.data_snapshot or {}
+        stats1: dict[str, Any] = snap1.get("statistics", {})
+        stats2: dict[str, Any] = snap2.get("statistics", {})
+        completeness1 = float(snap1.get("data_completeness", 0))
+        completeness2 = float(snap2.get("data_completeness", 0))
+
+        metrics = {
+            key: _metric_delta(stats1.get(key), stats2.get(key))
+            for key in _COMPARED_TOTALS
+        }
+        metrics["data_completeness"] = _metric_delta(completeness1, completeness2)
+
+        # A snapshot generated without include_top_overpays has no list to diff
+        overpays_available = "top_overpays" in snap1 and "top_overpays" in snap2
+        ids1 = {o.get("shipment_id") for o in snap1.get("top_overpays") or []}
+        ids2 = {o.get("shipment_id") for o in snap2.get("top_overpays") or []}
 
         return {
             "report1": r1,
@@ -619,6 +782,17 @@ class ReportService:
                     - stats1.get("total_savings_potential", 0.0)
                 ),
             },
+            "metrics": metrics,
+            "carriers": _diff_carriers(
+                stats1.get("carriers") or [], stats2.get("carriers") or []
+            ),
+            "top_overpays_available": overpays_available,
+            "top_overpays_entered": [
+                o for o in snap2.get("top_overpays") or [] if o.get("shipment_id") not in ids1
+            ] if overpays_available else [],
+            "top_overpays_left": [
+                o for o in snap1.get("top_overpays") or [] if o.get("shipment_id") not in ids2
+            ] if overpays_available else [],
         }
 
     async def prune_old_versions(
@@ -666,11 +840,26 @@ class ReportService:
         project_id: UUID,
     ) -> None:
         result = await db.execute(
-            select(Project.id).where(Project.id == project_id)
+            select(Project.id).where(Project.id == project_id, Project.deleted_at.is_(None))
         )
         if result.scalar_one_or_none() is None:
             raise HTTPException(status_code=404, detail=f"Project {project_id} not found")
 
+    async def _carrier_names(
+        self,
+        db: AsyncSession,
+        carrier_ids: set[str],
+    ) -> dict[str, str]:
+        """Return {carrier_id: name} for the given ids (one query, none if empty)."""
+        if not carrier_ids:
+            return {}
+        result = await db.execute(
+            select(Carrier.id, Carrier.name).where(
+                Carrier.id.in_([UUID(cid) for cid in carrier_ids])
+            )
+        )
+        return {str(row.id): row.name for row in result.all()}
+
 
 # ---------------------------------------------------------------------------
 # Singletons
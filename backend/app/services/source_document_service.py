@@ -0,0 +1,204 @@
+"""SourceDocumentService — the original upload file for the review split view.
+
+UploadDetailPage shows the source document next to the extracted data:
+- describe(): page sizes for PDFs / images, sheet preview for CSV / XLSX
+- render_page(): one PDF page (or the image) as PNG, full size or thumbnail
+- locate(): where a value appears in a PDF — fallback for extracted data
+  without recorded positions (tariff rates, text-mode invoices)
+
+Row numbers in the sheet preview follow csv_parser.RowParseError.row (first
+data row = 1), so shipments pointing at a source row line up with the preview.
+"""
+
+from __future__ import annotations
+
+import re
+from dataclasses import dataclass, field
+from pathlib import Path
+from typing import Literal
+
+import fitz  # PyMuPDF
+import pandas as pd
+import structlog
+
+SourceKind = Literal["pdf", "image", "sheet"]
+
+_IMAGE_SUFFIXES = (".png", ".jpg", ".jpeg")
+_SHEET_SUFFIXES = (".csv", ".xlsx", ".xls")
+_RENDER_ZOOM = 2.0  # same resolution as DocumentService vision pages
+_THUMBNAIL_ZOOM = 0.5
+_MAX_PREVIEW_ROWS = 1000
+_MAX_HITS = 50
+_NUMBER = re.compile(r"^-?\d+(?:[.,]\d+)?$")
+
+
+@dataclass
+class SourcePage:
+    page_number: int  # 1-based
+    width: float
+    height: float
+
+
+@dataclass
+class SourceSheet:
+    name: str
+    columns: list[str]
+    # (row number, cell values) — row 1 is the first data row below the header
+    rows: list[tuple[int, list[str | None]]]
+    truncated: bool = False
+
+
+@dataclass
+class SourceDocument:
+    kind: SourceKind
+    pages: list[SourcePage] = field(default_factory=list)
+    sheets: list[SourceSheet] = field(default_factory=list)
+
+
+@dataclass
+class TextHit:
+    page_number: int  # 1-based
+    # x0, y0, x1, y1 as fractions of the page size, origin top-left
+    bbox: tuple[float, float, float, float]
+
+
+def source_kind(filename: str) -> SourceKind | None:
+    """'pdf', 'image' or 'sheet' by extension; None when there is nothing to show."""
+    suffix = Path(filename.lower()).suffix
+    if suffix == ".pdf":
+        return "pdf"
+    if suffix in _IMAGE_SUFFIXES:
+        return "image"
+    if suffix in _SHEET_SUFFIXES:
+        return "sheet"
+    return None
+
+
+def search_variants(query: str) -> list[str]:
+    """Spellings to try for a value: numbers as printed in German and English documents.
+
+    "1234.5" → ["1234.5", "1.234,50", "1234,50", "1,234.50", "1234.50", "1234,5"]
+    """
+    text = query.strip()
+    if not _NUMBER.match(text):
+        return [text] if text else []
+    value = float(text.replace(",", "."))
+    english = f"{value:,.2f}"
+    german = english.replace(",", "_").replace(".", ",").replace("_", ".")
+    variants = [
+        text,
+        german,
+        german.replace(".", ""),
+        english,
+        english.replace(",", ""),
+        text.replace(".", ","),
+    ]
+    return list(dict.fromkeys(v for v in variants if v))
+
+
+class SourceDocumentService:
+    """Read-only views of a stored upload file (pages, page images, text search)."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+
+    def describe(self, path: Path, filename: str) -> SourceDocument:
+        """Pages of a PDF / image or a row preview of a spreadsheet.
+
+        Raises:
+            ValueError: the file type has no source view.
+        """
+        kind = source_kind(filename)
+        if kind is None:
+            raise ValueError(f"No source view for '{filename}'")
+        if kind == "sheet":
+            return SourceDocument(kind=kind, sheets=self._sheets(path))
+        with fitz.open(path) as doc:
+            pages = [
+                SourcePage(page_number=i + 1, width=page.rect.width, height=page.rect.height)
+                for i, page in enumerate(doc)
+            ]
+        return SourceDocument(kind=kind, pages=pages)
+
+    def render_page(self, path: Path, page_number: int, *, thumbnail: bool = False) -> bytes:
+        """PNG of one page (1-based).
+
+        Raises:
+            ValueError: page_number is out of range.
+        """
+        with fitz.open(path) as doc:
+            if not 1 <= page_number <= len(doc):
+                raise ValueError(f"Page {page_number} out of range (1–{len(doc)})")
+            zoom = _THUMBNAIL_ZOOM if thumbnail else _RENDER_ZOOM
+            pixmap = doc[page_number - 1].get_pixmap(matrix=fitz.Matrix(zoom, zoom))
+            return pixmap.tobytes("png")
+
+    def locate(self, path: Path, query: str) -> list[TextHit]:
+        """Occurrences of a value in the text layer of a PDF, first matching spelling wins.
+
+        Scanned pages have no text layer — those only get positions from the
+        vision pipeline.
+        """
+        with fitz.open(path) as doc:
+            for variant in search_variants(query):
+                hits: list[TextHit] = []
+                for index, page in enumerate(doc):
+                    width, height = page.rect.width, page.rect.height
+                    for rect in page.search_for(variant):
+                        hits.append(
+                            TextHit(
+                                page_number=index + 1,
+                                bbox=(
+                                    rect.x0 / width,
+                                    rect.y0 / height,
+                                    rect.x1 / width,
+                                    rect.y1 / height,
+                                ),
+                            )
+                        )
+                        if len(hits) >= _MAX_HITS:
+                            return hits
+                if hits:
+                    return hits
+        return []
+
+    def _sheets(self, path: Path) -> list[SourceSheet]:
+        if path.suffix.lower() == ".csv":
+            # Read like csv_parser.parse_with_template so row numbers match
+            frames = {"CSV": pd.read_csv(path, dtype=str, skip_blank_lines=True)}
+        else:
+            frames = pd.read_excel(path, sheet_name=None, dtype=str)
+
+        sheets: list[SourceSheet] = []
+        for name, df in frames.items():
+            df = df.dropna(how="all")
+            rows = [
+                (
+                    int(idx) + 1,  # type: ignore[arg-type]
+                    [None if pd.isna(v) else str(v) for v in values],
+                )
+                for idx, values in zip(df.index[:_MAX_PREVIEW_ROWS], df.values[:_MAX_PREVIEW_ROWS])
+            ]
+            sheets.append(
+                SourceSheet(
+                    name=str(name),
+                    columns=[str(c) for c in df.columns],
+                    rows=rows,
+                    truncated=len(df) > _MAX_PREVIEW_ROWS,
+                )
+            )
+        return sheets
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_source_document_service: SourceDocumentService | None = None
+
+
+def get_source_document_service() -> SourceDocumentService:
+    global _source_document_service
+    if _source_document_service is None:
+        _source_document_service = SourceDocumentService()
+    return _source_document_service
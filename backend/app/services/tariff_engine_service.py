@@ -654,7 +654,9 @@ class TariffEngineService:
         if carrier_id is not None:
             try:
                 destatis = get_destatis_service()
-                ref_price = await destatis.resolve_for_date(db, shipment_date)
+                ref_price = await destatis.resolve_for_date(
+                    db, shipment_date, tenant_id=tenant_id
+                )
                 if ref_price is not None:
                     bracket = (
                         await db.execute(
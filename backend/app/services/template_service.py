@@ -10,6 +10,7 @@ Key features:
 - update() / delete() / find_all() / find_by_category()
 - increment_usage(): update usage_count + last_used_at
 - find_match(): score templates against upload file characteristics
+- rank_templates(): all scores for an upload, no threshold / usage side effects
 - get_statistics(): count by category and most-used list
 """
 
@@ -27,10 +28,13 @@ from sqlalchemy import select, update
 from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.models.database import ParsingTemplate, Upload
+from app.services.parsing.csv_parser import IGNORED_COLUMNS_KEY
 
 logger = structlog.get_logger(__name__)
 
-_MATCH_CONFIDENCE_THRESHOLD = 0.7
+# Minimum confidence for a template to be applied automatically
+MATCH_CONFIDENCE_THRESHOLD = 0.7
+_TRANSFORM_OPTIONS = ("date_format", "decimal", "unit")
 
 
 # ---------------------------------------------------------------------------
@@ -43,7 +47,7 @@ class CreateTemplateOptions:
     """Options for creating a parsing template."""
 
     name: str
-    mappings: dict[str, str]
+    mappings: dict[str, Any]
     notes: str | None = None
     detection_rules: dict[str, Any] | None = None
 
@@ -96,23 +100,34 @@ class TemplateService:
         upload_id: UUID,
         mappings: list[dict[str, str]],
         template_name: str,
+        ignored_columns: list[str] | None = None,
     ) -> ParsingTemplate:
         """Create a template from a list of ``{field, column}`` dicts.
 
+        Entries carrying transformation options (``date_format``, ``decimal``,
+        ``unit``) are stored as ``{"column": ..., <option>: ...}`` dicts, which
+        parse_with_template() understands; plain entries stay column strings.
+
         Args:
             db: Async DB session with tenant context set.
             tenant_id: Owning tenant.
             upload_id: Source upload (used for filename pattern extraction).
             mappings: List of ``{"field": "dest_zip", "column": "PLZ Empf."}``.
             template_name: Human-readable template name.
+            ignored_columns: Source columns to drop from shipment source_data.
 
         Returns:
             Persisted ParsingTemplate.
         """
-        mappings_record: dict[str, str] = {}
+        mappings_record: dict[str, Any] = {}
         for m in mappings:
             if m.get("field") and m.get("column"):
-                mappings_record[m["field"]] = m["column"]
+                options = {k: m[k] for k in _TRANSFORM_OPTIONS if m.get(k)}
+                mappings_record[m["field"]] = (
+                    {"column": m["column"], **options} if options else m["column"]
+                )
+        if ignored_columns:
+            mappings_record[IGNORED_COLUMNS_KEY] = list(ignored_columns)
 
         return await self.create_from_upload(
             db,
@@ -438,43 +453,63 @@ class TemplateService:
             filename=upload.filename,
         )
 
-        templates = await self._get_applicable_templates(db, tenant_id, upload.mime_type)
-        if not templates:
+        ranked = await self.rank_templates(db, upload, tenant_id, file_content)
+        if not ranked:
             self.logger.debug("template_match_none_available", upload_id=str(upload.id))
             return None
 
-        characteristics = self._extract_characteristics(upload, file_content)
-
-        scored = [
-            (template, self._score_template(template, characteristics))
-            for template in templates
-        ]
-        scored.sort(key=lambda x: x[1]["confidence"], reverse=True)
-
-        best_template, best_score = scored[0]
+        best = ranked[0]
 
-        if best_score["confidence"] < _MATCH_CONFIDENCE_THRESHOLD:
+        if best.confidence < MATCH_CONFIDENCE_THRESHOLD:
             self.logger.debug(
                 "template_match_low_confidence",
                 upload_id=str(upload.id),
-                confidence=best_score["confidence"],
+                confidence=best.confidence,
             )
             return None
 
         # Update usage stats
-        await self.increment_usage(db, best_template.id)
+        await self.increment_usage(db, best.template.id)
 
         self.logger.info(
             "template_match_found",
             upload_id=str(upload.id),
-            template_id=str(best_template.id),
-            confidence=best_score["confidence"],
-        )
-        return TemplateMatch(
-            template=best_template,
-            confidence=best_score["confidence"],
-            reasons=best_score["reasons"],
+            template_id=str(best.template.id),
+            confidence=best.confidence,
         )
+        return best
+
+    async def rank_templates(
+        self,
+        db: AsyncSession,
+        upload: Upload,
+        tenant_id: UUID,
+        file_content: str | None = None,
+    ) -> list[TemplateMatch]:
+        """Score every applicable template against an upload, best first.
+
+        Same scoring as find_match(), but without the confidence threshold and
+        without touching usage stats — used to explain why a template does or
+        does not match.
+
+        Returns:
+            TemplateMatch per MIME-compatible template, highest confidence first.
+        """
+        templates = await self._get_applicable_templates(db, tenant_id, upload.mime_type)
+        characteristics = self._extract_characteristics(upload, file_content)
+
+        ranked: list[TemplateMatch] = []
+        for template in templates:
+            score = self._score_template(template, characteristics)
+            ranked.append(
+                TemplateMatch(
+                    template=template,
+                    confidence=score["confidence"],
+                    reasons=score["reasons"],
+                )
+            )
+        ranked.sort(key=lambda m: m.confidence, reverse=True)
+        return ranked
 
     # -----------------------------------------------------------------------
     # Private helpers
@@ -618,14 +653,18 @@ class TemplateService:
         pattern = re.sub(r"\s+", r"\\s*", pattern)
         return pattern
 
-    def _extract_header_keywords(self, mappings: dict[str, str]) -> list[str]:
+    def _extract_header_keywords(self, mappings: dict[str, Any]) -> list[str]:
         """Use mapping source column names as header keywords."""
-        keywords = [k.lower().strip() for k in mappings.keys()]
+        keywords = [k.lower().strip() for k in mappings.keys() if k != IGNORED_COLUMNS_KEY]
         return list(dict.fromkeys(keywords))  # deduplicate, preserve order
 
-    def _detect_category(self, mappings: dict[str, str]) -> str:
+    def _detect_category(self, mappings: dict[str, Any]) -> str:
         """Infer template category from mapping target fields."""
-        fields = [v.lower() for v in mappings.values()]
+        fields = [
+            (v.get("column", "") if isinstance(v, dict) else str(v)).lower()
+            for k, v in mappings.items()
+            if k != IGNORED_COLUMNS_KEY
+        ]
 
         if any("invoice" in f or "line" in f for f in fields):
             return "invoice"
@@ -0,0 +1,255 @@
+"""UploadEventService — in-process pub/sub for upload pipeline status changes.
+
+The upload pipeline runs as FastAPI BackgroundTasks in the API process, so
+status and stage changes are fanned out to server-sent-event subscribers
+through asyncio queues instead of clients polling GET /api/uploads/{id}.
+
+Key features:
+- publish(): one event per status change or pipeline stage, fanned out to
+  subscribers of the upload and of its project
+- subscribe()/unsubscribe(): bounded queue per SSE connection; a slow client
+  drops events rather than blocking the pipeline
+- latest(): last stage of an upload still in flight, for the stream snapshot
+- publish_vision()/vision_run(): progress of an on-demand vision pipeline run
+  (pages panel), pushed to the subscribers of that upload only
+
+Stages, in pipeline order:
+    preprocessing   → DocumentService extraction (Vision OCR for PDFs)
+    classification  → doc type detection + template matching
+    extraction      → CSV/Excel, invoice, tariff or diesel floater parsing
+    validation      → shipment validation, carrier resolution, persistence
+    review_gate     → final status decision (parsed / partial / review / failed)
+
+State is per process: with several API workers a stream only sees uploads
+processed by its own worker, and reconnecting clients fall back to the DB
+snapshot sent at the start of every stream.
+"""
+
+from __future__ import annotations
+
+import asyncio
+from dataclasses import dataclass, field
+from datetime import UTC, datetime
+from typing import Any
+from uuid import UUID
+
+import structlog
+
+logger = structlog.get_logger(__name__)
+
+PIPELINE_STAGES = ("preprocessing", "classification", "extraction", "validation", "review_gate")
+TERMINAL_STATUSES = frozenset({"parsed", "partial_success", "failed", "needs_manual_review"})
+VISION_STATUSES = ("running", "completed", "failed")
+VISION_STEPS = ("rendering", "pipeline")
+
+_QUEUE_SIZE = 100
+
+
+# ---------------------------------------------------------------------------
+# Event type
+# ---------------------------------------------------------------------------
+
+
+@dataclass
+class UploadEvent:
+    """One status or stage change of an upload."""
+
+    upload_id: UUID
+    status: str
+    project_id: UUID | None = None
+    # Last pipeline stage reached; kept on the final status so a failure shows where it stopped
+    stage: str | None = None
+    message: str | None = None
+    at: datetime = field(default_factory=lambda: datetime.now(UTC))
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "uploadId": str(self.upload_id),
+            "projectId": str(self.project_id) if self.project_id else None,
+            "status": self.status,
+            "stage": self.stage,
+            "stageIndex": PIPELINE_STAGES.index(self.stage) if self.stage else None,
+            "message": self.message,
+            "at": self.at.isoformat(),
+        }
+
+
+@dataclass
+class VisionEvent:
+    """Progress of a vision pipeline run started from the pages panel."""
+
+    upload_id: UUID
+    status: str  # one of VISION_STATUSES
+    # While running: "rendering" (page / page_count so far) or "pipeline"
+    step: str | None = None
+    page: int | None = None
+    page_count: int | None = None
+    # Stored raw_extraction once completed
+    extraction_id: UUID | None = None
+    message: str | None = None
+    at: datetime = field(default_factory=lambda: datetime.now(UTC))
+
+    def to_dict(self) -> dict[str, Any]:
+        return {
+            "uploadId": str(self.upload_id),
+            "status": self.status,
+            "step": self.step,
+            "page": self.page,
+            "pageCount": self.page_count,
+            "extractionId": str(self.extraction_id) if self.extraction_id else None,
+            "message": self.message,
+            "at": self.at.isoformat(),
+        }
+
+
+def upload_key(upload_id: UUID) -> str:
+    return f"upload:{upload_id}"
+
+
+def project_key(project_id: UUID) -> str:
+    return f"project:{project_id}"
+
+
+# ---------------------------------------------------------------------------
+# Service
+# ---------------------------------------------------------------------------
+
+
+class UploadEventService:
+    """Fan out upload events to SSE subscribers of an upload or a project."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+        self._subscribers: dict[str, set[asyncio.Queue[UploadEvent | VisionEvent]]] = {}
+        # In-flight uploads only — dropped once a terminal status is published
+        self._latest: dict[UUID, UploadEvent] = {}
+        self._projects: dict[UUID, UUID | None] = {}
+        # Last vision run event per upload, kept after the run ends so a
+        # stream opened late still receives the outcome
+        self._vision: dict[UUID, VisionEvent] = {}
+
+    def publish(
+        self,
+        upload_id: UUID,
+        status: str,
+        stage: str | None = None,
+        project_id: UUID | None = None,
+        message: str | None = None,
+    ) -> UploadEvent:
+        """Record a status/stage change and push it to all matching subscribers.
+
+        Args:
+            upload_id: Upload whose pipeline state changed.
+            status: upload.status after the change.
+            stage: One of PIPELINE_STAGES; None keeps the last known stage.
+            project_id: Project of the upload; remembered for later events.
+            message: Optional human-readable detail.
+        """
+        if stage is not None and stage not in PIPELINE_STAGES:
+            raise ValueError(f"Unknown pipeline stage '{stage}'")
+        if project_id is not None:
+            self._projects[upload_id] = project_id
+        previous = self._latest.get(upload_id)
+        if stage is None and previous is not None and status != "pending":
+            stage = previous.stage
+
+        event = UploadEvent(
+            upload_id=upload_id,
+            status=status,
+            project_id=self._projects.get(upload_id),
+            stage=stage,
+            message=message,
+        )
+        if status in TERMINAL_STATUSES:
+            self._latest.pop(upload_id, None)
+            self._projects.pop(upload_id, None)
+        else:
+            self._latest[upload_id] = event
+
+        keys = [upload_key(upload_id)]
+        if event.project_id is not None:
+            keys.append(project_key(event.project_id))
+        for key in keys:
+            self._push(key, event)
+        return event
+
+    def publish_vision(
+        self,
+        upload_id: UUID,
+        status: str,
+        step: str | None = None,
+        page: int | None = None,
+        page_count: int | None = None,
+        extraction_id: UUID | None = None,
+        message: str | None = None,
+    ) -> VisionEvent:
+        """Record the progress of a vision pipeline run and push it to the upload's subscribers.
+
+        Args:
+            upload_id: Upload whose pages are analysed.
+            status: One of VISION_STATUSES.
+            step: One of VISION_STEPS while running.
+            page: Pages rendered so far (step "rendering").
+            page_count: Pages of the document.
+            extraction_id: raw_extraction row of a completed run.
+            message: Error detail of a failed run.
+        """
+        if status not in VISION_STATUSES:
+            raise ValueError(f"Unknown vision run status '{status}'")
+        if step is not None and step not in VISION_STEPS:
+            raise ValueError(f"Unknown vision run step '{step}'")
+        event = VisionEvent(
+            upload_id=upload_id,
+            status=status,
+            step=step,
+            page=page,
+            page_count=page_count,
+            extraction_id=extraction_id,
+            message=message,
+        )
+        self._vision[upload_id] = event
+        self._push(upload_key(upload_id), event)
+        return event
+
+    def latest(self, upload_id: UUID) -> UploadEvent | None:
+        """Last event of an upload that has not reached a terminal status."""
+        return self._latest.get(upload_id)
+
+    def vision_run(self, upload_id: UUID) -> VisionEvent | None:
+        """Last vision run event of an upload; status "running" while one is in flight."""
+        return self._vision.get(upload_id)
+
+    def subscribe(self, key: str) -> asyncio.Queue[UploadEvent | VisionEvent]:
+        """Register a queue for upload_key() or project_key() events."""
+        queue: asyncio.Queue[UploadEvent | VisionEvent] = asyncio.Queue(maxsize=_QUEUE_SIZE)
+        self._subscribers.setdefault(key, set()).add(queue)
+        return queue
+
+    def unsubscribe(self, key: str, queue: asyncio.Queue[UploadEvent | VisionEvent]) -> None:
+        queues = self._subscribers.get(key)
+        if queues is None:
+            return
+        queues.discard(queue)
+        if not queues:
+            del self._subscribers[key]
+
+    def _push(self, key: str, event: UploadEvent | VisionEvent) -> None:
+        for queue in self._subscribers.get(key, ()):
+            try:
+                queue.put_nowait(event)
+            except asyncio.QueueFull:
+                self.logger.warning("upload_event_dropped", key=key, status=event.status)
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_upload_event_service: UploadEventService | None = None
+
+
+def get_upload_event_service() -> UploadEventService:
+    global _upload_event_service
+    if _upload_event_service is None:
+        _upload_event_service = UploadEventService()
+    return _upload_event_service
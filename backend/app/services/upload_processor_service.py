@@ -11,13 +11,18 @@ Key features:
 - Concurrency: asyncio.Semaphore(settings.upload_processing_concurrency)
 - Deduplication: same file_hash + tenant_id → skip re-processing
 - Carrier mapping: alias resolution + placeholder creation when unknown
+- Live status: every status change and pipeline stage is published to
+  UploadEventService for the SSE streams in routers/upload.py
+- Containers: ZIP archives and e-mails (.eml/.msg) are unpacked into child
+  uploads (parent_upload_id), each processed and classified on its own
 
 Pipeline stages:
     1.  Load upload record + validate state
     2.  Set status → 'parsing'
     2.5 DocumentService.process() — extract text/dataframes (Vision OCR for PDFs)
     2.6 DocumentTypeDetector.detect() — classify doc type, persist to upload.doc_type
-    3.  TemplateService.find_match() — now receives extracted column headers
+    3.  TemplateService.find_match() — now receives extracted column headers;
+        a column mapping accepted in upload review (manual_mapping) takes precedence
     4.  Parse CSV/Excel with template
     5.  Fetch existing reference numbers for dedup
     6.  Validate extracted shipments (ExtractionValidatorService)
@@ -30,22 +35,33 @@ Pipeline stages:
 from __future__ import annotations
 
 import asyncio
+import hashlib
+import mimetypes
 from dataclasses import dataclass, field
-from datetime import UTC, datetime, timedelta
+from datetime import UTC, date, datetime, timedelta
 from pathlib import Path
 from typing import Any
 from uuid import UUID
 
 import structlog
-from sqlalchemy import select, text, update
+from sqlalchemy import delete, select, text, update
 from sqlalchemy.dialects.postgresql import insert as pg_insert
 from sqlalchemy.ext.asyncio import AsyncSession
 
 from app.config import settings
 from app.db.session import AsyncSessionLocal
-from app.models.database import Carrier, CarrierAlias, DieselPriceBracket, Shipment, Upload
+from app.models.database import (
+    Carrier,
+    CarrierAlias,
+    DieselPriceBracket,
+    ManualMapping,
+    ParsingTemplate,
+    Shipment,
+    Upload,
+)
 from app.services.benchmark_service import get_benchmark_service
 from app.services.carrier_service import get_carrier_service
+from app.services.chunked_upload_service import get_chunked_upload_service
 from app.services.document_service import DocumentExtractionResult, get_document_service
 from app.services.document_type_detector import get_document_type_detector
 from app.services.extraction_validator_service import (
@@ -53,11 +69,21 @@ from app.services.extraction_validator_service import (
     ShipmentCountryInput,
     ShipmentInput,
 )
-from app.services.parsing.csv_parser import ParsedShipment, RowParseError, parse_with_template
-from app.services.parsing.diesel_floater_parser import get_diesel_floater_parser
+from app.services.parsing.csv_parser import (
+    IGNORED_COLUMNS_KEY,
+    ParsedShipment,
+    RowParseError,
+    parse_with_template,
+)
+from app.services.parsing.container_unpacker import container_kind, unpack_container
+from app.services.parsing.diesel_floater_parser import (
+    get_diesel_floater_parser,
+    unique_brackets,
+)
 from app.services.parsing.invoice_parser import InvoiceParseResult, InvoiceParserService
 from app.services.parsing.tariff_parser import get_tariff_parser
 from app.services.template_service import TemplateMatch, get_template_service
+from app.services.upload_event_service import get_upload_event_service
 
 logger = structlog.get_logger(__name__)
 
@@ -66,7 +92,10 @@ logger = structlog.get_logger(__name__)
 # ---------------------------------------------------------------------------
 
 _STALE_MINUTES = 5  # uploads stuck in 'parsing' for longer → mark as 'failed'
+# diesel_price_bracket.valid_from server default — used when a floater PDF has no date
+_BRACKET_DEFAULT_VALID_FROM = date(2000, 1, 1)
 _STALE_POLL_SECONDS = 60  # how often the background watcher runs
+_MAX_CONTAINER_DEPTH = 3  # ZIP in a mail in a ZIP — deeper nesting is not unpacked
 
 # ---------------------------------------------------------------------------
 # Upload status values (mirrors legacy UploadStatus enum)
@@ -159,6 +188,9 @@ class UploadProcessorService:
         self._benchmark_service = get_benchmark_service()
         self._invoice_parser = InvoiceParserService()
         self._tariff_parser = get_tariff_parser()
+        self._events = get_upload_event_service()
+        # Child uploads of unpacked containers, processed after the parent
+        self._child_tasks: set[asyncio.Task[ProcessingResult]] = set()
 
     # -----------------------------------------------------------------------
     # Public: main entry point
@@ -200,6 +232,8 @@ class UploadProcessorService:
                 )
 
         try:
+            if container_kind(upload.filename or ""):
+                return await self._process_container_upload(upload, upload_id, tenant_id, log)
             return await self._pipeline_stages(upload_id, tenant_id, log)
         except Exception as exc:
             log.error("upload_processing_error", error=str(exc), exc_info=True)
@@ -229,9 +263,11 @@ class UploadProcessorService:
             assert upload is not None
 
             # Stage 2.5: extract document content from disk (Vision OCR for PDFs)
+            self._stage(upload_id, "preprocessing")
             doc_result = await self._extract_document(upload, log)
 
             # Stage 2.6: classify doc type + persist, build content for matching
+            self._stage(upload_id, "classification")
             doc_type, file_content = await self._detect_doc_type(upload, doc_result, log)
             if doc_type is not None:
                 await db.execute(
@@ -254,10 +290,12 @@ class UploadProcessorService:
             # Stage 3: template matching — only for tabular files
             match = None
             if _is_tabular:
-                log.info("template_matching_start", doc_type=doc_type)
-                match = await self._template_service.find_match(
-                    db, upload, tenant_id, file_content=file_content
-                )
+                match = await self._reviewed_mapping_match(db, upload)
+                if match is None:
+                    log.info("template_matching_start", doc_type=doc_type)
+                    match = await self._template_service.find_match(
+                        db, upload, tenant_id, file_content=file_content
+                    )
             else:
                 log.info(
                     "non_tabular_file_detected",
@@ -317,6 +355,7 @@ class UploadProcessorService:
         )
 
         # Stage 4: parse
+        self._stage(upload_id, "extraction")
         shipments, row_errors, confidence = await self._parse(upload, match)
 
         # Stage 5: fetch existing references for dedup
@@ -324,6 +363,7 @@ class UploadProcessorService:
             existing_refs = await self._fetch_existing_refs(db, tenant_id)
 
         # Stage 6: validate
+        self._stage(upload_id, "validation")
         shipment_inputs = [
             ShipmentInput(index=i, reference_number=s.reference_number)
             for i, s in enumerate(shipments)
@@ -372,6 +412,7 @@ class UploadProcessorService:
                 await self._calculate_benchmarks(db, saved_ids, tenant_id, log)
 
         # Stage 10: final status + metrics
+        self._stage(upload_id, "review_gate")
         row_error_issues = [
             {
                 "type": "row_parse_error",
@@ -467,6 +508,169 @@ class UploadProcessorService:
             parse_method="manual",
         )
 
+    # -----------------------------------------------------------------------
+    # Container uploads (ZIP archives, e-mails)
+    # -----------------------------------------------------------------------
+
+    async def _process_container_upload(
+        self,
+        upload: Upload,
+        upload_id: UUID,
+        tenant_id: UUID,
+        log: Any,
+    ) -> ProcessingResult:
+        """Unpack a ZIP archive or e-mail into one child upload per document.
+
+        Children get parent_upload_id, the parent's project and meta["source"]
+        (container path plus mail subject/sender/date); doc_type stays empty so
+        the detector classifies each of them. Documents the tenant already
+        uploaded elsewhere are skipped with an issue; children from an earlier
+        run of the same container are kept, so reprocessing does not fan out twice.
+
+        The parent ends as parsed with meta["container"], or needs_manual_review
+        when the container holds no processable document.
+        """
+        await self._update_status(upload_id, tenant_id, STATUS_PARSING)
+        self._stage(upload_id, "preprocessing")
+
+        if not upload.storage_url or not Path(upload.storage_url).exists():
+            raise FileNotFoundError(f"File not found: {upload.storage_url}")
+        content = await asyncio.to_thread(Path(upload.storage_url).read_bytes)
+
+        self._stage(upload_id, "extraction")
+        try:
+            unpacked = await asyncio.to_thread(unpack_container, content, upload.filename or "")
+        except ValueError as exc:
+            log.warning("container_unpack_failed", error=str(exc))
+            await self._set_status_error(upload_id, tenant_id, exc)
+            return ProcessingResult(upload_id=upload_id, final_status=STATUS_FAILED, error=str(exc))
+
+        source = (upload.meta or {}).get("source") or {}
+        depth = int(source.get("depth", 0)) + 1
+        mail = {k: unpacked.meta.get(k) for k in ("subject", "sender", "date")}
+        skipped = list(unpacked.skipped)
+        storage_dir = Path(upload.storage_url).parent
+        child_ids: list[UUID] = []
+        kept = 0
+
+        async with _TenantSession(tenant_id) as db:
+            hashes = {f.path: hashlib.sha256(f.content).hexdigest() for f in unpacked.files}
+            existing: dict[str, Upload] = {}
+            if hashes:
+                rows = await db.execute(
+                    select(Upload)
+                    .where(Upload.tenant_id == tenant_id, Upload.file_hash.in_(hashes.values()))
+                    .order_by(Upload.received_at.desc())
+                )
+                for row in rows.scalars():
+                    # Prefer a child of this container over an upload elsewhere
+                    if row.file_hash not in existing or row.parent_upload_id == upload_id:
+                        existing[row.file_hash] = row
+
+            seen: set[str] = set()
+            for item in unpacked.files:
+                file_hash = hashes[item.path]
+                if file_hash in seen:
+                    skipped.append(f"{item.path}: duplicate of another file in this container")
+                    continue
+                seen.add(file_hash)
+
+                previous = existing.get(file_hash)
+                if previous is not None and previous.parent_upload_id == upload_id:
+                    kept += 1
+                    continue
+                if previous is not None:
+                    skipped.append(f"{item.path}: already uploaded as '{previous.filename}'")
+                    continue
+                if container_kind(item.filename) and depth >= _MAX_CONTAINER_DEPTH:
+                    skipped.append(f"{item.path}: nested more than {_MAX_CONTAINER_DEPTH} levels")
+                    continue
+
+                target = storage_dir / f"{file_hash}{Path(item.filename).suffix.lower()}"
+                if not target.exists():
+                    await asyncio.to_thread(target.write_bytes, item.content)
+                child = Upload(
+                    tenant_id=tenant_id,
+                    project_id=upload.project_id,
+                    parent_upload_id=upload_id,
+                    filename=item.filename,
+                    file_hash=file_hash,
+                    mime_type=mimetypes.guess_type(item.filename)[0],
+                    storage_url=str(target),
+                    status=STATUS_PENDING,
+                    meta={
+                        "source": {
+                            "kind": unpacked.kind,
+                            "parent_filename": upload.filename,
+                            "path": item.path,
+                            "depth": depth,
+                            **mail,
+                        }
+                    },
+                )
+                db.add(child)
+                await db.flush()
+                child_ids.append(child.id)
+
+        log.info(
+            "container_fanned_out",
+            kind=unpacked.kind,
+            children=len(child_ids),
+            kept=kept,
+            skipped=len(skipped),
+        )
+
+        now = datetime.now(UTC).isoformat()
+        issues: list[dict[str, Any]] = [
+            {"type": "container_entry_skipped", "message": reason, "timestamp": now}
+            for reason in skipped
+        ]
+        file_count = len(child_ids) + kept
+        final_status = STATUS_PARSED if file_count else STATUS_NEEDS_MANUAL_REVIEW
+        if not file_count:
+            issues.insert(
+                0,
+                {
+                    "type": "container_empty",
+                    "message": "No PDF, Excel or CSV document found in the container",
+                    "timestamp": now,
+                },
+            )
+        await self._update_status(
+            upload_id,
+            tenant_id,
+            final_status,
+            extra={
+                "parse_method": "container",
+                "doc_type": "zip_archive" if unpacked.kind == "zip" else "email",
+                "meta": {
+                    **(upload.meta or {}),
+                    "container": {
+                        "kind": unpacked.kind,
+                        **unpacked.meta,
+                        "file_count": file_count,
+                        "skipped_count": len(skipped),
+                    },
+                },
+                "parsing_issues": issues or None,
+            },
+        )
+
+        # Children wait for the semaphore this parent still holds — schedule,
+        # don't await, or a full semaphore would deadlock.
+        for child_id in child_ids:
+            self._events.publish(child_id, STATUS_PENDING, project_id=upload.project_id)
+            task = asyncio.create_task(self.process_upload(child_id, tenant_id))
+            self._child_tasks.add(task)
+            task.add_done_callback(self._child_tasks.discard)
+
+        return ProcessingResult(
+            upload_id=upload_id,
+            final_status=final_status,
+            parse_method="container",
+            issues=issues,
+        )
+
     # -----------------------------------------------------------------------
     # Tariff processing (PDF uploads)
     # -----------------------------------------------------------------------
@@ -502,6 +706,7 @@ class UploadProcessorService:
 
         file_bytes = await asyncio.to_thread(file_path.read_bytes)
 
+        self._stage(upload_id, "extraction")
         async with _TenantSession(tenant_id) as db:
             result = await self._tariff_parser.parse(
                 file_bytes,
@@ -525,6 +730,8 @@ class UploadProcessorService:
             for issue in result.issues
         ]
 
+        self._stage(upload_id, "review_gate")
+
         if result.review_action == "auto_import":
             await self._update_status(
                 upload_id,
@@ -603,17 +810,20 @@ class UploadProcessorService:
             )
 
         file_bytes = await asyncio.to_thread(file_path.read_bytes)
+        self._stage(upload_id, "extraction")
         doc = await self._document_service.process(file_bytes, filename=upload.filename or "")
 
         parser = get_diesel_floater_parser()
         result = await parser.parse(doc.text or "", filename=upload.filename or "")
 
+        # diesel_price_bracket is unique per threshold — a repeated one is reported, not stored
+        brackets, duplicates = unique_brackets(result.brackets)
         parse_issues = [
             {"type": "parse_issue", "message": i, "timestamp": datetime.now(UTC).isoformat()}
-            for i in result.issues
+            for i in [*result.issues, *duplicates]
         ]
 
-        if not result.brackets:
+        if not brackets:
             log.warning("diesel_floater_no_brackets", upload_id=str(upload_id))
             await self._update_status(
                 upload_id, tenant_id, STATUS_FAILED,
@@ -629,6 +839,7 @@ class UploadProcessorService:
             )
 
         # Resolve carrier from extracted name — same fallback chain as invoices
+        self._stage(upload_id, "validation")
         async with _TenantSession(tenant_id) as db:
             carrier_id = await self._resolve_carrier(
                 db, result.carrier_name, tenant_id, upload_id, log
@@ -660,44 +871,62 @@ class UploadProcessorService:
                 issues=parse_issues,
             )
 
-        # Upsert all brackets
-        from sqlalchemy.dialects.postgresql import insert as pg_insert
+        # Replace the carrier's table for valid_from (like PUT /brackets/table),
+        # keeping the rows it overwrites so the import can be rolled back from
+        # the diesel floater review page
+        valid_from = result.valid_from or _BRACKET_DEFAULT_VALID_FROM
         async with _TenantSession(tenant_id) as db:
-            for bracket in result.brackets:
-                stmt = (
-                    pg_insert(DieselPriceBracket)
-                    .values(
+            previous_brackets = await self._snapshot_bracket_table(db, carrier_id, valid_from)
+            valid_until = (
+                date.fromisoformat(previous_brackets[0]["valid_until"])
+                if previous_brackets and previous_brackets[0]["valid_until"]
+                else None
+            )
+            await db.execute(
+                delete(DieselPriceBracket).where(
+                    DieselPriceBracket.carrier_id == carrier_id,
+                    DieselPriceBracket.valid_from == valid_from,
+                )
+            )
+            for bracket in brackets:
+                db.add(
+                    DieselPriceBracket(
                         tenant_id=tenant_id,
                         carrier_id=carrier_id,
                         price_ct_max=bracket.price_ct_max,
                         floater_pct=bracket.floater_pct,
                         basis=result.basis,
-                        **({"valid_from": result.valid_from} if result.valid_from else {}),
-                    )
-                    .on_conflict_do_update(
-                        index_elements=[
-                            "tenant_id", "carrier_id", "price_ct_max", "valid_from"
-                        ],
-                        set_={"floater_pct": bracket.floater_pct, "basis": result.basis},
+                        valid_from=valid_from,
+                        valid_until=valid_until,
                     )
                 )
-                await db.execute(stmt)
 
         log.info(
             "diesel_floater_brackets_saved",
-            bracket_count=len(result.brackets),
+            bracket_count=len(brackets),
             carrier_id=str(carrier_id),
             carrier_name=result.carrier_name,
             basis=result.basis,
         )
 
+        self._stage(upload_id, "review_gate")
         summary_issue = {
             "type": "diesel_floater_imported",
             "message": (
-                f"Imported {len(result.brackets)} brackets for carrier "
+                f"Imported {len(brackets)} brackets for carrier "
                 f"'{result.carrier_name}' (basis: {result.basis})"
             ),
             "timestamp": datetime.now(UTC).isoformat(),
+            "carrier_id": str(carrier_id),
+            "carrier_name": result.carrier_name,
+            "valid_from": valid_from.isoformat(),
+            "basis": result.basis,
+            "brackets": [
+                {"price_ct_max": str(b.price_ct_max), "floater_pct": str(b.floater_pct)}
+                for b in brackets
+            ],
+            "previous_brackets": previous_brackets,
+            "review_status": "pending",
         }
         await self._update_status(
             upload_id, tenant_id, STATUS_PARSED,
@@ -713,6 +942,33 @@ class UploadProcessorService:
             parse_method="llm",
         )
 
+    async def _snapshot_bracket_table(
+        self,
+        db: AsyncSession,
+        carrier_id: UUID,
+        valid_from: date,
+    ) -> list[dict[str, Any]]:
+        """Serialise the carrier's bracket table for valid_from before it is overwritten."""
+        rows = (
+            await db.execute(
+                select(DieselPriceBracket)
+                .where(
+                    DieselPriceBracket.carrier_id == carrier_id,
+                    DieselPriceBracket.valid_from == valid_from,
+                )
+                .order_by(DieselPriceBracket.price_ct_max.asc())
+            )
+        ).scalars().all()
+        return [
+            {
+                "price_ct_max": str(r.price_ct_max),
+                "floater_pct": str(r.floater_pct),
+                "basis": r.basis,
+                "valid_until": r.valid_until.isoformat() if r.valid_until else None,
+            }
+            for r in rows
+        ]
+
     # -----------------------------------------------------------------------
     # Invoice processing (PDF / image uploads)
     # -----------------------------------------------------------------------
@@ -750,6 +1006,7 @@ class UploadProcessorService:
 
         file_bytes = await asyncio.to_thread(file_path.read_bytes)
 
+        self._stage(upload_id, "extraction")
         async with _TenantSession(tenant_id) as db:
             results = await self._invoice_parser.parse_invoice_pdf_multi(
                 file_bytes,
@@ -770,6 +1027,7 @@ class UploadProcessorService:
             parsing_method=results[0].parsing_method if results else "llm",
         )
 
+        self._stage(upload_id, "validation")
         all_saved_ids: list[UUID] = []
         all_parse_issues: list[dict] = []
         has_hold = False
@@ -813,8 +1071,27 @@ class UploadProcessorService:
 
         parse_method = results[0].parsing_method if results else "llm"
         avg_confidence = sum(r.confidence for r in results) / len(results) if results else 0.0
+        # Invoice totals are kept on every imported upload — ConsistencyService
+        # reconciles them against the saved shipment lines
+        llm_analysis = {
+            "invoices": [
+                {
+                    "invoice_number": r.header.invoice_number,
+                    "invoice_date": r.header.invoice_date,
+                    "carrier_name": r.header.carrier_name,
+                    "total_amount": r.header.total_amount,
+                    "currency": r.header.currency,
+                    "line_count": len(r.lines),
+                    "confidence": r.confidence,
+                    "review_action": r.review_action,
+                }
+                for r in results
+            ],
+            "prompt_version": settings.invoice_extractor_prompt_version,
+        }
 
         # ── determine upload status from combined actions ────────────────────
+        self._stage(upload_id, "review_gate")
         all_actions = {r.review_action for r in results}
 
         if has_hold or "hold_for_review" in all_actions:
@@ -835,22 +1112,7 @@ class UploadProcessorService:
                     "parse_method": parse_method,
                     "confidence": avg_confidence,
                     "parsing_issues": all_parse_issues,
-                    "llm_analysis": {
-                        "invoices": [
-                            {
-                                "invoice_number": r.header.invoice_number,
-                                "invoice_date": r.header.invoice_date,
-                                "carrier_name": r.header.carrier_name,
-                                "total_amount": r.header.total_amount,
-                                "currency": r.header.currency,
-                                "line_count": len(r.lines),
-                                "confidence": r.confidence,
-                                "review_action": r.review_action,
-                            }
-                            for r in results
-                        ],
-                        "prompt_version": settings.invoice_extractor_prompt_version,
-                    },
+                    "llm_analysis": llm_analysis,
                 },
             )
             return ProcessingResult(
@@ -890,6 +1152,7 @@ class UploadProcessorService:
             extra={
                 "parse_method": parse_method,
                 "confidence": avg_confidence,
+                "llm_analysis": llm_analysis,
                 **({"parsing_issues": all_parse_issues} if all_parse_issues else {}),
             },
         )
@@ -1003,6 +1266,9 @@ class UploadProcessorService:
                         "billing_type": line.billing_type,
                         "tour_number": line.tour_number,
                         "line_number": line.line_number,
+                        # Jump target for the source viewer (vision pipeline only)
+                        "page_number": line.page_number,
+                        "bbox": line.bbox,
                     },
                     extraction_method="llm",
                     confidence_score=Decimal(str(round(result.confidence, 2))),
@@ -1153,6 +1419,59 @@ class UploadProcessorService:
             log.warning("doc_type_detection_failed", error=str(exc))
             return None, file_content
 
+    # -----------------------------------------------------------------------
+    # Reviewed column mapping
+    # -----------------------------------------------------------------------
+
+    async def _reviewed_mapping_match(
+        self,
+        db: AsyncSession,
+        upload: Upload,
+    ) -> TemplateMatch | None:
+        """Build a TemplateMatch from the column mapping accepted in upload review.
+
+        One manual_mapping row per target field (mapping_rule holds the
+        transformation options); rows with field_name '_ignore' list source
+        columns to drop. Returns None when the upload was never reviewed.
+        """
+        result = await db.execute(
+            select(ManualMapping).where(
+                ManualMapping.upload_id == upload.id,
+                ManualMapping.deleted_at.is_(None),
+            )
+        )
+        rows = list(result.scalars().all())
+        if not rows:
+            return None
+
+        mappings: dict[str, Any] = {}
+        ignored: list[str] = []
+        for row in rows:
+            if not row.source_column:
+                continue
+            if row.field_name == IGNORED_COLUMNS_KEY:
+                ignored.append(row.source_column)
+            elif row.mapping_rule:
+                mappings[row.field_name] = {"column": row.source_column, **row.mapping_rule}
+            else:
+                mappings[row.field_name] = row.source_column
+        if ignored:
+            mappings[IGNORED_COLUMNS_KEY] = ignored
+
+        template = ParsingTemplate(
+            tenant_id=upload.tenant_id,
+            name="Reviewed column mapping",
+            file_type=upload.mime_type or "unknown",
+            detection={},
+            mappings=mappings,
+            source="manual",
+        )
+        return TemplateMatch(
+            template=template,
+            confidence=1.0,
+            reasons=["Column mapping accepted in upload review"],
+        )
+
     # -----------------------------------------------------------------------
     # Parse helper
     # -----------------------------------------------------------------------
@@ -1395,12 +1714,17 @@ class UploadProcessorService:
                 update(Upload).where(Upload.id == upload_id).values(**values)
             )
 
+        self._events.publish(upload_id, status)
         self.logger.info(
             "upload_status_updated",
             upload_id=str(upload_id),
             status=status,
         )
 
+    def _stage(self, upload_id: UUID, stage: str) -> None:
+        """Announce the pipeline stage now running; the DB status stays 'parsing'."""
+        self._events.publish(upload_id, STATUS_PARSING, stage=stage)
+
     async def _set_status_error(
         self,
         upload_id: UUID,
@@ -1421,6 +1745,7 @@ class UploadProcessorService:
                     },
                 )
             )
+        self._events.publish(upload_id, STATUS_FAILED, message=str(exc))
         self.logger.error(
             "upload_status_set_failed",
             upload_id=str(upload_id),
@@ -1489,6 +1814,9 @@ class _TenantSession:
 async def _watch_stale_uploads() -> None:
     """Periodically mark uploads stuck in 'parsing' as 'failed'.
 
+    Also purges chunk directories of abandoned chunked uploads
+    (settings.chunked_upload_retention_hours).
+
     Runs as an asyncio background task from the FastAPI lifespan.
     Uploads in status='parsing' with updated_at older than _STALE_MINUTES
     are assumed to have crashed without updating their status.
@@ -1545,12 +1873,22 @@ async def _watch_stale_uploads() -> None:
                 timed_out = result.scalars().all()
                 await db.commit()
 
+            events = get_upload_event_service()
+            for uid in timed_out:
+                events.publish(
+                    uid,
+                    STATUS_FAILED,
+                    message=f"Processing timed out after {_STALE_MINUTES} minutes",
+                )
             if timed_out:
                 log.warning(
                     "stale_uploads_marked_failed",
                     count=len(timed_out),
                     upload_ids=[str(uid) for uid in timed_out],
                 )
+
+            # Chunks of resumable uploads nobody came back for
+            await asyncio.to_thread(get_chunked_upload_service().purge_stale)
         except Exception as exc:
             log.error("stale_watcher_error", error=str(exc), exc_info=True)
 
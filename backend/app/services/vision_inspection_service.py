@@ -0,0 +1,276 @@
+"""VisionInspectionService — page-level view of the invoice vision pipeline.
+
+The import path reads scanned invoices through OCR text (InvoiceParserService),
+so VisionPipeline runs here on demand for review. Every run is stored as a new
+raw_extraction row (GoBD audit trail, never updated in place); the latest one
+is what the pages panel on UploadDetailPage shows.
+
+Key features:
+- analyse(): full 6-stage run over all pages of a PDF / image upload
+- run_analysis(): analyse() as a background task in its own tenant session;
+  progress and outcome are pushed as vision events on the upload's stream
+- rerun_page(): re-extract one page as a reviewer-chosen page type; the other
+  pages are taken from the latest run
+- inspection(): latest run as per-page reports — page type, confidence,
+  field sources and skipped pages
+"""
+
+from __future__ import annotations
+
+import asyncio
+from dataclasses import dataclass, field
+from datetime import datetime
+from pathlib import Path
+from typing import Any
+from uuid import UUID
+
+import structlog
+from sqlalchemy import select, text
+from sqlalchemy.exc import SQLAlchemyError
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.db.session import AsyncSessionLocal
+from app.models.database import RawExtraction, Upload
+from app.services.document_service import PageImage
+from app.services.parsing.vision_pipeline.pipeline_types import PageType
+from app.services.parsing.vision_pipeline.review_gate import EXTRACTOR
+from app.services.parsing.vision_pipeline.vision_pipeline import VisionPipeline
+from app.services.source_document_service import get_source_document_service, source_kind
+from app.services.upload_event_service import get_upload_event_service
+
+logger = structlog.get_logger(__name__)
+
+
+# ---------------------------------------------------------------------------
+# Result types
+# ---------------------------------------------------------------------------
+
+
+@dataclass
+class FieldSources:
+    """How often one field was read directly, inferred or missing on a page."""
+
+    field: str  # e.g. "invoice_number", "weight_kg"
+    direct_ocr: int = 0
+    llm_inferred: int = 0
+    missing: int = 0
+
+
+@dataclass
+class PageInspection:
+    page_number: int  # 1-based, like the source viewer
+    page_type: str
+    classified_type: str  # differs from page_type after a reviewer override
+    line_count: int
+    skip_reason: str | None = None  # "extraction_failed" | "no_data"
+    confidence: float | None = None
+    direct_ocr_ratio: float | None = None
+    completeness_ratio: float | None = None
+    fields: list[FieldSources] = field(default_factory=list)
+    issues: list[str] = field(default_factory=list)
+
+
+@dataclass
+class VisionInspection:
+    extraction_id: UUID
+    extracted_at: datetime
+    confidence: float | None
+    review_action: str | None
+    pages: list[PageInspection]
+
+
+def page_inspection(page: dict[str, Any]) -> PageInspection:
+    """One entry of a stored run's page_results as shown in the pages panel."""
+    confidence = page.get("confidence") or {}
+    fields: dict[str, FieldSources] = {}
+    # field_breakdown keys: "header.invoice_number", "lines[3].weight_kg"
+    for key, src in (confidence.get("field_breakdown") or {}).items():
+        name = key.split(".", 1)[-1]
+        counts = fields.setdefault(name, FieldSources(field=name))
+        if src in ("direct_ocr", "llm_inferred", "missing"):
+            setattr(counts, src, getattr(counts, src) + 1)
+    return PageInspection(
+        page_number=page["page_number"] + 1,
+        page_type=page["page_type"],
+        classified_type=page.get("classified_type") or page["page_type"],
+        line_count=page.get("line_count", len(page.get("lines") or [])),
+        skip_reason=page.get("skip_reason"),
+        confidence=confidence.get("overall"),
+        direct_ocr_ratio=confidence.get("direct_ocr_ratio"),
+        completeness_ratio=confidence.get("completeness_ratio"),
+        fields=list(fields.values()),
+        issues=page.get("raw_issues") or [],
+    )
+
+
+class VisionInspectionService:
+    """Runs the vision pipeline for review and reads back its stored runs."""
+
+    def __init__(self) -> None:
+        self.logger = structlog.get_logger(__name__)
+        self._pipeline = VisionPipeline()
+
+    async def inspection(self, db: AsyncSession, upload_id: UUID) -> VisionInspection | None:
+        """Latest pipeline run of the upload, None when it was never analysed."""
+        row = await self._latest(db, upload_id)
+        if row is None:
+            return None
+        return VisionInspection(
+            extraction_id=row.id,
+            extracted_at=row.extracted_at,
+            confidence=float(row.confidence) if row.confidence is not None else None,
+            review_action=row.payload.get("review_action"),
+            pages=[page_inspection(p) for p in row.payload.get("page_results") or []],
+        )
+
+    def check_supported(self, upload: Upload) -> None:
+        """Raises ValueError when the upload is not a PDF or image."""
+        if source_kind(upload.filename) not in ("pdf", "image"):
+            raise ValueError("Page analysis needs a PDF or image upload")
+
+    async def analyse(self, db: AsyncSession, upload: Upload, path: Path) -> VisionInspection:
+        """Classify and extract every page of the upload.
+
+        Raises:
+            ValueError: the upload is not a PDF or image.
+            RuntimeError: the run could not be stored.
+        """
+        self.check_supported(upload)
+        events = get_upload_event_service()
+        previous = await self._latest(db, upload.id)
+
+        source = await asyncio.to_thread(
+            get_source_document_service().describe, path, upload.filename
+        )
+        pages: list[PageImage] = []
+        for page in source.pages:
+            pages.append(await self._render(path, page.page_number))
+            events.publish_vision(
+                upload.id,
+                "running",
+                step="rendering",
+                page=len(pages),
+                page_count=len(source.pages),
+            )
+        self.logger.info(
+            "vision_inspection_start", upload_id=str(upload.id), page_count=len(pages)
+        )
+        events.publish_vision(upload.id, "running", step="pipeline", page_count=len(pages))
+        await self._pipeline.run(pages, tenant_id=upload.tenant_id, upload_id=upload.id, db=db)
+        return await self._stored(db, upload.id, previous.id if previous else None)
+
+    async def run_analysis(self, upload_id: UUID, tenant_id: UUID, path: Path) -> None:
+        """Background task of POST /api/uploads/{id}/vision-pages.
+
+        Runs analyse() in its own tenant session and publishes the outcome as
+        a "completed" or "failed" vision event; nothing is raised.
+        """
+        events = get_upload_event_service()
+        try:
+            async with AsyncSessionLocal() as db:
+                await db.execute(
+                    text("SELECT set_config('app.current_tenant', :tid, true)"),
+                    {"tid": str(tenant_id)},
+                )
+                upload = (
+                    await db.execute(select(Upload).where(Upload.id == upload_id))
+                ).scalar_one_or_none()
+                if upload is None:
+                    raise ValueError("Upload not found")
+                inspection = await self.analyse(db, upload, path)
+                await db.commit()
+        except Exception as exc:
+            self.logger.error(
+                "vision_inspection_failed", upload_id=str(upload_id), error=str(exc), exc_info=True
+            )
+            events.publish_vision(upload_id, "failed", message=str(exc))
+            return
+        events.publish_vision(
+            upload_id,
+            "completed",
+            page_count=len(inspection.pages),
+            extraction_id=inspection.extraction_id,
+        )
+
+    async def rerun_page(
+        self,
+        db: AsyncSession,
+        upload: Upload,
+        path: Path,
+        page_number: int,
+        page_type: PageType,
+    ) -> VisionInspection:
+        """Re-extract one page (1-based) as `page_type` and re-merge the document.
+
+        Raises:
+            ValueError: no earlier run, or page_number is out of range.
+        """
+        latest = await self._latest(db, upload.id)
+        if latest is None:
+            raise ValueError("Upload has no page analysis yet")
+
+        page = await self._render(path, page_number)
+        self.logger.info(
+            "vision_inspection_page_rerun",
+            upload_id=str(upload.id),
+            page_number=page_number,
+            page_type=page_type,
+        )
+        await self._pipeline.rerun_page(
+            page,
+            page_number - 1,
+            page_type,
+            latest.payload,
+            tenant_id=upload.tenant_id,
+            upload_id=upload.id,
+            db=db,
+        )
+        return await self._stored(db, upload.id, latest.id)
+
+    # -----------------------------------------------------------------------
+    # Internal helpers
+    # -----------------------------------------------------------------------
+
+    async def _latest(self, db: AsyncSession, upload_id: UUID) -> RawExtraction | None:
+        return (
+            await db.execute(
+                select(RawExtraction)
+                .where(RawExtraction.upload_id == upload_id, RawExtraction.extractor == EXTRACTOR)
+                .order_by(RawExtraction.extracted_at.desc())
+                .limit(1)
+            )
+        ).scalar_one_or_none()
+
+    async def _stored(
+        self, db: AsyncSession, upload_id: UUID, previous_id: UUID | None
+    ) -> VisionInspection:
+        # ReviewGate.persist_raw_extraction logs and swallows failures — a run
+        # that left the session failed, or did not add a new row, is an error here
+        try:
+            result = await self.inspection(db, upload_id)
+        except SQLAlchemyError as exc:
+            raise RuntimeError("Page analysis could not be stored") from exc
+        if result is None or result.extraction_id == previous_id:
+            raise RuntimeError("Page analysis could not be stored")
+        return result
+
+    async def _render(self, path: Path, page_number: int) -> PageImage:
+        # Same 2x resolution DocumentService feeds the vision extraction
+        png = await asyncio.to_thread(
+            get_source_document_service().render_page, path, page_number
+        )
+        return PageImage(page_num=page_number, image_bytes=png)
+
+
+# ---------------------------------------------------------------------------
+# Singleton
+# ---------------------------------------------------------------------------
+
+_vision_inspection_service: VisionInspectionService | None = None
+
+
+def get_vision_inspection_service() -> VisionInspectionService:
+    global _vision_inspection_service
+    if _vision_inspection_service is None:
+        _vision_inspection_service = VisionInspectionService()
+    return _vision_inspection_service
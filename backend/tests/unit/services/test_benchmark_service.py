@@ -1,7 +1,8 @@
 """Unit tests for BenchmarkService.
 
 Tests: bulk processing with semaphore, error isolation, progress callback,
-       missing shipment handling, all-success / all-failure scenarios.
+       missing shipment handling, all-success / all-failure scenarios, the
+       background recalculation in its own tenant session.
 """
 
 from __future__ import annotations
@@ -173,6 +174,46 @@ class TestBenchmarkService:
         completed_vals = sorted(c[0] for c in calls)
         assert completed_vals == [1, 2, 3]
 
+    # ============================================================================
+    # recalculate — background re-benchmark
+    # ============================================================================
+
+    def _session_factory(self) -> MagicMock:
+        factory = MagicMock()
+        factory.return_value.__aenter__ = AsyncMock(return_value=self.db)
+        factory.return_value.__aexit__ = AsyncMock(return_value=False)
+        return factory
+
+    def test_recalculate_commits_in_tenant_session(self) -> None:
+        sid = uuid4()
+        db_result = MagicMock()
+        db_result.scalars.return_value.all.return_value = [_make_shipment(sid, self.tenant_id)]
+        self.db.execute = AsyncMock(return_value=db_result)
+        self.tariff_engine.calculate_expected_cost = AsyncMock(
+            return_value=_make_benchmark_result()
+        )
+
+        with patch(
+            "app.services.benchmark_service.AsyncSessionLocal", self._session_factory()
+        ):
+            self._run(self.service.recalculate([sid], self.tenant_id))
+
+        tenant_call = self.db.execute.await_args_list[0]
+        assert "set_config" in str(tenant_call.args[0])
+        assert tenant_call.args[1] == {"tid": str(self.tenant_id)}
+        self.tariff_engine.calculate_expected_cost.assert_awaited_once()
+        self.db.commit.assert_awaited_once()
+
+    def test_recalculate_swallows_errors(self) -> None:
+        self.db.execute = AsyncMock(side_effect=RuntimeError("connection lost"))
+
+        with patch(
+            "app.services.benchmark_service.AsyncSessionLocal", self._session_factory()
+        ):
+            self._run(self.service.recalculate([uuid4()], self.tenant_id))
+
+        self.db.commit.assert_not_awaited()
+
     # ============================================================================
     # to_dict
     # ============================================================================
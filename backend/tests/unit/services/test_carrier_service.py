@@ -2,7 +2,8 @@
 
 Tests: alias resolution (tenant-specific, not found), alias CRUD,
        carrier lookup by code, billing_type_map update and resolution,
-       resolve_carrier_id_with_fallback() 4-step chain (issue #56).
+       resolve_carrier_id_with_fallback() 4-step chain (issue #56),
+       carrier usage counts, carrier merge preview and merge.
 """
 
 from __future__ import annotations
@@ -13,8 +14,14 @@ from uuid import uuid4
 
 import pytest
 from fastapi import HTTPException
+from sqlalchemy.exc import IntegrityError
 
-from app.services.carrier_service import CarrierService, _levenshtein, _strip_legal_suffix
+from app.services.carrier_service import (
+    CarrierService,
+    CarrierUsage,
+    _levenshtein,
+    _strip_legal_suffix,
+)
 
 
 def _run(coro):
@@ -29,6 +36,27 @@ def _make_alias(tenant_id=None, alias_text="dhl freight", carrier_id=None):
     return a
 
 
+def _make_carrier(name="Gebr. Weiss", carrier_id=None):
+    c = MagicMock()
+    c.id = carrier_id or uuid4()
+    c.name = name
+    return c
+
+
+def _result(rows=None, rowcount=0):
+    result = MagicMock()
+    result.scalars.return_value.all.return_value = rows or []
+    result.rowcount = rowcount
+    return result
+
+
+def _nested_ctx():
+    ctx = MagicMock()
+    ctx.__aenter__ = AsyncMock(return_value=None)
+    ctx.__aexit__ = AsyncMock(return_value=False)
+    return ctx
+
+
 class TestCarrierService:
     """Test suite for CarrierService."""
 
@@ -228,6 +256,132 @@ class TestCarrierService:
 
         assert result is None
 
+    # ============================================================================
+    # get_carrier_usage
+    # ============================================================================
+
+    def test_get_carrier_usage_maps_counts_in_order(self) -> None:
+        # shipments, uploads, tariffs, diesel floaters, brackets, aliases
+        counts = iter([120, 3, 2, 1, 14, 4])
+
+        async def execute_side_effect(stmt):
+            result = MagicMock()
+            result.scalar_one.return_value = next(counts)
+            return result
+
+        self.db.execute = execute_side_effect
+        carrier_id = uuid4()
+
+        usage = _run(self.service.get_carrier_usage(self.db, carrier_id))
+
+        assert usage.carrier_id == carrier_id
+        assert usage.shipment_count == 120
+        assert usage.upload_count == 3
+        assert usage.tariff_count == 2
+        assert usage.diesel_floater_count == 1
+        assert usage.bracket_count == 14
+        assert usage.alias_count == 4
+
+    def test_get_carrier_usage_treats_null_count_as_zero(self) -> None:
+        result_mock = MagicMock()
+        result_mock.scalar_one.return_value = None
+        self.db.execute = AsyncMock(return_value=result_mock)
+
+        usage = _run(self.service.get_carrier_usage(self.db, uuid4()))
+
+        assert usage.to_dict()["shipment_count"] == 0
+        assert usage.alias_count == 0
+
+    # ============================================================================
+    # preview_merge / merge_carriers
+    # ============================================================================
+
+    def test_preview_merge_collects_usage_and_conflicts(self) -> None:
+        target_id, source_id = uuid4(), uuid4()
+        usage = CarrierUsage(carrier_id=source_id, shipment_count=7, bracket_count=3)
+        conflicts = iter([1, 2])  # floaters, brackets
+
+        async def execute_side_effect(stmt):
+            result = MagicMock()
+            result.scalar_one.return_value = next(conflicts)
+            return result
+
+        self.db.execute = execute_side_effect
+        with patch.object(self.service, "get_carrier_usage", AsyncMock(return_value=usage)):
+            preview = _run(self.service.preview_merge(self.db, target_id, [source_id]))
+
+        assert preview.sources == [usage]
+        assert preview.floater_conflict_count == 1
+        assert preview.bracket_conflict_count == 2
+
+    def test_merge_carriers_repoints_and_saves_source_names_as_aliases(self) -> None:
+        target_id = uuid4()
+        source = _make_carrier(name="  Gebr. Weiß GmbH ")
+        upload_id, s1, s2 = uuid4(), uuid4(), uuid4()
+        upload = MagicMock()
+        upload.parsing_issues = [
+            {"type": "unknown_carrier", "placeholder_carrier_id": str(source.id)},
+            {"type": "missing_data"},
+        ]
+        results = iter([
+            _result(rows=[upload_id]),   # affected uploads
+            _result(rows=[s1, s2]),      # affected shipments
+            _result(rowcount=1),         # conflicting floaters dropped
+            _result(rowcount=0),         # conflicting brackets dropped
+            _result(rowcount=2),         # shipments
+            _result(rowcount=1),         # tariffs
+            _result(rowcount=3),         # diesel floaters
+            _result(rowcount=12),        # brackets
+            _result(rowcount=0),         # invoice headers
+            _result(rowcount=2),         # aliases
+            _result(rows=[upload]),      # uploads with parsing issues
+            _result(rowcount=1),         # delete source carrier
+        ])
+
+        async def execute_side_effect(stmt):
+            return next(results)
+
+        self.db.execute = execute_side_effect
+        self.db.begin_nested = MagicMock(return_value=_nested_ctx())
+        upsert = AsyncMock()
+        with patch.object(self.service, "upsert_alias", upsert):
+            result = _run(
+                self.service.merge_carriers(self.db, self.tenant_id, target_id, [source])
+            )
+
+        assert result.shipment_ids == [s1, s2]
+        assert result.tariffs_repointed == 1
+        assert result.diesel_floaters_repointed == 3
+        assert result.brackets_repointed == 12
+        assert result.floaters_dropped == 1
+        assert result.aliases_repointed == 2
+        assert result.new_aliases == ["gebr. weiß gmbh"]
+        assert result.deleted_carrier_ids == [source.id]
+        upsert.assert_awaited_once_with(self.db, self.tenant_id, "gebr. weiß gmbh", target_id)
+        assert upload.parsing_issues[0]["resolved_carrier_id"] == str(target_id)
+        assert "resolved_carrier_id" not in upload.parsing_issues[1]
+
+    def test_merge_carriers_keeps_source_still_referenced_elsewhere(self) -> None:
+        source = _make_carrier()
+        results = iter([_result(), _result()] + [_result()] * 8)
+
+        async def execute_side_effect(stmt):
+            try:
+                return next(results)
+            except StopIteration:
+                # Delete of the global carrier row hits another tenant's FK
+                raise IntegrityError("DELETE", {}, Exception("fk violation"))
+
+        self.db.execute = execute_side_effect
+        self.db.begin_nested = MagicMock(return_value=_nested_ctx())
+        with patch.object(self.service, "upsert_alias", AsyncMock()):
+            result = _run(
+                self.service.merge_carriers(self.db, self.tenant_id, uuid4(), [source])
+            )
+
+        assert result.shipment_ids == []
+        assert result.deleted_carrier_ids == []
+
 
 # ---------------------------------------------------------------------------
 # Helpers (issue #56)
@@ -0,0 +1,80 @@
+"""Unit tests for ChunkedUploadService.
+
+Tests: chunk storage and replacement, received chunk listing, assembly with
+       SHA-256, missing chunks, discard and stale purge.
+"""
+
+from __future__ import annotations
+
+import asyncio
+import hashlib
+import os
+import time
+from uuid import uuid4
+
+import pytest
+
+from app.services.chunked_upload_service import ChunkedUploadService
+
+
+def _run(coro):
+    return asyncio.get_event_loop().run_until_complete(coro)
+
+
+class TestChunkStore:
+    def setup_method(self) -> None:
+        self.session_id = uuid4()
+
+    def test_received_chunks_lists_written_indices(self, tmp_path):
+        service = ChunkedUploadService(root=tmp_path)
+        assert service.received_chunks(self.session_id) == []
+
+        _run(service.write_chunk(self.session_id, 2, b"cc"))
+        _run(service.write_chunk(self.session_id, 0, b"aa"))
+
+        assert service.received_chunks(self.session_id) == [0, 2]
+
+    def test_assemble_concatenates_in_order_and_hashes(self, tmp_path):
+        service = ChunkedUploadService(root=tmp_path / "chunks")
+        parts = [b"first-", b"second-", b"last"]
+        for index in (2, 0, 1):
+            _run(service.write_chunk(self.session_id, index, parts[index]))
+        # A resent chunk replaces the earlier copy
+        _run(service.write_chunk(self.session_id, 1, b"second-"))
+
+        target = tmp_path / "out" / "file.xlsx"
+        assembled = _run(service.assemble(self.session_id, 3, target))
+
+        content = b"".join(parts)
+        assert target.read_bytes() == content
+        assert assembled.size == len(content)
+        assert assembled.file_hash == hashlib.sha256(content).hexdigest()
+
+    def test_assemble_rejects_missing_chunks(self, tmp_path):
+        service = ChunkedUploadService(root=tmp_path)
+        _run(service.write_chunk(self.session_id, 0, b"aa"))
+        target = tmp_path / "file.pdf"
+
+        with pytest.raises(ValueError, match=r"Missing chunks: \[1, 2\]"):
+            _run(service.assemble(self.session_id, 3, target))
+        assert not target.exists()
+
+    def test_discard_removes_session_chunks(self, tmp_path):
+        service = ChunkedUploadService(root=tmp_path)
+        _run(service.write_chunk(self.session_id, 0, b"aa"))
+
+        service.discard(self.session_id)
+
+        assert service.received_chunks(self.session_id) == []
+
+    def test_purge_stale_keeps_recent_sessions(self, tmp_path):
+        service = ChunkedUploadService(root=tmp_path)
+        old, recent = uuid4(), uuid4()
+        _run(service.write_chunk(old, 0, b"aa"))
+        _run(service.write_chunk(recent, 0, b"bb"))
+        two_days_ago = time.time() - 49 * 3600
+        os.utime(tmp_path / str(old), (two_days_ago, two_days_ago))
+
+        assert service.purge_stale(max_age_hours=48) == 1
+        assert service.received_chunks(old) == []
+        assert service.received_chunks(recent) == [0]
@@ -0,0 +1,185 @@
+"""Unit tests for ConsistencyService cross-document checks.
+
+Tests: invoice total vs. imported lines, the same shipment on two invoices,
+       invoices against the shipment list, and how a re-check reconciles
+       stored findings (reopen fixed, auto-fix open, keep accepted).
+"""
+
+from __future__ import annotations
+
+from decimal import Decimal
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+import pytest
+
+from app.models.database import ConsistencyFinding
+from app.services.consistency_service import ConsistencyService, find_inconsistencies
+
+
+def _upload(doc_type: str, filename: str = "rechnung.pdf", invoices=None) -> SimpleNamespace:
+    return SimpleNamespace(
+        id=uuid4(),
+        filename=filename,
+        doc_type=doc_type,
+        llm_analysis={"invoices": invoices} if invoices is not None else None,
+    )
+
+
+def _shipment(
+    upload: SimpleNamespace,
+    reference: str | None,
+    total: str | None = None,
+    weight: str | None = None,
+    **source,
+) -> SimpleNamespace:
+    return SimpleNamespace(
+        id=uuid4(),
+        upload_id=upload.id,
+        reference_number=reference,
+        actual_total_amount=Decimal(total) if total is not None else None,
+        weight_kg=Decimal(weight) if weight is not None else None,
+        source_data=source,
+    )
+
+
+def _checks(findings) -> list[str]:
+    return sorted(f.check_type for f in findings)
+
+
+class TestInvoiceChecks:
+    def test_invoice_total_against_line_sum(self):
+        upload = _upload(
+            "invoice",
+            invoices=[
+                {"invoice_number": "RE-1", "total_amount": 100.0},
+                {"invoice_number": "RE-2", "total_amount": 50.0},
+            ],
+        )
+        shipments = [
+            _shipment(upload, "S1", "60.00", invoice_number="RE-1"),
+            _shipment(upload, "S2", "40.01", invoice_number="RE-1"),
+            _shipment(upload, "S3", "45.00", invoice_number="RE-2"),
+        ]
+
+        [finding] = find_inconsistencies([upload], shipments)
+
+        assert finding.check_type == "invoice_total"
+        assert finding.severity == "warning"
+        assert finding.fingerprint == f"invoice_total:{upload.id}:RE-2"
+        assert "diff 5.00" in finding.message
+        assert finding.refs[0].upload_id == upload.id
+
+    def test_same_reference_on_two_invoices_is_duplicate(self):
+        first, second = _upload("invoice", "jan.pdf"), _upload("invoice", "feb.pdf")
+        shipments = [
+            # Freight and surcharge line of one invoice are not a duplicate
+            _shipment(first, "S1", invoice_number="RE-1", line_number=1, page_number=2),
+            _shipment(first, "S1", invoice_number="RE-1", line_number=2),
+            _shipment(second, " s1 ", invoice_number="RE-7", line_number=4),
+            _shipment(first, "S2", invoice_number="RE-1"),
+        ]
+
+        [finding] = find_inconsistencies([first, second], shipments)
+
+        assert (finding.check_type, finding.severity) == ("duplicate_billing", "error")
+        assert finding.fingerprint == "duplicate_billing:S1"
+        assert "RE-1, RE-7" in finding.message
+        assert [(r.filename, r.row, r.page) for r in finding.refs] == [
+            ("jan.pdf", 1, 2),
+            ("jan.pdf", 2, None),
+            ("feb.pdf", 4, None),
+        ]
+
+
+class TestShipmentListChecks:
+    def test_invoice_compared_with_shipment_list(self):
+        invoice = _upload("invoice")
+        sheet = _upload("shipment_csv", "sendungen.csv")
+        shipments = [
+            _shipment(invoice, "S1", "50.00", "120", invoice_number="RE-1"),
+            _shipment(invoice, "S2", "80.00", "300", invoice_number="RE-1"),
+            _shipment(invoice, "S3", invoice_number="RE-1"),
+            _shipment(sheet, "S1", "50.00", "120.3", source_row=1),
+            _shipment(sheet, "S2", "75.00", "250", source_row=2),
+        ]
+
+        findings = find_inconsistencies([invoice, sheet], shipments)
+
+        assert _checks(findings) == [
+            "amount_mismatch",
+            "missing_in_shipment_list",
+            "weight_mismatch",
+        ]
+        amount = next(f for f in findings if f.check_type == "amount_mismatch")
+        assert amount.fingerprint == "amount_mismatch:S2"
+        assert [(r.filename, r.row) for r in amount.refs] == [
+            ("rechnung.pdf", None),
+            ("sendungen.csv", 2),
+        ]
+
+    def test_no_list_comparison_without_shipment_list(self):
+        invoice = _upload("invoice")
+
+        assert find_inconsistencies([invoice], [_shipment(invoice, "S1")]) == []
+
+
+class TestReconcile:
+    def setup_method(self) -> None:
+        self.service = ConsistencyService()
+        self.db = AsyncMock()
+        self.db.add = MagicMock()
+
+    def _results(self, uploads, shipments, stored) -> None:
+        def result(rows):
+            r = MagicMock()
+            r.scalars.return_value.all.return_value = rows
+            return r
+
+        self.db.execute.side_effect = [
+            result(uploads),
+            result(shipments),
+            result(stored),
+            result(stored),
+        ]
+
+    def _stored(self, fingerprint: str, status: str) -> ConsistencyFinding:
+        return ConsistencyFinding(
+            check_type=fingerprint.split(":")[0],
+            severity="error",
+            fingerprint=fingerprint,
+            message="",
+            refs=[],
+            status=status,
+            resolution_note="note",
+        )
+
+    @pytest.mark.asyncio
+    async def test_recheck_reconciles_stored_findings(self):
+        first, second = _upload("invoice"), _upload("invoice")
+        shipments = [
+            _shipment(first, "S1", invoice_number="RE-1"),
+            _shipment(second, "S1", invoice_number="RE-2"),
+            _shipment(first, "S2", invoice_number="RE-1"),
+            _shipment(second, "S2", invoice_number="RE-2"),
+            _shipment(first, "S3", invoice_number="RE-1"),
+            _shipment(second, "S3", invoice_number="RE-2"),
+        ]
+        fixed = self._stored("duplicate_billing:S1", "fixed")
+        accepted = self._stored("duplicate_billing:S2", "accepted")
+        gone = self._stored("duplicate_billing:S9", "open")
+        self._results([first, second], shipments, [fixed, accepted, gone])
+
+        project = SimpleNamespace(id=uuid4(), tenant_id=uuid4(), consistency_checked_at=None)
+
+        await self.service.check(self.db, project)
+
+        assert project.consistency_checked_at is not None
+
+        assert (fixed.status, fixed.resolution_note) == ("open", None)
+        assert (accepted.status, accepted.resolution_note) == ("accepted", "note")
+        assert (gone.status, gone.resolution_note) == ("fixed", "No longer detected")
+        [added] = [c.args[0] for c in self.db.add.call_args_list]
+        assert (added.fingerprint, added.status) == ("duplicate_billing:S3", "open")
+        assert len(fixed.refs) == 2
@@ -0,0 +1,229 @@
+"""Unit tests for DestatisDieselService manual prices and fetch conflicts.
+
+Tests: fetches only write the shared cache, manual prices are tenant
+       overrides, conflict detection against the published value, conflict
+       resolution, tenant-first price lookup, audit rows.
+"""
+
+from __future__ import annotations
+
+import asyncio
+from decimal import Decimal
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+import pytest
+
+from app.models.database import DestatisDieselPrice, DestatisPriceAudit, DestatisPriceOverride
+from app.services.destatis_service import DestatisDieselService
+
+
+def _run(coro):
+    return asyncio.get_event_loop().run_until_complete(coro)
+
+
+def _price_row(price: str) -> MagicMock:
+    row = MagicMock()
+    row.price_year, row.price_month, row.series_code = 2024, 11, "61243-0001"
+    row.price_ct = Decimal(price)
+    return row
+
+
+def _override(price: str, confirmed: str | None = None) -> MagicMock:
+    row = _price_row(price)
+    row.confirmed_fetched_ct = Decimal(confirmed) if confirmed else None
+    return row
+
+
+class TestDestatisPrices:
+    def setup_method(self) -> None:
+        self.service = DestatisDieselService()
+        self.db = AsyncMock()
+        self.db.add = MagicMock()
+        self.tenant_id = uuid4()
+        self.user_id = uuid4()
+
+    def _existing(self, *rows: MagicMock | None) -> None:
+        """Results of the lookups in call order (override first, then shared row)."""
+        results = []
+        for row in rows:
+            result = MagicMock()
+            result.scalar_one_or_none.return_value = row
+            results.append(result)
+        self.db.execute.side_effect = results
+
+    def _added(self, model: type) -> list:
+        return [c.args[0] for c in self.db.add.call_args_list if isinstance(c.args[0], model)]
+
+    def _audits(self) -> list[DestatisPriceAudit]:
+        return self._added(DestatisPriceAudit)
+
+    # ── fetch ──────────────────────────────────────────────────────────────
+
+    def test_fetch_inserts_new_month(self):
+        self._existing(None)
+
+        _run(self.service._cache(self.db, 2024, 11, Decimal("148.3")))
+
+        price = self._added(DestatisDieselPrice)[0]
+        assert price.price_ct == Decimal("148.3")
+        audit = self._audits()[0]
+        assert (audit.action, audit.tenant_id, audit.changed_by) == ("fetched", None, None)
+
+    def test_fetch_updates_revised_month(self):
+        row = _price_row("148.3")
+        self._existing(row)
+
+        _run(self.service._cache(self.db, 2024, 11, Decimal("149.0")))
+
+        assert row.price_ct == Decimal("149.0")
+        assert [(a.old_price_ct, a.new_price_ct) for a in self._audits()] == [
+            (Decimal("148.3"), Decimal("149.0"))
+        ]
+
+    def test_fetch_of_unchanged_month_writes_nothing(self):
+        self._existing(_price_row("148.3"))
+
+        _run(self.service._cache(self.db, 2024, 11, Decimal("148.3")))
+
+        self.db.add.assert_not_called()
+
+    # ── manual entry ───────────────────────────────────────────────────────
+
+    def test_manual_entry_is_tenant_override(self):
+        shared = _price_row("148.3")
+        self._existing(None, shared)
+
+        outcome = _run(
+            self.service.set_manual_price(
+                self.db, self.tenant_id, 2024, 11, Decimal("150"), user_id=self.user_id
+            )
+        )
+
+        assert outcome == "inserted"
+        assert shared.price_ct == Decimal("148.3")
+        assert self._added(DestatisDieselPrice) == []
+        override = self._added(DestatisPriceOverride)[0]
+        assert (override.tenant_id, override.price_ct) == (self.tenant_id, Decimal("150"))
+        # A hand entry deliberately replaces the published value — no conflict
+        assert override.confirmed_fetched_ct == Decimal("148.3")
+        audit = self._audits()[0]
+        assert (audit.action, audit.old_price_ct, audit.old_source, audit.new_price_ct) == (
+            "manual", Decimal("148.3"), "fetched", Decimal("150")
+        )
+        assert (audit.changed_by, audit.tenant_id) == (self.user_id, self.tenant_id)
+
+    def test_import_differing_from_published_value_is_unconfirmed(self):
+        override = _override("149", confirmed="148.3")
+        self._existing(override, _price_row("148.3"))
+
+        outcome = _run(
+            self.service.set_manual_price(
+                self.db, self.tenant_id, 2024, 11, Decimal("150"), action="import"
+            )
+        )
+
+        assert outcome == "updated"
+        assert override.price_ct == Decimal("150")
+        assert override.confirmed_fetched_ct is None
+
+    def test_same_manual_value_is_unchanged(self):
+        self._existing(_override("150"))
+
+        outcome = _run(
+            self.service.set_manual_price(self.db, self.tenant_id, 2024, 11, Decimal("150"))
+        )
+
+        assert outcome == "unchanged"
+        self.db.add.assert_not_called()
+
+    def test_delete_only_removes_tenant_override(self):
+        override = _override("150")
+        self._existing(override, _price_row("148.3"))
+
+        assert _run(self.service.delete_price(self.db, self.tenant_id, 2024, 11)) is True
+
+        self.db.delete.assert_awaited_once_with(override)
+        audit = self._audits()[0]
+        assert (audit.action, audit.new_price_ct, audit.new_source) == (
+            "deleted", Decimal("148.3"), "fetched"
+        )
+
+    def test_delete_without_override_is_false(self):
+        self._existing(None)
+
+        assert _run(self.service.delete_price(self.db, self.tenant_id, 2024, 11)) is False
+        self.db.delete.assert_not_awaited()
+
+    # ── lookup ─────────────────────────────────────────────────────────────
+
+    def test_tenant_override_wins_over_shared_price(self):
+        self._existing(_override("150"))
+
+        price = _run(self.service.fetch_month(self.db, 2024, 11, tenant_id=self.tenant_id))
+
+        assert price == Decimal("150")
+        assert self.db.execute.await_count == 1
+
+    def test_without_override_shared_price_applies(self):
+        self._existing(None, _price_row("148.3"))
+
+        price = _run(self.service.fetch_month(self.db, 2024, 11, tenant_id=self.tenant_id))
+
+        assert price == Decimal("148.3")
+
+    def test_conflict_when_published_value_is_unconfirmed(self):
+        self._existing(_price_row("148.3"), _override("150"))
+
+        price = _run(self.service.get_price(self.db, self.tenant_id, 2024, 11, "61243-0001"))
+
+        assert (price.price_ct, price.source, price.fetched_price_ct) == (
+            Decimal("150"), "manual", Decimal("148.3")
+        )
+        assert price.conflict is True
+
+    def test_confirmed_published_value_is_no_conflict(self):
+        self._existing(_price_row("148.3"), _override("150", confirmed="148.3"))
+
+        price = _run(self.service.get_price(self.db, self.tenant_id, 2024, 11, "61243-0001"))
+
+        assert price.conflict is False
+
+    # ── conflicts ──────────────────────────────────────────────────────────
+
+    def test_resolve_with_fetched_value_drops_override(self):
+        override = _override("150")
+        self._existing(override, _price_row("148.3"))
+
+        price = _run(
+            self.service.resolve_conflict(
+                self.db, self.tenant_id, 2024, 11, "fetched", user_id=self.user_id
+            )
+        )
+
+        self.db.delete.assert_awaited_once_with(override)
+        assert (price.price_ct, price.source) == (Decimal("148.3"), "fetched")
+        assert price.conflict is False
+        assert [a.action for a in self._audits()] == ["use_fetched"]
+
+    def test_resolve_keeping_manual_value_confirms_it(self):
+        override = _override("150")
+        self._existing(override, _price_row("148.3"))
+
+        price = _run(self.service.resolve_conflict(self.db, self.tenant_id, 2024, 11, "manual"))
+
+        assert override.confirmed_fetched_ct == Decimal("148.3")
+        assert (price.price_ct, price.source, price.conflict) == (Decimal("150"), "manual", False)
+        assert [a.action for a in self._audits()] == ["keep_manual"]
+
+    def test_resolve_without_conflict_raises(self):
+        self._existing(_override("150", confirmed="148.3"), _price_row("148.3"))
+
+        with pytest.raises(ValueError):
+            _run(self.service.resolve_conflict(self.db, self.tenant_id, 2024, 11, "manual"))
+
+    def test_resolve_without_override_raises(self):
+        self._existing(None)
+
+        with pytest.raises(LookupError):
+            _run(self.service.resolve_conflict(self.db, self.tenant_id, 2024, 11, "fetched"))
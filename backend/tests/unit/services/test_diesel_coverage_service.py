@@ -0,0 +1,126 @@
+"""Unit tests for DieselCoverageService.
+
+Tests: overlap detection, carrier × month status (bracket, partial, gap),
+       missing Destatis prices, uncovered and unassigned shipments.
+"""
+
+from __future__ import annotations
+
+import asyncio
+from datetime import date
+from decimal import Decimal
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+from app.services.diesel_coverage_service import (
+    DieselCoverageService,
+    RatePeriod,
+    find_overlaps,
+)
+
+
+def _run(coro):
+    return asyncio.get_event_loop().run_until_complete(coro)
+
+
+def _rows(rows: list) -> MagicMock:
+    result = MagicMock()
+    result.all.return_value = rows
+    return result
+
+
+def _scalars(rows: list) -> MagicMock:
+    result = MagicMock()
+    result.scalars.return_value.all.return_value = rows
+    return result
+
+
+class TestFindOverlaps:
+    def test_open_ended_period_overlaps_later_one(self):
+        first = RatePeriod(kind="rate", valid_from=date(2025, 1, 1))
+        second = RatePeriod(kind="rate", valid_from=date(2025, 3, 1), valid_until=date(2025, 3, 31))
+
+        overlaps = find_overlaps([second, first])
+
+        assert [(o.first, o.second) for o in overlaps] == [(first, second)]
+
+    def test_adjacent_periods_and_different_kinds_do_not_overlap(self):
+        periods = [
+            RatePeriod(kind="rate", valid_from=date(2025, 1, 1), valid_until=date(2025, 1, 31)),
+            RatePeriod(kind="rate", valid_from=date(2025, 2, 1)),
+            RatePeriod(kind="bracket", valid_from=date(2025, 1, 1)),
+        ]
+        assert find_overlaps(periods) == []
+
+
+class TestCoverage:
+    def setup_method(self) -> None:
+        self.service = DieselCoverageService()
+        self.db = AsyncMock()
+        self.project_id = uuid4()
+        self.carrier_id = uuid4()
+
+    def _bracket(self) -> MagicMock:
+        row = MagicMock()
+        row.carrier_id = self.carrier_id
+        row.price_ct_max = Decimal("160")
+        row.floater_pct = Decimal("10")
+        row.basis = "base"
+        row.valid_from = date(2024, 1, 1)
+        row.valid_until = None
+        return row
+
+    def _rate(self, valid_from: date, valid_until: date | None) -> MagicMock:
+        row = MagicMock()
+        row.carrier_id = self.carrier_id
+        row.valid_from = valid_from
+        row.valid_until = valid_until
+        return row
+
+    def _price(self, year: int, month: int, price: str) -> MagicMock:
+        row = MagicMock()
+        row.price_year = year
+        row.price_month = month
+        row.price_ct = Decimal(price)
+        return row
+
+    def test_empty_project(self):
+        self.db.execute.side_effect = [_rows([])]
+
+        coverage = _run(self.service.coverage(self.db, self.project_id))
+
+        assert coverage.months == [] and coverage.carriers == []
+
+    def test_matrix_statuses(self):
+        self.db.execute.side_effect = [
+            _rows([
+                (self.carrier_id, date(2025, 1, 10)),
+                (self.carrier_id, date(2025, 2, 3)),
+                (self.carrier_id, date(2025, 3, 15)),
+                (None, date(2025, 2, 1)),
+            ]),
+            _rows([(self.carrier_id, "Schenker")]),
+            _scalars([self._bracket()]),
+            _scalars([
+                self._rate(date(2025, 2, 1), date(2025, 2, 14)),
+                self._rate(date(2025, 2, 10), date(2025, 2, 20)),
+            ]),
+            # Dec 2024 (for Feb) missing; Jan 2025 (for Mar) above the table
+            _scalars([self._price(2024, 11, "150"), self._price(2025, 1, "170")]),
+            _scalars([]),  # no tenant overrides
+        ]
+
+        coverage = _run(self.service.coverage(self.db, self.project_id))
+
+        assert coverage.months == ["2025-01", "2025-02", "2025-03"]
+        assert coverage.unassigned_shipments == 1
+        (carrier,) = coverage.carriers
+        assert carrier.carrier_name == "Schenker"
+        jan, feb, mar = carrier.cells
+        assert (jan.status, jan.covered_days, jan.uncovered_shipments) == ("bracket", 31, 0)
+        assert (feb.status, feb.covered_days, feb.uncovered_shipments) == ("partial", 20, 0)
+        assert feb.missing_price and feb.overlap
+        assert (mar.status, mar.uncovered_shipments) == ("gap", 1)
+        assert not mar.missing_price and not mar.overlap
+        assert carrier.uncovered_shipments == 1
+        assert [o.kind for o in carrier.overlaps] == ["rate"]
@@ -0,0 +1,158 @@
+"""Unit tests for DieselSimulationService.
+
+Tests: bracket resolution by price and validity, surcharge basis split,
+       monthly aggregation with 2-month Destatis lag, uncovered shipments,
+       tenant overrides replacing Destatis prices.
+"""
+
+from __future__ import annotations
+
+import asyncio
+from datetime import date
+from decimal import Decimal
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+from app.services.diesel_simulation_service import (
+    BracketRule,
+    DieselSimulationService,
+    bracket_for,
+    load_reference_prices,
+    surcharge_basis,
+)
+
+
+def _run(coro):
+    return asyncio.get_event_loop().run_until_complete(coro)
+
+
+def _rule(max_ct: str, pct: str, valid_from: date = date(2024, 1, 1), valid_until: date | None = None):
+    return BracketRule(
+        price_ct_max=Decimal(max_ct),
+        floater_pct=Decimal(pct),
+        basis="base",
+        valid_from=valid_from,
+        valid_until=valid_until,
+    )
+
+
+def _scalars(rows: list) -> MagicMock:
+    result = MagicMock()
+    result.scalars.return_value.all.return_value = rows
+    return result
+
+
+# ---------------------------------------------------------------------------
+# Pure helpers
+# ---------------------------------------------------------------------------
+
+
+class TestBracketFor:
+    def test_picks_lowest_threshold_at_or_above_price(self):
+        rules = [_rule("150", "10"), _rule("160", "12"), _rule("140", "8")]
+        assert bracket_for(Decimal("145.5"), rules, date(2025, 1, 1)).floater_pct == Decimal("10")
+        assert bracket_for(Decimal("150"), rules, date(2025, 1, 1)).floater_pct == Decimal("10")
+
+    def test_price_above_table_is_not_covered(self):
+        assert bracket_for(Decimal("170"), [_rule("160", "12")], date(2025, 1, 1)) is None
+
+    def test_respects_table_validity(self):
+        old = _rule("150", "10", valid_until=date(2024, 12, 31))
+        new = _rule("150", "11", valid_from=date(2025, 1, 1))
+        assert bracket_for(Decimal("140"), [old, new], date(2024, 12, 31)) is old
+        assert bracket_for(Decimal("140"), [old, new], date(2025, 1, 1)) is new
+
+    def test_surcharge_basis_adds_toll_except_for_base(self):
+        assert surcharge_basis("base", Decimal("100"), Decimal("20")) == Decimal("100")
+        assert surcharge_basis("base_plus_toll", Decimal("100"), Decimal("20")) == Decimal("120")
+        assert surcharge_basis("total", Decimal("100"), None) == Decimal("100")
+
+
+# ---------------------------------------------------------------------------
+# simulate()
+# ---------------------------------------------------------------------------
+
+
+class TestSimulate:
+    def setup_method(self) -> None:
+        self.service = DieselSimulationService()
+        self.db = AsyncMock()
+        self.carrier_id = uuid4()
+
+    def _bracket_row(self, max_ct: str, pct: str) -> MagicMock:
+        row = MagicMock()
+        row.price_ct_max = Decimal(max_ct)
+        row.floater_pct = Decimal(pct)
+        row.basis = "base"
+        row.valid_from = date(2024, 1, 1)
+        row.valid_until = None
+        return row
+
+    def _price_row(self, year: int, month: int, price: str) -> MagicMock:
+        row = MagicMock()
+        row.price_year = year
+        row.price_month = month
+        row.price_ct = Decimal(price)
+        return row
+
+    def test_monthly_expected_vs_charged_with_lag(self):
+        carrier = MagicMock()
+        carrier.scalar_one_or_none.return_value = "Schenker"
+        shipments = MagicMock()
+        shipments.all.return_value = [
+            # Jan → Nov price 145 → 10 %; charged 15 %
+            (date(2025, 1, 10), Decimal("1000"), None, Decimal("150")),
+            # Feb → Dec price 155 → 12 %; charged 12 %
+            (date(2025, 2, 5), Decimal("500"), Decimal("40"), Decimal("60")),
+            # Mar → Jan price not cached → uncovered
+            (date(2025, 3, 1), Decimal("200"), None, Decimal("30")),
+        ]
+        self.db.execute.side_effect = [
+            carrier,
+            _scalars([self._bracket_row("150", "10"), self._bracket_row("160", "12")]),
+            _scalars([self._price_row(2024, 11, "145"), self._price_row(2024, 12, "155")]),
+            _scalars([]),  # no tenant overrides
+            shipments,
+        ]
+
+        sim = _run(self.service.simulate(self.db, self.carrier_id, months=3, today=date(2025, 3, 15)))
+
+        assert sim.carrier_name == "Schenker"
+        assert [m.month for m in sim.months] == ["2025-01", "2025-02", "2025-03"]
+        jan, feb, mar = sim.months
+        assert (jan.reference_month, jan.diesel_price_ct) == ("2024-11", Decimal("145"))
+        assert (jan.expected_pct, jan.actual_pct) == (Decimal("10.00"), Decimal("15.00"))
+        assert jan.difference_amount == Decimal("50.00")
+        assert (feb.expected_pct, feb.actual_pct) == (Decimal("12.00"), Decimal("12.00"))
+        assert feb.difference_amount == Decimal("0.00")
+        assert mar.diesel_price_ct is None and mar.expected_pct is None
+        assert mar.uncovered_shipments == 1
+        assert mar.actual_pct == Decimal("15.00")
+
+        assert sim.totals.shipment_count == 3
+        assert sim.totals.difference_amount == Decimal("50.00")
+        assert sim.totals.uncovered_shipments == 1
+        assert [b.price_ct_max for b in sim.brackets] == [Decimal("150"), Decimal("160")]
+
+
+class TestLoadReferencePrices:
+    def test_tenant_override_replaces_destatis_month(self):
+        def price(year: int, month: int, ct: str) -> MagicMock:
+            row = MagicMock()
+            row.price_year, row.price_month, row.price_ct = year, month, Decimal(ct)
+            return row
+
+        db = AsyncMock()
+        db.execute.side_effect = [
+            _scalars([price(2024, 11, "145"), price(2024, 12, "155")]),
+            _scalars([price(2024, 12, "150"), price(2025, 1, "158")]),
+        ]
+
+        prices = _run(load_reference_prices(db))
+
+        assert prices == {
+            (2024, 11): Decimal("145"),
+            (2024, 12): Decimal("150"),
+            (2025, 1): Decimal("158"),
+        }
+        assert "destatis_price_override" in str(db.execute.await_args_list[1].args[0])
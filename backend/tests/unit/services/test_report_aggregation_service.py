@@ -20,6 +20,7 @@ from app.services.report_aggregation_service import (
     GenerateReportOptions,
     ProjectStatistics,
     ReportAggregationService,
+    ReportScope,
     ReportService,
 )
 
@@ -350,3 +351,231 @@ class TestReportService:
         assert opts.include_top_overpays is False
         assert opts.top_overpays_limit == 10
         assert opts.notes is None
+        assert opts.report_type is None
+        assert opts.scope.is_restricted() is False
+
+    def test_generate_applies_type_title_and_scope(self) -> None:
+        project = self._mock_project()
+        call_count = 0
+
+        async def mock_execute(stmt):
+            nonlocal call_count
+            call_count += 1
+            result = MagicMock()
+            if call_count == 1:
+                result.scalar_one_or_none.return_value = project
+            else:
+                result.scalar.return_value = 1
+            return result
+
+        self.db.execute = mock_execute
+        self.db.add = MagicMock()
+        self.db.flush = AsyncMock()
+        self.db.refresh = AsyncMock()
+
+        carrier_id = uuid4()
+        scope = ReportScope(date_from=date(2024, 1, 1), carrier_ids=[carrier_id])
+        options = GenerateReportOptions(
+            report_type="deep_dive", title="Kunde X — Deep Dive", scope=scope
+        )
+        report = self._run(
+            self.service.generate(self.db, self.project_id, self.tenant_id, options)
+        )
+
+        assert report.report_type == "deep_dive"
+        assert report.title == "Kunde X — Deep Dive"
+        assert report.data_snapshot["scope"] == {
+            "date_from": "2024-01-01",
+            "date_to": None,
+            "carrier_ids": [str(carrier_id)],
+        }
+        self.aggregation.calculate_project_statistics.assert_awaited_once_with(
+            self.db, self.project_id, self.tenant_id, scope=scope
+        )
+
+    def test_generate_defaults_type_to_project_phase_without_scope(self) -> None:
+        project = self._mock_project()
+        project.phase = "final"
+        call_count = 0
+
+        async def mock_execute(stmt):
+            nonlocal call_count
+            call_count += 1
+            result = MagicMock()
+            if call_count == 1:
+                result.scalar_one_or_none.return_value = project
+            else:
+                result.scalar.return_value = None
+            return result
+
+        self.db.execute = mock_execute
+        self.db.add = MagicMock()
+        self.db.flush = AsyncMock()
+        self.db.refresh = AsyncMock()
+
+        report = self._run(
+            self.service.generate(self.db, self.project_id, self.tenant_id)
+        )
+
+        assert report.report_type == "final"
+        assert report.title == "final Report v1"
+        assert "scope" not in report.data_snapshot
+
+    def test_generate_stores_carrier_names_and_date_range_in_snapshot(self) -> None:
+        project = self._mock_project()
+        carrier_id = uuid4()
+        shipment = _make_shipment(project_id=self.project_id, carrier_id=carrier_id)
+        shipment.date = date(2024, 2, 1)
+        shipment.origin_zip = "80331"
+        shipment.dest_zip = "10115"
+        benchmark = _make_benchmark(
+            shipment_id=shipment.id, expected_total=100.0, delta=20.0, delta_pct=20.0
+        )
+        benchmark.actual_total_amount = Decimal("120.00")
+        self.aggregation.get_top_overpays.return_value = [benchmark]
+        self.aggregation.calculate_project_statistics.return_value.carriers = [
+            CarrierAggregation(
+                carrier_id=str(carrier_id),
+                carrier_name="Unknown",
+                shipment_count=1,
+                total_actual_cost=120.0,
+                total_expected_cost=100.0,
+                total_delta=20.0,
+                avg_delta_pct=20.0,
+                overpay_count=1,
+                underpay_count=0,
+                market_count=0,
+                data_completeness_avg=1.0,
+            )
+        ]
+        call_count = 0
+
+        async def mock_execute(stmt):
+            nonlocal call_count
+            call_count += 1
+            result = MagicMock()
+            if call_count == 1:
+                result.scalar_one_or_none.return_value = project
+            elif call_count == 2:
+                result.scalar.return_value = None
+            elif call_count == 3:
+                # Shipments behind the top overpays
+                result.scalars.return_value.all.return_value = [shipment]
+            else:
+                # Carrier name lookup
+                row = MagicMock()
+                row.id = carrier_id
+                row.name = "DHL Freight"
+                result.all.return_value = [row]
+            return result
+
+        self.db.execute = mock_execute
+        self.db.add = MagicMock()
+        self.db.flush = AsyncMock()
+        self.db.refresh = AsyncMock()
+
+        options = GenerateReportOptions(include_top_overpays=True)
+        report = self._run(
+            self.service.generate(self.db, self.project_id, self.tenant_id, options)
+        )
+
+        snapshot = report.data_snapshot
+        assert snapshot["statistics"]["carriers"][0]["carrier_name"] == "DHL Freight"
+        assert snapshot["top_overpays"][0]["carrier"] == "DHL Freight"
+        assert snapshot["date_range"] == {"start": "2024-01-01", "end": "2024-03-31"}
+        assert call_count == 4
+
+    def test_scope_conditions_add_one_clause_per_restriction(self) -> None:
+        assert len(ReportScope().conditions(self.project_id)) == 1
+        scope = ReportScope(
+            date_from=date(2024, 1, 1), date_to=date(2024, 3, 31), carrier_ids=[uuid4()]
+        )
+        assert len(scope.conditions(self.project_id)) == 4
+
+    # ============================================================================
+    # compare
+    # ============================================================================
+
+    def _mock_report(self, version, statistics, top_overpays=None, completeness=0.8):
+        report = MagicMock()
+        report.version = version
+        report.data_snapshot = {
+            "statistics": statistics,
+            "data_completeness": completeness,
+        }
+        if top_overpays is not None:
+            report.data_snapshot["top_overpays"] = [
+                {"shipment_id": sid, "delta": 10.0} for sid in top_overpays
+            ]
+        return report
+
+    def _carrier(self, carrier_id, total_delta, shipment_count=5):
+        return {
+            "carrier_id": carrier_id,
+            "carrier_name": "Unknown",
+            "shipment_count": shipment_count,
+            "total_actual_cost": 100.0,
+            "total_expected_cost": 100.0 - total_delta,
+            "total_delta": total_delta,
+            "avg_delta_pct": 5.0,
+            "overpay_count": 1,
+        }
+
+    def test_compare_raises_404_when_version_missing(self) -> None:
+        with patch.object(self.service, "get_by_version", AsyncMock(return_value=None)):
+            with pytest.raises(HTTPException) as exc_info:
+                self._run(self.service.compare(self.db, self.project_id, self.tenant_id, 1, 2))
+
+        assert exc_info.value.status_code == 404
+
+    def test_compare_diffs_totals_and_carriers(self) -> None:
+        r1 = self._mock_report(1, {
+            "total_shipments": 10,
+            "total_actual_cost": 1000.0,
+            "total_savings_potential": 50.0,
+            "carriers": [self._carrier("a", 30.0), self._carrier("b", 20.0)],
+        }, completeness=0.7)
+        r2 = self._mock_report(2, {
+            "total_shipments": 14,
+            "total_actual_cost": 1400.0,
+            "total_savings_potential": 120.0,
+            "carriers": [self._carrier("a", 90.0, shipment_count=9), self._carrier("c", 30.0)],
+        }, completeness=0.9)
+
+        with patch.object(self.service, "get_by_version", AsyncMock(side_effect=[r1, r2])):
+            result = self._run(self.service.compare(self.db, self.project_id, self.tenant_id, 1, 2))
+
+        assert result["delta"]["shipments"] == 4
+        assert result["metrics"]["total_actual_cost"] == {"before": 1000.0, "after": 1400.0, "delta": 400.0}
+        assert result["metrics"]["overpay_rate"]["delta"] is None  # missing in both snapshots
+        by_id = {c["carrier_id"]: c for c in result["carriers"]}
+        assert by_id["a"]["status"] == "changed"
+        assert by_id["a"]["total_delta"]["delta"] == 60.0
+        assert by_id["a"]["shipment_count"] == {"before": 5.0, "after": 9.0, "delta": 4.0}
+        assert by_id["b"]["status"] == "removed"
+        assert by_id["b"]["total_delta"]["after"] == 0.0
+        assert by_id["c"]["status"] == "added"
+        # Largest absolute change in total_delta first
+        assert [c["carrier_id"] for c in result["carriers"]] == ["a", "c", "b"]
+
+    def test_compare_reports_top_overpay_churn(self) -> None:
+        r1 = self._mock_report(1, {"carriers": []}, top_overpays=["s1", "s2"])
+        r2 = self._mock_report(2, {"carriers": []}, top_overpays=["s2", "s3"])
+
+        with patch.object(self.service, "get_by_version", AsyncMock(side_effect=[r1, r2])):
+            result = self._run(self.service.compare(self.db, self.project_id, self.tenant_id, 1, 2))
+
+        assert result["top_overpays_available"] is True
+        assert [o["shipment_id"] for o in result["top_overpays_entered"]] == ["s3"]
+        assert [o["shipment_id"] for o in result["top_overpays_left"]] == ["s1"]
+
+    def test_compare_skips_top_overpays_when_snapshot_lacks_them(self) -> None:
+        r1 = self._mock_report(1, {"carriers": []})
+        r2 = self._mock_report(2, {"carriers": []}, top_overpays=["s1"])
+
+        with patch.object(self.service, "get_by_version", AsyncMock(side_effect=[r1, r2])):
+            result = self._run(self.service.compare(self.db, self.project_id, self.tenant_id, 1, 2))
+
+        assert result["top_overpays_available"] is False
+        assert result["top_overpays_entered"] == []
+
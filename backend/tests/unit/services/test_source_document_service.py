@@ -0,0 +1,102 @@
+"""Unit tests for SourceDocumentService.
+
+Tests: source kind by extension, number spellings for search, PDF pages,
+       page rendering, text location, CSV row preview numbering.
+"""
+
+from __future__ import annotations
+
+from pathlib import Path
+
+import fitz
+import pytest
+
+from app.services.source_document_service import (
+    SourceDocumentService,
+    search_variants,
+    source_kind,
+)
+
+
+def _pdf(tmp_path: Path, pages: list[str]) -> Path:
+    doc = fitz.open()
+    for text in pages:
+        page = doc.new_page(width=595, height=842)
+        page.insert_text((72, 100), text)
+    path = tmp_path / "tarif.pdf"
+    doc.save(path)
+    doc.close()
+    return path
+
+
+class TestHelpers:
+    def test_source_kind(self):
+        assert source_kind("Tarif.PDF") == "pdf"
+        assert source_kind("scan.jpeg") == "image"
+        assert source_kind("sendungen.xlsx") == "sheet"
+        assert source_kind("mail.eml") is None
+
+    def test_number_variants_cover_german_spelling(self):
+        variants = search_variants("1234.5")
+        assert variants[0] == "1234.5"
+        assert "1.234,50" in variants
+        assert "1234,50" in variants
+        assert "1,234.50" in variants
+
+    def test_text_queries_are_kept(self):
+        assert search_variants(" RE-2024-001 ") == ["RE-2024-001"]
+        assert search_variants("  ") == []
+
+
+class TestPdf:
+    def test_describe_lists_pages(self, tmp_path):
+        path = _pdf(tmp_path, ["Seite 1", "Seite 2"])
+
+        source = SourceDocumentService().describe(path, "tarif.pdf")
+
+        assert source.kind == "pdf"
+        assert [(p.page_number, p.width, p.height) for p in source.pages] == [
+            (1, 595, 842),
+            (2, 595, 842),
+        ]
+
+    def test_render_page_returns_png(self, tmp_path):
+        path = _pdf(tmp_path, ["Seite 1"])
+        service = SourceDocumentService()
+
+        assert service.render_page(path, 1).startswith(b"\x89PNG")
+        thumbnail = service.render_page(path, 1, thumbnail=True)
+        assert thumbnail.startswith(b"\x89PNG")
+        assert len(thumbnail) < len(service.render_page(path, 1))
+        with pytest.raises(ValueError, match="out of range"):
+            service.render_page(path, 2)
+
+    def test_locate_finds_german_number_on_its_page(self, tmp_path):
+        path = _pdf(tmp_path, ["Zone 1", "Zone 3  bis 100 kg  1.234,50 EUR"])
+
+        hits = SourceDocumentService().locate(path, "1234.5")
+
+        assert [h.page_number for h in hits] == [2]
+        x0, y0, x1, y1 = hits[0].bbox
+        assert 0 < x0 < x1 < 1
+        assert 0 < y0 < y1 < 1
+
+    def test_locate_without_match(self, tmp_path):
+        path = _pdf(tmp_path, ["Zone 1"])
+
+        assert SourceDocumentService().locate(path, "RE-999") == []
+
+
+class TestSheet:
+    def test_csv_rows_numbered_like_parser_row_errors(self, tmp_path):
+        path = tmp_path / "sendungen.csv"
+        path.write_text("datum,kosten\n01.03.2024,10.00\n,\n02.03.2024,\n")
+
+        source = SourceDocumentService().describe(path, "sendungen.csv")
+
+        assert source.kind == "sheet"
+        sheet = source.sheets[0]
+        assert sheet.columns == ["datum", "kosten"]
+        # Empty row 2 is dropped, numbering keeps the gap
+        assert sheet.rows == [(1, ["01.03.2024", "10.00"]), (3, ["02.03.2024", None])]
+        assert not sheet.truncated
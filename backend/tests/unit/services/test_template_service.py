@@ -15,9 +15,9 @@ import pytest
 from fastapi import HTTPException
 
 from app.services.template_service import (
+    MATCH_CONFIDENCE_THRESHOLD,
     CreateTemplateOptions,
     TemplateService,
-    _MATCH_CONFIDENCE_THRESHOLD,
 )
 
 
@@ -152,6 +152,40 @@ class TestTemplateServiceCreate:
         created = self.db.add.call_args[0][0]
         assert created.mappings == {"dest_zip": "PLZ Empf.", "weight_kg": "Gewicht"}
 
+    def test_create_from_mappings_keeps_transformations_and_ignored_columns(self) -> None:
+        upload = _make_upload(tenant_id=self.tenant_id)
+        result_mock = MagicMock()
+        result_mock.scalar_one_or_none.return_value = upload
+        self.db.execute = AsyncMock(return_value=result_mock)
+        self.db.add = MagicMock()
+        self.db.flush = AsyncMock()
+        self.db.refresh = AsyncMock()
+
+        mappings = [
+            {"field": "date", "column": "Datum", "date_format": "mdy"},
+            {"field": "weight_kg", "column": "Gewicht", "decimal": "comma", "unit": "t"},
+            {"field": "dest_zip", "column": "PLZ"},
+        ]
+        _run(
+            self.service.create_from_mappings(
+                self.db,
+                tenant_id=self.tenant_id,
+                upload_id=upload.id,
+                mappings=mappings,
+                template_name="Reviewed",
+                ignored_columns=["Kostenstelle"],
+            )
+        )
+
+        created = self.db.add.call_args[0][0]
+        assert created.mappings == {
+            "date": {"column": "Datum", "date_format": "mdy"},
+            "weight_kg": {"column": "Gewicht", "decimal": "comma", "unit": "t"},
+            "dest_zip": "PLZ",
+            "_ignore": ["Kostenstelle"],
+        }
+        assert "_ignore" not in created.detection["header_keywords"]
+
 
 class TestTemplateServiceUpdate:
     """Tests for update and delete."""
@@ -286,9 +320,26 @@ class TestTemplateServiceMatching:
 
         # Should match: MIME (0.3) + all 3 keywords (0.5) = 0.8, boosted by tenant
         assert result is not None
-        assert result.confidence >= _MATCH_CONFIDENCE_THRESHOLD
+        assert result.confidence >= MATCH_CONFIDENCE_THRESHOLD
         assert "MIME type match" in result.reasons
 
+    def test_rank_templates_scores_all_without_usage_update(self) -> None:
+        weak = _make_template(name="Weak", mime_types=["text/csv"], header_keywords=["rechnung"])
+        strong = _make_template(
+            name="Strong", mime_types=["text/csv"], header_keywords=["Datum", "PLZ"]
+        )
+        self._mock_templates([weak, strong])
+        upload = _make_upload(mime_type="text/csv")
+
+        ranked = _run(
+            self.service.rank_templates(self.db, upload, self.tenant_id, "Datum;PLZ;Gewicht")
+        )
+
+        assert [m.template.name for m in ranked] == ["Strong", "Weak"]
+        assert ranked[0].confidence > ranked[1].confidence
+        # Only the template query — no increment_usage UPDATE
+        assert self.db.execute.await_count == 1
+
     # ============================================================================
     # PRIVATE HELPERS
     # ============================================================================
@@ -0,0 +1,120 @@
+"""Unit tests for UploadEventService.
+
+Tests: fan-out to upload and project subscribers, stage carry-over,
+       terminal status cleanup, unsubscribe, full queues, vision run events.
+"""
+
+from __future__ import annotations
+
+from uuid import uuid4
+
+import pytest
+
+from app.services.upload_event_service import (
+    UploadEventService,
+    project_key,
+    upload_key,
+)
+
+
+class TestPublish:
+    def setup_method(self) -> None:
+        self.service = UploadEventService()
+        self.upload_id = uuid4()
+        self.project_id = uuid4()
+
+    def test_fans_out_to_upload_and_project_subscribers(self):
+        upload_queue = self.service.subscribe(upload_key(self.upload_id))
+        project_queue = self.service.subscribe(project_key(self.project_id))
+        other_queue = self.service.subscribe(project_key(uuid4()))
+
+        self.service.publish(self.upload_id, "pending", project_id=self.project_id)
+        # Later events reuse the project remembered from the first one
+        self.service.publish(self.upload_id, "parsing", stage="extraction")
+
+        assert upload_queue.qsize() == 2
+        assert project_queue.qsize() == 2
+        assert other_queue.empty()
+        upload_queue.get_nowait()
+        event = upload_queue.get_nowait()
+        assert event.project_id == self.project_id
+        assert event.to_dict()["stageIndex"] == 2
+
+    def test_status_change_keeps_last_stage(self):
+        self.service.publish(self.upload_id, "parsing", stage="validation")
+        event = self.service.publish(self.upload_id, "failed", message="boom")
+
+        assert event.stage == "validation"
+        assert event.message == "boom"
+
+    def test_terminal_status_clears_in_flight_state(self):
+        self.service.publish(self.upload_id, "parsing", stage="preprocessing")
+        assert self.service.latest(self.upload_id).stage == "preprocessing"
+
+        self.service.publish(self.upload_id, "parsed", stage="review_gate")
+
+        assert self.service.latest(self.upload_id) is None
+
+    def test_pending_resets_stage_on_reprocess(self):
+        self.service.publish(self.upload_id, "parsing", stage="extraction")
+        event = self.service.publish(self.upload_id, "pending")
+
+        assert event.stage is None
+
+    def test_unknown_stage_is_rejected(self):
+        with pytest.raises(ValueError):
+            self.service.publish(self.upload_id, "parsing", stage="ocr")
+
+    def test_unsubscribed_queue_receives_nothing(self):
+        key = upload_key(self.upload_id)
+        queue = self.service.subscribe(key)
+        self.service.unsubscribe(key, queue)
+
+        self.service.publish(self.upload_id, "parsing", stage="preprocessing")
+
+        assert queue.empty()
+
+    def test_full_queue_drops_events_without_raising(self):
+        queue = self.service.subscribe(upload_key(self.upload_id))
+        for _ in range(queue.maxsize + 5):
+            self.service.publish(self.upload_id, "parsing", stage="extraction")
+
+        assert queue.full()
+
+
+class TestPublishVision:
+    def setup_method(self) -> None:
+        self.service = UploadEventService()
+        self.upload_id = uuid4()
+        self.project_id = uuid4()
+
+    def test_goes_to_upload_subscribers_only(self):
+        self.service.publish(self.upload_id, "parsed", project_id=self.project_id)
+        upload_queue = self.service.subscribe(upload_key(self.upload_id))
+        project_queue = self.service.subscribe(project_key(self.project_id))
+
+        event = self.service.publish_vision(
+            self.upload_id, "running", step="rendering", page=1, page_count=3
+        )
+
+        assert upload_queue.get_nowait() is event
+        assert project_queue.empty()
+        assert event.to_dict()["pageCount"] == 3
+
+    def test_outcome_is_kept_after_the_run(self):
+        extraction_id = uuid4()
+        self.service.publish_vision(self.upload_id, "running", step="pipeline")
+        self.service.publish_vision(self.upload_id, "completed", extraction_id=extraction_id)
+
+        run = self.service.vision_run(self.upload_id)
+
+        assert run is not None
+        assert (run.status, run.extraction_id) == ("completed", extraction_id)
+        # Upload status events are unaffected
+        assert self.service.latest(self.upload_id) is None
+
+    def test_unknown_status_or_step_is_rejected(self):
+        with pytest.raises(ValueError):
+            self.service.publish_vision(self.upload_id, "parsing")
+        with pytest.raises(ValueError):
+            self.service.publish_vision(self.upload_id, "running", step="ocr")
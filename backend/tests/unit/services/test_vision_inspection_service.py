@@ -0,0 +1,152 @@
+"""Unit tests for the vision inspection page summary and stored runs.
+
+Tests: 1-based page numbers, per-field source counts across lines,
+skipped pages and classifier override in stored page_results, a run that
+was not stored, and the background run publishing its outcome.
+"""
+
+from __future__ import annotations
+
+from datetime import UTC, datetime
+from pathlib import Path
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, MagicMock, patch
+from uuid import uuid4
+
+import pytest
+from sqlalchemy.exc import PendingRollbackError
+
+from app.services.upload_event_service import UploadEventService
+from app.services.vision_inspection_service import (
+    FieldSources,
+    VisionInspectionService,
+    page_inspection,
+)
+
+_MODULE = "app.services.vision_inspection_service"
+
+
+class TestPageInspection:
+    def test_field_sources_counted_across_lines(self):
+        page = page_inspection(
+            {
+                "page_number": 1,
+                "page_type": "continuation",
+                "classified_type": "line-item-table",
+                "line_count": 2,
+                "skip_reason": None,
+                "raw_issues": ["Zeile 3 unleserlich"],
+                "confidence": {
+                    "overall": 0.72,
+                    "direct_ocr_ratio": 0.6,
+                    "completeness_ratio": 0.9,
+                    "field_breakdown": {
+                        "header.invoice_number": "direct_ocr",
+                        "lines[0].weight_kg": "direct_ocr",
+                        "lines[1].weight_kg": "llm_inferred",
+                        "lines[0].dest_zip": "missing",
+                        "lines[1].dest_zip": "missing",
+                    },
+                },
+            }
+        )
+
+        assert page.page_number == 2
+        assert (page.page_type, page.classified_type) == ("continuation", "line-item-table")
+        assert page.confidence == 0.72
+        assert page.fields == [
+            FieldSources(field="invoice_number", direct_ocr=1),
+            FieldSources(field="weight_kg", direct_ocr=1, llm_inferred=1),
+            FieldSources(field="dest_zip", missing=2),
+        ]
+        assert page.issues == ["Zeile 3 unleserlich"]
+
+    def test_skipped_page_without_confidence(self):
+        page = page_inspection(
+            {
+                "page_number": 0,
+                "page_type": "cover",
+                "skip_reason": "extraction_failed",
+                "confidence": None,
+                "lines": [],
+            }
+        )
+
+        assert page.skip_reason == "extraction_failed"
+        assert page.classified_type == "cover"
+        assert page.line_count == 0
+        assert page.confidence is None and page.fields == []
+
+
+def _extraction(extraction_id) -> SimpleNamespace:
+    return SimpleNamespace(
+        id=extraction_id,
+        extracted_at=datetime(2024, 11, 5, tzinfo=UTC),
+        confidence=None,
+        payload={"review_action": "auto_import", "page_results": []},
+    )
+
+
+def _result(row) -> MagicMock:
+    r = MagicMock()
+    r.scalar_one_or_none.return_value = row
+    return r
+
+
+class TestStoredRun:
+    def setup_method(self) -> None:
+        with patch(f"{_MODULE}.VisionPipeline"):
+            self.service = VisionInspectionService()
+        self.upload_id = uuid4()
+
+    @pytest.mark.asyncio
+    async def test_new_run_is_returned(self):
+        extraction_id = uuid4()
+        db = AsyncMock()
+        db.execute.return_value = _result(_extraction(extraction_id))
+
+        inspection = await self.service._stored(db, self.upload_id, uuid4())
+
+        assert inspection.extraction_id == extraction_id
+
+    @pytest.mark.asyncio
+    async def test_previous_run_is_not_taken_for_the_new_one(self):
+        previous_id = uuid4()
+        db = AsyncMock()
+        db.execute.return_value = _result(_extraction(previous_id))
+
+        with pytest.raises(RuntimeError, match="could not be stored"):
+            await self.service._stored(db, self.upload_id, previous_id)
+
+    @pytest.mark.asyncio
+    async def test_failed_session_is_reported_as_not_stored(self):
+        db = AsyncMock()
+        db.execute.side_effect = PendingRollbackError("flush failed")
+
+        with pytest.raises(RuntimeError, match="could not be stored"):
+            await self.service._stored(db, self.upload_id, None)
+
+
+class TestRunAnalysis:
+    @pytest.mark.asyncio
+    async def test_failure_is_published_as_vision_event(self):
+        with patch(f"{_MODULE}.VisionPipeline"):
+            service = VisionInspectionService()
+        upload_id = uuid4()
+        events = UploadEventService()
+        db = AsyncMock()
+        db.execute.side_effect = [MagicMock(), _result(None)]
+        session = MagicMock()
+        session.return_value.__aenter__ = AsyncMock(return_value=db)
+        session.return_value.__aexit__ = AsyncMock(return_value=False)
+
+        with (
+            patch(f"{_MODULE}.AsyncSessionLocal", session),
+            patch(f"{_MODULE}.get_upload_event_service", return_value=events),
+        ):
+            await service.run_analysis(upload_id, uuid4(), Path("missing.pdf"))
+
+        run = events.vision_run(upload_id)
+        assert run is not None
+        assert (run.status, run.message) == ("failed", "Upload not found")
+        db.commit.assert_not_awaited()
@@ -0,0 +1,189 @@
+"""Unit tests for container unpacking (ZIP archives and .eml e-mails).
+
+Tests: container detection by extension, ZIP entries with folder paths,
+       skipped and hidden entries, CP850 file names, mail headers,
+       attachments, forwarded mails, unreadable archives and entries, and
+       the entry count and size limits checked before extraction.
+"""
+
+from __future__ import annotations
+
+import io
+import zipfile
+from email.message import EmailMessage
+
+import pytest
+
+from app.config import settings
+from app.services.parsing import container_unpacker
+from app.services.parsing.container_unpacker import container_kind, unpack_container
+
+
+def _zip(entries: dict[str, bytes]) -> bytes:
+    buffer = io.BytesIO()
+    with zipfile.ZipFile(buffer, "w") as archive:
+        for name, data in entries.items():
+            archive.writestr(name, data)
+    return buffer.getvalue()
+
+
+def _corrupt(archive: bytes, data: bytes) -> bytes:
+    # Stored entries keep their bytes as-is — flipping one breaks the CRC
+    return archive.replace(data, data[:-1] + b"X")
+
+
+def _mail(subject: str = "Rechnungen Oktober") -> EmailMessage:
+    message = EmailMessage()
+    message["Subject"] = subject
+    message["From"] = "Anna Berger <anna.berger@spedition.example>"
+    message["Date"] = "Tue, 05 Nov 2024 09:30:00 +0100"
+    message["Message-ID"] = "<abc123@spedition.example>"
+    message.set_content("Anbei die Rechnungen.")
+    return message
+
+
+class TestContainerKind:
+    def test_by_extension(self):
+        assert container_kind("Rechnungen.ZIP") == "zip"
+        assert container_kind("Fwd: Tarif.eml") == "eml"
+        assert container_kind("mail.msg") == "msg"
+        assert container_kind("invoice.pdf") is None
+
+    def test_rejects_plain_documents(self):
+        with pytest.raises(ValueError, match="not a ZIP archive or e-mail"):
+            unpack_container(b"%PDF", "invoice.pdf")
+
+
+class TestZip:
+    def test_documents_keep_their_folder_path(self):
+        content = _zip(
+            {
+                "2024/RE-1.pdf": b"%PDF-1",
+                "2024/Sendungen.xlsx": b"xlsx",
+                "tarif.csv": b"zone;rate",
+            }
+        )
+
+        result = unpack_container(content, "folder.zip")
+
+        assert result.kind == "zip"
+        assert [(f.filename, f.path) for f in result.files] == [
+            ("RE-1.pdf", "2024/RE-1.pdf"),
+            ("Sendungen.xlsx", "2024/Sendungen.xlsx"),
+            ("tarif.csv", "tarif.csv"),
+        ]
+        assert result.files[0].content == b"%PDF-1"
+
+    def test_skips_unsupported_and_ignores_hidden_entries(self):
+        content = _zip(
+            {
+                "RE-1.pdf": b"%PDF-1",
+                "notes.docx": b"docx",
+                "empty.pdf": b"",
+                "__MACOSX/._RE-1.pdf": b"fork",
+                ".DS_Store": b"x",
+                "~$Sendungen.xlsx": b"lock",
+            }
+        )
+
+        result = unpack_container(content, "folder.zip")
+
+        assert [f.filename for f in result.files] == ["RE-1.pdf"]
+        assert result.skipped == ["notes.docx: unsupported file type", "empty.pdf: empty file"]
+
+    def test_windows_names_without_utf8_flag(self):
+        buffer = io.BytesIO()
+        with zipfile.ZipFile(buffer, "w") as archive:
+            # Name as written by Windows Explorer: CP850 bytes, no UTF-8 flag
+            info = zipfile.ZipInfo("Gebühren.pdf".encode("cp850").decode("cp437"))
+            archive.writestr(info, b"%PDF")
+
+        result = unpack_container(buffer.getvalue(), "folder.zip")
+
+        assert result.files[0].filename == "Gebühren.pdf"
+
+    def test_nested_containers_are_returned_as_files(self):
+        inner = _zip({"RE-2.pdf": b"%PDF-2"})
+
+        result = unpack_container(_zip({"inner.zip": inner}), "outer.zip")
+
+        assert [f.filename for f in result.files] == ["inner.zip"]
+        assert result.files[0].content == inner
+
+    def test_unreadable_archive(self):
+        with pytest.raises(ValueError, match="Unreadable ZIP archive"):
+            unpack_container(b"not a zip", "broken.zip")
+
+    def test_corrupt_entry_is_skipped(self):
+        content = _corrupt(_zip({"RE-1.pdf": b"%PDF-1", "RE-2.pdf": b"%PDF-2"}), b"%PDF-2")
+
+        result = unpack_container(content, "folder.zip")
+
+        assert [f.filename for f in result.files] == ["RE-1.pdf"]
+        assert len(result.skipped) == 1
+        assert result.skipped[0].startswith("RE-2.pdf: unreadable")
+
+    def test_files_over_the_limit_are_not_read(self, monkeypatch):
+        monkeypatch.setattr(container_unpacker, "_MAX_ENTRIES", 1)
+        content = _corrupt(_zip({"RE-1.pdf": b"%PDF-1", "RE-2.pdf": b"%PDF-2"}), b"%PDF-2")
+
+        result = unpack_container(content, "folder.zip")
+
+        assert [f.filename for f in result.files] == ["RE-1.pdf"]
+        assert result.skipped == ["RE-2.pdf: more than 1 files"]
+
+    def test_too_many_entries(self, monkeypatch):
+        monkeypatch.setattr(container_unpacker, "_MAX_ARCHIVE_ENTRIES", 2)
+        content = _zip({f"RE-{i}.pdf": b"%PDF" for i in range(3)})
+
+        with pytest.raises(ValueError, match="more than 2 entries"):
+            unpack_container(content, "folder.zip")
+
+    def test_unpacked_size_limit(self, monkeypatch):
+        monkeypatch.setattr(settings, "max_container_unpacked_size_mb", 1)
+        content = _zip({"RE-1.pdf": b"%PDF" + b"0" * 1024 * 1024})
+
+        with pytest.raises(ValueError, match="more than 1 MB"):
+            unpack_container(content, "folder.zip")
+
+
+class TestEml:
+    def test_headers_and_attachments(self):
+        message = _mail()
+        message.add_attachment(
+            b"%PDF-1", maintype="application", subtype="pdf", filename="RE-1.pdf"
+        )
+        message.add_attachment(
+            b"csv", maintype="text", subtype="csv", filename="Sendungen.csv"
+        )
+        message.add_attachment(b"img", maintype="image", subtype="png", filename="scan.png")
+
+        result = unpack_container(message.as_bytes(), "mail.eml")
+
+        assert result.meta == {
+            "subject": "Rechnungen Oktober",
+            "sender": "anna.berger@spedition.example",
+            "sender_name": "Anna Berger",
+            "date": "2024-11-05T09:30:00+01:00",
+            "message_id": "<abc123@spedition.example>",
+        }
+        assert [(f.filename, f.content) for f in result.files] == [
+            ("RE-1.pdf", b"%PDF-1"),
+            ("Sendungen.csv", b"csv"),
+        ]
+        assert result.skipped == ["scan.png: unsupported file type"]
+
+    def test_forwarded_mail_becomes_eml_file(self):
+        forwarded = _mail("Tarif 2025")
+        forwarded.add_attachment(
+            b"%PDF-T", maintype="application", subtype="pdf", filename="tarif.pdf"
+        )
+        message = _mail("Fwd: Tarif 2025")
+        message.add_attachment(forwarded)
+
+        result = unpack_container(message.as_bytes(), "mail.eml")
+
+        assert [f.filename for f in result.files] == ["Tarif 2025.eml"]
+        nested = unpack_container(result.files[0].content, result.files[0].filename)
+        assert nested.meta["subject"] == "Tarif 2025"
+        assert [f.filename for f in nested.files] == ["tarif.pdf"]
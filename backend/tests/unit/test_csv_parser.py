@@ -225,6 +225,8 @@ class TestParse:
         assert sd["datum"] == "01.03.2024"
         assert sd["kosten"] == "10.00"
         assert sd["extra_info"] == "additional_data"
+        # Data row number for the source viewer
+        assert sd["source_row"] == 1
 
 
 class TestParseDateEdgeCases:
@@ -333,6 +335,29 @@ class TestParseWithTemplate:
         assert len(shipments) == 1
         assert shipments[0].actual_total_amount == Decimal("99.00")
 
+    def test_template_applies_reviewed_transformations(self, tmp_path: Path) -> None:
+        csv = write_csv(
+            tmp_path,
+            """\
+            Date,Tonnes,Amount,Internal
+            03/14/2024,"1,25","1.234,50",x
+            """,
+        )
+        mappings = {
+            "date": {"column": "Date", "date_format": "mdy"},
+            "weight_kg": {"column": "Tonnes", "decimal": "comma", "unit": "t"},
+            "actual_total_amount": {"column": "Amount", "decimal": "comma"},
+            "_ignore": ["Internal"],
+        }
+        shipments, errors, _ = parse_with_template(csv, TENANT_ID, UPLOAD_ID, mappings)
+
+        assert errors == []
+        s = shipments[0]
+        assert s.date == date(2024, 3, 14)
+        assert s.weight_kg == Decimal("1250.00")
+        assert s.actual_total_amount == Decimal("1234.50")
+        assert "Internal" not in s.source_data
+
     def test_template_missing_date_produces_row_error(self, tmp_path: Path) -> None:
         csv = write_csv(
             tmp_path,
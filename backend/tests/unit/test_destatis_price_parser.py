@@ -0,0 +1,84 @@
+"""Unit tests for the Destatis price import (CSV/XLSX rows → monthly prices).
+
+Tests: header and positional layouts, period formats, EUR→Ct conversion,
+       row errors with spreadsheet row numbers, duplicate months.
+"""
+
+from __future__ import annotations
+
+from decimal import Decimal
+
+from app.services.parsing.destatis_price_parser import parse_period, parse_price_rows
+
+_SERIES = "61243-0001"
+
+
+def _tuples(result) -> list[tuple[int, int, Decimal, str]]:
+    return [(p.year, p.month, p.price_ct, p.series_code) for p in result.prices]
+
+
+class TestParsePeriod:
+    def test_supported_formats(self):
+        assert parse_period("2024-11") == (2024, 11)
+        assert parse_period("2024-11-01 00:00:00") == (2024, 11)
+        assert parse_period("11.2024") == (2024, 11)
+        assert parse_period("01.11.2024") == (2024, 11)
+        assert parse_period("11/2024") == (2024, 11)
+        assert parse_period("Nov 2024") == (2024, 11)
+        assert parse_period("März 2025") == (2025, 3)
+
+    def test_rejects_non_periods(self):
+        assert parse_period("2024-13") is None
+        assert parse_period("Preis") is None
+        assert parse_period("") is None
+
+
+class TestParsePriceRows:
+    def test_header_with_year_month_columns_in_any_order(self):
+        rows = [
+            ["Preis (Ct/l)", "Jahr", "Monat"],
+            ["148,30", "2024", "11"],
+            ["151.2", "2024", "Dezember"],
+        ]
+        result = parse_price_rows(rows, _SERIES)
+
+        assert result.errors == []
+        assert _tuples(result) == [
+            (2024, 11, Decimal("148.30"), _SERIES),
+            (2024, 12, Decimal("151.2"), _SERIES),
+        ]
+
+    def test_positional_period_and_eur_per_liter(self):
+        result = parse_price_rows([["2025-01", "1,523"], ["02.2025", "1,50"]], _SERIES)
+
+        assert result.errors == []
+        assert _tuples(result) == [
+            (2025, 1, Decimal("152.300"), _SERIES),
+            (2025, 2, Decimal("150.00"), _SERIES),
+        ]
+
+    def test_positional_year_month_price_series(self):
+        result = parse_price_rows([["2024", "11", "148,3", "61243-0002"]], _SERIES)
+
+        assert _tuples(result) == [(2024, 11, Decimal("148.3"), "61243-0002")]
+
+    def test_bad_rows_are_reported_with_spreadsheet_row_numbers(self):
+        rows = [
+            ["Monat", "Preis"],
+            ["", ""],
+            ["2024-11", "148,3"],
+            ["Summe", "300"],
+            ["2024-12", "n/a"],
+            ["2024-11", "149"],
+        ]
+        result = parse_price_rows(rows, _SERIES)
+
+        assert _tuples(result) == [(2024, 11, Decimal("148.3"), _SERIES)]
+        assert result.errors == [
+            "Row 4: cannot read month from 'Summe'",
+            "Row 5: invalid price 'n/a'",
+            "Row 6: 11/2024 is listed twice",
+        ]
+
+    def test_empty_file(self):
+        assert parse_price_rows([["", ""]], _SERIES).errors == ["File contains no rows"]
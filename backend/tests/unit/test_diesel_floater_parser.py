@@ -0,0 +1,145 @@
+"""Unit tests for manual diesel bracket tables (paste parsing and validation).
+
+Tests: Excel/e-mail text shapes, EUR→Ct conversion, range gap/overlap
+       detection, validation of thresholds and surcharge monotonicity,
+       dropping repeated thresholds of an extracted table.
+"""
+
+from __future__ import annotations
+
+from decimal import Decimal
+
+from app.services.parsing.diesel_floater_parser import (
+    DieselBracket,
+    parse_bracket_text,
+    unique_brackets,
+    validate_brackets,
+)
+
+
+def _pairs(brackets: list[DieselBracket]) -> list[tuple[Decimal, Decimal]]:
+    return [(b.price_ct_max, b.floater_pct) for b in brackets]
+
+
+# ---------------------------------------------------------------------------
+# parse_bracket_text
+# ---------------------------------------------------------------------------
+
+
+class TestParseBracketText:
+    def test_excel_paste_with_header_sorted_by_price(self):
+        result = parse_bracket_text("Dieselpreis\tZuschlag\n150,0\t13,5\n140\t12,0\n")
+
+        assert result.errors == []
+        assert _pairs(result.brackets) == [
+            (Decimal("140"), Decimal("12.0")),
+            (Decimal("150.0"), Decimal("13.5")),
+        ]
+
+    def test_email_text_in_eur_per_liter_ignores_dates(self):
+        text = (
+            "Sehr geehrte Damen und Herren,\n"
+            "ab dem 01.06.2024 gilt folgende Tabelle:\n"
+            "bis 1,50 €/l   13,50 %\n"
+            "bis 1,60 €/l   14,00 %\n"
+        )
+        result = parse_bracket_text(text)
+
+        assert result.errors == []
+        assert _pairs(result.brackets) == [
+            (Decimal("150.00"), Decimal("13.50")),
+            (Decimal("160.00"), Decimal("14.00")),
+        ]
+
+    def test_contiguous_ranges_have_no_errors(self):
+        result = parse_bracket_text("1,40 - 1,44\t11 %\n1,45 - 1,49\t12 %\n")
+
+        assert result.errors == []
+        assert [b.price_ct_max for b in result.brackets] == [Decimal("144.00"), Decimal("149.00")]
+
+    def test_range_gap_and_overlap_are_reported(self):
+        text = "1,40 - 1,44\t11\n1,46 - 1,49\t12\n1,49 - 1,55\t13\n"
+        result = parse_bracket_text(text)
+
+        assert len(result.brackets) == 3
+        assert result.errors == [
+            "Line 2: gap between 144.00 and 146.00 Ct/l",
+            "Line 3: range starts at 149.00 Ct/l, overlapping the previous bracket up to 149.00 Ct/l",
+        ]
+
+    def test_open_ended_and_malformed_lines_are_skipped_with_error(self):
+        result = parse_bracket_text("bis 150\t13\nab 150\t15\n150 160 170 18\n")
+
+        assert _pairs(result.brackets) == [(Decimal("150"), Decimal("13"))]
+        assert result.errors == [
+            "Line 2: open-ended bracket — enter an upper price limit",
+            "Line 3: expected price and surcharge, found 4 numbers",
+        ]
+
+
+# ---------------------------------------------------------------------------
+# validate_brackets
+# ---------------------------------------------------------------------------
+
+
+class TestValidateBrackets:
+    def test_valid_table_passes_in_any_order(self):
+        brackets = [
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13.5")),
+            DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12")),
+            DieselBracket(price_ct_max=Decimal("160"), floater_pct=Decimal("13.5")),
+        ]
+        assert validate_brackets(brackets) == []
+
+    def test_empty_table(self):
+        assert validate_brackets([]) == ["Bracket table is empty"]
+
+    def test_duplicate_threshold_and_falling_surcharge(self):
+        brackets = [
+            DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12")),
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("11")),
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13")),
+        ]
+        assert validate_brackets(brackets) == [
+            "Surcharge falls from 12 % to 11 % above 140 Ct/l",
+            "Price limit 150 Ct/l is listed more than once",
+        ]
+
+    def test_out_of_range_values(self):
+        brackets = [
+            DieselBracket(price_ct_max=Decimal("0"), floater_pct=Decimal("5")),
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("100")),
+        ]
+        assert validate_brackets(brackets) == [
+            "Price limit 0 Ct/l must be positive",
+            "Surcharge 100 % at 150 Ct/l must be between 0 and 100",
+        ]
+
+
+# ---------------------------------------------------------------------------
+# unique_brackets
+# ---------------------------------------------------------------------------
+
+
+class TestUniqueBrackets:
+    def test_first_bracket_per_threshold_is_kept(self):
+        brackets = [
+            DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12")),
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13")),
+            DieselBracket(price_ct_max=Decimal("150.0"), floater_pct=Decimal("14")),
+        ]
+        kept, dropped = unique_brackets(brackets)
+        assert _pairs(kept) == [
+            (Decimal("140"), Decimal("12")),
+            (Decimal("150"), Decimal("13")),
+        ]
+        assert dropped == [
+            "Price limit 150.0 Ct/l is listed more than once — kept 13 %, dropped 14 %"
+        ]
+
+    def test_unique_table_is_unchanged(self):
+        brackets = [
+            DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12")),
+            DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13")),
+        ]
+        assert unique_brackets(brackets) == (brackets, [])
@@ -0,0 +1,141 @@
+"""Unit tests for the diesel floater import review endpoints.
+
+Tests: rollback of a floater PDF import whose thresholds differ from the
+       table it replaced, refusal once the imported table was edited, and
+       the Destatis audit trail limited to fetches plus the caller's tenant.
+
+No real DB — the AsyncMock session returns prepared results in call order.
+"""
+
+from __future__ import annotations
+
+from datetime import date
+from decimal import Decimal
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+import pytest
+from fastapi import HTTPException
+from sqlalchemy.dialects import postgresql
+
+from app.routers.diesel_floater import list_destatis_audit, rollback_import
+
+TENANT_ID = uuid4()
+CARRIER_ID = uuid4()
+UPLOAD_ID = uuid4()
+
+
+def _upload(previous: list[dict]) -> SimpleNamespace:
+    issue = {
+        "type": "diesel_floater_imported",
+        "carrier_id": str(CARRIER_ID),
+        "carrier_name": "Schenker",
+        "valid_from": "2024-01-01",
+        "basis": "base",
+        "brackets": [
+            {"price_ct_max": "145", "floater_pct": "12.5"},
+            {"price_ct_max": "155", "floater_pct": "14.0"},
+        ],
+        "previous_brackets": previous,
+        "review_status": "pending",
+    }
+    return SimpleNamespace(
+        id=UPLOAD_ID,
+        tenant_id=TENANT_ID,
+        filename="floater.pdf",
+        mime_type="application/pdf",
+        parsing_issues=[issue],
+    )
+
+
+def _stored(*pairs: tuple[str, str]) -> list[SimpleNamespace]:
+    return [
+        SimpleNamespace(tenant_id=TENANT_ID, price_ct_max=Decimal(ct), floater_pct=Decimal(pct))
+        for ct, pct in pairs
+    ]
+
+
+def _result(scalar=None, rows=None) -> MagicMock:
+    r = MagicMock()
+    r.scalar_one_or_none.return_value = scalar
+    r.scalars.return_value.all.return_value = rows or []
+    return r
+
+
+class TestRollbackImport:
+    @pytest.mark.asyncio
+    async def test_restores_table_with_different_thresholds(self):
+        previous = [
+            {
+                "price_ct_max": "140.00",
+                "floater_pct": "12.00",
+                "basis": "base",
+                "valid_until": "2024-12-31",
+            },
+            {
+                "price_ct_max": "150.00",
+                "floater_pct": "13.00",
+                "basis": "base",
+                "valid_until": "2024-12-31",
+            },
+        ]
+        upload = _upload(previous)
+        # The import replaced the table, so only the imported thresholds are stored
+        stored = _stored(("145.00", "12.50"), ("155.00", "14.00"))
+        db = AsyncMock()
+        db.add = MagicMock()
+        db.execute.side_effect = [
+            _result(scalar=upload),
+            _result(rows=stored),
+            _result(),  # delete
+            _result(rows=[]),  # _build_review: stored rows after rollback
+        ]
+        request = SimpleNamespace(state=SimpleNamespace(user_id="u-1"))
+
+        review = await rollback_import(UPLOAD_ID, request, db=db)
+
+        assert review.review_status == "rolled_back"
+        assert str(db.execute.await_args_list[2].args[0]).startswith(
+            "DELETE FROM diesel_price_bracket"
+        )
+        restored = [call.args[0] for call in db.add.call_args_list]
+        assert [(r.price_ct_max, r.floater_pct) for r in restored] == [
+            (Decimal("140.00"), Decimal("12.00")),
+            (Decimal("150.00"), Decimal("13.00")),
+        ]
+        assert {r.valid_until for r in restored} == {date(2024, 12, 31)}
+        assert all(r.tenant_id == TENANT_ID for r in restored)
+
+    @pytest.mark.asyncio
+    async def test_edited_table_is_not_rolled_back(self):
+        upload = _upload([{"price_ct_max": "140.00", "floater_pct": "12.00"}])
+        stored = _stored(("145.00", "12.50"), ("155.00", "14.50"))
+        db = AsyncMock()
+        db.execute.side_effect = [_result(scalar=upload), _result(rows=stored)]
+        request = SimpleNamespace(state=SimpleNamespace(user_id="u-1"))
+
+        with pytest.raises(HTTPException) as exc:
+            await rollback_import(UPLOAD_ID, request, db=db)
+
+        assert exc.value.status_code == 409
+        assert upload.parsing_issues[0]["review_status"] == "pending"
+        db.flush.assert_not_awaited()
+
+
+class TestDestatisAudit:
+    @pytest.mark.asyncio
+    async def test_lists_fetches_and_own_tenant_only(self):
+        db = AsyncMock()
+        db.execute.return_value = _result()
+        request = SimpleNamespace(state=SimpleNamespace(user_id=None, tenant_id=str(TENANT_ID)))
+
+        await list_destatis_audit(request, year=2024, db=db)
+
+        stmt = db.execute.await_args.args[0]
+        compiled = stmt.compile(dialect=postgresql.dialect())
+        assert (
+            "(destatis_price_audit.tenant_id IS NULL "
+            "OR destatis_price_audit.tenant_id = %(tenant_id_1)s::UUID)"
+        ) in str(compiled)
+        assert compiled.params["tenant_id_1"] == TENANT_ID
@@ -0,0 +1,269 @@
+"""Unit tests for the projects router lifecycle, stats and delete endpoints.
+
+Tests: phase/status transition validation, the stats aggregation including the
+       latest report KPIs, the guarded soft-delete that takes the project's
+       shipments with it, the consistency overview before the first check,
+       the final-phase gate keeping the findings of a refused move, and the
+       resolved_at stamp of a note resolved through PUT.
+
+No real DB — the AsyncMock session returns prepared results in call order.
+"""
+
+from __future__ import annotations
+
+from datetime import UTC, datetime
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, MagicMock, patch
+from uuid import uuid4
+
+import pytest
+from fastapi import HTTPException
+from sqlalchemy.dialects import postgresql
+
+from app.routers.projects import (
+    _PHASE_TRANSITIONS,
+    _STATUS_TRANSITIONS,
+    UpdateNoteRequest,
+    UpdateProjectRequest,
+    _validate_transition,
+    delete_project,
+    get_consistency,
+    get_project_stats,
+    update_note,
+    update_project,
+)
+
+PROJECT_ID = uuid4()
+
+
+def _result(scalar_one=None, scalar_one_or_none=None, rows=None) -> MagicMock:
+    r = MagicMock()
+    r.scalar_one.return_value = scalar_one
+    r.scalar_one_or_none.return_value = scalar_one_or_none
+    r.all.return_value = rows or []
+    return r
+
+
+def _project(
+    name: str = "Spedition Nord", checked_at: datetime | None = None
+) -> SimpleNamespace:
+    return SimpleNamespace(
+        id=PROJECT_ID, name=name, deleted_at=None, consistency_checked_at=checked_at
+    )
+
+
+class TestValidateTransition:
+    @pytest.mark.parametrize(
+        ("current", "target"),
+        [("quick_check", "deep_dive"), ("deep_dive", "final"), ("final", "final")],
+    )
+    def test_phase_moves_forward(self, current, target):
+        _validate_transition("phase", current, target, _PHASE_TRANSITIONS)
+
+    @pytest.mark.parametrize(
+        ("current", "target"),
+        [("deep_dive", "quick_check"), ("quick_check", "final"), ("final", "deep_dive")],
+    )
+    def test_phase_skips_and_reversals_rejected(self, current, target):
+        with pytest.raises(HTTPException) as exc:
+            _validate_transition("phase", current, target, _PHASE_TRANSITIONS)
+
+        assert exc.value.status_code == 422
+        assert f"{current} → {target}" in exc.value.detail
+
+    def test_review_can_return_to_in_progress(self):
+        _validate_transition("status", "review", "in_progress", _STATUS_TRANSITIONS)
+        _validate_transition("status", "review", "done", _STATUS_TRANSITIONS)
+
+    def test_done_is_terminal(self):
+        with pytest.raises(HTTPException) as exc:
+            _validate_transition("status", "done", "review", _STATUS_TRANSITIONS)
+
+        assert "(allowed: none)" in exc.value.detail
+
+    def test_unknown_target_rejected(self):
+        with pytest.raises(HTTPException) as exc:
+            _validate_transition("status", "draft", "archived", _STATUS_TRANSITIONS)
+
+        assert exc.value.status_code == 422
+        assert "Unknown status 'archived'" in exc.value.detail
+
+    def test_legacy_current_value_may_move_anywhere(self):
+        _validate_transition("status", "active", "done", _STATUS_TRANSITIONS)
+        _validate_transition("phase", None, "final", _PHASE_TRANSITIONS)
+
+
+class TestProjectStats:
+    @pytest.mark.asyncio
+    async def test_counts_status_mix_and_latest_report_kpis(self):
+        report = SimpleNamespace(
+            id=uuid4(),
+            version=3,
+            generated_at=datetime(2024, 5, 1, tzinfo=UTC),
+            data_snapshot={"statistics": {"total_savings_potential": 1234.5, "overpay_rate": 0.2}},
+        )
+        db = AsyncMock()
+        db.execute.side_effect = [
+            _result(scalar_one_or_none=_project()),
+            _result(scalar_one=4),
+            _result(scalar_one=120),
+            _result(scalar_one=5),
+            _result(scalar_one=3),
+            _result(scalar_one=2),
+            _result(rows=[("completed", 3), (None, 1)]),
+            _result(scalar_one_or_none=report),
+        ]
+
+        stats = await get_project_stats(PROJECT_ID, db=db)
+
+        assert (stats.upload_count, stats.shipment_count, stats.note_count) == (4, 120, 5)
+        assert (stats.report_count, stats.open_note_count) == (3, 2)
+        assert stats.upload_status_counts == {"completed": 3, "unknown": 1}
+        assert (stats.latest_report_id, stats.latest_report_version) == (report.id, 3)
+        assert stats.latest_savings_potential == 1234.5
+        assert stats.latest_overpay_rate == 0.2
+
+    @pytest.mark.asyncio
+    async def test_without_report_kpis_are_empty(self):
+        db = AsyncMock()
+        db.execute.side_effect = (
+            [_result(scalar_one_or_none=_project())]
+            + [_result(scalar_one=0) for _ in range(5)]
+            + [_result(rows=[]), _result(scalar_one_or_none=None)]
+        )
+
+        stats = await get_project_stats(PROJECT_ID, db=db)
+
+        assert stats.upload_status_counts == {}
+        assert stats.latest_report_id is None
+        assert stats.latest_savings_potential is None
+
+    @pytest.mark.asyncio
+    async def test_unknown_project_is_404(self):
+        db = AsyncMock()
+        db.execute.return_value = _result(scalar_one_or_none=None)
+
+        with pytest.raises(HTTPException) as exc:
+            await get_project_stats(PROJECT_ID, db=db)
+
+        assert exc.value.status_code == 404
+
+
+class TestDeleteProject:
+    @pytest.mark.asyncio
+    async def test_soft_deletes_project_and_shipments(self):
+        project = _project()
+        db = AsyncMock()
+        db.execute.side_effect = [_result(scalar_one_or_none=project), _result()]
+
+        await delete_project(PROJECT_ID, confirm_name="Spedition Nord", db=db)
+
+        assert project.deleted_at is not None
+        sql = str(db.execute.call_args_list[1].args[0].compile(dialect=postgresql.dialect()))
+        assert sql.startswith("UPDATE shipment SET deleted_at=")
+        assert "shipment.project_id = " in sql
+        assert "shipment.deleted_at IS NULL" in sql
+        db.flush.assert_awaited_once()
+
+    @pytest.mark.asyncio
+    async def test_name_mismatch_rejected(self):
+        project = _project()
+        db = AsyncMock()
+        db.execute.return_value = _result(scalar_one_or_none=project)
+
+        with pytest.raises(HTTPException) as exc:
+            await delete_project(PROJECT_ID, confirm_name="spedition nord", db=db)
+
+        assert exc.value.status_code == 422
+        assert project.deleted_at is None
+        assert db.execute.await_count == 1
+        db.flush.assert_not_awaited()
+
+
+class TestConsistencyOverview:
+    def _db(self, project: SimpleNamespace) -> AsyncMock:
+        findings = MagicMock()
+        findings.scalars.return_value.all.return_value = []
+        db = AsyncMock()
+        db.execute.side_effect = [_result(scalar_one_or_none=project), findings]
+        return db
+
+    @pytest.mark.asyncio
+    async def test_never_checked_project_cannot_finalize(self):
+        overview = await get_consistency(PROJECT_ID, db=self._db(_project()))
+
+        assert (overview.open_count, overview.checked_at) == (0, None)
+        assert overview.can_finalize is False
+
+    @pytest.mark.asyncio
+    async def test_checked_project_without_findings_can_finalize(self):
+        checked_at = datetime(2024, 11, 5, 9, 30, tzinfo=UTC)
+
+        overview = await get_consistency(
+            PROJECT_ID, db=self._db(_project(checked_at=checked_at))
+        )
+
+        assert overview.checked_at == checked_at
+        assert overview.can_finalize is True
+
+
+class TestFinalPhaseGate:
+    @pytest.mark.asyncio
+    async def test_refused_move_keeps_the_check(self):
+        project = _project()
+        project.tenant_id, project.phase = uuid4(), "deep_dive"
+        db = AsyncMock()
+        db.execute.return_value = _result(scalar_one_or_none=project)
+        service = MagicMock()
+        service.check = AsyncMock(return_value=[])
+        service.open_count = AsyncMock(return_value=2)
+
+        with (
+            patch("app.routers.projects.get_consistency_service", return_value=service),
+            pytest.raises(HTTPException) as exc,
+        ):
+            await update_project(PROJECT_ID, UpdateProjectRequest(phase="final"), db=db)
+
+        assert exc.value.status_code == 409
+        service.check.assert_awaited_once_with(db, project)
+        # Committed before the 409 makes the request session roll back
+        db.commit.assert_awaited_once()
+        assert project.phase == "deep_dive"
+
+
+class TestUpdateNote:
+    async def _update(self, note: SimpleNamespace, status: str) -> None:
+        db = AsyncMock()
+        db.execute.side_effect = [
+            _result(scalar_one_or_none=_project()),
+            _result(scalar_one_or_none=note),
+        ]
+        with patch("app.routers.projects._note_to_response", new_callable=AsyncMock):
+            await update_note(PROJECT_ID, note.id, UpdateNoteRequest(status=status), db=db)
+
+    @pytest.mark.asyncio
+    async def test_resolving_stamps_resolved_at(self):
+        note = SimpleNamespace(id=uuid4(), status="open", resolved_at=None)
+
+        await self._update(note, "resolved")
+
+        assert note.status == "resolved"
+        assert note.resolved_at is not None
+
+    @pytest.mark.asyncio
+    async def test_resolved_note_keeps_its_timestamp(self):
+        resolved_at = datetime(2024, 3, 1, 9, 30)
+        note = SimpleNamespace(id=uuid4(), status="resolved", resolved_at=resolved_at)
+
+        await self._update(note, "resolved")
+
+        assert note.resolved_at == resolved_at
+
+    @pytest.mark.asyncio
+    async def test_reopening_clears_resolved_at(self):
+        note = SimpleNamespace(id=uuid4(), status="resolved", resolved_at=datetime(2024, 3, 1))
+
+        await self._update(note, "open")
+
+        assert note.status == "open"
+        assert note.resolved_at is None
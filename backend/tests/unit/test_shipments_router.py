@@ -0,0 +1,184 @@
+"""Unit tests for the shipment list endpoint.
+
+Tests: shipment filters, sorting by shipment and benchmark columns, and that
+       classification filter, delta sort and the per-row benchmark all use
+       the newest benchmark of a re-benchmarked shipment.
+
+No real DB — statements passed to the AsyncMock session are compiled for
+PostgreSQL and inspected.
+"""
+
+from __future__ import annotations
+
+from datetime import UTC, date, datetime
+from decimal import Decimal
+from types import SimpleNamespace
+from typing import Any
+from unittest.mock import AsyncMock, MagicMock
+from uuid import uuid4
+
+import pytest
+from fastapi import HTTPException
+from sqlalchemy.dialects import postgresql
+
+from app.routers.shipments import list_shipments
+
+PROJECT_ID = uuid4()
+
+# Window that picks the newest benchmark per shipment
+_LATEST_RANK = (
+    "row_number() OVER (PARTITION BY shipment_benchmark.shipment_id "
+    "ORDER BY shipment_benchmark.created_at DESC) AS benchmark_rank"
+)
+
+_DEFAULTS: dict[str, Any] = {
+    "page": 1,
+    "page_size": 50,
+    "classification": None,
+    "carrier_id": None,
+    "date_from": None,
+    "date_to": None,
+    "origin_country": None,
+    "dest_country": None,
+    "origin_zip_prefix": None,
+    "dest_zip_prefix": None,
+    "min_completeness": None,
+    "max_completeness": None,
+    "sort_by": "date",
+    "sort_dir": "desc",
+}
+
+
+def _shipment() -> MagicMock:
+    s = MagicMock()
+    s.id = uuid4()
+    s.project_id = PROJECT_ID
+    s.upload_id = s.carrier_id = None
+    s.date = date(2024, 3, 1)
+    s.reference_number = "REF-1"
+    s.service_level = s.origin_zip = s.dest_zip = s.chargeable_basis = None
+    s.origin_country = s.dest_country = "DE"
+    s.weight_kg = s.volume_cbm = s.pallets = s.chargeable_weight_kg = None
+    s.currency = "EUR"
+    s.actual_total_amount = Decimal("120.00")
+    s.actual_base_amount = s.actual_diesel_amount = s.actual_toll_amount = None
+    s.completeness_score = Decimal("0.90")
+    s.created_at = datetime(2024, 3, 2, tzinfo=UTC)
+    return s
+
+
+def _benchmark(shipment_id, classification: str) -> SimpleNamespace:
+    return SimpleNamespace(
+        shipment_id=shipment_id,
+        expected_total_amount=Decimal("100.00"),
+        actual_total_amount=Decimal("120.00"),
+        delta_amount=Decimal("20.00"),
+        delta_pct=Decimal("20.00"),
+        classification=classification,
+    )
+
+
+def _db(total: int, rows: list, benchmarks: list) -> AsyncMock:
+    def result(scalar_one=None, scalars=None) -> MagicMock:
+        r = MagicMock()
+        r.scalar_one.return_value = scalar_one
+        r.scalars.return_value.all.return_value = scalars or []
+        return r
+
+    db = AsyncMock()
+    db.execute.side_effect = [result(scalar_one=total), result(scalars=rows)] + (
+        [result(scalars=benchmarks)] if rows else []
+    )
+    return db
+
+
+def _sql(db: AsyncMock, call: int) -> str:
+    stmt = db.execute.call_args_list[call].args[0]
+    return str(stmt.compile(dialect=postgresql.dialect()))
+
+
+async def _list(db: AsyncMock, **params: Any):
+    return await list_shipments(PROJECT_ID, **{**_DEFAULTS, **params}, db=db)
+
+
+class TestFilters:
+    @pytest.mark.asyncio
+    async def test_shipment_filters_without_benchmark_join(self):
+        db = _db(0, [], [])
+
+        page = await _list(
+            db,
+            origin_country="de",
+            dest_zip_prefix="80",
+            min_completeness=Decimal("0.5"),
+            date_from=date(2024, 1, 1),
+        )
+
+        sql = _sql(db, 0)
+        assert "shipment.origin_country = " in sql
+        assert "shipment.dest_zip LIKE " in sql
+        assert "shipment.completeness_score >= " in sql
+        assert "shipment.date >= " in sql
+        assert "shipment_benchmark" not in sql
+        params = db.execute.call_args_list[0].args[0].compile(dialect=postgresql.dialect()).params
+        assert "DE" in params.values()
+        assert (page.total, page.total_pages, page.items) == (0, 1, [])
+
+    @pytest.mark.asyncio
+    async def test_classification_filters_on_latest_benchmark_only(self):
+        shipment = _shipment()
+        db = _db(1, [shipment], [_benchmark(shipment.id, "drüber")])
+
+        page = await _list(db, classification="drüber")
+
+        count_sql, rows_sql = _sql(db, 0), _sql(db, 1)
+        for sql in (count_sql, rows_sql):
+            assert _LATEST_RANK in sql
+            assert ".benchmark_rank = " in sql
+            assert "latest_benchmark.classification = " in sql
+            assert "JOIN shipment_benchmark " not in sql
+        assert page.total == 1
+        assert [item.benchmark.classification for item in page.items] == ["drüber"]
+
+
+class TestSorting:
+    @pytest.mark.asyncio
+    async def test_delta_sort_keeps_unbenchmarked_shipments(self):
+        db = _db(0, [], [])
+
+        await _list(db, sort_by="deltaPct", sort_dir="asc")
+
+        sql = _sql(db, 1)
+        assert "LEFT OUTER JOIN (SELECT anon_1.id" in sql
+        assert _LATEST_RANK in sql
+        assert "ORDER BY latest_benchmark.delta_pct ASC NULLS LAST, shipment.id" in sql
+
+    @pytest.mark.asyncio
+    async def test_shipment_column_sort(self):
+        db = _db(0, [], [])
+
+        await _list(db, sort_by="weightKg")
+
+        assert "ORDER BY shipment.weight_kg DESC NULLS LAST, shipment.id" in _sql(db, 1)
+
+    @pytest.mark.asyncio
+    async def test_unknown_sort_column_rejected(self):
+        with pytest.raises(HTTPException) as exc:
+            await _list(AsyncMock(), sort_by="tenantId")
+
+        assert exc.value.status_code == 422
+
+
+class TestBenchmarkSummary:
+    @pytest.mark.asyncio
+    async def test_page_benchmarks_come_from_latest_rows(self):
+        first, second = _shipment(), _shipment()
+        db = _db(2, [first, second], [_benchmark(first.id, "im_markt")])
+
+        page = await _list(db)
+
+        sql = _sql(db, 2)
+        assert _LATEST_RANK in sql
+        assert "shipment_benchmark.shipment_id IN " in sql
+        assert page.items[0].benchmark.classification == "im_markt"
+        assert page.items[1].benchmark is None
@@ -1,7 +1,7 @@
 """Unit tests for UploadProcessorService.
 
 Tests: pipeline orchestration, status transitions, carrier resolution,
-       concurrency semaphore, stale-watcher logic.
+       concurrency semaphore, stale-watcher logic, container fan-out.
 
 No real DB — all SQLAlchemy sessions are replaced with AsyncMock.
 """
@@ -9,6 +9,9 @@ No real DB — all SQLAlchemy sessions are replaced with AsyncMock.
 from __future__ import annotations
 
 import asyncio
+import hashlib
+import io
+import zipfile
 from contextlib import asynccontextmanager
 from datetime import UTC, datetime
 from decimal import Decimal
@@ -22,6 +25,7 @@ from app.services.extraction_validator_service import (
     ValidationViolation,
 )
 from app.services.parsing.csv_parser import ParsedShipment, RowParseError
+from app.services.parsing.diesel_floater_parser import DieselBracket, DieselFloaterParseResult
 from app.services.template_service import TemplateMatch
 from app.services.upload_processor_service import (
     STATUS_FAILED,
@@ -134,6 +138,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=None),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_update_status", new_callable=AsyncMock) as mock_update,
         ):
             result = await self.svc._pipeline_stages(UPLOAD_ID, TENANT_ID, MagicMock())
@@ -161,6 +166,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=match),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_parse", new_callable=AsyncMock, return_value=([shipment], [], 0.95)),
             patch.object(self.svc, "_fetch_existing_refs", new_callable=AsyncMock, return_value=set()),
             patch.object(self.svc._validator, "validate_shipments", return_value=validation_result),
@@ -193,6 +199,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=match),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_parse", new_callable=AsyncMock, return_value=([shipment], [error], 0.7)),
             patch.object(self.svc, "_fetch_existing_refs", new_callable=AsyncMock, return_value=set()),
             patch.object(self.svc._validator, "validate_shipments", return_value=validation_result),
@@ -221,6 +228,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=match),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_parse", new_callable=AsyncMock, return_value=([], [error], 0.0)),
             patch.object(self.svc, "_fetch_existing_refs", new_callable=AsyncMock, return_value=set()),
             patch.object(self.svc._validator, "validate_shipments", return_value=validation_result),
@@ -258,6 +266,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=match),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_parse", new_callable=AsyncMock, return_value=([shipment], [], 1.0)),
             patch.object(self.svc, "_fetch_existing_refs", new_callable=AsyncMock, return_value={"EXISTING_REF"}),
             patch.object(self.svc._validator, "validate_shipments", return_value=validation_result),
@@ -484,6 +493,7 @@ class TestUploadProcessorService:
             patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
             patch.object(self.svc, "_load_upload", return_value=upload),
             patch.object(self.svc._template_service, "find_match", new_callable=AsyncMock, return_value=match),
+            patch.object(self.svc, "_reviewed_mapping_match", new_callable=AsyncMock, return_value=None),
             patch.object(self.svc, "_parse", new_callable=AsyncMock, return_value=([s1, s2], [], 1.0)),
             patch.object(self.svc, "_fetch_existing_refs", new_callable=AsyncMock, return_value={"DUP_REF"}),
             patch.object(self.svc._validator, "validate_shipments", return_value=validation_result),
@@ -496,3 +506,247 @@ class TestUploadProcessorService:
 
         assert result.shipment_count == 1
         assert any(i["type"] == "validation_error" for i in result.issues)
+
+    # ============================================================================
+    # REVIEWED COLUMN MAPPING — manual_mapping rows override template matching
+    # ============================================================================
+
+    @pytest.mark.asyncio
+    async def test_reviewed_mapping_builds_template_match(self) -> None:
+        upload = _make_upload()
+        rows = []
+        for field_name, column, rule in [
+            ("date", "Datum", {"date_format": "mdy"}),
+            ("dest_zip", "PLZ", None),
+            ("_ignore", "Kostenstelle", None),
+        ]:
+            row = MagicMock()
+            row.field_name = field_name
+            row.source_column = column
+            row.mapping_rule = rule
+            rows.append(row)
+        db = AsyncMock()
+        db.execute.return_value = MagicMock()
+        db.execute.return_value.scalars.return_value.all.return_value = rows
+
+        match = await self.svc._reviewed_mapping_match(db, upload)
+
+        assert match is not None
+        assert match.confidence == 1.0
+        assert match.template.mappings == {
+            "date": {"column": "Datum", "date_format": "mdy"},
+            "dest_zip": "PLZ",
+            "_ignore": ["Kostenstelle"],
+        }
+
+    @pytest.mark.asyncio
+    async def test_reviewed_mapping_absent_returns_none(self) -> None:
+        db = AsyncMock()
+        db.execute.return_value = MagicMock()
+        db.execute.return_value.scalars.return_value.all.return_value = []
+
+        assert await self.svc._reviewed_mapping_match(db, _make_upload()) is None
+
+    # ============================================================================
+    # DIESEL FLOATER IMPORT — issue records imported and overwritten brackets
+    # ============================================================================
+
+    @pytest.mark.asyncio
+    async def test_diesel_floater_import_records_brackets_for_review(self, tmp_path) -> None:
+        pdf = tmp_path / "floater.pdf"
+        pdf.write_bytes(b"%PDF-1.4")
+        upload = _make_upload(storage_url=str(pdf), mime_type="application/pdf", filename="floater.pdf")
+        carrier_id = uuid4()
+        parsed = DieselFloaterParseResult(
+            brackets=[
+                DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12.0")),
+                DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13.5")),
+            ],
+            carrier_name="Schenker",
+            valid_from=None,
+            basis="base",
+            confidence=1.0,
+        )
+        previous = [{"price_ct_max": "150.00", "floater_pct": "13.00", "basis": "base", "valid_until": None}]
+        parser = MagicMock()
+        parser.parse = AsyncMock(return_value=parsed)
+        update_status = AsyncMock()
+
+        with (
+            patch(f"{_MODULE}._TenantSession", return_value=_mock_tenant_session()),
+            patch(f"{_MODULE}.get_diesel_floater_parser", return_value=parser),
+            patch.object(self.svc._document_service, "process", new_callable=AsyncMock, return_value=MagicMock(text="Dieselfloater")),
+            patch.object(self.svc, "_resolve_carrier", new_callable=AsyncMock, return_value=carrier_id),
+            patch.object(self.svc, "_snapshot_bracket_table", new_callable=AsyncMock, return_value=previous) as snapshot,
+            patch.object(self.svc, "_update_status", update_status),
+        ):
+            result = await self.svc._process_diesel_floater_upload(upload, UPLOAD_ID, TENANT_ID, MagicMock())
+
+        assert result.final_status == STATUS_PARSED
+        # No date in the PDF → the table's default valid_from is recorded explicitly
+        assert snapshot.await_args.args[1:] == (carrier_id, datetime(2000, 1, 1).date())
+        summary = update_status.await_args.kwargs["extra"]["parsing_issues"][0]
+        assert summary["type"] == "diesel_floater_imported"
+        assert summary["carrier_id"] == str(carrier_id)
+        assert summary["valid_from"] == "2000-01-01"
+        assert summary["brackets"] == [
+            {"price_ct_max": "140", "floater_pct": "12.0"},
+            {"price_ct_max": "150", "floater_pct": "13.5"},
+        ]
+        assert summary["previous_brackets"] == previous
+        assert summary["review_status"] == "pending"
+
+    @pytest.mark.asyncio
+    async def test_diesel_floater_import_replaces_differing_table(self, tmp_path) -> None:
+        pdf = tmp_path / "floater.pdf"
+        pdf.write_bytes(b"%PDF-1.4")
+        upload = _make_upload(
+            storage_url=str(pdf), mime_type="application/pdf", filename="floater.pdf"
+        )
+        parsed = DieselFloaterParseResult(
+            brackets=[
+                DieselBracket(price_ct_max=Decimal("145"), floater_pct=Decimal("12.5")),
+                DieselBracket(price_ct_max=Decimal("155"), floater_pct=Decimal("14.0")),
+            ],
+            carrier_name="Schenker",
+            valid_from=datetime(2024, 1, 1).date(),
+            basis="base",
+            confidence=1.0,
+        )
+        # Stored table uses different thresholds — none of its rows may survive
+        previous = [
+            {"price_ct_max": ct, "floater_pct": pct, "basis": "base", "valid_until": "2024-12-31"}
+            for ct, pct in (("140.00", "12.00"), ("150.00", "13.00"))
+        ]
+        parser = MagicMock()
+        parser.parse = AsyncMock(return_value=parsed)
+        session = _mock_tenant_session()
+        db = session.__aenter__.return_value
+        db.add = MagicMock()
+        doc = MagicMock(text="Dieselfloater")
+
+        with (
+            patch(f"{_MODULE}._TenantSession", return_value=session),
+            patch(f"{_MODULE}.get_diesel_floater_parser", return_value=parser),
+            patch.object(self.svc._document_service, "process", AsyncMock(return_value=doc)),
+            patch.object(self.svc, "_resolve_carrier", AsyncMock(return_value=uuid4())),
+            patch.object(self.svc, "_snapshot_bracket_table", AsyncMock(return_value=previous)),
+            patch.object(self.svc, "_update_status", AsyncMock()),
+        ):
+            await self.svc._process_diesel_floater_upload(
+                upload, UPLOAD_ID, TENANT_ID, MagicMock()
+            )
+
+        delete_sql = str(db.execute.await_args.args[0])
+        assert delete_sql.startswith("DELETE FROM diesel_price_bracket")
+        assert "diesel_price_bracket.valid_from = " in delete_sql
+        added = [call.args[0] for call in db.add.call_args_list]
+        assert [(b.price_ct_max, b.floater_pct) for b in added] == [
+            (Decimal("145"), Decimal("12.5")),
+            (Decimal("155"), Decimal("14.0")),
+        ]
+        # The replaced table's validity end carries over to the imported rows
+        assert {b.valid_until for b in added} == {datetime(2024, 12, 31).date()}
+
+    @pytest.mark.asyncio
+    async def test_diesel_floater_import_drops_repeated_threshold(self, tmp_path) -> None:
+        pdf = tmp_path / "floater.pdf"
+        pdf.write_bytes(b"%PDF-1.4")
+        upload = _make_upload(
+            storage_url=str(pdf), mime_type="application/pdf", filename="floater.pdf"
+        )
+        parsed = DieselFloaterParseResult(
+            brackets=[
+                DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12.0")),
+                DieselBracket(price_ct_max=Decimal("140"), floater_pct=Decimal("12.5")),
+                DieselBracket(price_ct_max=Decimal("150"), floater_pct=Decimal("13.5")),
+            ],
+            carrier_name="Schenker",
+            valid_from=None,
+            basis="base",
+            confidence=1.0,
+        )
+        parser = MagicMock()
+        parser.parse = AsyncMock(return_value=parsed)
+        session = _mock_tenant_session()
+        db = session.__aenter__.return_value
+        db.add = MagicMock()
+        update_status = AsyncMock()
+
+        with (
+            patch(f"{_MODULE}._TenantSession", return_value=session),
+            patch(f"{_MODULE}.get_diesel_floater_parser", return_value=parser),
+            patch.object(
+                self.svc._document_service, "process", AsyncMock(return_value=MagicMock(text=""))
+            ),
+            patch.object(self.svc, "_resolve_carrier", AsyncMock(return_value=uuid4())),
+            patch.object(self.svc, "_snapshot_bracket_table", AsyncMock(return_value=[])),
+            patch.object(self.svc, "_update_status", update_status),
+        ):
+            result = await self.svc._process_diesel_floater_upload(
+                upload, UPLOAD_ID, TENANT_ID, MagicMock()
+            )
+
+        assert result.final_status == STATUS_PARSED
+        added = [call.args[0] for call in db.add.call_args_list]
+        assert [(b.price_ct_max, b.floater_pct) for b in added] == [
+            (Decimal("140"), Decimal("12.0")),
+            (Decimal("150"), Decimal("13.5")),
+        ]
+        summary, issue = update_status.await_args.kwargs["extra"]["parsing_issues"]
+        assert len(summary["brackets"]) == 2
+        assert issue["type"] == "parse_issue"
+        assert issue["message"].startswith("Price limit 140 Ct/l is listed more than once")
+
+    # ============================================================================
+    # CONTAINER UPLOADS — ZIP archive fanned out into child uploads
+    # ============================================================================
+
+    @pytest.mark.asyncio
+    async def test_zip_upload_creates_child_uploads(self, tmp_path) -> None:
+        buffer = io.BytesIO()
+        with zipfile.ZipFile(buffer, "w") as archive:
+            archive.writestr("2024/RE-1.pdf", b"%PDF-1")
+            archive.writestr("RE-2.pdf", b"%PDF-2")
+            archive.writestr("notes.docx", b"docx")
+        container = tmp_path / "folder.zip"
+        container.write_bytes(buffer.getvalue())
+        upload = _make_upload(storage_url=str(container), mime_type="application/zip", filename="folder.zip")
+        upload.meta = None
+        upload.project_id = uuid4()
+        # RE-2.pdf was uploaded on its own before
+        earlier = MagicMock(file_hash=hashlib.sha256(b"%PDF-2").hexdigest(), parent_upload_id=None)
+        earlier.filename = "RE-2.pdf"
+        session = _mock_tenant_session()
+        db = session.__aenter__.return_value
+        db.add = MagicMock()
+        db.execute.return_value = MagicMock(**{"scalars.return_value": [earlier]})
+        update_status = AsyncMock()
+
+        with (
+            patch(f"{_MODULE}._TenantSession", return_value=session),
+            patch.object(self.svc, "_update_status", update_status),
+            patch.object(self.svc, "_events", MagicMock()),
+            patch.object(self.svc, "process_upload", new_callable=AsyncMock) as process_child,
+        ):
+            result = await self.svc._process_container_upload(upload, UPLOAD_ID, TENANT_ID, MagicMock())
+            await asyncio.sleep(0)
+
+        assert result.final_status == STATUS_PARSED
+        child = db.add.call_args.args[0]
+        assert db.add.call_count == 1
+        assert child.parent_upload_id == UPLOAD_ID
+        assert child.project_id == upload.project_id
+        assert child.filename == "RE-1.pdf"
+        assert child.doc_type is None
+        assert child.meta["source"]["path"] == "2024/RE-1.pdf"
+        assert (tmp_path / f"{child.file_hash}.pdf").read_bytes() == b"%PDF-1"
+        process_child.assert_awaited_once()
+
+        extra = update_status.await_args.kwargs["extra"]
+        assert extra["doc_type"] == "zip_archive"
+        assert extra["meta"]["container"]["file_count"] == 1
+        assert [i["message"] for i in extra["parsing_issues"]] == [
+            "notes.docx: unsupported file type",
+            "RE-2.pdf: already uploaded as 'RE-2.pdf'",
+        ]
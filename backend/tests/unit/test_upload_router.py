@@ -0,0 +1,317 @@
+"""Unit tests for the chunked upload session endpoints.
+
+Tests: completing a session marks it completed before the upload is
+       committed (the tenant setting ends with that transaction), a
+       deduplicated completion, and that a new session for the same hash
+       starts fresh instead of resuming the completed one. Deduplication
+       ignores uploads of deleted projects and a lost insert race is a 409;
+       those uploads are also hidden from lists and lookups. Vision page
+       analysis runs as a background task and the upload stream stays open
+       until the run has finished.
+
+No real DB — the AsyncMock session records the session state at commit time.
+"""
+
+from __future__ import annotations
+
+import hashlib
+from pathlib import Path
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, MagicMock, patch
+from uuid import uuid4
+
+import pytest
+from fastapi import BackgroundTasks, HTTPException
+from sqlalchemy.dialects import postgresql
+from sqlalchemy.exc import IntegrityError
+
+from app.models.database import Upload, UploadSession
+from app.routers.upload import (
+    UploadSessionCreate,
+    _event_stream,
+    analyse_vision_pages,
+    complete_upload_session,
+    create_upload_session,
+    get_upload_status,
+    list_uploads,
+)
+from app.services.upload_event_service import UploadEventService, upload_key
+
+_MODULE = "app.routers.upload"
+TENANT_ID = uuid4()
+CONTENT = b"%PDF-1.4 invoice"
+FILE_HASH = hashlib.sha256(CONTENT).hexdigest()
+
+
+def _session(allow_duplicate: bool = True) -> SimpleNamespace:
+    return SimpleNamespace(
+        id=uuid4(),
+        status="open",
+        allow_duplicate=allow_duplicate,
+        file_hash=FILE_HASH,
+        file_size=len(CONTENT),
+        filename="RE-1.pdf",
+        mime_type="application/pdf",
+        project_id=None,
+        doc_type=None,
+        total_chunks=1,
+        upload_id=None,
+        updated_at=None,
+    )
+
+
+def _request() -> SimpleNamespace:
+    return SimpleNamespace(state=SimpleNamespace(tenant_id=str(TENANT_ID), user_id=None))
+
+
+def _result(scalar=None) -> MagicMock:
+    r = MagicMock()
+    r.scalar_one_or_none.return_value = scalar
+    r.scalar.return_value = scalar
+    return r
+
+
+def _chunks(tmp_path: Path) -> MagicMock:
+    async def assemble(_session_id, _total, target: Path):
+        target.write_bytes(CONTENT)
+        return SimpleNamespace(file_hash=FILE_HASH, size=len(CONTENT))
+
+    chunks = MagicMock()
+    chunks.assemble = AsyncMock(side_effect=assemble)
+    return chunks
+
+
+class TestCompleteUploadSession:
+    @pytest.mark.asyncio
+    async def test_session_completed_in_upload_transaction(self, tmp_path):
+        session = _session()
+        upload_id = uuid4()
+        db = AsyncMock()
+        db.add = MagicMock()
+        db.execute.return_value = _result(session)
+
+        async def flush():
+            db.add.call_args.args[0].id = upload_id
+
+        committed: list[tuple[str, object]] = []
+        db.flush.side_effect = flush
+        db.commit.side_effect = lambda: committed.append((session.status, session.upload_id))
+        chunks = _chunks(tmp_path)
+
+        with (
+            patch(f"{_MODULE}.get_chunked_upload_service", return_value=chunks),
+            patch(f"{_MODULE}._storage_path", return_value=tmp_path / "stored.pdf"),
+            patch(f"{_MODULE}.get_upload_event_service"),
+            patch(f"{_MODULE}.get_upload_processor"),
+        ):
+            response = await complete_upload_session(
+                session.id, _request(), BackgroundTasks(), db=db
+            )
+
+        assert response.upload_id == upload_id
+        assert committed == [("completed", upload_id)]
+        assert isinstance(db.add.call_args.args[0], Upload)
+        # Only the session lookup — no UPDATE after the commit
+        assert db.execute.await_count == 1
+        chunks.discard.assert_called_once_with(session.id)
+        assert (tmp_path / "stored.pdf").read_bytes() == CONTENT
+
+    @pytest.mark.asyncio
+    async def test_deduplicated_completion_links_existing_upload(self):
+        session = _session(allow_duplicate=False)
+        existing = SimpleNamespace(
+            id=uuid4(), status="parsed", filename="RE-1.pdf", file_hash=FILE_HASH
+        )
+        db = AsyncMock()
+        db.execute.side_effect = [_result(session), _result(existing)]
+        chunks = MagicMock()
+
+        with patch(f"{_MODULE}.get_chunked_upload_service", return_value=chunks):
+            response = await complete_upload_session(
+                session.id, _request(), BackgroundTasks(), db=db
+            )
+
+        assert response.upload_id == existing.id
+        assert (session.status, session.upload_id) == ("completed", existing.id)
+        chunks.assemble.assert_not_called()
+        db.commit.assert_not_awaited()
+
+    @pytest.mark.asyncio
+    async def test_recreating_after_complete_starts_new_session(self, tmp_path):
+        session = _session()
+        db = AsyncMock()
+        db.add = MagicMock()
+        db.execute.return_value = _result(session)
+
+        async def flush():
+            db.add.call_args.args[0].id = uuid4()
+
+        db.flush.side_effect = flush
+        with (
+            patch(f"{_MODULE}.get_chunked_upload_service", return_value=_chunks(tmp_path)),
+            patch(f"{_MODULE}._storage_path", return_value=tmp_path / "stored.pdf"),
+            patch(f"{_MODULE}.get_upload_event_service"),
+            patch(f"{_MODULE}.get_upload_processor"),
+        ):
+            await complete_upload_session(session.id, _request(), BackgroundTasks(), db=db)
+
+        # Same file again: the completed session is not resumed
+        db = AsyncMock()
+        db.add = MagicMock()
+        db.execute.return_value = _result(None)
+
+        async def refresh(row):
+            row.id, row.status, row.created_at = uuid4(), "open", None
+
+        db.refresh.side_effect = refresh
+        body = UploadSessionCreate(filename="RE-1.pdf", file_size=len(CONTENT), file_hash=FILE_HASH)
+        chunks = MagicMock()
+        chunks.received_chunks.return_value = []
+
+        with patch(f"{_MODULE}.get_chunked_upload_service", return_value=chunks):
+            resumed = await create_upload_session(body, _request(), db=db)
+
+        lookup = db.execute.await_args_list[0].args[0].compile(dialect=postgresql.dialect())
+        assert "upload_session.status = " in str(lookup)
+        assert "open" in lookup.params.values()
+        created = db.add.call_args.args[0]
+        assert isinstance(created, UploadSession)
+        assert resumed.session_id != session.id
+        assert resumed.received_chunks == []
+        assert session.status == "completed"
+
+
+class TestDeduplication:
+    @pytest.mark.asyncio
+    async def test_upload_of_deleted_project_is_stored_again(self, tmp_path):
+        session = _session(allow_duplicate=False)
+        db = AsyncMock()
+        db.add = MagicMock()
+        # Session, no live upload with the hash, hash held by a deleted project's upload
+        db.execute.side_effect = [_result(session), _result(None), _result(True)]
+
+        async def flush():
+            db.add.call_args.args[0].id = uuid4()
+
+        db.flush.side_effect = flush
+        with (
+            patch(f"{_MODULE}.get_chunked_upload_service", return_value=_chunks(tmp_path)),
+            patch(f"{_MODULE}._storage_path", return_value=tmp_path / "stored.pdf"),
+            patch(f"{_MODULE}.get_upload_event_service"),
+            patch(f"{_MODULE}.get_upload_processor"),
+        ):
+            await complete_upload_session(session.id, _request(), BackgroundTasks(), db=db)
+
+        lookup = str(db.execute.await_args_list[1].args[0].compile(dialect=postgresql.dialect()))
+        assert "upload.project_id IS NULL OR project.deleted_at IS NULL" in lookup
+        upload = db.add.call_args.args[0]
+        assert upload.allow_duplicate is True
+
+    @pytest.mark.asyncio
+    async def test_concurrent_upload_of_same_file_is_conflict(self, tmp_path):
+        session = _session(allow_duplicate=False)
+        db = AsyncMock()
+        db.add = MagicMock()
+        db.execute.side_effect = [_result(session), _result(None), _result(False)]
+        db.flush.side_effect = IntegrityError("INSERT", {}, Exception("uq_upload_tenant_file_hash"))
+
+        with (
+            patch(f"{_MODULE}.get_chunked_upload_service", return_value=_chunks(tmp_path)),
+            patch(f"{_MODULE}._storage_path", return_value=tmp_path / "stored.pdf"),
+            pytest.raises(HTTPException) as exc,
+        ):
+            await complete_upload_session(session.id, _request(), BackgroundTasks(), db=db)
+
+        assert exc.value.status_code == 409
+        assert db.add.call_args.args[0].allow_duplicate is False
+        db.commit.assert_not_awaited()
+
+
+class TestDeletedProjects:
+    @pytest.mark.asyncio
+    async def test_list_leaves_out_uploads_of_deleted_projects(self):
+        db = AsyncMock()
+        result = MagicMock()
+        result.scalars.return_value.all.return_value = []
+        db.execute.return_value = result
+
+        await list_uploads(project_id=uuid4(), parent_upload_id=None, db=db)
+
+        sql = str(db.execute.await_args.args[0].compile(dialect=postgresql.dialect()))
+        assert "upload.project_id IS NULL OR project.deleted_at IS NULL" in sql
+
+    @pytest.mark.asyncio
+    async def test_upload_of_deleted_project_is_not_found(self):
+        db = AsyncMock()
+        db.execute.return_value = _result(None)
+
+        with pytest.raises(HTTPException) as exc:
+            await get_upload_status(uuid4(), db=db)
+
+        assert exc.value.status_code == 404
+        sql = str(db.execute.await_args.args[0].compile(dialect=postgresql.dialect()))
+        assert "LEFT OUTER JOIN project" in sql
+        assert "project.deleted_at IS NULL" in sql
+
+
+class TestVisionPages:
+    @pytest.mark.asyncio
+    async def test_analysis_runs_in_background(self, tmp_path):
+        pdf = tmp_path / "RE-1.pdf"
+        pdf.write_bytes(CONTENT)
+        upload = SimpleNamespace(
+            id=uuid4(), tenant_id=TENANT_ID, filename="RE-1.pdf", storage_url=str(pdf)
+        )
+        db = AsyncMock()
+        db.execute.return_value = _result(upload)
+        events = UploadEventService()
+        vision = MagicMock()
+        vision.inspection = AsyncMock(return_value=None)
+        background = BackgroundTasks()
+
+        with (
+            patch(f"{_MODULE}.get_upload_event_service", return_value=events),
+            patch(f"{_MODULE}.get_vision_inspection_service", return_value=vision),
+        ):
+            response = await analyse_vision_pages(upload.id, background, db=db)
+
+            assert response.running is True
+            assert response.pages == []
+            vision.analyse.assert_not_called()
+            [task] = background.tasks
+            assert task.func is vision.run_analysis
+            assert task.args == (upload.id, TENANT_ID, pdf)
+
+            # A second start while the first is in flight
+            with pytest.raises(HTTPException) as exc:
+                await analyse_vision_pages(upload.id, BackgroundTasks(), db=db)
+            assert exc.value.status_code == 409
+
+    @pytest.mark.asyncio
+    async def test_stream_of_parsed_upload_waits_for_vision_run(self):
+        upload_id = uuid4()
+        events = UploadEventService()
+        key = upload_key(upload_id)
+        queue = events.subscribe(key)
+        running = events.publish_vision(upload_id, "running", step="pipeline")
+        events.publish_vision(upload_id, "completed", extraction_id=uuid4())
+        request = MagicMock()
+        request.is_disconnected = AsyncMock(return_value=False)
+        snapshot = [{"uploadId": str(upload_id), "status": "parsed"}]
+
+        with patch(f"{_MODULE}.get_upload_event_service", return_value=events):
+            frames = [
+                frame
+                async for frame in _event_stream(
+                    request, key, queue, snapshot, close_on_terminal=True, vision=running
+                )
+            ]
+
+        assert [f.split("\n", 1)[0] for f in frames] == [
+            "event: status",
+            "event: vision",
+            # The queued "running" event, then the outcome closes the stream
+            "event: vision",
+            "event: vision",
+        ]
+        assert '"status": "completed"' in frames[-1]
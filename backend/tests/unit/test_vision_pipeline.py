@@ -0,0 +1,154 @@
+"""Unit tests for VisionPipeline page reports and single-page re-runs.
+
+Tests: per-page confidence and skipped pages of a run, re-extracting one page
+with an overridden page type while the other pages come from the stored run.
+Stages 1–3 (image processing, Haiku / Sonnet calls) are mocked.
+"""
+
+from __future__ import annotations
+
+from dataclasses import fields as dataclass_fields
+from unittest.mock import AsyncMock
+from uuid import uuid4
+
+import pytest
+
+from app.services.document_service import PageImage
+from app.services.parsing.vision_pipeline.pipeline_types import (
+    AnnotatedField,
+    ClassifiedPage,
+    ExtractedHeader,
+    ExtractedLine,
+    PageExtractionResult,
+)
+from app.services.parsing.vision_pipeline.vision_pipeline import VisionPipeline
+
+
+def _missing(cls: type) -> dict[str, AnnotatedField]:
+    return {f.name: AnnotatedField(value=None, src="missing") for f in dataclass_fields(cls)}
+
+
+def _header(invoice_number: str = "RE-1") -> ExtractedHeader:
+    header = ExtractedHeader(**_missing(ExtractedHeader))
+    header.invoice_number = AnnotatedField(value=invoice_number, src="direct_ocr")
+    header.currency = AnnotatedField(value="EUR", src="direct_ocr")
+    return header
+
+
+def _line(weight_kg: float = 120.0) -> ExtractedLine:
+    line = ExtractedLine(**_missing(ExtractedLine))
+    line.weight_kg = AnnotatedField(value=weight_kg, src="direct_ocr")
+    line.line_total = AnnotatedField(value=48.5, src="llm_inferred")
+    return line
+
+
+def _pipeline(extracted: list[PageExtractionResult]) -> VisionPipeline:
+    pipeline = VisionPipeline()
+    pipeline._pre_processor.process_pages = AsyncMock(side_effect=lambda pages: pages)
+    pipeline._page_classifier.classify_pages = AsyncMock(
+        return_value=[
+            ClassifiedPage(
+                page_number=p.page_number,
+                page_type=p.page_type,
+                image_base64="",
+                width=0,
+                height=0,
+            )
+            for p in extracted
+        ]
+    )
+    pipeline._structured_extractor.extract_pages = AsyncMock(return_value=extracted)
+    pipeline._review_gate.persist_raw_extraction = AsyncMock()
+    return pipeline
+
+
+def _pages(count: int) -> list[PageImage]:
+    return [PageImage(page_num=i + 1, image_bytes=b"png") for i in range(count)]
+
+
+class TestPageReports:
+    @pytest.mark.asyncio
+    async def test_run_scores_pages_and_reports_skipped(self):
+        pipeline = _pipeline(
+            [
+                PageExtractionResult(page_number=0, page_type="cover", header=_header()),
+                PageExtractionResult(
+                    page_number=1, page_type="line-item-table", lines=[_line(), _line(80.0)]
+                ),
+                PageExtractionResult(
+                    page_number=2,
+                    page_type="surcharge-appendix",
+                    raw_issues=["Page 2 extraction failed: timeout"],
+                    failed=True,
+                ),
+                PageExtractionResult(page_number=3, page_type="continuation"),
+            ]
+        )
+
+        result = await pipeline.run(_pages(4))
+
+        cover, table, failed, empty = result.pages
+        assert cover.line_count == 0 and cover.skip_reason is None
+        assert cover.confidence is not None
+        assert set(cover.confidence.field_breakdown) == {
+            f"header.{f.name}" for f in dataclass_fields(ExtractedHeader)
+        }
+        assert table.line_count == 2
+        assert table.confidence is not None
+        assert table.confidence.field_breakdown["lines[1].weight_kg"] == "direct_ocr"
+        assert not any(k.startswith("header.") for k in table.confidence.field_breakdown)
+        assert failed.skip_reason == "extraction_failed" and failed.confidence is None
+        assert empty.skip_reason == "no_data"
+        assert [p.classified_type for p in result.pages] == [p.page_type for p in result.pages]
+
+
+class TestRerunPage:
+    @pytest.mark.asyncio
+    async def test_rerun_replaces_only_the_page_and_keeps_classification(self):
+        tenant_id, upload_id, db = uuid4(), uuid4(), AsyncMock()
+        pipeline = _pipeline(
+            [
+                PageExtractionResult(page_number=0, page_type="cover", header=_header()),
+                PageExtractionResult(page_number=1, page_type="line-item-table", lines=[_line()]),
+                PageExtractionResult(page_number=2, page_type="cover", lines=[_line(), _line()]),
+            ]
+        )
+        first = await pipeline.run(_pages(3), tenant_id=tenant_id, upload_id=upload_id, db=db)
+        payload = pipeline._review_gate.persist_raw_extraction.call_args.kwargs["payload"]
+        assert len(first.lines) == 1
+
+        pipeline._structured_extractor.extract_pages = AsyncMock(
+            return_value=[
+                PageExtractionResult(
+                    page_number=2, page_type="continuation", lines=[_line(), _line(55.0)]
+                )
+            ]
+        )
+        result = await pipeline.rerun_page(
+            PageImage(page_num=3, image_bytes=b"png"),
+            2,
+            "continuation",
+            payload,
+            tenant_id=tenant_id,
+            upload_id=upload_id,
+            db=db,
+        )
+
+        [sent] = pipeline._structured_extractor.extract_pages.call_args.args[0]
+        assert (sent.page_number, sent.page_type) == (2, "continuation")
+        assert result.header.invoice_number.value == "RE-1"
+        assert [line.weight_kg.value for line in result.lines] == [120.0, 120.0, 55.0]
+        assert [r.page_number for r in result.line_regions] == [1, 2, 2]
+        rerun = result.pages[2]
+        assert (rerun.page_type, rerun.classified_type) == ("continuation", "cover")
+        stored = pipeline._review_gate.persist_raw_extraction.call_args.kwargs["payload"]
+        assert stored["page_results"][2]["classified_type"] == "cover"
+
+    @pytest.mark.asyncio
+    async def test_rerun_unknown_page_raises(self):
+        pipeline = _pipeline([])
+
+        with pytest.raises(ValueError, match="Page 4 not in the previous run"):
+            await pipeline.rerun_page(
+                PageImage(page_num=4, image_bytes=b"png"), 3, "cover", {"page_results": []}
+            )
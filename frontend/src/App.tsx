@@ -5,8 +5,16 @@ import { NewProjectPage } from './pages/NewProject';
 import { UploadReviewPage } from './pages/UploadReview';
 import { UploadDetailPage } from './pages/UploadDetail';
 import { ReportViewerPage } from './pages/ReportViewer';
+import { ReportExportPage } from './pages/ReportExport';
 import { ProjectDetailPage } from './pages/ProjectDetail';
+import { ProjectSettingsPage } from './pages/ProjectSettings';
+import { ProjectShipmentsPage } from './pages/ProjectShipments';
+import { ProjectConsistencyPage } from './pages/ProjectConsistency';
+import { ShipmentDetailPage } from './pages/ShipmentDetail';
 import { DieselFloaterPage } from './pages/DieselFloater';
+import { CarriersPage } from './pages/Carriers';
+import { DieselFloaterDetailPage } from './pages/DieselFloaterDetail';
+import { TemplatesPage } from './pages/Templates';
 import { LoginPage } from './pages/Login';
 
 /**
@@ -38,13 +46,20 @@ function App() {
           <Route path="/projects" element={<RequireAuth><ProjectsPage /></RequireAuth>} />
           <Route path="/projects/new" element={<RequireAuth><NewProjectPage /></RequireAuth>} />
           <Route path="/projects/:projectId" element={<RequireAuth><ProjectDetailPage /></RequireAuth>} />
+          <Route path="/projects/:projectId/settings" element={<RequireAuth><ProjectSettingsPage /></RequireAuth>} />
+          <Route path="/projects/:projectId/shipments" element={<RequireAuth><ProjectShipmentsPage /></RequireAuth>} />
+          <Route path="/projects/:projectId/shipments/:shipmentId" element={<RequireAuth><ShipmentDetailPage /></RequireAuth>} />
+          <Route path="/projects/:projectId/consistency" element={<RequireAuth><ProjectConsistencyPage /></RequireAuth>} />
 
           {/* Settings */}
           <Route path="/settings/diesel-floaters" element={<RequireAuth><DieselFloaterPage /></RequireAuth>} />
+          <Route path="/settings/carriers" element={<RequireAuth><CarriersPage /></RequireAuth>} />
+          <Route path="/settings/templates" element={<RequireAuth><TemplatesPage /></RequireAuth>} />
 
           {/* Upload Review */}
           <Route path="/uploads/:uploadId/review" element={<RequireAuth><UploadReviewPage /></RequireAuth>} />
           <Route path="/uploads/:uploadId/detail" element={<RequireAuth><UploadDetailPage /></RequireAuth>} />
+          <Route path="/uploads/:uploadId/diesel-floater" element={<RequireAuth><DieselFloaterDetailPage /></RequireAuth>} />
 
           {/* Reports */}
           <Route
@@ -55,6 +70,10 @@ function App() {
             path="/projects/:projectId/reports/:reportId"
             element={<RequireAuth><ReportViewerPage /></RequireAuth>}
           />
+          <Route
+            path="/projects/:projectId/reports/:reportId/export"
+            element={<RequireAuth><ReportExportPage /></RequireAuth>}
+          />
 
           {/* 404 Fallback */}
           <Route path="*" element={<NotFoundPage />} />
@@ -1,4 +1,11 @@
 import axios from 'axios';
+import type {
+  UploadCreatedResponse,
+  UploadSession,
+  UploadStage,
+  UploadStatusEvent,
+  VisionRunEvent,
+} from '../types';
 
 /**
  * API client configuration
@@ -37,3 +44,165 @@ api.interceptors.response.use(
     return Promise.reject(error);
   }
 );
+
+/**
+ * Pipeline stages pushed by the upload status streams, in pipeline order
+ */
+export const UPLOAD_STAGES: { key: UploadStage; label: string }[] = [
+  { key: 'preprocessing', label: 'Vorverarbeitung' },
+  { key: 'classification', label: 'Seitenklassifizierung' },
+  { key: 'extraction', label: 'Extraktion' },
+  { key: 'validation', label: 'Validierung' },
+  { key: 'review_gate', label: 'Prüfschritt' },
+];
+
+const TERMINAL_UPLOAD_STATUSES = ['parsed', 'partial_success', 'failed', 'needs_manual_review'];
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Follow a server-sent upload status stream (/api/uploads/{id}/events or
+ * /api/uploads/events?project_id=). EventSource cannot send the Bearer token,
+ * so the stream is read with fetch. Reconnects after network errors until the
+ * returned function is called or, with untilTerminal, a terminal status arrived.
+ * "vision" events (page analysis runs of one upload) go to onVision.
+ */
+export function streamUploadEvents(
+  path: string,
+  onEvent: (event: UploadStatusEvent) => void,
+  untilTerminal = false,
+  onVision?: (event: VisionRunEvent) => void,
+): () => void {
+  const controller = new AbortController();
+  const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
+  let finished = false;
+
+  const connect = async (): Promise<void> => {
+    const token = localStorage.getItem('auth_token');
+    const res = await fetch(`${baseURL}${path}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal: controller.signal,
+    });
+    if (res.status === 401) {
+      localStorage.removeItem('auth_token');
+      window.location.href = '/login';
+      finished = true;
+      return;
+    }
+    if (res.status === 404) {
+      finished = true;
+      return;
+    }
+    if (!res.ok || !res.body) throw new Error(`Stream failed with status ${res.status}`);
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const lines = frame.split('\n');
+        const name = lines.find((line) => line.startsWith('event:'))?.slice(6).trim();
+        const data = lines
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+        // Comment-only frames are keepalives
+        if (data && name === 'vision') {
+          onVision?.(JSON.parse(data) as VisionRunEvent);
+        } else if (data) {
+          const event = JSON.parse(data) as UploadStatusEvent;
+          onEvent(event);
+          if (untilTerminal && TERMINAL_UPLOAD_STATUSES.includes(event.status)) {
+            finished = true;
+          }
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  };
+
+  const run = async () => {
+    while (!finished && !controller.signal.aborted) {
+      try {
+        await connect();
+      } catch {
+        if (controller.signal.aborted) return;
+      }
+      if (finished || controller.signal.aborted) return;
+      await new Promise((r) => setTimeout(r, RECONNECT_DELAY_MS));
+    }
+  };
+
+  run();
+  return () => controller.abort();
+}
+
+const CHUNK_ATTEMPTS = 4;
+
+/**
+ * Resumable upload for large files: POST /api/uploads/sessions returns the
+ * chunks the server already has (same fileHash, e.g. after a page reload),
+ * only the missing ones are sent, each retried with backoff on network errors.
+ * The server verifies the assembled file against fileHash on complete.
+ */
+export async function uploadFileChunked(
+  file: File,
+  options: {
+    fileHash: string;
+    projectId?: string;
+    docType?: string;
+    allowDuplicate?: boolean;
+    onProgress?: (loaded: number, total: number) => void;
+  },
+): Promise<UploadCreatedResponse> {
+  const { data: session } = await api.post<UploadSession>('/api/uploads/sessions', {
+    filename: file.name,
+    fileSize: file.size,
+    fileHash: options.fileHash,
+    mimeType: file.type || null,
+    projectId: options.projectId ?? null,
+    docType: options.docType ?? null,
+    allowDuplicate: options.allowDuplicate ?? false,
+  });
+
+  const chunkBytes = (index: number) =>
+    Math.min(session.chunkSize, file.size - index * session.chunkSize);
+  const received = new Set(session.receivedChunks);
+  let loaded = session.receivedChunks.reduce((sum, index) => sum + chunkBytes(index), 0);
+  options.onProgress?.(loaded, file.size);
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue;
+    const start = index * session.chunkSize;
+    const chunk = file.slice(start, start + chunkBytes(index));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await api.put(`/api/uploads/sessions/${session.sessionId}/chunks/${index}`, chunk, {
+          headers: { 'Content-Type': 'application/octet-stream' },
+          onUploadProgress: (e) => options.onProgress?.(loaded + e.loaded, file.size),
+        });
+        break;
+      } catch (err: unknown) {
+        const e = err as { response?: { status?: number } };
+        // Retry network errors and 5xx only; the session survives for a later resume
+        const retryable = !e.response || (e.response.status ?? 0) >= 500;
+        if (!retryable || attempt >= CHUNK_ATTEMPTS) throw err;
+        await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+    loaded += chunkBytes(index);
+    options.onProgress?.(loaded, file.size);
+  }
+
+  const { data } = await api.post<UploadCreatedResponse>(
+    `/api/uploads/sessions/${session.sessionId}/complete`,
+  );
+  return data;
+}
@@ -0,0 +1,507 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { api } from '../api';
+
+interface Carrier {
+  id: string;
+  name: string;
+  codeNorm: string;
+  country: string | null;
+  createdAt: string | null;
+}
+
+interface CarrierAlias {
+  aliasText: string;
+  carrierId: string;
+}
+
+interface CarrierUsage {
+  carrierId: string;
+  shipmentCount: number;
+  uploadCount: number;
+  tariffCount: number;
+  dieselFloaterCount: number;
+  bracketCount: number;
+  aliasCount: number;
+  uploads: Array<{
+    id: string;
+    filename: string;
+    projectId: string | null;
+    docType: string | null;
+    status: string | null;
+    createdAt: string | null;
+  }>;
+}
+
+interface MergeSourceUsage {
+  carrierId: string;
+  name: string;
+  codeNorm: string;
+  shipmentCount: number;
+  uploadCount: number;
+  tariffCount: number;
+  dieselFloaterCount: number;
+  bracketCount: number;
+  aliasCount: number;
+}
+
+interface MergePreview {
+  targetCarrierId: string;
+  sources: MergeSourceUsage[];
+  floaterConflictCount: number;
+  bracketConflictCount: number;
+}
+
+interface MergeResult {
+  targetCarrierId: string;
+  shipmentsRepointed: number;
+  tariffsRepointed: number;
+  dieselFloatersRepointed: number;
+  bracketsRepointed: number;
+  invoiceHeadersRepointed: number;
+  aliasesRepointed: number;
+  floatersDropped: number;
+  bracketsDropped: number;
+  newAliases: string[];
+  deletedCarrierIds: string[];
+  benchmarksQueued: number;
+}
+
+const isPlaceholder = (c: Carrier) => c.codeNorm.startsWith('PLACEHOLDER_');
+
+export const CarriersPage: React.FC = () => {
+  const [carriers, setCarriers] = useState<Carrier[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('carrier');
+  // ?merge=<id> pre-selects a merge source (linked from unknown_carrier parsing issues)
+  const mergeId = searchParams.get('merge');
+  const setSelectedId = (id: string) => setSearchParams(prev => {
+    prev.set('carrier', id);
+    return prev;
+  }, { replace: true });
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCarriers = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await api.get<Carrier[]>('/api/carriers');
+      setCarriers(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Laden fehlgeschlagen');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadCarriers(); }, [loadCarriers]);
+
+  if (loading) return <div className="flex items-center justify-center min-h-screen"><div className="text-gray-600">Laden…</div></div>;
+  if (error) return <div className="container mx-auto p-6"><div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">{error}</div></div>;
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? carriers.filter(c => c.name.toLowerCase().includes(term) || c.codeNorm.toLowerCase().includes(term))
+    : carriers;
+  const selected = carriers.find(c => c.id === selectedId) ?? null;
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-900">Spediteure</h1>
+        <p className="text-sm text-gray-500 mt-1">Stammdaten, Aliase und Verwendung pro Spediteur</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Carrier list */}
+        <div className="bg-white rounded-lg shadow p-4">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Suchen…"
+            className="w-full border border-gray-300 rounded px-3 py-1.5 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <ul className="divide-y divide-gray-100 max-h-[70vh] overflow-y-auto">
+            {filtered.map(c => (
+              <li key={c.id}>
+                <button
+                  onClick={() => setSelectedId(c.id)}
+                  className={`w-full text-left px-2 py-2 text-sm rounded ${c.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="font-medium text-gray-900 flex items-center gap-2">
+                    {c.name}
+                    {isPlaceholder(c) && <span className="px-1.5 py-0.5 rounded text-xs bg-orange-100 text-orange-700">Platzhalter</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono">{c.codeNorm}{c.country ? ` · ${c.country}` : ''}</div>
+                </button>
+              </li>
+            ))}
+            {filtered.length === 0 && <li className="text-sm text-gray-500 py-2">Keine Treffer.</li>}
+          </ul>
+        </div>
+
+        {/* Detail */}
+        <div className="md:col-span-2">
+          {selected ? (
+            <CarrierDetail key={selected.id} carrier={selected} carriers={carriers} mergeId={mergeId} onMerged={loadCarriers} />
+          ) : (
+            <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-500">
+              {mergeId
+                ? `Ziel-Spediteur links auswählen, in den "${carriers.find(c => c.id === mergeId)?.name ?? 'Platzhalter'}" überführt werden soll.`
+                : 'Spediteur links auswählen.'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Carrier detail — aliases and references
+// ---------------------------------------------------------------------------
+
+const CarrierDetail: React.FC<{
+  carrier: Carrier;
+  carriers: Carrier[];
+  mergeId: string | null;
+  onMerged: () => void;
+}> = ({ carrier, carriers, mergeId, onMerged }) => {
+  const [aliases, setAliases] = useState<CarrierAlias[]>([]);
+  const [usage, setUsage] = useState<CarrierUsage | null>(null);
+  const [newAlias, setNewAlias] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [aliasRes, usageRes] = await Promise.all([
+        api.get<CarrierAlias[]>(`/api/carriers/${carrier.id}/aliases`),
+        api.get<CarrierUsage>(`/api/carriers/${carrier.id}/usage`),
+      ]);
+      setAliases(aliasRes.data);
+      setUsage(usageRes.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Laden fehlgeschlagen');
+    }
+  }, [carrier.id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAlias.trim()) return;
+    setError(null);
+    try {
+      const res = await api.post<CarrierAlias>(`/api/carriers/${carrier.id}/aliases`, { aliasText: newAlias.trim() });
+      setAliases(prev => [...prev, res.data].sort((a, b) => a.aliasText.localeCompare(b.aliasText)));
+      setNewAlias('');
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Alias konnte nicht angelegt werden');
+    }
+  };
+
+  const handleRename = async (aliasText: string) => {
+    if (!editText.trim()) return;
+    setError(null);
+    try {
+      const res = await api.put<CarrierAlias>(
+        `/api/carriers/${carrier.id}/aliases/${encodeURIComponent(aliasText)}`,
+        { aliasText: editText.trim() },
+      );
+      setAliases(prev => prev.map(a => a.aliasText === aliasText ? res.data : a));
+      setEditing(null);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Alias konnte nicht geändert werden');
+    }
+  };
+
+  const handleDelete = async (aliasText: string) => {
+    if (!window.confirm(`Alias "${aliasText}" löschen?`)) return;
+    setError(null);
+    try {
+      await api.delete(`/api/carriers/${carrier.id}/aliases/${encodeURIComponent(aliasText)}`);
+      setAliases(prev => prev.filter(a => a.aliasText !== aliasText));
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Alias konnte nicht gelöscht werden');
+    }
+  };
+
+  const counts: Array<[string, number | undefined]> = [
+    ['Sendungen', usage?.shipmentCount],
+    ['Uploads', usage?.uploadCount],
+    ['Tarife', usage?.tariffCount],
+    ['Dieselfloater', usage?.dieselFloaterCount],
+    ['Preisklassen', usage?.bracketCount],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900">{carrier.name}</h2>
+        <p className="text-sm text-gray-500 mt-0.5">
+          Code: <span className="font-mono text-gray-700">{carrier.codeNorm}</span>
+          {' · '}Land: <span className="text-gray-700">{carrier.country ?? '—'}</span>
+        </p>
+        <div className="grid grid-cols-5 gap-3 mt-4">
+          {counts.map(([label, value]) => (
+            <div key={label} className="bg-gray-50 rounded p-3">
+              <div className="text-xs text-gray-500">{label}</div>
+              <div className="text-xl font-bold text-gray-900">{value ?? '—'}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600">{error}</div>}
+
+      {/* Aliases */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-base font-semibold text-gray-900 mb-1">Aliase ({aliases.length})</h3>
+        <p className="text-xs text-gray-500 mb-3">Schreibweisen aus Rechnungen und Tarifen, die diesem Spediteur zugeordnet werden (Kleinschreibung).</p>
+        <ul className="divide-y divide-gray-100 mb-4">
+          {aliases.map(a => (
+            <li key={a.aliasText} className="py-2 flex items-center gap-3 text-sm">
+              {editing === a.aliasText ? (
+                <>
+                  <input
+                    value={editText}
+                    onChange={e => setEditText(e.target.value)}
+                    className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(a.aliasText)} className="text-blue-600 hover:text-blue-700 text-xs">Speichern</button>
+                  <button onClick={() => setEditing(null)} className="text-gray-500 hover:text-gray-700 text-xs">Abbrechen</button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 font-mono text-gray-800">{a.aliasText}</span>
+                  <button onClick={() => { setEditing(a.aliasText); setEditText(a.aliasText); }} className="text-gray-500 hover:text-gray-700 text-xs">Bearbeiten</button>
+                  <button onClick={() => handleDelete(a.aliasText)} className="text-red-500 hover:text-red-700 text-xs">Löschen</button>
+                </>
+              )}
+            </li>
+          ))}
+          {aliases.length === 0 && <li className="py-2 text-sm text-gray-500">Keine Aliase.</li>}
+        </ul>
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            value={newAlias}
+            onChange={e => setNewAlias(e.target.value)}
+            maxLength={255}
+            placeholder="z.B. gebr. weiss gmbh"
+            className="flex-1 border border-gray-300 rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" disabled={!newAlias.trim()} className="bg-blue-600 text-white px-4 py-1.5 rounded text-sm hover:bg-blue-700 disabled:opacity-50">
+            Alias hinzufügen
+          </button>
+        </form>
+      </div>
+
+      {/* Referencing uploads */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-base font-semibold text-gray-900 mb-3">Uploads mit diesem Spediteur</h3>
+        {!usage || usage.uploads.length === 0 ? (
+          <p className="text-sm text-gray-500">Keine Uploads.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="pb-2 pr-3">Datei</th>
+                <th className="pb-2 pr-3">Typ</th>
+                <th className="pb-2 pr-3">Status</th>
+                <th className="pb-2">Hochgeladen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.uploads.map(u => (
+                <tr key={u.id} className="border-b last:border-0">
+                  <td className="py-2 pr-3">
+                    <Link to={`/uploads/${u.id}/detail`} className="text-blue-600 hover:text-blue-700">{u.filename}</Link>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-500">{u.docType ?? '—'}</td>
+                  <td className="py-2 pr-3 text-gray-500">{u.status ?? '—'}</td>
+                  <td className="py-2 text-gray-500">{u.createdAt ? new Date(u.createdAt).toLocaleDateString('de-DE') : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {usage && usage.uploadCount > usage.uploads.length && (
+          <p className="text-xs text-gray-400 mt-2">Die neuesten {usage.uploads.length} von {usage.uploadCount} Uploads.</p>
+        )}
+      </div>
+
+      <MergePanel
+        target={carrier}
+        candidates={carriers.filter(c => c.id !== carrier.id)}
+        initialSourceId={mergeId}
+        onMerged={() => { load(); onMerged(); }}
+      />
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Merge panel — fold duplicates / placeholders into the selected carrier
+// ---------------------------------------------------------------------------
+
+const MergePanel: React.FC<{
+  target: Carrier;
+  candidates: Carrier[];
+  initialSourceId: string | null;
+  onMerged: () => void;
+}> = ({ target, candidates, initialSourceId, onMerged }) => {
+  const [sourceIds, setSourceIds] = useState<string[]>(
+    candidates.some(c => c.id === initialSourceId) ? [initialSourceId as string] : [],
+  );
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Placeholders first — they are the usual merge candidates
+  const sorted = [...candidates].sort((a, b) =>
+    Number(isPlaceholder(b)) - Number(isPlaceholder(a)) || a.name.localeCompare(b.name),
+  );
+
+  const toggle = (id: string) => {
+    setPreview(null);
+    setSourceIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const res = await api.post<MergePreview>(`/api/carriers/${target.id}/merge/preview`, { sourceCarrierIds: sourceIds });
+      setPreview(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Vorschau fehlgeschlagen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!window.confirm(`${sourceIds.length} Spediteur(e) in "${target.name}" zusammenführen? Dies kann nicht rückgängig gemacht werden.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await api.post<MergeResult>(`/api/carriers/${target.id}/merge`, { sourceCarrierIds: sourceIds });
+      setResult(res.data);
+      setPreview(null);
+      setSourceIds([]);
+      onMerged();
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Zusammenführen fehlgeschlagen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const total = (key: keyof Omit<MergeSourceUsage, 'carrierId' | 'name' | 'codeNorm'>) =>
+    preview?.sources.reduce((sum, s) => sum + s[key], 0) ?? 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-base font-semibold text-gray-900 mb-1">Spediteure zusammenführen</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Ausgewählte Spediteure werden in <span className="font-medium text-gray-700">{target.name}</span> überführt.
+        Ihre Namen werden als Aliase übernommen, betroffene Sendungen neu bewertet.
+      </p>
+
+      <div className="max-h-48 overflow-y-auto border border-gray-200 rounded mb-3 divide-y divide-gray-100">
+        {sorted.map(c => (
+          <label key={c.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+            <input type="checkbox" checked={sourceIds.includes(c.id)} onChange={() => toggle(c.id)} />
+            <span className="text-gray-800">{c.name}</span>
+            <span className="text-xs text-gray-400 font-mono">{c.codeNorm}</span>
+            {isPlaceholder(c) && <span className="px-1.5 py-0.5 rounded text-xs bg-orange-100 text-orange-700">Platzhalter</span>}
+          </label>
+        ))}
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600 mb-3">{error}</div>}
+
+      {preview && (
+        <div className="mb-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="pb-2 pr-3">Spediteur</th>
+                <th className="pb-2 pr-3 text-right">Sendungen</th>
+                <th className="pb-2 pr-3 text-right">Tarife</th>
+                <th className="pb-2 pr-3 text-right">Dieselfloater</th>
+                <th className="pb-2 pr-3 text-right">Preisklassen</th>
+                <th className="pb-2 text-right">Aliase</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.sources.map(s => (
+                <tr key={s.carrierId} className="border-b">
+                  <td className="py-1.5 pr-3">{s.name}</td>
+                  <td className="py-1.5 pr-3 text-right">{s.shipmentCount}</td>
+                  <td className="py-1.5 pr-3 text-right">{s.tariffCount}</td>
+                  <td className="py-1.5 pr-3 text-right">{s.dieselFloaterCount}</td>
+                  <td className="py-1.5 pr-3 text-right">{s.bracketCount}</td>
+                  <td className="py-1.5 text-right">{s.aliasCount}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-1.5 pr-3">Gesamt</td>
+                <td className="py-1.5 pr-3 text-right">{total('shipmentCount')}</td>
+                <td className="py-1.5 pr-3 text-right">{total('tariffCount')}</td>
+                <td className="py-1.5 pr-3 text-right">{total('dieselFloaterCount')}</td>
+                <td className="py-1.5 pr-3 text-right">{total('bracketCount')}</td>
+                <td className="py-1.5 text-right">{total('aliasCount')}</td>
+              </tr>
+            </tbody>
+          </table>
+          {(preview.floaterConflictCount > 0 || preview.bracketConflictCount > 0) && (
+            <p className="text-xs text-orange-700 bg-orange-50 rounded p-2 mt-2">
+              {preview.floaterConflictCount} Dieselfloater- und {preview.bracketConflictCount} Preisklassen-Einträge
+              existieren bereits bei {target.name} mit gleichem Gültigkeitsbeginn und werden verworfen.
+            </p>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded p-3 text-sm text-green-800 mb-3">
+          {result.shipmentsRepointed} Sendungen, {result.tariffsRepointed} Tarife, {result.dieselFloatersRepointed} Dieselfloater
+          und {result.bracketsRepointed} Preisklassen übernommen.
+          {result.benchmarksQueued > 0 && ` ${result.benchmarksQueued} Sendungen werden im Hintergrund neu bewertet.`}
+          {result.newAliases.length > 0 && <> Neue Aliase: {result.newAliases.join(', ')}.</>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handlePreview}
+          disabled={busy || sourceIds.length === 0}
+          className="border border-blue-600 text-blue-600 px-4 py-1.5 rounded text-sm hover:bg-blue-50 disabled:opacity-50"
+        >
+          Vorschau
+        </button>
+        <button
+          onClick={handleMerge}
+          disabled={busy || !preview}
+          className="bg-red-600 text-white px-4 py-1.5 rounded text-sm hover:bg-red-700 disabled:opacity-50"
+        >
+          {busy ? 'Läuft…' : 'Zusammenführen'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { api } from '../api';
+import type { Project } from '../types';
 
 interface Carrier { id: string; name: string; codeNorm: string; }
 
@@ -18,9 +20,65 @@ interface DieselBracket {
 interface DestatisPriceEntry {
   year: number; month: number; priceCt: string;
   seriesCode: string; fetchedAt: string;
+  source: 'fetched' | 'manual';
+  fetchedPriceCt: string | null; conflict: boolean; updatedAt: string | null;
 }
 
-type Tab = 'brackets' | 'rates' | 'destatis';
+interface DestatisAuditEntry {
+  year: number; month: number; seriesCode: string; action: string;
+  oldPriceCt: string | null; newPriceCt: string | null;
+  oldSource: string | null; newSource: string | null;
+  changedBy: string | null; changedByEmail: string | null; changedAt: string;
+}
+
+interface DestatisImportResult { inserted: number; updated: number; unchanged: number; skipped: number; errors: string[]; }
+
+interface SimulationMonth {
+  month: string; referenceMonth: string;
+  dieselPriceCt: string | null; expectedPct: string | null;
+  shipmentCount: number; basisAmount: string;
+  actualDieselAmount: string; actualPct: string | null;
+  expectedDieselAmount: string; differenceAmount: string;
+  uncoveredShipments: number;
+}
+
+interface DieselSimulation {
+  carrierId: string; carrierName: string | null; lagMonths: number;
+  months: SimulationMonth[];
+  totals: {
+    shipmentCount: number; actualDieselAmount: string; expectedDieselAmount: string;
+    differenceAmount: string; uncoveredShipments: number;
+  };
+  brackets: Array<{ priceCtMax: string; floaterPct: string }>;
+}
+
+interface CoverageCell {
+  month: string; status: 'bracket' | 'rate' | 'partial' | 'gap';
+  coveredDays: number; days: number;
+  shipmentCount: number; uncoveredShipments: number;
+  missingPrice: boolean; overlap: boolean;
+}
+
+interface CarrierCoverage {
+  carrierId: string; carrierName: string | null;
+  shipmentCount: number; uncoveredShipments: number;
+  cells: CoverageCell[];
+  overlaps: Array<{
+    kind: 'rate' | 'bracket';
+    firstValidFrom: string; firstValidUntil: string | null;
+    secondValidFrom: string; secondValidUntil: string | null;
+  }>;
+}
+
+interface DieselCoverage {
+  projectId: string; months: string[];
+  carriers: CarrierCoverage[]; unassignedShipments: number;
+}
+
+// Manual rate pre-filled from a coverage gap
+interface RateDraft { carrierId: string; validFrom: string; validUntil: string; }
+
+type Tab = 'brackets' | 'rates' | 'destatis' | 'simulation' | 'coverage';
 
 const BASIS_LABELS: Record<string, string> = {
   base: 'Fracht', base_plus_toll: 'Fracht + Maut', total: 'Gesamt',
@@ -30,6 +88,7 @@ const MONTH_NAMES = ['Jan','Feb','Mär','Apr','Mai','Jun','Jul','Aug','Sep','Okt
 
 export const DieselFloaterPage: React.FC = () => {
   const [tab, setTab] = useState<Tab>('brackets');
+  const [rateDraft, setRateDraft] = useState<RateDraft | null>(null);
   const [entries, setEntries] = useState<DieselFloaterEntry[]>([]);
   const [brackets, setBrackets] = useState<DieselBracket[]>([]);
   const [carriers, setCarriers] = useState<Carrier[]>([]);
@@ -72,11 +131,11 @@ export const DieselFloaterPage: React.FC = () => {
 
       {/* Tabs */}
       <div className="flex border-b border-gray-200 mb-6">
-        {(['brackets', 'rates', 'destatis'] as Tab[]).map(key => {
-          const labels: Record<Tab, string> = { brackets: 'Preisklassen', rates: 'Manuelle Sätze', destatis: 'Destatis-Preise' };
-          const counts: Record<Tab, number> = { brackets: brackets.length, rates: entries.length, destatis: 0 };
+        {(['brackets', 'rates', 'destatis', 'simulation', 'coverage'] as Tab[]).map(key => {
+          const labels: Record<Tab, string> = { brackets: 'Preisklassen', rates: 'Manuelle Sätze', destatis: 'Destatis-Preise', simulation: 'Simulation', coverage: 'Abdeckung' };
+          const counts: Record<Tab, number> = { brackets: brackets.length, rates: entries.length, destatis: 0, simulation: 0, coverage: 0 };
           return (
-            <button key={key} onClick={() => setTab(key)}
+            <button key={key} onClick={() => { setRateDraft(null); setTab(key); }}
               className={`px-5 py-2.5 text-sm font-medium border-b-2 -mb-px transition-colors ${tab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
             >
               {labels[key]}
@@ -86,56 +145,160 @@ export const DieselFloaterPage: React.FC = () => {
         })}
       </div>
 
-      {tab === 'brackets' && <BracketsTab brackets={brackets} carriers={carriers} />}
-      {tab === 'rates'    && <RatesTab entries={entries} carriers={carriers} onRefresh={loadAll} />}
+      {tab === 'brackets' && <BracketsTab brackets={brackets} carriers={carriers} onBracketsChange={setBrackets} />}
+      {tab === 'rates'    && (
+        <RatesTab entries={entries} carriers={carriers} initialDraft={rateDraft}
+          onRefresh={() => {
+            // A rate entered for a coverage gap returns to the matrix
+            if (rateDraft) { setRateDraft(null); setTab('coverage'); }
+            loadAll();
+          }}
+        />
+      )}
       {tab === 'destatis' && <DestatisPricesTab />}
+      {tab === 'simulation' && <SimulationTab brackets={brackets} carriers={carriers} />}
+      {tab === 'coverage' && <CoverageTab onFixGap={draft => { setRateDraft(draft); setTab('rates'); }} />}
     </div>
   );
 };
 
 // ---------------------------------------------------------------------------
-// Brackets tab — grouped by carrier
+// Brackets tab — one table per carrier and validity period
 // ---------------------------------------------------------------------------
 
-const BracketsTab: React.FC<{ brackets: DieselBracket[]; carriers: Carrier[] }> = ({ brackets, carriers }) => {
+interface BracketRowDraft { priceCtMax: string; floaterPct: string; }
+
+interface BracketTableDraft {
+  carrierId: string; basis: string; validFrom: string; validUntil: string;
+  rows: BracketRowDraft[];
+  // validFrom of the table being edited; null for a new table
+  originalValidFrom: string | null;
+}
+
+interface BracketTableResult { saved: number; closedTables: string[]; warnings: string[]; }
+
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value.replace(',', '.')));
+
+// Mirrors validate_brackets() in the backend: each bracket covers prices up to
+// its own limit, so sorted thresholds leave no gaps; duplicates, out-of-range
+// values and falling surcharges are errors.
+const validateBracketRows = (rows: BracketRowDraft[]): string[] => {
+  const errors: string[] = [];
+  const parsed = rows.map(r => ({ max: toNumber(r.priceCtMax), pct: toNumber(r.floaterPct) }));
+  if (parsed.length === 0) return ['Mindestens eine Preisklasse erforderlich.'];
+  if (parsed.some(r => Number.isNaN(r.max) || Number.isNaN(r.pct))) errors.push('Jede Zeile braucht Dieselpreis und Zuschlag.');
+  const valid = parsed.filter(r => !Number.isNaN(r.max) && !Number.isNaN(r.pct)).sort((a, b) => a.max - b.max);
+  for (const r of valid) {
+    if (r.max <= 0) errors.push(`Dieselpreis ${r.max} Ct/l muss positiv sein.`);
+    if (r.pct < 0 || r.pct >= 100) errors.push(`Zuschlag ${r.pct} % bei ${r.max} Ct/l muss zwischen 0 und 100 liegen.`);
+  }
+  for (let i = 1; i < valid.length; i++) {
+    const prev = valid[i - 1];
+    const cur = valid[i];
+    if (cur.max === prev.max) errors.push(`Dieselpreis ${cur.max} Ct/l ist doppelt.`);
+    else if (cur.pct < prev.pct) errors.push(`Zuschlag sinkt von ${prev.pct} % auf ${cur.pct} % oberhalb von ${prev.max} Ct/l.`);
+  }
+  return errors;
+};
+
+const emptyDraft = (carrierId: string): BracketTableDraft => ({
+  carrierId, basis: 'base', validFrom: '', validUntil: '', rows: [{ priceCtMax: '', floaterPct: '' }], originalValidFrom: null,
+});
+
+const BracketsTab: React.FC<{
+  brackets: DieselBracket[];
+  carriers: Carrier[];
+  onBracketsChange: (brackets: DieselBracket[]) => void;
+}> = ({ brackets, carriers, onBracketsChange }) => {
   const [filterCarrierId, setFilterCarrierId] = useState('');
+  const [draft, setDraft] = useState<BracketTableDraft | null>(null);
+  const [notice, setNotice] = useState<BracketTableResult | null>(null);
 
   const filtered = filterCarrierId ? brackets.filter(b => b.carrierId === filterCarrierId) : brackets;
 
-  // Group by carrier
+  // Group by carrier + validity start — one group per bracket table
   const groups = filtered.reduce<Record<string, DieselBracket[]>>((acc, b) => {
-    const key = b.carrierId;
+    const key = `${b.carrierId}|${b.validFrom}`;
     if (!acc[key]) acc[key] = [];
     acc[key].push(b);
     return acc;
   }, {});
 
+  const reload = async () => {
+    const res = await api.get<DieselBracket[]>('/api/diesel-floaters/brackets');
+    onBracketsChange(res.data);
+  };
+
+  const openEdit = (rows: DieselBracket[]) => {
+    setNotice(null);
+    setDraft({
+      carrierId: rows[0].carrierId,
+      basis: rows[0].basis,
+      validFrom: rows[0].validFrom,
+      validUntil: rows[0].validUntil ?? '',
+      rows: rows.map(b => ({ priceCtMax: b.priceCtMax, floaterPct: b.floaterPct })),
+      originalValidFrom: rows[0].validFrom,
+    });
+  };
+
+  const deleteTable = async (rows: DieselBracket[]) => {
+    const carrierName = rows[0].carrierName ?? rows[0].carrierId;
+    if (!confirm(`Preisklassen von ${carrierName} (gültig ab ${rows[0].validFrom}) löschen?`)) return;
+    try {
+      await api.delete('/api/diesel-floaters/brackets/table', { params: { carrier_id: rows[0].carrierId, valid_from: rows[0].validFrom } });
+      await reload();
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; alert(err.response?.data?.detail || 'Löschen fehlgeschlagen'); }
+  };
+
+  if (draft) return (
+    <BracketTableEditor
+      draft={draft}
+      carriers={carriers}
+      onCancel={() => setDraft(null)}
+      onSaved={async result => { setDraft(null); setNotice(result); await reload(); }}
+    />
+  );
+
   return (
     <>
-      <div className="flex items-center gap-3 mb-4">
-        <label className="text-sm font-medium text-gray-700">Spediteur:</label>
-        <select value={filterCarrierId} onChange={e => setFilterCarrierId(e.target.value)}
-          className="border border-gray-300 rounded px-3 py-1.5 text-sm">
-          <option value="">Alle</option>
-          {carriers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
-        </select>
-        <span className="text-sm text-gray-400">{filtered.length} Zeilen</span>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">Spediteur:</label>
+          <select value={filterCarrierId} onChange={e => setFilterCarrierId(e.target.value)}
+            className="border border-gray-300 rounded px-3 py-1.5 text-sm">
+            <option value="">Alle</option>
+            {carriers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <span className="text-sm text-gray-400">{filtered.length} Zeilen</span>
+        </div>
+        <button onClick={() => { setNotice(null); setDraft(emptyDraft(filterCarrierId)); }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">+ Neue Tabelle</button>
       </div>
 
+      {notice && (
+        <div className={`rounded p-3 mb-4 text-sm ${notice.warnings.length > 0 ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'}`}>
+          <p className="font-medium">{notice.saved} Preisklassen gespeichert</p>
+          {notice.closedTables.length > 0 && (
+            <p className="text-gray-600 mt-1">Vorherige Tabelle(n) ab {notice.closedTables.join(', ')} zum Vortag beendet.</p>
+          )}
+          {notice.warnings.map((w, i) => <p key={i} className="text-yellow-800 mt-1">{w}</p>)}
+        </div>
+      )}
+
       {Object.keys(groups).length === 0 ? (
         <div className="bg-white rounded-lg border border-gray-200 text-center py-12 text-gray-500">
           <p className="text-lg mb-2">Keine Preisklassen vorhanden</p>
-          <p className="text-sm">Laden Sie ein Dieselfloater-PDF hoch — die Tabelle wird automatisch erkannt und importiert.</p>
+          <p className="text-sm">Laden Sie ein Dieselfloater-PDF hoch oder legen Sie eine Tabelle manuell an.</p>
         </div>
       ) : (
         <div className="space-y-6">
-          {Object.entries(groups).map(([carrierId, rows]) => {
-            const carrierName = rows[0].carrierName ?? carrierId;
+          {Object.entries(groups).map(([key, rows]) => {
+            const carrierName = rows[0].carrierName ?? rows[0].carrierId;
             const basis = BASIS_LABELS[rows[0].basis] ?? rows[0].basis;
             const validFrom = rows[0].validFrom;
             const validUntil = rows[0].validUntil;
             return (
-              <div key={carrierId} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+              <div key={key} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
                 <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
                   <span className="font-semibold text-gray-900">{carrierName}</span>
                   <div className="flex items-center gap-4 text-xs text-gray-500">
@@ -145,6 +308,8 @@ const BracketsTab: React.FC<{ brackets: DieselBracket[]; carriers: Carrier[] }>
                     <span className="bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full font-medium">
                       {rows.length} Stufen
                     </span>
+                    <button onClick={() => openEdit(rows)} className="text-blue-600 hover:text-blue-800 font-medium">Bearbeiten</button>
+                    <button onClick={() => deleteTable(rows)} className="text-red-500 hover:text-red-700 font-medium">Löschen</button>
                   </div>
                 </div>
                 <div className="overflow-x-auto">
@@ -178,17 +343,155 @@ const BracketsTab: React.FC<{ brackets: DieselBracket[]; carriers: Carrier[] }>
   );
 };
 
+const BracketTableEditor: React.FC<{
+  draft: BracketTableDraft;
+  carriers: Carrier[];
+  onCancel: () => void;
+  onSaved: (result: BracketTableResult) => void;
+}> = ({ draft: initial, carriers, onCancel, onSaved }) => {
+  const [draft, setDraft] = useState(initial);
+  const [pasteText, setPasteText] = useState('');
+  const [pasteErrors, setPasteErrors] = useState<string[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const rowErrors = validateBracketRows(draft.rows);
+  const isEdit = draft.originalValidFrom !== null;
+
+  const updateRow = (index: number, patch: Partial<BracketRowDraft>) =>
+    setDraft(d => ({ ...d, rows: d.rows.map((r, i) => (i === index ? { ...r, ...patch } : r)) }));
+
+  const applyPaste = async () => {
+    if (!pasteText.trim()) return;
+    setParsing(true); setPasteErrors([]);
+    try {
+      const res = await api.post<{ brackets: Array<{ priceCtMax: string; floaterPct: string }>; errors: string[] }>(
+        '/api/diesel-floaters/brackets/parse', { text: pasteText },
+      );
+      if (res.data.brackets.length > 0) {
+        setDraft(d => ({ ...d, rows: res.data.brackets.map(b => ({ priceCtMax: String(b.priceCtMax), floaterPct: String(b.floaterPct) })) }));
+      }
+      setPasteErrors(res.data.brackets.length > 0 ? res.data.errors : ['Keine Preisklassen erkannt.', ...res.data.errors]);
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; setPasteErrors([err.response?.data?.detail || 'Einlesen fehlgeschlagen']); }
+    finally { setParsing(false); }
+  };
+
+  const save = async () => {
+    if (!draft.carrierId || !draft.validFrom) { setFormError('Spediteur und Gültig ab sind Pflichtfelder.'); return; }
+    if (rowErrors.length > 0) return;
+    setSaving(true); setFormError(null);
+    try {
+      const res = await api.put<BracketTableResult>('/api/diesel-floaters/brackets/table', {
+        carrierId: draft.carrierId,
+        basis: draft.basis,
+        validFrom: draft.validFrom,
+        validUntil: draft.validUntil || null,
+        brackets: draft.rows.map(r => ({ priceCtMax: toNumber(r.priceCtMax), floaterPct: toNumber(r.floaterPct) })),
+        replacesValidFrom: draft.originalValidFrom !== draft.validFrom ? draft.originalValidFrom : null,
+      });
+      onSaved(res.data);
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; setFormError(err.response?.data?.detail || 'Speichern fehlgeschlagen'); }
+    finally { setSaving(false); }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold mb-4">{isEdit ? 'Preisklassen bearbeiten' : 'Neue Preisklassen-Tabelle'}</h2>
+      {formError && <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-red-700 text-sm">{formError}</div>}
+      <div className="grid grid-cols-2 gap-4">
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Spediteur *</label>
+          <select value={draft.carrierId} disabled={isEdit} onChange={e => setDraft(d => ({ ...d, carrierId: e.target.value }))} className="w-full border border-gray-300 rounded px-3 py-2 text-sm disabled:bg-gray-50">
+            <option value="">Bitte wählen…</option>
+            {carriers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select></div>
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Basis</label>
+          <select value={draft.basis} onChange={e => setDraft(d => ({ ...d, basis: e.target.value }))} className="w-full border border-gray-300 rounded px-3 py-2 text-sm">
+            {Object.entries(BASIS_LABELS).map(([v, l]) => <option key={v} value={v}>{l}</option>)}
+          </select></div>
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Gültig ab *</label>
+          <input type="date" value={draft.validFrom} onChange={e => setDraft(d => ({ ...d, validFrom: e.target.value }))} className="w-full border border-gray-300 rounded px-3 py-2 text-sm" /></div>
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Gültig bis</label>
+          <input type="date" value={draft.validUntil} onChange={e => setDraft(d => ({ ...d, validUntil: e.target.value }))} className="w-full border border-gray-300 rounded px-3 py-2 text-sm" /></div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 mt-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Preisklassen</label>
+          <table className="w-full text-sm">
+            <thead className="border-b border-gray-100">
+              <tr>
+                <th className="text-right px-2 py-1.5 font-medium text-gray-500">Dieselpreis ≤ (Ct/l)</th>
+                <th className="text-right px-2 py-1.5 font-medium text-gray-500">Zuschlag %</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.rows.map((row, i) => (
+                <tr key={i}>
+                  <td className="px-2 py-1"><input value={row.priceCtMax} onChange={e => updateRow(i, { priceCtMax: e.target.value })} inputMode="decimal" className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-right font-mono" /></td>
+                  <td className="px-2 py-1"><input value={row.floaterPct} onChange={e => updateRow(i, { floaterPct: e.target.value })} inputMode="decimal" className="w-full border border-gray-300 rounded px-2 py-1 text-sm text-right font-mono" /></td>
+                  <td className="px-1 text-right">
+                    <button onClick={() => setDraft(d => ({ ...d, rows: d.rows.filter((_, j) => j !== i) }))} className="text-gray-400 hover:text-red-600" title="Zeile entfernen">×</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={() => setDraft(d => ({ ...d, rows: [...d.rows, { priceCtMax: '', floaterPct: '' }] }))}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800">+ Zeile</button>
+          {rowErrors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 mt-3 text-red-700 text-sm space-y-1">
+              {rowErrors.map((e, i) => <p key={i}>{e}</p>)}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Aus Excel oder E-Mail einfügen</label>
+          <textarea value={pasteText} onChange={e => setPasteText(e.target.value)} rows={8}
+            placeholder={"Dieselpreis\tZuschlag\n140\t12,00\n150\t13,50\n\noder: bis 1,50 €/l  13,50 %"}
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono" />
+          <p className="text-xs text-gray-500 mt-1">Eine Preisklasse pro Zeile: Höchstpreis (Ct/l oder €/l) und Zuschlag %, optional als Spanne „1,45 – 1,49“. Ersetzt die Zeilen links.</p>
+          <button onClick={applyPaste} disabled={parsing || !pasteText.trim()}
+            className="mt-2 px-4 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50">
+            {parsing ? 'Einlesen…' : 'Übernehmen'}
+          </button>
+          {pasteErrors.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mt-3 text-sm space-y-1">
+              {pasteErrors.map((e, i) => <p key={i} className="text-yellow-800">{e}</p>)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3 mt-5">
+        <button onClick={save} disabled={saving || rowErrors.length > 0} className="px-5 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50">{saving ? 'Speichern…' : 'Speichern'}</button>
+        <button onClick={onCancel} className="px-5 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Abbrechen</button>
+      </div>
+    </div>
+  );
+};
+
 // ---------------------------------------------------------------------------
 // Rates tab — manual date-range overrides
 // ---------------------------------------------------------------------------
 
 type RateMode = 'list' | 'add' | 'edit' | 'csv';
 
-const RatesTab: React.FC<{ entries: DieselFloaterEntry[]; carriers: Carrier[]; onRefresh: () => void }> = ({ entries, carriers, onRefresh }) => {
-  const [mode, setMode] = useState<RateMode>('list');
+const RatesTab: React.FC<{
+  entries: DieselFloaterEntry[];
+  carriers: Carrier[];
+  initialDraft?: RateDraft | null;
+  onRefresh: () => void;
+}> = ({ entries, carriers, initialDraft, onRefresh }) => {
+  const [mode, setMode] = useState<RateMode>(initialDraft ? 'add' : 'list');
   const [editing, setEditing] = useState<DieselFloaterEntry | null>(null);
   const [filterCarrierId, setFilterCarrierId] = useState('');
-  const [form, setForm] = useState({ carrierId: '', validFrom: '', validUntil: '', floaterPct: '', basis: 'base', source: '' });
+  const [form, setForm] = useState({
+    carrierId: initialDraft?.carrierId ?? '', validFrom: initialDraft?.validFrom ?? '', validUntil: initialDraft?.validUntil ?? '',
+    floaterPct: '', basis: 'base', source: '',
+  });
   const [formError, setFormError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [csvCarrierId, setCsvCarrierId] = useState('');
@@ -355,12 +658,25 @@ const RatesTab: React.FC<{ entries: DieselFloaterEntry[]; carriers: Carrier[]; o
 // Destatis prices tab
 // ---------------------------------------------------------------------------
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  fetched: 'Abgerufen', manual: 'Manuell erfasst', import: 'Importiert', conflict: 'Abweichung Destatis',
+  keep_manual: 'Manuell behalten', use_fetched: 'Destatis übernommen', deleted: 'Gelöscht',
+};
+
+const formatCt = (value: string | null) => (value === null ? '—' : parseFloat(value).toFixed(2));
+
 const DestatisPricesTab: React.FC = () => {
   const [prices, setPrices] = useState<DestatisPriceEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [fetching, setFetching] = useState(false);
   const [months, setMonths] = useState(36);
   const [result, setResult] = useState<{ fetched: number } | null>(null);
+  const [mode, setMode] = useState<'list' | 'manual' | 'import' | 'audit'>('list');
+  const [editing, setEditing] = useState<{ period: string; priceCt: string; seriesCode: string } | null>(null);
+  const [importResult, setImportResult] = useState<DestatisImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [audit, setAudit] = useState<DestatisAuditEntry[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const load = useCallback(async () => {
     setLoading(true);
@@ -370,6 +686,8 @@ const DestatisPricesTab: React.FC = () => {
 
   useEffect(() => { load(); }, [load]);
 
+  const conflicts = prices.filter(p => p.conflict);
+
   const fetchHistory = async () => {
     setFetching(true); setResult(null);
     try {
@@ -379,6 +697,138 @@ const DestatisPricesTab: React.FC = () => {
     finally { setFetching(false); }
   };
 
+  const openManual = (p?: DestatisPriceEntry) => {
+    setEditing(p
+      ? { period: `${p.year}-${String(p.month).padStart(2, '0')}`, priceCt: p.priceCt, seriesCode: p.seriesCode }
+      : { period: '', priceCt: '', seriesCode: '' });
+    setMode('manual');
+  };
+
+  const saveManual = async () => {
+    if (!editing) return;
+    const [year, month] = editing.period.split('-').map(Number);
+    const priceCt = editing.priceCt.replace(',', '.');
+    if (!year || !month || !(Number(priceCt) > 0)) { alert('Bitte Monat und Preis (Ct/l) angeben.'); return; }
+    try {
+      await api.put(`/api/diesel-floaters/destatis-prices/${year}/${month}`, { priceCt, seriesCode: editing.seriesCode || null });
+      setEditing(null); setMode('list'); await load();
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; alert(err.response?.data?.detail || 'Speichern fehlgeschlagen'); }
+  };
+
+  const deletePrice = async (p: DestatisPriceEntry) => {
+    if (!confirm(`Preis für ${MONTH_NAMES[p.month - 1]} ${p.year} (${p.seriesCode}) löschen?`)) return;
+    try {
+      await api.delete(`/api/diesel-floaters/destatis-prices/${p.year}/${p.month}`, { params: { series_code: p.seriesCode } });
+      await load();
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; alert(err.response?.data?.detail || 'Löschen fehlgeschlagen'); }
+  };
+
+  const resolveConflict = async (p: DestatisPriceEntry, keep: 'manual' | 'fetched') => {
+    try {
+      await api.post(`/api/diesel-floaters/destatis-prices/${p.year}/${p.month}/resolve`, { keep, seriesCode: p.seriesCode });
+      await load();
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; alert(err.response?.data?.detail || 'Auflösen fehlgeschlagen'); }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImporting(true); setImportResult(null);
+    const formData = new FormData();
+    formData.append('file', file);
+    try {
+      const res = await api.post<DestatisImportResult>('/api/diesel-floaters/destatis-prices/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      setImportResult(res.data); await load();
+    } catch (e: unknown) { const err = e as { response?: { data?: { detail?: string } } }; alert(err.response?.data?.detail || 'Import fehlgeschlagen'); }
+    finally {
+      setImporting(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const openAudit = async () => {
+    setMode('audit');
+    const res = await api.get<DestatisAuditEntry[]>('/api/diesel-floaters/destatis-prices/audit');
+    setAudit(res.data);
+  };
+
+  if (mode === 'manual' && editing) return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 p-6 max-w-xl">
+      <h2 className="text-lg font-semibold mb-1">Preis manuell erfassen</h2>
+      <p className="text-sm text-gray-500 mb-4">Für Monate, die Destatis noch nicht veröffentlicht hat, oder wenn der Abruf nicht möglich ist. Der Preis gilt nur für Ihren Mandanten; der abgerufene Destatis-Wert bleibt zum Vergleich erhalten.</p>
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Monat *</label>
+          <input type="month" value={editing.period} onChange={e => setEditing({ ...editing, period: e.target.value })} className="w-full border border-gray-300 rounded px-3 py-2 text-sm" /></div>
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Preis (Ct/l) *</label>
+          <input type="text" inputMode="decimal" value={editing.priceCt} onChange={e => setEditing({ ...editing, priceCt: e.target.value })} placeholder="148,30" className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono" /></div>
+        <div><label className="block text-sm font-medium text-gray-700 mb-1">Serie</label>
+          <input type="text" value={editing.seriesCode} onChange={e => setEditing({ ...editing, seriesCode: e.target.value })} placeholder="Standard" className="w-full border border-gray-300 rounded px-3 py-2 text-sm" /></div>
+      </div>
+      <div className="flex gap-3">
+        <button onClick={saveManual} className="px-5 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Speichern</button>
+        <button onClick={() => { setEditing(null); setMode('list'); }} className="px-5 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Abbrechen</button>
+      </div>
+    </div>
+  );
+
+  if (mode === 'import') return (
+    <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold mb-1">Preise importieren (CSV/XLSX)</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Spalten <code className="bg-gray-100 px-1 rounded">Jahr, Monat, Preis[, Serie]</code> oder <code className="bg-gray-100 px-1 rounded">Monat, Preis[, Serie]</code> mit
+        Monat als 2024-11, 11.2024 oder Nov 2024. Preise in €/l werden in Ct/l umgerechnet. Abweichungen zu veröffentlichten Destatis-Werten werden zur Klärung markiert.
+      </p>
+      <input ref={importInputRef} type="file" accept=".csv,.txt,.xlsx,.xls" onChange={importFile} disabled={importing} className="text-sm mb-4" />
+      {importing && <p className="text-sm text-gray-400 mb-4">Importieren…</p>}
+      {importResult && (
+        <div className={`rounded p-3 mb-4 text-sm ${importResult.errors.length > 0 ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'}`}>
+          <p className="font-medium">{importResult.inserted} neu, {importResult.updated} aktualisiert, {importResult.unchanged} unverändert, {importResult.skipped} übersprungen</p>
+          {importResult.errors.map((e, i) => <p key={i} className="text-red-600 mt-1">{e}</p>)}
+        </div>
+      )}
+      <button onClick={() => { setImportResult(null); setMode('list'); }} className="px-5 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Zurück</button>
+    </div>
+  );
+
+  if (mode === 'audit') return (
+    <>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Änderungsverlauf</h2>
+        <button onClick={() => setMode('list')} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Zurück</button>
+      </div>
+      <div className="bg-white rounded-lg shadow overflow-hidden border border-gray-200">
+        {audit.length === 0 ? <div className="text-center py-8 text-gray-400">Keine Änderungen</div> : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Zeitpunkt</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Monat</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Aktion</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-600">Alt (Ct/l)</th>
+                <th className="text-right px-4 py-3 font-medium text-gray-600">Neu (Ct/l)</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Benutzer</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {audit.map((a, i) => (
+                <tr key={i} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-gray-500 text-xs">{new Date(a.changedAt).toLocaleString('de-DE')}</td>
+                  <td className="px-4 py-2 font-medium text-gray-900">{MONTH_NAMES[a.month - 1]} {a.year} <span className="text-xs text-gray-400">{a.seriesCode}</span></td>
+                  <td className="px-4 py-2 text-gray-700">{AUDIT_ACTION_LABELS[a.action] ?? a.action}</td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-500">{formatCt(a.oldPriceCt)}</td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-900">{formatCt(a.newPriceCt)}</td>
+                  <td className="px-4 py-2 text-gray-500 text-xs">{a.changedByEmail ?? (a.changedBy ? '—' : 'Destatis')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </>
+  );
+
   return (
     <>
       <div className="flex items-center gap-4 mb-4">
@@ -389,14 +839,22 @@ const DestatisPricesTab: React.FC = () => {
         <button onClick={fetchHistory} disabled={fetching} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50">
           {fetching ? 'Abrufen…' : 'Von Destatis abrufen'}
         </button>
+        <button onClick={() => openManual()} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">+ Manuell</button>
+        <button onClick={() => { setImportResult(null); setMode('import'); }} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Importieren</button>
+        <button onClick={openAudit} className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50">Verlauf</button>
         {result && <span className="text-sm text-green-600 font-medium">{result.fetched} neue Preise geladen</span>}
         <span className="text-sm text-gray-400 ml-auto">{prices.length} Einträge im Cache</span>
       </div>
+      {conflicts.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-4 text-sm text-yellow-800">
+          {conflicts.length} {conflicts.length === 1 ? 'Monat weicht' : 'Monate weichen'} vom veröffentlichten Destatis-Wert ab — bitte je Zeile entscheiden, welcher Wert gilt.
+        </div>
+      )}
       <div className="bg-white rounded-lg shadow overflow-hidden border border-gray-200">
         {loading ? <div className="text-center py-8 text-gray-400">Laden…</div> : prices.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
             <p className="text-lg mb-2">Kein Cache vorhanden</p>
-            <p className="text-sm">Klicken Sie auf "Von Destatis abrufen" um historische Preise zu laden.</p>
+            <p className="text-sm">Klicken Sie auf "Von Destatis abrufen" um historische Preise zu laden, oder erfassen bzw. importieren Sie Preise manuell.</p>
           </div>
         ) : (
           <table className="w-full text-sm">
@@ -404,17 +862,40 @@ const DestatisPricesTab: React.FC = () => {
               <tr>
                 <th className="text-left px-4 py-3 font-medium text-gray-600">Monat</th>
                 <th className="text-right px-4 py-3 font-medium text-gray-600">Preis (Ct/l)</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Quelle</th>
                 <th className="text-left px-4 py-3 font-medium text-gray-600">Serie</th>
-                <th className="text-left px-4 py-3 font-medium text-gray-600">Abgerufen</th>
+                <th className="text-left px-4 py-3 font-medium text-gray-600">Stand</th>
+                <th className="px-4 py-3"></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {prices.map(p => (
-                <tr key={`${p.year}-${p.month}`} className="hover:bg-gray-50">
+                <tr key={`${p.seriesCode}-${p.year}-${p.month}`} className={p.conflict ? 'bg-yellow-50' : 'hover:bg-gray-50'}>
                   <td className="px-4 py-2 font-medium text-gray-900">{MONTH_NAMES[p.month - 1]} {p.year}</td>
-                  <td className="px-4 py-2 text-right font-mono font-medium text-gray-900">{parseFloat(p.priceCt).toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right font-mono font-medium text-gray-900">
+                    {formatCt(p.priceCt)}
+                    {p.conflict && <div className="text-xs text-yellow-700 font-normal">Destatis: {formatCt(p.fetchedPriceCt)}</div>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${p.source === 'manual' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {p.source === 'manual' ? 'Manuell' : 'Destatis'}
+                    </span>
+                  </td>
                   <td className="px-4 py-2 text-gray-400 text-xs">{p.seriesCode}</td>
-                  <td className="px-4 py-2 text-gray-400 text-xs">{new Date(p.fetchedAt).toLocaleDateString('de-DE')}</td>
+                  <td className="px-4 py-2 text-gray-400 text-xs">{new Date(p.updatedAt ?? p.fetchedAt).toLocaleDateString('de-DE')}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    {p.conflict ? (
+                      <>
+                        <button onClick={() => resolveConflict(p, 'manual')} className="text-xs text-gray-600 hover:text-gray-900 mr-3">Manuell behalten</button>
+                        <button onClick={() => resolveConflict(p, 'fetched')} className="text-xs text-blue-600 hover:text-blue-800 font-medium">Destatis übernehmen</button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => openManual(p)} className="text-xs text-blue-600 hover:text-blue-800 mr-3">Bearbeiten</button>
+                        {p.source === 'manual' && <button onClick={() => deletePrice(p)} className="text-xs text-red-600 hover:text-red-800">Löschen</button>}
+                      </>
+                    )}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -424,3 +905,400 @@ const DestatisPricesTab: React.FC = () => {
     </>
   );
 };
+
+// ---------------------------------------------------------------------------
+// Simulation tab — Destatis price × brackets vs. invoiced diesel surcharge
+// ---------------------------------------------------------------------------
+
+const formatEur = (value: string | number) =>
+  Number(value).toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
+
+const formatPct = (value: string | null) => (value === null ? '—' : `${Number(value).toFixed(2)} %`);
+
+const SimulationTab: React.FC<{ brackets: DieselBracket[]; carriers: Carrier[] }> = ({ brackets, carriers }) => {
+  // Only carriers with a bracket table can be simulated
+  const bracketCarrierIds = new Set(brackets.map(b => b.carrierId));
+  const options = carriers.filter(c => bracketCarrierIds.has(c.id));
+  const [carrierId, setCarrierId] = useState(options[0]?.id ?? '');
+  const [months, setMonths] = useState(24);
+  const [simulation, setSimulation] = useState<DieselSimulation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!carrierId) return;
+    setLoading(true); setError(null);
+    try {
+      const res = await api.get<DieselSimulation>('/api/diesel-floaters/simulation', { params: { carrier_id: carrierId, months } });
+      setSimulation(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Simulation fehlgeschlagen');
+    } finally {
+      setLoading(false);
+    }
+  }, [carrierId, months]);
+
+  useEffect(() => { load(); }, [load]);
+
+  if (options.length === 0) return (
+    <div className="bg-white rounded-lg border border-gray-200 text-center py-12 text-gray-500">
+      <p className="text-lg mb-2">Keine Preisklassen vorhanden</p>
+      <p className="text-sm">Die Simulation braucht mindestens eine Preisklassen-Tabelle.</p>
+    </div>
+  );
+
+  const difference = simulation ? Number(simulation.totals.differenceAmount) : 0;
+  const missingPrices = simulation?.months.filter(m => m.dieselPriceCt === null).length ?? 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-3 mb-4">
+        <label className="text-sm font-medium text-gray-700">Spediteur:</label>
+        <select value={carrierId} onChange={e => setCarrierId(e.target.value)} className="border border-gray-300 rounded px-3 py-1.5 text-sm">
+          {options.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <label className="text-sm font-medium text-gray-700 ml-4">Zeitraum:</label>
+        <select value={months} onChange={e => setMonths(Number(e.target.value))} className="border border-gray-300 rounded px-3 py-1.5 text-sm">
+          {[12, 24, 36, 60].map(m => <option key={m} value={m}>{m} Monate</option>)}
+        </select>
+        {loading && <span className="text-sm text-gray-400">Berechnen…</span>}
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-red-700 text-sm">{error}</div>}
+
+      {simulation && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-4 gap-3">
+            {([
+              ['Berechnet', formatEur(simulation.totals.actualDieselAmount), 'text-gray-900'],
+              ['Soll laut Preisklassen', formatEur(simulation.totals.expectedDieselAmount), 'text-gray-900'],
+              ['Differenz', formatEur(difference), difference > 0 ? 'text-red-600' : 'text-green-700'],
+              ['Sendungen ohne Preisklasse', String(simulation.totals.uncoveredShipments), simulation.totals.uncoveredShipments > 0 ? 'text-yellow-700' : 'text-gray-900'],
+            ] as const).map(([label, value, className]) => (
+              <div key={label} className="bg-white rounded-lg border border-gray-200 p-4">
+                <div className="text-xs text-gray-500">{label}</div>
+                <div className={`text-xl font-bold ${className}`}>{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {missingPrices > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-sm text-yellow-800">
+              Für {missingPrices} Monate fehlt der Destatis-Referenzpreis im Cache — im Tab „Destatis-Preise“ nachladen.
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <SimulationChart simulation={simulation} />
+            <p className="text-xs text-gray-500 mt-2">
+              Referenzpreis mit {simulation.lagMonths} Monaten Versatz. Soll-Floater aus der jeweils gültigen Preisklassen-Tabelle,
+              Ist-Floater = berechneter Dieselzuschlag / Zuschlagsbasis der Sendungen (nur EUR).
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium text-gray-600">Monat</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Destatis (Ct/l)</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Soll %</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Ist %</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Sendungen</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Ist €</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Soll €</th>
+                  <th className="text-right px-4 py-3 font-medium text-gray-600">Differenz €</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {simulation.months.map(m => {
+                  const [year, month] = m.month.split('-').map(Number);
+                  const [refYear, refMonth] = m.referenceMonth.split('-').map(Number);
+                  const diff = Number(m.differenceAmount);
+                  return (
+                    <tr key={m.month} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 font-medium text-gray-900">{MONTH_NAMES[month - 1]} {year}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-700" title={`Referenz ${MONTH_NAMES[refMonth - 1]} ${refYear}`}>
+                        {m.dieselPriceCt !== null ? Number(m.dieselPriceCt).toFixed(2) : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-700">{formatPct(m.expectedPct)}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-700">{formatPct(m.actualPct)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">
+                        {m.shipmentCount}
+                        {m.uncoveredShipments > 0 && <span className="text-yellow-700" title="ohne Preisklasse"> ({m.uncoveredShipments})</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-700">{m.shipmentCount ? formatEur(m.actualDieselAmount) : '—'}</td>
+                      <td className="px-4 py-2 text-right font-mono text-gray-700">{m.shipmentCount ? formatEur(m.expectedDieselAmount) : '—'}</td>
+                      <td className={`px-4 py-2 text-right font-mono font-medium ${diff > 0 ? 'text-red-600' : diff < 0 ? 'text-green-700' : 'text-gray-400'}`}>
+                        {m.shipmentCount ? formatEur(diff) : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Chart geometry (SVG user units; the SVG scales to the container width)
+const CHART_W = 900;
+const PANEL_H = 180;
+const PAD = { left: 56, right: 16, top: 16, gap: 36, bottom: 28 };
+
+/** Polyline path that breaks at missing values. */
+const linePath = (points: Array<[number, number] | null>) => {
+  let d = '';
+  let open = false;
+  for (const p of points) {
+    if (!p) { open = false; continue; }
+    d += `${open ? 'L' : 'M'}${p[0].toFixed(1)},${p[1].toFixed(1)} `;
+    open = true;
+  }
+  return d.trim();
+};
+
+const ticks = (min: number, max: number, count = 4) =>
+  Array.from({ length: count + 1 }, (_, i) => min + ((max - min) * i) / count);
+
+const SimulationChart: React.FC<{ simulation: DieselSimulation }> = ({ simulation }) => {
+  const months = simulation.months;
+  const n = months.length;
+  const innerW = CHART_W - PAD.left - PAD.right;
+  const x = (i: number) => PAD.left + (n > 1 ? (innerW * i) / (n - 1) : innerW / 2);
+
+  // Panel 1 — Destatis price with the carrier's bracket thresholds
+  const prices = months.map(m => (m.dieselPriceCt !== null ? Number(m.dieselPriceCt) : null));
+  const known = prices.filter((p): p is number => p !== null);
+  const priceMin = known.length ? Math.floor(Math.min(...known) * 0.95) : 0;
+  const priceMax = known.length ? Math.ceil(Math.max(...known) * 1.05) : 100;
+  const priceTop = PAD.top;
+  const yPrice = (v: number) => priceTop + PANEL_H - ((v - priceMin) / (priceMax - priceMin || 1)) * PANEL_H;
+  const thresholds = simulation.brackets
+    .map(b => ({ max: Number(b.priceCtMax), pct: Number(b.floaterPct) }))
+    .filter(b => b.max >= priceMin && b.max <= priceMax);
+
+  // Panel 2 — expected vs. charged floater %
+  const expected = months.map(m => (m.expectedPct !== null ? Number(m.expectedPct) : null));
+  const actual = months.map(m => (m.actualPct !== null ? Number(m.actualPct) : null));
+  const pctValues = [...expected, ...actual].filter((p): p is number => p !== null);
+  const pctMax = pctValues.length ? Math.ceil(Math.max(...pctValues) * 1.1) : 10;
+  const pctTop = priceTop + PANEL_H + PAD.gap;
+  const yPct = (v: number) => pctTop + PANEL_H - (v / (pctMax || 1)) * PANEL_H;
+
+  const height = pctTop + PANEL_H + PAD.bottom;
+  const labelEvery = Math.max(1, Math.ceil(n / 12));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${height}`} className="w-full h-auto" role="img" aria-label="Dieselfloater-Simulation">
+      {/* Price panel */}
+      <text x={PAD.left} y={priceTop - 4} className="fill-gray-500" fontSize="11">Destatis-Referenzpreis (Ct/l) und Preisklassen</text>
+      {ticks(priceMin, priceMax).map(t => (
+        <g key={`p${t}`}>
+          <line x1={PAD.left} x2={CHART_W - PAD.right} y1={yPrice(t)} y2={yPrice(t)} stroke="#f3f4f6" />
+          <text x={PAD.left - 6} y={yPrice(t) + 4} textAnchor="end" fontSize="10" className="fill-gray-400">{t.toFixed(0)}</text>
+        </g>
+      ))}
+      {thresholds.map(b => (
+        <g key={`b${b.max}`}>
+          <line x1={PAD.left} x2={CHART_W - PAD.right} y1={yPrice(b.max)} y2={yPrice(b.max)} stroke="#93c5fd" strokeDasharray="4 3" />
+          <text x={CHART_W - PAD.right - 2} y={yPrice(b.max) - 2} textAnchor="end" fontSize="9" className="fill-blue-400">≤ {b.max.toFixed(0)} → {b.pct.toFixed(1)} %</text>
+        </g>
+      ))}
+      <path d={linePath(prices.map((p, i) => (p !== null ? [x(i), yPrice(p)] : null)))} fill="none" stroke="#374151" strokeWidth="2" />
+
+      {/* Floater panel */}
+      <text x={PAD.left} y={pctTop - 4} className="fill-gray-500" fontSize="11">Floater %: Soll (blau) / Ist (orange)</text>
+      {ticks(0, pctMax).map(t => (
+        <g key={`f${t}`}>
+          <line x1={PAD.left} x2={CHART_W - PAD.right} y1={yPct(t)} y2={yPct(t)} stroke="#f3f4f6" />
+          <text x={PAD.left - 6} y={yPct(t) + 4} textAnchor="end" fontSize="10" className="fill-gray-400">{t.toFixed(1)}</text>
+        </g>
+      ))}
+      <path d={linePath(expected.map((p, i) => (p !== null ? [x(i), yPct(p)] : null)))} fill="none" stroke="#2563eb" strokeWidth="2" />
+      <path d={linePath(actual.map((p, i) => (p !== null ? [x(i), yPct(p)] : null)))} fill="none" stroke="#f97316" strokeWidth="2" />
+      {actual.map((p, i) => p !== null && (
+        <circle key={`a${i}`} cx={x(i)} cy={yPct(p)} r="3" fill={expected[i] !== null && p > expected[i]! ? '#dc2626' : '#f97316'}>
+          <title>{`${months[i].month}: Ist ${p.toFixed(2)} % / Soll ${formatPct(months[i].expectedPct)}`}</title>
+        </circle>
+      ))}
+
+      {/* Month axis */}
+      {months.map((m, i) => i % labelEvery === 0 && (
+        <text key={m.month} x={x(i)} y={height - 8} textAnchor="middle" fontSize="10" className="fill-gray-500">
+          {m.month.slice(5)}/{m.month.slice(2, 4)}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Coverage tab — carrier × month matrix of floater gaps for one project
+// ---------------------------------------------------------------------------
+
+const COVERAGE_STYLES: Record<CoverageCell['status'], { cell: string; label: string }> = {
+  bracket: { cell: 'bg-green-100 text-green-800', label: 'Preisklassen' },
+  rate: { cell: 'bg-blue-100 text-blue-800', label: 'Manueller Satz' },
+  partial: { cell: 'bg-yellow-100 text-yellow-800', label: 'Teilweise' },
+  gap: { cell: 'bg-red-100 text-red-800', label: 'Lücke' },
+};
+
+const lastDayOfMonth = (month: string) => {
+  const [year, mon] = month.split('-').map(Number);
+  return `${month}-${String(new Date(year, mon, 0).getDate()).padStart(2, '0')}`;
+};
+
+const formatPeriod = (from: string, until: string | null) =>
+  `${new Date(from).toLocaleDateString('de-DE')} – ${until ? new Date(until).toLocaleDateString('de-DE') : 'offen'}`;
+
+const CoverageTab: React.FC<{ onFixGap: (draft: RateDraft) => void }> = ({ onFixGap }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [coverage, setCoverage] = useState<DieselCoverage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get<Project[]>('/api/projects').then(res => {
+      setProjects(res.data);
+      if (res.data.length > 0) setProjectId(id => id || res.data[0].id);
+    }).catch(() => setError('Projekte konnten nicht geladen werden'));
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true); setError(null);
+    try {
+      const res = await api.get<DieselCoverage>('/api/diesel-floaters/coverage', { params: { project_id: projectId } });
+      setCoverage(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Abdeckung konnte nicht berechnet werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // A gap is filled from the clicked month to the end of the consecutive gap run
+  const fixGap = (carrier: CarrierCoverage, index: number) => {
+    let end = index;
+    while (carrier.cells[index].status === 'gap' && end + 1 < carrier.cells.length && carrier.cells[end + 1].status === 'gap') end++;
+    onFixGap({
+      carrierId: carrier.carrierId,
+      validFrom: `${carrier.cells[index].month}-01`,
+      validUntil: lastDayOfMonth(carrier.cells[end].month),
+    });
+  };
+
+  const totalUncovered = coverage?.carriers.reduce((sum, c) => sum + c.uncoveredShipments, 0) ?? 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-3 mb-4">
+        <label className="text-sm font-medium text-gray-700">Projekt:</label>
+        <select value={projectId} onChange={e => setProjectId(e.target.value)} className="border border-gray-300 rounded px-3 py-1.5 text-sm">
+          {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {loading && <span className="text-sm text-gray-400">Berechnen…</span>}
+        <div className="flex items-center gap-3 ml-auto text-xs text-gray-500">
+          {Object.entries(COVERAGE_STYLES).map(([key, style]) => (
+            <span key={key} className="flex items-center gap-1"><span className={`inline-block w-3 h-3 rounded ${style.cell}`} />{style.label}</span>
+          ))}
+          <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded ring-2 ring-orange-400" />Überschneidung</span>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-red-700 text-sm">{error}</div>}
+
+      {coverage && coverage.months.length === 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 text-center py-12 text-gray-500">Keine Sendungen in diesem Projekt.</div>
+      )}
+
+      {coverage && coverage.months.length > 0 && (
+        <div className="space-y-4">
+          <div className={`rounded p-3 text-sm ${totalUncovered > 0 ? 'bg-red-50 border border-red-200 text-red-800' : 'bg-green-50 border border-green-200 text-green-800'}`}>
+            {totalUncovered > 0
+              ? `${totalUncovered} Sendungen ohne Dieselfloater — sie können nicht bewertet werden. Lücke anklicken, um einen manuellen Satz zu erfassen.`
+              : 'Alle Sendungen haben einen Dieselfloater.'}
+            {coverage.unassignedShipments > 0 && ` ${coverage.unassignedShipments} Sendungen ohne Spediteur.`}
+          </div>
+
+          <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+            <table className="text-xs">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium text-gray-600 sticky left-0 bg-gray-50">Spediteur</th>
+                  {coverage.months.map(m => (
+                    <th key={m} className="px-1 py-2 font-medium text-gray-500 text-center whitespace-nowrap">{m.slice(5)}/{m.slice(2, 4)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {coverage.carriers.map(carrier => (
+                  <tr key={carrier.carrierId}>
+                    <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap sticky left-0 bg-white">
+                      {carrier.carrierName ?? carrier.carrierId}
+                      <div className="text-gray-400 font-normal">{carrier.shipmentCount} Sendungen</div>
+                    </td>
+                    {carrier.cells.map((cell, i) => {
+                      const style = COVERAGE_STYLES[cell.status];
+                      const fixable = cell.status === 'gap' || cell.status === 'partial';
+                      const title = [
+                        `${style.label}: ${cell.coveredDays}/${cell.days} Tage abgedeckt`,
+                        cell.missingPrice ? 'Destatis-Preis für den Referenzmonat fehlt' : null,
+                        cell.overlap ? 'Überschneidende Gültigkeitszeiträume' : null,
+                      ].filter(Boolean).join('\n');
+                      return (
+                        <td key={cell.month} className="px-1 py-1 text-center">
+                          <div title={title}
+                            className={`rounded px-1 py-1 min-w-[2.5rem] ${style.cell} ${cell.overlap ? 'ring-2 ring-orange-400' : ''} ${fixable ? 'cursor-pointer hover:opacity-80' : ''}`}
+                            onClick={fixable ? () => fixGap(carrier, i) : undefined}
+                          >
+                            {cell.uncoveredShipments > 0 ? (
+                              <Link
+                                to={`/projects/${coverage.projectId}/shipments?carrier_id=${carrier.carrierId}&date_from=${cell.month}-01&date_to=${lastDayOfMonth(cell.month)}`}
+                                onClick={e => e.stopPropagation()}
+                                className="font-semibold underline"
+                                title="Betroffene Sendungen anzeigen"
+                              >
+                                {cell.uncoveredShipments}
+                              </Link>
+                            ) : (
+                              <span className="opacity-60">{cell.shipmentCount || '·'}</span>
+                            )}
+                            {cell.missingPrice && <span className="ml-0.5">€?</span>}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            Zahl in der Zelle: Sendungen ohne Dieselfloater (verlinkt) bzw. Sendungen im Monat. „€?“ = Preisklassen vorhanden, aber kein Destatis-Preis im Cache.
+          </p>
+
+          {coverage.carriers.some(c => c.overlaps.length > 0) && (
+            <div className="bg-orange-50 border border-orange-200 rounded p-3 text-sm text-orange-800">
+              <p className="font-medium mb-1">Überschneidende Gültigkeitszeiträume — der Tarifrechner verwendet nur einen davon:</p>
+              {coverage.carriers.flatMap(c => c.overlaps.map((o, i) => (
+                <p key={`${c.carrierId}-${i}`}>
+                  {c.carrierName ?? c.carrierId}, {o.kind === 'rate' ? 'manuelle Sätze' : 'Preisklassen-Tabellen'}: {formatPeriod(o.firstValidFrom, o.firstValidUntil)} und {formatPeriod(o.secondValidFrom, o.secondValidUntil)}
+                </p>
+              )))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,24 +1,36 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { api } from '../api';
 
-interface DieselBracket {
-  id: string;
-  carrierId: string;
-  carrierName: string | null;
+interface BracketRow {
   priceCtMax: string;
   floaterPct: string;
-  basis: string;
-  validFrom: string;
-  validUntil: string | null;
 }
 
-interface UploadInfo {
-  id: string;
+interface DieselImportReview {
+  uploadId: string;
   filename: string;
-  status: string | null;
-  parsingIssues: unknown[] | null;
-  createdAt: string | null;
+  mimeType: string | null;
+  message: string | null;
+  traceable: boolean;
+  reviewStatus: 'pending' | 'confirmed' | 'rolled_back' | null;
+  reviewedAt: string | null;
+  carrierId: string | null;
+  carrierName: string | null;
+  validFrom: string | null;
+  basis: string | null;
+  imported: BracketRow[];
+  stored: BracketRow[];
+  comparison: { source: 'replaced' | 'earlier_table'; validFrom: string; brackets: BracketRow[] } | null;
+}
+
+type DiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+interface DiffRow {
+  priceCtMax: number;
+  imported: number | null;
+  previous: number | null;
+  kind: DiffKind;
 }
 
 const BASIS_LABELS: Record<string, string> = {
@@ -27,32 +39,34 @@ const BASIS_LABELS: Record<string, string> = {
   total: 'Gesamt',
 };
 
+const REVIEW_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Prüfung offen', className: 'bg-yellow-100 text-yellow-800' },
+  confirmed: { label: 'Bestätigt', className: 'bg-green-100 text-green-700' },
+  rolled_back: { label: 'Zurückgenommen', className: 'bg-gray-200 text-gray-700' },
+};
+
+const DIFF_STYLES: Record<DiffKind, { label: string; className: string }> = {
+  added: { label: 'neu', className: 'bg-blue-50' },
+  removed: { label: 'entfällt', className: 'bg-red-50 text-gray-500' },
+  changed: { label: 'geändert', className: 'bg-yellow-50' },
+  unchanged: { label: '', className: '' },
+};
+
 export const DieselFloaterDetailPage: React.FC = () => {
   const { uploadId } = useParams<{ uploadId: string }>();
   const navigate = useNavigate();
-  const [upload, setUpload] = useState<UploadInfo | null>(null);
-  const [brackets, setBrackets] = useState<DieselBracket[]>([]);
+  const [review, setReview] = useState<DieselImportReview | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
 
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const [uploadRes, bracketsRes] = await Promise.all([
-        api.get<UploadInfo>(`/api/uploads/${uploadId}/detail`),
-        api.get<DieselBracket[]>('/api/diesel-floaters/brackets'),
-      ]);
-      setUpload(uploadRes.data);
-      // Show brackets for the carrier detected in this upload
-      // The summary issue contains the carrier name — filter brackets to that carrier
-      const importIssue = uploadRes.data.parsingIssues?.find(
-        (i: unknown) => (i as { type?: string }).type === 'diesel_floater_imported'
-      ) as { message?: string } | undefined;
-      const carrierName = importIssue?.message?.match(/carrier '([^']+)'/)?.[1];
-      const filtered = carrierName
-        ? bracketsRes.data.filter(b => b.carrierName === carrierName)
-        : bracketsRes.data;
-      setBrackets(filtered);
+      const res = await api.get<DieselImportReview>(`/api/diesel-floaters/imports/${uploadId}`);
+      setReview(res.data);
     } catch (e: unknown) {
       const err = e as { response?: { data?: { detail?: string } } };
       setError(err.response?.data?.detail || 'Laden fehlgeschlagen');
@@ -66,76 +80,215 @@ export const DieselFloaterDetailPage: React.FC = () => {
     load();
   }, [uploadId, load]);
 
+  // The file endpoint needs the auth header, so the PDF is fetched as a blob
+  // and shown through an object URL instead of pointing the iframe at the API.
+  useEffect(() => {
+    if (!uploadId) return;
+    let url: string | null = null;
+    api.get<Blob>(`/api/uploads/${uploadId}/file`, { responseType: 'blob' })
+      .then(res => {
+        url = URL.createObjectURL(new Blob([res.data], { type: 'application/pdf' }));
+        setPdfUrl(url);
+      })
+      .catch(() => setPdfUrl(null));
+    return () => { if (url) URL.revokeObjectURL(url); };
+  }, [uploadId]);
+
+  const runAction = async (action: 'confirm' | 'rollback') => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      const res = await api.post<DieselImportReview>(`/api/diesel-floaters/imports/${uploadId}/${action}`);
+      setReview(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setActionError(err.response?.data?.detail || 'Aktion fehlgeschlagen');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRollback = () => {
+    if (!review) return;
+    const restored = review.comparison?.source === 'replaced' ? review.comparison.brackets.length : 0;
+    const text = restored > 0
+      ? `Import zurücknehmen? Die ${restored} vorherigen Preisklassen ab ${review.validFrom} werden wiederhergestellt.`
+      : `Import zurücknehmen? Die importierte Tabelle ab ${review.validFrom} wird gelöscht.`;
+    if (!window.confirm(text)) return;
+    runAction('rollback');
+  };
+
   if (loading) return <div className="flex items-center justify-center min-h-screen text-gray-600">Laden…</div>;
-  if (error || !upload) return (
+  if (error || !review) return (
     <div className="container mx-auto p-6">
       <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">{error ?? 'Upload nicht gefunden'}</div>
     </div>
   );
 
-  const importIssue = upload.parsingIssues?.find(
-    (i: unknown) => (i as { type?: string }).type === 'diesel_floater_imported'
-  ) as { message?: string } | undefined;
-  const carrierName = brackets[0]?.carrierName ?? '—';
-  const basis = brackets[0] ? (BASIS_LABELS[brackets[0].basis] ?? brackets[0].basis) : '—';
-  const validFrom = brackets[0]?.validFrom ?? '—';
+  const basis = review.basis ? (BASIS_LABELS[review.basis] ?? review.basis) : '—';
+  const badge = review.reviewStatus ? REVIEW_BADGES[review.reviewStatus] : null;
+  const diff = review.comparison ? diffBrackets(review.imported, review.comparison.brackets) : null;
+  const editedSinceImport = review.traceable && review.reviewStatus !== 'rolled_back'
+    && !sameBrackets(review.imported, review.stored);
+  const changeCount = diff?.filter(d => d.kind !== 'unchanged').length ?? 0;
 
   return (
     <div className="min-h-screen bg-gray-100 py-8">
-      <div className="container mx-auto px-4 max-w-2xl">
+      <div className="container mx-auto px-4 max-w-7xl">
         <button onClick={() => navigate(-1)} className="text-blue-600 hover:text-blue-700 text-sm mb-4 block">
           ← Zurück
         </button>
 
-        <div className="bg-white rounded-lg shadow p-6">
-          {/* Header */}
-          <div className="flex items-start justify-between mb-6">
-            <div>
-              <h1 className="text-xl font-bold text-gray-900">{upload.filename}</h1>
-              <p className="text-sm text-gray-500 mt-0.5">
-                Spediteur: <span className="font-medium text-gray-700">{carrierName}</span>
-                {' · '}Basis: <span className="font-medium text-gray-700">{basis}</span>
-                {' · '}Gültig ab: <span className="font-medium text-gray-700">{validFrom}</span>
-              </p>
-            </div>
-            <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
-              {brackets.length} Stufen
-            </span>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Source PDF */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            {pdfUrl ? (
+              <iframe src={pdfUrl} title={review.filename} className="w-full h-[80vh]" />
+            ) : (
+              <div className="flex items-center justify-center h-[80vh] text-sm text-gray-500">
+                Originaldatei nicht verfügbar
+              </div>
+            )}
           </div>
 
-          {importIssue && (
-            <div className="bg-green-50 border border-green-200 rounded p-3 mb-6 text-sm text-green-800">
-              {importIssue.message}
+          {/* Review */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{review.filename}</h1>
+                <p className="text-sm text-gray-500 mt-0.5">
+                  Spediteur: <span className="font-medium text-gray-700">{review.carrierName ?? '—'}</span>
+                  {' · '}Basis: <span className="font-medium text-gray-700">{basis}</span>
+                  {' · '}Gültig ab: <span className="font-medium text-gray-700">{review.validFrom ?? '—'}</span>
+                </p>
+              </div>
+              {badge && (
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${badge.className}`}>{badge.label}</span>
+              )}
             </div>
-          )}
-
-          {/* Bracket table — two columns, matching the original PDF layout */}
-          {brackets.length === 0 ? (
-            <p className="text-gray-500 text-sm">Keine Preisklassen gefunden.</p>
-          ) : (
-            <table className="w-full text-sm border-collapse">
-              <thead>
-                <tr className="border-b border-gray-300">
-                  <th className="text-left pb-2 font-semibold text-gray-700">Dieselpreis Ct je Liter</th>
-                  <th className="text-right pb-2 font-semibold text-gray-700">Zuschlag</th>
-                </tr>
-              </thead>
-              <tbody>
-                {brackets.map(b => (
-                  <tr key={b.id} className="border-b border-gray-100 hover:bg-gray-50">
-                    <td className="py-1.5 text-gray-700">
-                      ≤ {parseFloat(b.priceCtMax).toFixed(0)}
-                    </td>
-                    <td className={`py-1.5 text-right font-mono font-medium ${parseFloat(b.floaterPct) === 0 ? 'text-gray-400' : 'text-gray-900'}`}>
-                      {parseFloat(b.floaterPct).toFixed(2)} %
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          )}
+
+            {review.message && (
+              <div className="bg-gray-50 border border-gray-200 rounded p-3 mb-4 text-sm text-gray-700">
+                {review.message}
+              </div>
+            )}
+
+            {!review.traceable ? (
+              <p className="text-sm text-gray-600">
+                Dieser Import wurde erfasst, bevor importierte Preisklassen protokolliert wurden.
+                Die gespeicherten Preisklassen lassen sich unter{' '}
+                <Link to="/settings/diesel-floaters" className="text-blue-600 hover:text-blue-800">Dieselfloater</Link>{' '}
+                prüfen und bearbeiten.
+              </p>
+            ) : (
+              <>
+                {editedSinceImport && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-4 text-sm text-yellow-800">
+                    Die Tabelle wurde nach dem Import bearbeitet — gespeichert sind {review.stored.length} Preisklassen.
+                  </div>
+                )}
+
+                <p className="text-sm text-gray-600 mb-2">
+                  {review.comparison
+                    ? review.comparison.source === 'replaced'
+                      ? `Vergleich mit der überschriebenen Tabelle ab ${review.comparison.validFrom}: ${changeCount} Abweichungen.`
+                      : `Vergleich mit der vorherigen Tabelle ab ${review.comparison.validFrom}: ${changeCount} Abweichungen.`
+                    : 'Für diesen Spediteur waren vorher keine Preisklassen gespeichert.'}
+                </p>
+
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="border-b border-gray-300">
+                      <th className="text-left pb-2 font-semibold text-gray-700">Dieselpreis Ct je Liter</th>
+                      <th className="text-right pb-2 font-semibold text-gray-700">Importiert</th>
+                      {diff && <th className="text-right pb-2 font-semibold text-gray-700">Bisher</th>}
+                      {diff && <th className="pb-2" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(diff ?? review.imported.map(b => ({
+                      priceCtMax: Number(b.priceCtMax), imported: Number(b.floaterPct), previous: null, kind: 'added' as DiffKind,
+                    }))).map(row => (
+                      <tr key={row.priceCtMax} className={`border-b border-gray-100 ${diff ? DIFF_STYLES[row.kind].className : ''}`}>
+                        <td className="py-1.5 text-gray-700">≤ {row.priceCtMax.toFixed(0)}</td>
+                        <td className={`py-1.5 text-right font-mono font-medium ${row.imported === 0 ? 'text-gray-400' : 'text-gray-900'}`}>
+                          {row.imported !== null ? `${row.imported.toFixed(2)} %` : '—'}
+                        </td>
+                        {diff && (
+                          <td className="py-1.5 text-right font-mono text-gray-500">
+                            {row.previous !== null ? `${row.previous.toFixed(2)} %` : '—'}
+                          </td>
+                        )}
+                        {diff && <td className="py-1.5 pl-3 text-xs text-gray-600">{DIFF_STYLES[row.kind].label}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {actionError && (
+                  <div className="bg-red-50 border border-red-200 rounded p-3 mt-4 text-sm text-red-600">{actionError}</div>
+                )}
+
+                {review.reviewStatus === 'pending' ? (
+                  <div className="flex gap-3 mt-6">
+                    <button
+                      onClick={() => runAction('confirm')}
+                      disabled={busy}
+                      className="px-5 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Import bestätigen
+                    </button>
+                    <button
+                      onClick={handleRollback}
+                      disabled={busy || editedSinceImport}
+                      title={editedSinceImport ? 'Tabelle wurde seit dem Import bearbeitet' : undefined}
+                      className="px-5 py-2 border border-red-300 text-red-600 rounded-lg text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Import zurücknehmen
+                    </button>
+                  </div>
+                ) : review.reviewedAt && (
+                  <p className="text-xs text-gray-500 mt-6">
+                    {badge?.label} am {new Date(review.reviewedAt).toLocaleString('de-DE')}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Align imported and previous brackets by price limit. */
+function diffBrackets(imported: BracketRow[], previous: BracketRow[]): DiffRow[] {
+  const byPrice = new Map<number, DiffRow>();
+  for (const b of imported) {
+    const price = Number(b.priceCtMax);
+    byPrice.set(price, { priceCtMax: price, imported: Number(b.floaterPct), previous: null, kind: 'added' });
+  }
+  for (const b of previous) {
+    const price = Number(b.priceCtMax);
+    const pct = Number(b.floaterPct);
+    const row = byPrice.get(price);
+    if (row) {
+      row.previous = pct;
+      row.kind = row.imported === pct ? 'unchanged' : 'changed';
+    } else {
+      byPrice.set(price, { priceCtMax: price, imported: null, previous: pct, kind: 'removed' });
+    }
+  }
+  return [...byPrice.values()].sort((a, b) => a.priceCtMax - b.priceCtMax);
+}
+
+function sameBrackets(a: BracketRow[], b: BracketRow[]): boolean {
+  if (a.length !== b.length) return false;
+  const key = (rows: BracketRow[]) =>
+    rows.map(r => `${Number(r.priceCtMax)}:${Number(r.floaterPct)}`).sort().join('|');
+  return key(a) === key(b);
+}
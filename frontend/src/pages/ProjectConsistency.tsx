@@ -0,0 +1,306 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { api } from '../api';
+import type {
+  ConsistencyFinding,
+  ConsistencyOverview,
+  ConsistencyRef,
+  ConsistencySeverity,
+  ConsistencyStatus,
+} from '../types';
+
+// ---------------------------------------------------------------------------
+// Constants & helpers
+// ---------------------------------------------------------------------------
+
+// Check types of ConsistencyService (services/consistency_service.py)
+const CHECK_LABELS: Record<string, string> = {
+  invoice_total: 'Rechnungssumme',
+  duplicate_billing: 'Doppelt abgerechnet',
+  missing_in_shipment_list: 'Fehlt in Sendungsliste',
+  weight_mismatch: 'Gewicht weicht ab',
+  amount_mismatch: 'Betrag weicht ab',
+};
+
+const SEVERITY_SECTIONS: { severity: ConsistencySeverity; label: string; badge: string }[] = [
+  { severity: 'error', label: 'Fehler', badge: 'bg-red-100 text-red-700' },
+  { severity: 'warning', label: 'Warnungen', badge: 'bg-yellow-100 text-yellow-800' },
+];
+
+const STATUS_LABELS: Record<ConsistencyStatus, string> = {
+  open: 'Offen',
+  accepted: 'Akzeptiert',
+  fixed: 'Behoben',
+};
+
+const STATUS_COLORS: Record<ConsistencyStatus, string> = {
+  open: 'bg-orange-100 text-orange-700',
+  accepted: 'bg-gray-100 text-gray-600',
+  fixed: 'bg-green-100 text-green-700',
+};
+
+function fmtDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('de-DE') : '—';
+}
+
+function refLocation(ref: ConsistencyRef): string {
+  const parts = [];
+  if (ref.page !== null) parts.push(`Seite ${ref.page}`);
+  if (ref.row !== null) parts.push(`Zeile ${ref.row}`);
+  return parts.join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// Finding card
+// ---------------------------------------------------------------------------
+
+const FindingCard: React.FC<{
+  finding: ConsistencyFinding;
+  projectId: string;
+  saving: boolean;
+  onResolve: (finding: ConsistencyFinding, status: ConsistencyStatus, note: string) => void;
+}> = ({ finding, projectId, saving, onResolve }) => {
+  const [note, setNote] = useState('');
+
+  return (
+    <div className={`border rounded p-4 ${finding.status === 'open' ? 'border-gray-300' : 'border-gray-200 opacity-75'}`}>
+      <div className="flex items-start gap-3">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-xs font-medium text-gray-500">
+              {CHECK_LABELS[finding.checkType] ?? finding.checkType}
+            </span>
+            <span className={`px-2 py-0.5 rounded text-xs ${STATUS_COLORS[finding.status]}`}>
+              {STATUS_LABELS[finding.status]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-900">{finding.message}</p>
+        </div>
+        <span className="text-xs text-gray-400 whitespace-nowrap">seit {fmtDateTime(finding.firstSeenAt)}</span>
+      </div>
+
+      {finding.refs.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {finding.refs.map((ref, i) => (
+            <li key={i} className="flex flex-wrap gap-x-3 text-gray-600">
+              {ref.uploadId ? (
+                <Link to={`/uploads/${ref.uploadId}/detail`} className="text-blue-600 hover:text-blue-700">
+                  {ref.filename ?? 'Upload'}
+                </Link>
+              ) : (
+                <span>{ref.filename ?? '—'}</span>
+              )}
+              {refLocation(ref) && <span>{refLocation(ref)}</span>}
+              {ref.shipmentId && (
+                <Link
+                  to={`/projects/${projectId}/shipments/${ref.shipmentId}`}
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  Sendung {ref.reference ?? ''} →
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {finding.status === 'open' ? (
+        <div className="mt-3 flex gap-2">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={2000}
+            placeholder="Begründung (optional)"
+            className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => onResolve(finding, 'accepted', note)}
+            disabled={saving}
+            className="px-3 py-1 rounded text-sm border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Akzeptieren
+          </button>
+          <button
+            onClick={() => onResolve(finding, 'fixed', note)}
+            disabled={saving}
+            className="px-3 py-1 rounded text-sm bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            Behoben
+          </button>
+        </div>
+      ) : (
+        <div className="mt-3 flex items-center gap-3 text-xs text-gray-500">
+          <span>
+            {STATUS_LABELS[finding.status]} {finding.resolvedByName ? `von ${finding.resolvedByName} ` : ''}
+            am {fmtDateTime(finding.resolvedAt)}
+            {finding.resolutionNote && <> — „{finding.resolutionNote}“</>}
+          </span>
+          <button
+            onClick={() => onResolve(finding, 'open', '')}
+            disabled={saving}
+            className="ml-auto text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          >
+            Wieder öffnen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Main page
+// ---------------------------------------------------------------------------
+
+export const ProjectConsistencyPage: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+
+  const [data, setData] = useState<ConsistencyOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.get<ConsistencyOverview>(`/api/projects/${projectId}/consistency`);
+      setData(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Konsistenzbefunde konnten nicht geladen werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+    try {
+      const res = await api.post<ConsistencyOverview>(`/api/projects/${projectId}/consistency/check`);
+      setData(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Prüfung fehlgeschlagen');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleResolve = async (finding: ConsistencyFinding, status: ConsistencyStatus, note: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await api.post<ConsistencyFinding>(
+        `/api/projects/${projectId}/consistency/${finding.id}/resolve`,
+        { status, note: note.trim() || null },
+      );
+      setData((prev) => {
+        if (!prev) return prev;
+        const findings = prev.findings.map((f) => (f.id === res.data.id ? res.data : f));
+        const openCount = findings.filter((f) => f.status === 'open').length;
+        return { ...prev, findings, openCount, canFinalize: prev.checkedAt !== null && openCount === 0 };
+      });
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Speichern fehlgeschlagen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <div className="mb-6">
+          <button onClick={() => navigate(`/projects/${projectId}`)} className="text-blue-600 hover:text-blue-700 mb-4 block">
+            ← Zurück zum Projekt
+          </button>
+          <div className="flex items-end gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Konsistenz</h1>
+              <p className="text-gray-500 mt-1">
+                Abgleich der Dokumente untereinander — Rechnungen, Rechnungszeilen und Sendungsliste
+              </p>
+            </div>
+            <button
+              onClick={handleCheck}
+              disabled={checking}
+              className="ml-auto bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {checking ? 'Prüfe...' : 'Prüfung ausführen'}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mb-4 text-red-700 text-sm bg-red-50 p-3 rounded">{error}</p>}
+
+        {data && (
+          <p
+            className={`mb-6 text-sm p-3 rounded ${
+              data.checkedAt === null
+                ? 'bg-gray-50 text-gray-600'
+                : data.canFinalize
+                  ? 'bg-green-50 text-green-700'
+                  : 'bg-orange-50 text-orange-700'
+            }`}
+          >
+            {data.checkedAt === null
+              ? 'Noch nicht geprüft — der Wechsel in die Phase „Final“ führt die Prüfung aus.'
+              : data.canFinalize
+                ? 'Keine offenen Befunde — das Projekt kann in die Phase „Final“ wechseln.'
+                : `${data.openCount} offene Befunde blockieren den Wechsel in die Phase „Final“.`}
+            {data.checkedAt !== null && (
+              <span className="text-gray-500"> Stand {fmtDateTime(data.checkedAt)}.</span>
+            )}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="text-gray-600">Laden...</div>
+        ) : data && data.findings.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-500 text-sm">
+            {data.checkedAt === null
+              ? 'Noch keine Prüfung ausgeführt. „Prüfung ausführen“ klicken.'
+              : 'Keine Befunde. Nach neuen Uploads „Prüfung ausführen“ klicken.'}
+          </div>
+        ) : (
+          data &&
+          SEVERITY_SECTIONS.map(({ severity, label, badge }) => {
+            const findings = data.findings.filter((f) => f.severity === severity);
+            if (findings.length === 0) return null;
+            const open = findings.filter((f) => f.status === 'open').length;
+            return (
+              <div key={severity} className="bg-white rounded-lg shadow p-6 mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  {label}
+                  <span className={`px-2 py-0.5 rounded text-sm ${badge}`}>
+                    {open} offen / {findings.length}
+                  </span>
+                </h2>
+                <div className="space-y-3">
+                  {findings.map((f) => (
+                    <FindingCard
+                      key={f.id}
+                      finding={f}
+                      projectId={projectId!}
+                      saving={saving}
+                      onResolve={handleResolve}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
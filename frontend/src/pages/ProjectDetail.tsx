@@ -1,7 +1,8 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { api } from '../api';
-import type { Project, Upload, UploadCreatedResponse } from '../types';
+import { api, streamUploadEvents, uploadFileChunked, UPLOAD_STAGES } from '../api';
+import { sha256Hex } from '../utils/sha256';
+import type { CarrierOption, ConsultantNote, DuplicateUpload, Project, ProjectStats, Report, Upload, UploadCreatedResponse, UploadSession, UploadStatusEvent } from '../types';
 
 export const ProjectDetailPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -9,22 +10,23 @@ export const ProjectDetailPage: React.FC = () => {
 
   const [project, setProject] = useState<Project | null>(null);
   const [uploads, setUploads] = useState<Upload[]>([]);
+  const [stats, setStats] = useState<ProjectStats | null>(null);
   const [loading, setLoading] = useState(true);
-  const [uploading, setUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [uploadSuccess, setUploadSuccess] = useState<string | null>(null);
-  const [docType, setDocType] = useState<string>('auto');
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showGenerate, setShowGenerate] = useState(false);
+  // Latest stream event per upload still in the pipeline
+  const [liveEvents, setLiveEvents] = useState<Record<string, UploadStatusEvent>>({});
 
   const loadData = useCallback(async () => {
     try {
       setLoading(true);
-      const [projectRes, uploadsRes] = await Promise.all([
+      const [projectRes, uploadsRes, statsRes] = await Promise.all([
         api.get<Project>(`/api/projects/${projectId}`),
         api.get<Upload[]>(`/api/uploads?project_id=${projectId}`),
+        api.get<ProjectStats>(`/api/projects/${projectId}/stats`),
       ]);
       setProject(projectRes.data);
       setUploads(uploadsRes.data);
+      setStats(statsRes.data);
     } catch (err: unknown) {
       console.error('Failed to load project', err);
     } finally {
@@ -36,42 +38,53 @@ export const ProjectDetailPage: React.FC = () => {
     loadData();
   }, [loadData]);
 
-  const handleDeleteUpload = async (upload: Upload) => {
-    if (!window.confirm(`"${upload.filename}" wirklich löschen?`)) return;
+  const refreshUploads = useCallback(async () => {
     try {
-      await api.delete(`/api/uploads/${upload.id}`);
-      setUploads((prev) => prev.filter((u) => u.id !== upload.id));
+      const [uploadsRes, statsRes] = await Promise.all([
+        api.get<Upload[]>(`/api/uploads?project_id=${projectId}`),
+        api.get<ProjectStats>(`/api/projects/${projectId}/stats`),
+      ]);
+      setUploads(uploadsRes.data);
+      setStats(statsRes.data);
     } catch (err: unknown) {
-      const e = err as { response?: { data?: { detail?: string } } };
-      alert(e.response?.data?.detail || 'Löschen fehlgeschlagen');
+      console.error('Failed to refresh uploads', err);
     }
-  };
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setUploading(true);
-    setUploadError(null);
-    setUploadSuccess(null);
+  }, [projectId]);
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('project_id', projectId!);
-    if (docType !== 'auto') formData.append('doc_type', docType);
+  useEffect(() => {
+    if (!projectId) return;
+    return streamUploadEvents(`/api/uploads/events?project_id=${projectId}`, (event) => {
+      const active = event.status === 'pending' || event.status === 'parsing';
+      setLiveEvents((prev) => {
+        const next = { ...prev };
+        if (active) next[event.uploadId] = event;
+        else delete next[event.uploadId];
+        return next;
+      });
+      setUploads((prev) => prev.map((u) => (u.id === event.uploadId ? { ...u, status: event.status } : u)));
+      // New uploads (also from other sessions) join the list; finished runs change doc type and KPIs
+      if (event.status !== 'parsing') refreshUploads();
+    });
+  }, [projectId, refreshUploads]);
 
+  const handleDeleteUpload = async (upload: Upload) => {
+    const contained = uploads.filter((u) => u.parentUploadId === upload.id).length;
+    const question = contained > 0
+      ? `"${upload.filename}" und die ${contained} enthaltenen Dateien wirklich löschen?`
+      : `"${upload.filename}" wirklich löschen?`;
+    if (!window.confirm(question)) return;
     try {
-      const res = await api.post<UploadCreatedResponse>('/api/uploads', formData, {
-        headers: { 'Content-Type': 'multipart/form-data' },
-      });
-      setUploadSuccess(`"${file.name}" wurde hochgeladen. Status: ${res.data.status ?? 'pending'}`);
-      await loadData();
+      await api.delete(`/api/uploads/${upload.id}`);
+      if (contained > 0) {
+        // Children of nested containers go too — reload instead of pruning the tree here
+        refreshUploads();
+      } else {
+        setUploads((prev) => prev.filter((u) => u.id !== upload.id));
+      }
+      api.get<ProjectStats>(`/api/projects/${projectId}/stats`).then((res) => setStats(res.data)).catch(() => {});
     } catch (err: unknown) {
-      const e = err as { response?: { data?: { detail?: string; message?: string } } };
-      setUploadError(e.response?.data?.detail || e.response?.data?.message || 'Upload fehlgeschlagen');
-    } finally {
-      setUploading(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      const e = err as { response?: { data?: { detail?: string } } };
+      alert(e.response?.data?.detail || 'Löschen fehlgeschlagen');
     }
   };
 
@@ -98,52 +111,45 @@ export const ProjectDetailPage: React.FC = () => {
           <div className="flex gap-3 mt-2">
             <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-sm">{project.phase}</span>
             <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-sm">{project.status}</span>
+            <Link to={`/projects/${projectId}/shipments`} className="ml-auto text-blue-600 hover:text-blue-700 text-sm self-center">
+              Sendungen →
+            </Link>
+            <Link to={`/projects/${projectId}/consistency`} className="text-blue-600 hover:text-blue-700 text-sm self-center">
+              Konsistenz →
+            </Link>
+            <Link to={`/projects/${projectId}/settings`} className="text-gray-500 hover:text-gray-700 text-sm self-center">
+              Einstellungen
+            </Link>
+            <button
+              onClick={() => setShowGenerate(true)}
+              className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
+            >
+              Report erstellen
+            </button>
           </div>
         </div>
 
-        {/* Upload Section */}
-        <div className="bg-white rounded-lg shadow p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Datei hochladen</h2>
+        {showGenerate && (
+          <GenerateReportDialog
+            project={project}
+            onClose={() => setShowGenerate(false)}
+            onGenerated={(report) => navigate(`/projects/${projectId}/reports/${report.id}`)}
+          />
+        )}
 
-          <div className="flex gap-4 items-end">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Dokumenttyp
-              </label>
-              <select
-                value={docType}
-                onChange={(e) => setDocType(e.target.value)}
-                disabled={uploading}
-                className="block text-sm border border-gray-300 rounded px-3 py-2 text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
-              >
-                <option value="auto">Automatisch erkennen</option>
-                <option value="invoice">Rechnung / Invoice</option>
-                <option value="tariff">Tarif / Preisliste</option>
-                <option value="shipment_csv">Sendungsliste (CSV/XLSX)</option>
-              </select>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Datei (PDF, Excel, CSV — max. 10 MB)
-              </label>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".pdf,.xls,.xlsx,.csv"
-                onChange={handleFileUpload}
-                disabled={uploading}
-                className="block text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700 disabled:opacity-50"
-              />
-            </div>
-          </div>
+        {/* KPI Dashboard */}
+        {stats && <KpiDashboard stats={stats} projectId={projectId!} />}
 
-          {uploading && <p className="mt-3 text-blue-600 text-sm">Wird hochgeladen und verarbeitet...</p>}
-          {uploadSuccess && <p className="mt-3 text-green-700 text-sm bg-green-50 p-3 rounded">{uploadSuccess}</p>}
-          {uploadError && <p className="mt-3 text-red-700 text-sm bg-red-50 p-3 rounded">{uploadError}</p>}
-        </div>
+        {/* Upload Section */}
+        <UploadQueue
+          projectId={projectId!}
+          uploads={uploads}
+          liveEvents={liveEvents}
+          onUploaded={refreshUploads}
+        />
 
         {/* Uploads List */}
-        <div className="bg-white rounded-lg shadow p-6">
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Hochgeladene Dateien ({uploads.length})</h2>
 
           {uploads.length === 0 ? (
@@ -159,10 +165,18 @@ export const ProjectDetailPage: React.FC = () => {
                 </tr>
               </thead>
               <tbody>
-                {uploads.map((upload) => (
-                  <tr key={upload.id} className="border-b last:border-0">
-                    <td className="py-3 pr-4 font-medium text-gray-800">{upload.filename}</td>
-                    <td className="py-3 pr-4 text-gray-500">{upload.mimeType ?? '—'}</td>
+                {uploadTree(uploads).map(({ upload, depth }) => (
+                  <tr key={upload.id} className={`border-b last:border-0 ${depth > 0 ? 'bg-gray-50' : ''}`}>
+                    <td className="py-3 pr-4" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                      <span className="font-medium text-gray-800">
+                        {depth > 0 && <span className="text-gray-400 mr-1">↳</span>}
+                        {upload.filename}
+                      </span>
+                      <ContainerInfo upload={upload} />
+                    </td>
+                    <td className="py-3 pr-4 text-gray-500">
+                      {upload.meta?.container ? DOC_TYPE_LABELS[upload.docType ?? ''] ?? upload.docType : upload.mimeType ?? '—'}
+                    </td>
                     <td className="py-3 pr-4">
                       <span className={`px-2 py-0.5 rounded text-xs font-medium ${
                         upload.status === 'parsed' ? 'bg-green-100 text-green-700' :
@@ -174,6 +188,7 @@ export const ProjectDetailPage: React.FC = () => {
                       }`}>
                         {upload.status}
                       </span>
+                      {liveEvents[upload.id] && <StageBadge event={liveEvents[upload.id]} />}
                     </td>
                     <td className="py-3 flex gap-3 items-center">
                       {upload.status === 'needs_review' && (
@@ -206,7 +221,1035 @@ export const ProjectDetailPage: React.FC = () => {
             </table>
           )}
         </div>
+
+        {/* Notes */}
+        <NotesPanel projectId={projectId!} />
       </div>
     </div>
   );
 };
+
+// ---------------------------------------------------------------------------
+// Batch upload — drop zone and per-file queue
+// ---------------------------------------------------------------------------
+
+const MAX_PARALLEL_UPLOADS = 3;
+const MAX_FILE_MB = 500;
+// Larger files go through resumable chunked upload; POST /api/uploads takes up to 10 MB
+const CHUNKED_FROM_MB = 5;
+// ZIP archives and e-mails are unpacked server-side into one upload per document
+const ACCEPTED_EXTENSIONS = ['.pdf', '.xls', '.xlsx', '.csv', '.zip', '.eml', '.msg'];
+
+const DOC_TYPE_LABELS: Record<string, string> = {
+  invoice: 'Rechnung',
+  tariff: 'Tarif',
+  shipment_csv: 'Sendungsliste',
+  diesel_floater: 'Dieselfloater',
+  other: 'Sonstiges',
+  zip_archive: 'ZIP-Archiv',
+  email: 'E-Mail',
+};
+
+type QueueState = 'hashing' | 'duplicate' | 'queued' | 'uploading' | 'uploaded' | 'skipped' | 'error';
+
+interface QueueItem {
+  key: string;
+  file: File;
+  // Type hint chosen when the file was added; 'auto' = server-side detection
+  docType: string;
+  state: QueueState;
+  progress: number;
+  uploadId?: string;
+  error?: string;
+  // Refused before upload (type or size) — retrying cannot help
+  rejected?: boolean;
+  hash?: string;
+  // Existing uploads with the same SHA-256; the user decides before anything is sent
+  duplicates?: DuplicateUpload[];
+  allowDuplicate?: boolean;
+}
+
+const QUEUE_STATE_LABELS: Record<QueueState, string> = {
+  hashing: 'Prüft auf Duplikate',
+  duplicate: 'Duplikat',
+  queued: 'Wartet',
+  uploading: 'Lädt hoch',
+  uploaded: 'Hochgeladen',
+  skipped: 'Übersprungen',
+  error: 'Fehler',
+};
+
+let queueKeySeq = 0;
+
+const UploadQueue: React.FC<{
+  projectId: string;
+  uploads: Upload[];
+  liveEvents: Record<string, UploadStatusEvent>;
+  onUploaded: () => void;
+}> = ({ projectId, uploads, liveEvents, onUploaded }) => {
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [docType, setDocType] = useState<string>('auto');
+  const [dragOver, setDragOver] = useState(false);
+  // Chunked uploads left unfinished, e.g. by a page reload — adding the same file resumes them
+  const [openSessions, setOpenSessions] = useState<UploadSession[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    api.get<UploadSession[]>(`/api/uploads/sessions?project_id=${projectId}`)
+      .then((res) => setOpenSessions(res.data))
+      .catch(() => {});
+  }, [projectId]);
+
+  const handleDiscardSession = async (session: UploadSession) => {
+    try {
+      await api.delete(`/api/uploads/sessions/${session.sessionId}`);
+    } catch (err: unknown) {
+      console.error('Failed to discard upload session', err);
+    }
+    setOpenSessions((prev) => prev.filter((s) => s.sessionId !== session.sessionId));
+  };
+
+  const patchItem = (key: string, patch: Partial<QueueItem>) =>
+    setQueue((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+
+  const addFiles = (files: File[]) => {
+    const items = files.map((file): QueueItem => {
+      const ext = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+      const error = !ACCEPTED_EXTENSIONS.includes(ext)
+        ? 'Dateityp nicht unterstützt'
+        : file.size > MAX_FILE_MB * 1024 * 1024
+          ? `Größer als ${MAX_FILE_MB} MB`
+          : undefined;
+      return {
+        key: `q${++queueKeySeq}`,
+        file,
+        docType,
+        state: error ? 'error' : 'hashing',
+        progress: 0,
+        error,
+        rejected: !!error,
+      };
+    });
+    setQueue((prev) => [...prev, ...items]);
+    checkDuplicates(items.filter((item) => item.state === 'hashing'));
+  };
+
+  const checkDuplicates = async (items: QueueItem[]) => {
+    if (items.length === 0) return;
+    const hashes = new Map<string, string>();
+    for (const item of items) {
+      hashes.set(item.key, await sha256Hex(item.file));
+    }
+    let matches: DuplicateUpload[] = [];
+    try {
+      const res = await api.post<DuplicateUpload[]>('/api/uploads/duplicates', {
+        fileHashes: Array.from(new Set(hashes.values())),
+      });
+      matches = res.data;
+    } catch (err: unknown) {
+      console.error('Duplicate check failed', err);
+    }
+    setQueue((prev) => {
+      const seen = new Set(prev.filter((item) => !hashes.has(item.key) && item.hash && item.state !== 'skipped').map((item) => item.hash));
+      return prev.map((item) => {
+        const hash = hashes.get(item.key);
+        if (!hash) return item;
+        if (seen.has(hash)) {
+          return { ...item, hash, state: 'error', error: 'Bereits in der Warteschlange', rejected: true };
+        }
+        seen.add(hash);
+        const duplicates = matches.filter((m) => m.fileHash === hash);
+        return { ...item, hash, duplicates, state: duplicates.length > 0 ? 'duplicate' : 'queued' };
+      });
+    });
+  };
+
+  const handleSkip = (item: QueueItem) => patchItem(item.key, { state: 'skipped' });
+
+  const handleUploadAnyway = (item: QueueItem) => patchItem(item.key, { state: 'queued', allowDuplicate: true });
+
+  const handleReplace = async (item: QueueItem) => {
+    const existing = item.duplicates ?? [];
+    if (!window.confirm(
+      `${existing.length === 1 ? 'Der vorhandene Upload wird' : `${existing.length} vorhandene Uploads werden`} ` +
+      'samt Sendungen gelöscht und durch diese Datei ersetzt. Fortfahren?',
+    )) return;
+    try {
+      for (const dup of existing) {
+        await api.delete(`/api/uploads/${dup.uploadId}`);
+      }
+      patchItem(item.key, { state: 'queued', duplicates: [] });
+      onUploaded();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      patchItem(item.key, { error: e.response?.data?.detail || 'Löschen des vorhandenen Uploads fehlgeschlagen' });
+    }
+  };
+
+  const postSingle = useCallback(async (item: QueueItem) => {
+    const formData = new FormData();
+    formData.append('file', item.file);
+    formData.append('project_id', projectId);
+    if (item.docType !== 'auto') formData.append('doc_type', item.docType);
+    if (item.allowDuplicate) formData.append('allow_duplicate', 'true');
+    const res = await api.post<UploadCreatedResponse>('/api/uploads', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (e) => {
+        if (e.total) patchItem(item.key, { progress: Math.round((e.loaded / e.total) * 100) });
+      },
+    });
+    return res.data;
+  }, [projectId]);
+
+  const uploadItem = useCallback(async (item: QueueItem) => {
+    const size = item.file.size;
+    try {
+      const created = size > CHUNKED_FROM_MB * 1024 * 1024 && item.hash
+        ? await uploadFileChunked(item.file, {
+            fileHash: item.hash,
+            projectId,
+            docType: item.docType !== 'auto' ? item.docType : undefined,
+            allowDuplicate: item.allowDuplicate,
+            onProgress: (loaded, total) => patchItem(item.key, { progress: Math.round((loaded / total) * 100) }),
+          })
+        : await postSingle(item);
+      patchItem(item.key, { state: 'uploaded', progress: 100, uploadId: created.uploadId });
+      onUploaded();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string; message?: string } } };
+      patchItem(item.key, {
+        state: 'error',
+        error: e.response?.data?.detail || e.response?.data?.message || 'Upload fehlgeschlagen',
+      });
+    }
+  }, [projectId, onUploaded, postSingle]);
+
+  // Start queued files while fewer than MAX_PARALLEL_UPLOADS are in flight
+  useEffect(() => {
+    const running = queue.filter((item) => item.state === 'uploading').length;
+    const next = queue.filter((item) => item.state === 'queued').slice(0, MAX_PARALLEL_UPLOADS - running);
+    if (next.length === 0) return;
+    const keys = new Set(next.map((item) => item.key));
+    setQueue((prev) => prev.map((item) => (keys.has(item.key) ? { ...item, state: 'uploading' } : item)));
+    next.forEach((item) => { uploadItem(item); });
+  }, [queue, uploadItem]);
+
+  const handleRetry = async (item: QueueItem) => {
+    if (!item.uploadId) {
+      patchItem(item.key, { state: 'queued', progress: 0, error: undefined });
+      return;
+    }
+    // Uploaded, but the pipeline failed — run it again on the stored file
+    try {
+      await api.post(`/api/uploads/${item.uploadId}/reprocess`);
+      patchItem(item.key, { error: undefined });
+      onUploaded();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      patchItem(item.key, { error: e.response?.data?.detail || 'Erneute Verarbeitung fehlgeschlagen' });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const finished = queue.filter((item) => ['uploaded', 'skipped', 'error'].includes(item.state)).length;
+  const interrupted = openSessions.filter((session) => !queue.some((item) => item.hash === session.fileHash));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Dateien hochladen</h2>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700">Dokumenttyp</label>
+          <select
+            value={docType}
+            onChange={(e) => setDocType(e.target.value)}
+            className="text-sm border border-gray-300 rounded px-3 py-1.5 text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="auto">Automatisch erkennen</option>
+            <option value="invoice">Rechnung / Invoice</option>
+            <option value="tariff">Tarif / Preisliste</option>
+            <option value="shipment_csv">Sendungsliste (CSV/XLSX)</option>
+          </select>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+          dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <p className="text-gray-700 font-medium">Dateien hierher ziehen oder klicken zum Auswählen</p>
+        <p className="text-gray-500 text-sm mt-1">
+          PDF, Excel, CSV, ZIP, E-Mail (.eml/.msg) — max. {MAX_FILE_MB} MB pro Datei, beliebig viele Dateien
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          onChange={handleSelect}
+          className="hidden"
+        />
+      </div>
+
+      {interrupted.length > 0 && (
+        <div className="mt-4 bg-blue-50 border border-blue-200 rounded p-3 text-xs text-blue-900">
+          <p className="font-medium mb-1">Unterbrochene Uploads — dieselbe Datei erneut hinzufügen, um fortzusetzen:</p>
+          <ul className="space-y-0.5">
+            {interrupted.map((session) => (
+              <li key={session.sessionId} className="flex items-center gap-3">
+                <span>
+                  {session.filename} ({Math.round((session.receivedChunks.length / session.totalChunks) * 100)} % übertragen)
+                </span>
+                <button onClick={() => handleDiscardSession(session)} className="text-blue-700 underline hover:text-blue-900">
+                  Verwerfen
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {queue.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+            <span>{finished} von {queue.length} Dateien abgeschlossen</span>
+            <button
+              onClick={() => setQueue((prev) => prev.filter((item) => !['uploaded', 'skipped', 'error'].includes(item.state)))}
+              disabled={finished === 0}
+              className="text-gray-500 hover:text-gray-700 disabled:opacity-40"
+            >
+              Abgeschlossene ausblenden
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="pb-2 pr-4">Datei</th>
+                <th className="pb-2 pr-4">Upload</th>
+                <th className="pb-2 pr-4">Erkannt als</th>
+                <th className="pb-2 pr-4">Status</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {queue.map((item) => {
+                const upload = item.uploadId ? uploads.find((u) => u.id === item.uploadId) : undefined;
+                const live = item.uploadId ? liveEvents[item.uploadId] : undefined;
+                const status = live?.status ?? upload?.status;
+                const canRetry = (item.state === 'error' && !item.rejected) || status === 'failed';
+                return (
+                  <React.Fragment key={item.key}>
+                    <tr className={item.state === 'duplicate' ? '' : 'border-b last:border-0'}>
+                      <td className="py-2 pr-4 text-gray-800 max-w-xs truncate" title={item.file.name}>{item.file.name}</td>
+                      <td className="py-2 pr-4 w-40">
+                        {item.state === 'uploading' ? (
+                          <div className="flex items-center gap-2">
+                            <div className="w-20 h-1.5 bg-gray-100 rounded overflow-hidden">
+                              <div className="h-full bg-blue-500" style={{ width: `${item.progress}%` }} />
+                            </div>
+                            <span className="text-xs text-gray-500">{item.progress} %</span>
+                          </div>
+                        ) : (
+                          <span className={`text-xs ${item.state === 'error' ? 'text-red-600' : 'text-gray-500'}`} title={item.error}>
+                            {item.state === 'error' ? item.error ?? QUEUE_STATE_LABELS.error : QUEUE_STATE_LABELS[item.state]}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600 text-xs">
+                        {upload?.docType ? DOC_TYPE_LABELS[upload.docType] ?? upload.docType : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-xs">
+                        {status ? (
+                          <span className={status === 'failed' ? 'text-red-600' : 'text-gray-700'}>{status}</span>
+                        ) : '—'}
+                        {live && <StageBadge event={live} />}
+                      </td>
+                      <td className="py-2 text-right">
+                        {canRetry && (
+                          <button onClick={() => handleRetry(item)} className="text-blue-600 hover:text-blue-700 text-xs">
+                            Erneut versuchen
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {item.state === 'duplicate' && (
+                      <tr className="border-b last:border-0">
+                        <td colSpan={5} className="pb-3">
+                          <DuplicateWarning
+                            item={item}
+                            projectId={projectId}
+                            onSkip={() => handleSkip(item)}
+                            onReplace={() => handleReplace(item)}
+                            onUploadAnyway={() => handleUploadAnyway(item)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DuplicateWarning: React.FC<{
+  item: QueueItem;
+  projectId: string;
+  onSkip: () => void;
+  onReplace: () => void;
+  onUploadAnyway: () => void;
+}> = ({ item, projectId, onSkip, onReplace, onUploadAnyway }) => (
+  <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-xs text-yellow-900">
+    <p className="font-medium mb-1">Diese Datei wurde bereits hochgeladen:</p>
+    <ul className="mb-2 space-y-0.5">
+      {(item.duplicates ?? []).map((dup) => (
+        <li key={dup.uploadId}>
+          <Link to={`/uploads/${dup.uploadId}/detail`} className="text-blue-600 hover:underline">{dup.filename}</Link>
+          {' — '}
+          {dup.projectId === projectId
+            ? 'in diesem Projekt'
+            : dup.projectId ? `in Projekt „${dup.projectName ?? dup.projectId}“` : 'ohne Projekt'}
+          {dup.receivedAt && `, am ${new Date(dup.receivedAt).toLocaleDateString('de-DE')}`}
+          {dup.status && ` (${dup.status})`}
+        </li>
+      ))}
+    </ul>
+    <p className="mb-2 text-yellow-800">
+      Ein erneuter Upload verarbeitet die Sendungen ein zweites Mal — Kosten erscheinen dann doppelt in Reports.
+    </p>
+    {item.error && <p className="mb-2 text-red-600">{item.error}</p>}
+    <div className="flex gap-3">
+      <button onClick={onSkip} className="bg-white border border-gray-300 px-3 py-1 rounded hover:bg-gray-50">
+        Überspringen
+      </button>
+      <button onClick={onReplace} className="bg-white border border-gray-300 px-3 py-1 rounded hover:bg-gray-50">
+        Vorhandenen ersetzen
+      </button>
+      <button onClick={onUploadAnyway} className="text-yellow-900 underline hover:text-yellow-700">
+        Trotzdem hochladen
+      </button>
+    </div>
+  </div>
+);
+
+// ---------------------------------------------------------------------------
+// Uploads list — documents unpacked from ZIP archives / e-mails under their container
+// ---------------------------------------------------------------------------
+
+function uploadTree(uploads: Upload[]): { upload: Upload; depth: number }[] {
+  const ids = new Set(uploads.map((u) => u.id));
+  const children = new Map<string, Upload[]>();
+  for (const upload of uploads) {
+    if (upload.parentUploadId && ids.has(upload.parentUploadId)) {
+      children.set(upload.parentUploadId, [...(children.get(upload.parentUploadId) ?? []), upload]);
+    }
+  }
+  const rows: { upload: Upload; depth: number }[] = [];
+  const visit = (upload: Upload, depth: number) => {
+    rows.push({ upload, depth });
+    // Container contents in archive / attachment order
+    const contained = [...(children.get(upload.id) ?? [])].sort((a, b) =>
+      (a.meta?.source?.path ?? a.filename).localeCompare(b.meta?.source?.path ?? b.filename));
+    contained.forEach((child) => visit(child, depth + 1));
+  };
+  uploads
+    .filter((u) => !u.parentUploadId || !ids.has(u.parentUploadId))
+    .forEach((upload) => visit(upload, 0));
+  return rows;
+}
+
+const formatMailDate = (iso: string | null | undefined) => {
+  if (!iso) return null;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const ContainerInfo: React.FC<{ upload: Upload }> = ({ upload }) => {
+  const container = upload.meta?.container;
+  if (container) {
+    const isMail = container.kind !== 'zip';
+    return (
+      <div className="text-xs text-gray-500 mt-0.5 font-normal">
+        {isMail && (
+          <>
+            <span className="text-gray-700">{container.subject || '(kein Betreff)'}</span>
+            {' · '}{container.sender_name || container.sender || 'unbekannter Absender'}
+            {container.date && <> · {formatMailDate(container.date)}</>}
+            {' · '}
+          </>
+        )}
+        {container.file_count} {container.file_count === 1 ? 'Dokument' : 'Dokumente'}
+        {container.skipped_count > 0 && <span className="text-orange-600"> · {container.skipped_count} übersprungen</span>}
+      </div>
+    );
+  }
+  const source = upload.meta?.source;
+  // Show the folder inside a ZIP; attachment names equal the filename
+  if (source && source.path !== upload.filename) {
+    return <div className="text-xs text-gray-400 mt-0.5 font-normal">{source.path}</div>;
+  }
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// Live pipeline stage of an upload in the list
+// ---------------------------------------------------------------------------
+
+const StageBadge: React.FC<{ event: UploadStatusEvent }> = ({ event }) => {
+  if (event.stageIndex == null) {
+    return <span className="ml-2 text-xs text-gray-400">in Warteschlange</span>;
+  }
+  const done = event.stageIndex + 1;
+  return (
+    <span className="ml-2 inline-flex items-center gap-1.5 text-xs text-blue-700" title={event.message ?? undefined}>
+      <span className="inline-block w-12 h-1.5 bg-blue-100 rounded overflow-hidden align-middle">
+        <span className="block h-full bg-blue-500" style={{ width: `${(done / UPLOAD_STAGES.length) * 100}%` }} />
+      </span>
+      {UPLOAD_STAGES[event.stageIndex].label} ({done}/{UPLOAD_STAGES.length})
+    </span>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// KPI dashboard — counts, latest report KPIs, upload status mix
+// ---------------------------------------------------------------------------
+
+// Segments of the upload status bar; needs_manual_review is counted as review
+const UPLOAD_STATUS_SEGMENTS: Array<{ key: string; label: string; statuses: string[]; color: string }> = [
+  { key: 'parsed', label: 'Verarbeitet', statuses: ['parsed'], color: 'bg-green-500' },
+  { key: 'partial_success', label: 'Teilweise', statuses: ['partial_success'], color: 'bg-blue-500' },
+  { key: 'needs_review', label: 'Prüfung nötig', statuses: ['needs_review', 'needs_manual_review'], color: 'bg-yellow-400' },
+  { key: 'failed', label: 'Fehlgeschlagen', statuses: ['failed'], color: 'bg-red-500' },
+];
+
+const KpiTile: React.FC<{ label: string; value: React.ReactNode; sub?: React.ReactNode; to?: string }> = ({ label, value, sub, to }) => {
+  const body = (
+    <>
+      <div className="text-gray-500 text-xs mb-1">{label}</div>
+      <div className="text-2xl font-bold text-gray-900">{value}</div>
+      {sub && <div className="text-xs text-gray-400 mt-0.5">{sub}</div>}
+    </>
+  );
+  return to ? (
+    <Link to={to} className="bg-gray-50 rounded p-4 hover:bg-gray-100 block">{body}</Link>
+  ) : (
+    <div className="bg-gray-50 rounded p-4">{body}</div>
+  );
+};
+
+const KpiDashboard: React.FC<{ stats: ProjectStats; projectId: string }> = ({ stats, projectId }) => {
+  const total = stats.uploadCount;
+  const segments = UPLOAD_STATUS_SEGMENTS.map((seg) => ({
+    ...seg,
+    count: seg.statuses.reduce((sum, st) => sum + (stats.uploadStatusCounts[st] ?? 0), 0),
+  }));
+  const otherCount = total - segments.reduce((sum, seg) => sum + seg.count, 0);
+  const pct = (n: number) => (total > 0 ? (n / total) * 100 : 0);
+  const reportLink = stats.latestReportId ? `/projects/${projectId}/reports/${stats.latestReportId}` : undefined;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <KpiTile label="Uploads" value={stats.uploadCount.toLocaleString('de-DE')} />
+        <KpiTile
+          label="Sendungen"
+          value={stats.shipmentCount.toLocaleString('de-DE')}
+          to={`/projects/${projectId}/shipments`}
+        />
+        <KpiTile
+          label="Notizen"
+          value={stats.noteCount.toLocaleString('de-DE')}
+          sub={`${stats.openNoteCount} offen`}
+        />
+        <KpiTile
+          label="Reports"
+          value={stats.reportCount.toLocaleString('de-DE')}
+          sub={stats.latestReportVersion != null ? `zuletzt v${stats.latestReportVersion}` : 'noch keiner'}
+          to={stats.reportCount > 0 ? `/projects/${projectId}/reports` : undefined}
+        />
+        <KpiTile
+          label="Einsparpotenzial"
+          value={
+            stats.latestSavingsPotential != null
+              ? `${Number(stats.latestSavingsPotential).toLocaleString('de-DE', { maximumFractionDigits: 0 })} €`
+              : '—'
+          }
+          sub={stats.latestReportVersion != null ? `laut Report v${stats.latestReportVersion}` : undefined}
+          to={reportLink}
+        />
+        <KpiTile
+          label="Überzahlungsquote"
+          value={stats.latestOverpayRate != null ? `${Number(stats.latestOverpayRate).toFixed(1)} %` : '—'}
+          sub={stats.latestReportVersion != null ? `laut Report v${stats.latestReportVersion}` : undefined}
+          to={reportLink}
+        />
+      </div>
+
+      {total > 0 && (
+        <div className="mt-5">
+          <div className="flex h-2.5 rounded overflow-hidden bg-gray-100">
+            {segments.map((seg) => seg.count > 0 && (
+              <div key={seg.key} className={seg.color} style={{ width: `${pct(seg.count)}%` }} title={`${seg.label}: ${seg.count}`} />
+            ))}
+            {otherCount > 0 && (
+              <div className="bg-gray-300" style={{ width: `${pct(otherCount)}%` }} title={`In Arbeit / sonstige: ${otherCount}`} />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+            {segments.map((seg) => (
+              <span key={seg.key} className="flex items-center gap-1">
+                <span className={`inline-block w-2.5 h-2.5 rounded-sm ${seg.color}`} />
+                {seg.label}: {seg.count} ({pct(seg.count).toFixed(0)} %)
+              </span>
+            ))}
+            {otherCount > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-sm bg-gray-300" />
+                In Arbeit / sonstige: {otherCount} ({pct(otherCount).toFixed(0)} %)
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Notes panel — consultant findings per project
+// ---------------------------------------------------------------------------
+
+const NOTE_TYPE_LABELS: Record<string, string> = {
+  data_quality: 'Datenqualität',
+  missing_info: 'Fehlende Info',
+  action_item: 'Aufgabe',
+  clarification: 'Klärung',
+  observation: 'Beobachtung',
+};
+
+const PRIORITY_LABELS: Record<string, string> = {
+  low: 'Niedrig',
+  medium: 'Mittel',
+  high: 'Hoch',
+  critical: 'Kritisch',
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  low: 'bg-gray-100 text-gray-600',
+  medium: 'bg-blue-100 text-blue-700',
+  high: 'bg-orange-100 text-orange-700',
+  critical: 'bg-red-100 text-red-700',
+};
+
+type NoteFilter = 'open' | 'resolved' | 'all';
+
+const isResolved = (n: ConsultantNote) => n.status === 'resolved' || n.status === 'closed';
+
+const fmtDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const NotesPanel: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const [notes, setNotes] = useState<ConsultantNote[]>([]);
+  const [filter, setFilter] = useState<NoteFilter>('open');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ noteType: 'observation', priority: 'medium', content: '' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ noteType: '', priority: '', content: '' });
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get<ConsultantNote[]>(`/api/projects/${projectId}/notes`);
+      setNotes(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Notizen konnten nicht geladen werden');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replaceNote = (updated: ConsultantNote) =>
+    setNotes((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.content.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await api.post<ConsultantNote>(`/api/projects/${projectId}/notes`, {
+        ...form,
+        content: form.content.trim(),
+      });
+      setNotes((prev) => [res.data, ...prev]);
+      setForm((prev) => ({ ...prev, content: '' }));
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Notiz konnte nicht gespeichert werden');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEdit = (note: ConsultantNote) => {
+    setEditingId(note.id);
+    setEditForm({ noteType: note.noteType, priority: note.priority ?? 'medium', content: note.content });
+  };
+
+  const handleSaveEdit = async (note: ConsultantNote) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await api.put<ConsultantNote>(`/api/projects/${projectId}/notes/${note.id}`, editForm);
+      replaceNote(res.data);
+      setEditingId(null);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Notiz konnte nicht gespeichert werden');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async (note: ConsultantNote) => {
+    try {
+      const res = await api.post<ConsultantNote>(`/api/projects/${projectId}/notes/${note.id}/resolve`);
+      replaceNote(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Notiz konnte nicht erledigt werden');
+    }
+  };
+
+  const handleReopen = async (note: ConsultantNote) => {
+    try {
+      const res = await api.put<ConsultantNote>(`/api/projects/${projectId}/notes/${note.id}`, { status: 'open' });
+      replaceNote(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Notiz konnte nicht wieder geöffnet werden');
+    }
+  };
+
+  const openCount = notes.filter((n) => !isResolved(n)).length;
+  const visible = notes.filter((n) =>
+    filter === 'all' ? true : filter === 'resolved' ? isResolved(n) : !isResolved(n)
+  );
+
+  const selectCls = 'text-sm border border-gray-300 rounded px-2 py-1.5 text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Notizen ({openCount} offen)</h2>
+        <div className="flex gap-1 text-sm">
+          {(['open', 'resolved', 'all'] as NoteFilter[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-3 py-1 rounded ${filter === f ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              {f === 'open' ? 'Offen' : f === 'resolved' ? 'Erledigt' : 'Alle'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* New note */}
+      <form onSubmit={handleCreate} className="mb-6 space-y-2">
+        <textarea
+          value={form.content}
+          onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+          maxLength={5000}
+          rows={3}
+          placeholder="Befund, offene Frage oder Aufgabe festhalten…"
+          className="w-full text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex gap-2 items-center">
+          <select value={form.noteType} onChange={(e) => setForm((prev) => ({ ...prev, noteType: e.target.value }))} className={selectCls}>
+            {Object.entries(NOTE_TYPE_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+          </select>
+          <select value={form.priority} onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))} className={selectCls}>
+            {Object.entries(PRIORITY_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+          </select>
+          <button
+            type="submit"
+            disabled={saving || !form.content.trim()}
+            className="ml-auto bg-blue-600 text-white px-4 py-1.5 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Notiz hinzufügen
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="mb-4 text-red-700 text-sm bg-red-50 p-3 rounded">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-gray-500 text-sm">Keine Notizen.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {visible.map((note) => (
+            <li key={note.id} className="py-3">
+              {editingId === note.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editForm.content}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, content: e.target.value }))}
+                    maxLength={5000}
+                    rows={3}
+                    className="w-full text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex gap-2 items-center">
+                    <select value={editForm.noteType} onChange={(e) => setEditForm((prev) => ({ ...prev, noteType: e.target.value }))} className={selectCls}>
+                      {Object.entries(NOTE_TYPE_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+                    </select>
+                    <select value={editForm.priority} onChange={(e) => setEditForm((prev) => ({ ...prev, priority: e.target.value }))} className={selectCls}>
+                      {Object.entries(PRIORITY_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+                    </select>
+                    <button
+                      onClick={() => handleSaveEdit(note)}
+                      disabled={saving || !editForm.content.trim()}
+                      className="ml-auto bg-blue-600 text-white px-3 py-1 rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Speichern
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-500 hover:text-gray-700 text-xs">
+                      Abbrechen
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                      {NOTE_TYPE_LABELS[note.noteType] ?? note.noteType}
+                    </span>
+                    {note.priority && (
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${PRIORITY_COLORS[note.priority] ?? 'bg-gray-100 text-gray-600'}`}>
+                        {PRIORITY_LABELS[note.priority] ?? note.priority}
+                      </span>
+                    )}
+                    {isResolved(note) && (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">Erledigt</span>
+                    )}
+                    <div className="ml-auto flex gap-3">
+                      {!isResolved(note) ? (
+                        <>
+                          <button onClick={() => startEdit(note)} className="text-gray-500 hover:text-gray-700 text-xs">
+                            Bearbeiten
+                          </button>
+                          <button onClick={() => handleResolve(note)} className="text-green-600 hover:text-green-700 text-xs">
+                            Erledigt ✓
+                          </button>
+                        </>
+                      ) : (
+                        <button onClick={() => handleReopen(note)} className="text-gray-500 hover:text-gray-700 text-xs">
+                          Wieder öffnen
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <p className={`text-sm whitespace-pre-wrap ${isResolved(note) ? 'text-gray-500' : 'text-gray-800'}`}>
+                    {note.content}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {note.createdByName ?? 'Unbekannt'} · {fmtDateTime(note.createdAt)}
+                    {note.resolvedAt && ` · erledigt ${fmtDateTime(note.resolvedAt)}`}
+                  </p>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Report generation dialog — exposes GenerateReportOptions
+// ---------------------------------------------------------------------------
+
+const REPORT_TYPE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'quick_check', label: 'Quick Check' },
+  { value: 'deep_dive', label: 'Deep Dive' },
+  { value: 'final', label: 'Final' },
+];
+
+const GenerateReportDialog: React.FC<{
+  project: Project;
+  onClose: () => void;
+  onGenerated: (report: Report) => void;
+}> = ({ project, onClose, onGenerated }) => {
+  const [reportType, setReportType] = useState(project.phase ?? 'quick_check');
+  const [title, setTitle] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [carriers, setCarriers] = useState<CarrierOption[]>([]);
+  const [carrierIds, setCarrierIds] = useState<string[]>([]);
+  const [includeTopOverpays, setIncludeTopOverpays] = useState(true);
+  const [topOverpaysLimit, setTopOverpaysLimit] = useState(10);
+  const [notes, setNotes] = useState('');
+  const [generating, setGenerating] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get<CarrierOption[]>('/api/carriers').then((res) => setCarriers(res.data)).catch(() => {});
+  }, []);
+
+  // Generation is a single synchronous request — show elapsed time while it runs
+  useEffect(() => {
+    if (!generating) return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [generating]);
+
+  const toggleCarrier = (id: string) =>
+    setCarrierIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      setError('Das Startdatum liegt nach dem Enddatum.');
+      return;
+    }
+    setGenerating(true);
+    setError(null);
+    try {
+      const res = await api.post<Report>(`/api/reports/generate?projectId=${project.id}`, {
+        reportType,
+        title: title.trim() || null,
+        dateFrom: dateFrom || null,
+        dateTo: dateTo || null,
+        carrierIds: carrierIds.length > 0 ? carrierIds : null,
+        includeTopOverpays,
+        topOverpaysLimit,
+        notes: notes.trim() || null,
+      });
+      onGenerated(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Report konnte nicht erstellt werden');
+      setGenerating(false);
+    }
+  };
+
+  const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Report erstellen</h2>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Report-Typ</label>
+            <select value={reportType} onChange={(e) => setReportType(e.target.value)} disabled={generating} className={inputCls}>
+              {REPORT_TYPE_OPTIONS.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Titel</label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={255}
+              placeholder="automatisch"
+              disabled={generating}
+              className={inputCls}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sendungen ab</label>
+            <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} disabled={generating} className={inputCls} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sendungen bis</label>
+            <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} disabled={generating} className={inputCls} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Spediteure {carrierIds.length > 0 ? `(${carrierIds.length} ausgewählt)` : '(alle)'}
+          </label>
+          <div className="max-h-36 overflow-y-auto border border-gray-300 rounded divide-y divide-gray-100">
+            {carriers.map((c) => (
+              <label key={c.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                <input type="checkbox" checked={carrierIds.includes(c.id)} onChange={() => toggleCarrier(c.id)} disabled={generating} />
+                {c.name}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={includeTopOverpays} onChange={(e) => setIncludeTopOverpays(e.target.checked)} disabled={generating} />
+            Top-Überzahlungen aufnehmen
+          </label>
+          {includeTopOverpays && (
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={topOverpaysLimit}
+              onChange={(e) => setTopOverpaysLimit(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={generating}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notizen</label>
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} disabled={generating} className={inputCls} />
+        </div>
+
+        {error && <p className="text-red-700 text-sm bg-red-50 p-3 rounded">{error}</p>}
+
+        {generating && (
+          <div>
+            <div className="h-1.5 bg-blue-100 rounded overflow-hidden">
+              <div className="h-full w-1/3 bg-blue-600 rounded animate-pulse" />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Sendungen werden aggregiert… ({elapsed} s)</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button type="button" onClick={onClose} disabled={generating} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50">
+            Abbrechen
+          </button>
+          <button type="submit" disabled={generating} className="bg-blue-600 text-white px-4 py-2 rounded text-sm hover:bg-blue-700 disabled:opacity-50">
+            {generating ? 'Wird erstellt…' : 'Report erstellen'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
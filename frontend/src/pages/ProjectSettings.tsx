@@ -0,0 +1,286 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { api } from '../api';
+import type { Project, ProjectStats } from '../types';
+
+// ---------------------------------------------------------------------------
+// Lifecycle — mirrors _PHASE_TRANSITIONS / _STATUS_TRANSITIONS in routers/projects.py
+// ---------------------------------------------------------------------------
+
+const PHASE_LABELS: Record<string, string> = {
+  quick_check: 'Quick Check',
+  deep_dive: 'Deep Dive',
+  final: 'Final',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Entwurf',
+  in_progress: 'In Bearbeitung',
+  review: 'Review',
+  done: 'Abgeschlossen',
+};
+
+const PHASE_TRANSITIONS: Record<string, string[]> = {
+  quick_check: ['deep_dive'],
+  deep_dive: ['final'],
+  final: [],
+};
+
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  draft: ['in_progress'],
+  in_progress: ['review'],
+  review: ['in_progress', 'done'],
+  done: [],
+};
+
+// Legacy rows with unknown values may move to any known value (same rule as the backend)
+const nextSteps = (current: string | null, transitions: Record<string, string[]>) =>
+  current && current in transitions ? transitions[current] : Object.keys(transitions);
+
+export const ProjectSettingsPage: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+
+  const [project, setProject] = useState<Project | null>(null);
+  const [stats, setStats] = useState<ProjectStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [metadataText, setMetadataText] = useState('{}');
+  const [metadataError, setMetadataError] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [projectRes, statsRes] = await Promise.all([
+        api.get<Project>(`/api/projects/${projectId}`),
+        api.get<ProjectStats>(`/api/projects/${projectId}/stats`),
+      ]);
+      setProject(projectRes.data);
+      setStats(statsRes.data);
+      setName(projectRes.data.name);
+      setCustomerName(projectRes.data.customerName ?? '');
+      setMetadataText(JSON.stringify(projectRes.data.metadata ?? {}, null, 2));
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Projekt konnte nicht geladen werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const update = async (body: Record<string, unknown>, message: string) => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await api.put<Project>(`/api/projects/${projectId}`, body);
+      setProject(res.data);
+      setSuccess(message);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Speichern fehlgeschlagen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let metadata: Record<string, unknown>;
+    try {
+      const parsed: unknown = JSON.parse(metadataText || '{}');
+      if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        setMetadataError('Metadaten müssen ein JSON-Objekt sein');
+        return;
+      }
+      metadata = parsed as Record<string, unknown>;
+    } catch {
+      setMetadataError('Ungültiges JSON');
+      return;
+    }
+    setMetadataError(null);
+    await update({ name: name.trim(), customerName: customerName.trim(), metadata }, 'Projekt gespeichert.');
+  };
+
+  const handleDelete = async () => {
+    if (!project || deleteConfirm !== project.name) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await api.delete(`/api/projects/${projectId}`, { params: { confirmName: deleteConfirm } });
+      navigate('/projects');
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Löschen fehlgeschlagen');
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen text-gray-600">Laden...</div>;
+  }
+
+  if (!project) {
+    return <div className="flex items-center justify-center min-h-screen text-red-600">{error ?? 'Projekt nicht gefunden'}</div>;
+  }
+
+  const inputCls = 'w-full px-4 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <div className="mb-6">
+          <button onClick={() => navigate(`/projects/${projectId}`)} className="text-blue-600 hover:text-blue-700 mb-4 block">
+            ← Zurück zum Projekt
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Projekteinstellungen</h1>
+          <p className="text-gray-500 mt-1">{project.name}</p>
+        </div>
+
+        {error && <p className="mb-4 text-red-700 text-sm bg-red-50 p-3 rounded">{error}</p>}
+        {success && <p className="mb-4 text-green-700 text-sm bg-green-50 p-3 rounded">{success}</p>}
+
+        {/* Details */}
+        <form onSubmit={handleSaveDetails} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">Stammdaten</h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Projektname *</label>
+            <input required maxLength={255} value={name} onChange={(e) => setName(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Kunde</label>
+            <input maxLength={255} value={customerName} onChange={(e) => setCustomerName(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Metadaten (JSON)</label>
+            <textarea
+              value={metadataText}
+              onChange={(e) => setMetadataText(e.target.value)}
+              rows={6}
+              className={`${inputCls} font-mono text-xs`}
+            />
+            {metadataError && <p className="text-red-600 text-xs mt-1">{metadataError}</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Speichern
+          </button>
+        </form>
+
+        {/* Lifecycle */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Phase & Status</h2>
+          <LifecycleRow
+            label="Phase"
+            current={project.phase}
+            labels={PHASE_LABELS}
+            next={nextSteps(project.phase, PHASE_TRANSITIONS)}
+            disabled={saving}
+            onMove={(phase) => update({ phase }, `Phase auf "${PHASE_LABELS[phase]}" gesetzt.`)}
+          />
+          <LifecycleRow
+            label="Status"
+            current={project.status}
+            labels={STATUS_LABELS}
+            next={nextSteps(project.status, STATUS_TRANSITIONS)}
+            disabled={saving}
+            onMove={(status) => update({ status }, `Status auf "${STATUS_LABELS[status]}" gesetzt.`)}
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            Die Phase „Final“ setzt voraus, dass alle{' '}
+            <Link to={`/projects/${projectId}/consistency`} className="text-blue-600 hover:text-blue-700">
+              Konsistenzbefunde
+            </Link>{' '}
+            akzeptiert oder behoben sind.
+          </p>
+        </div>
+
+        {/* Danger zone */}
+        <div className="bg-white rounded-lg shadow p-6 border border-red-200">
+          <h2 className="text-xl font-semibold text-red-700 mb-2">Projekt löschen</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Das Projekt wird archiviert und ist danach nicht mehr erreichbar – ebenso wie folgende Daten:
+          </p>
+          <ul className="text-sm text-gray-700 mb-4 list-disc list-inside">
+            <li>{stats?.uploadCount ?? 0} Uploads</li>
+            <li>{stats?.shipmentCount ?? 0} Sendungen</li>
+            <li>{stats?.reportCount ?? 0} Reports</li>
+            <li>{stats?.noteCount ?? 0} Notizen</li>
+          </ul>
+          <label className="block text-sm text-gray-700 mb-1">
+            Zur Bestätigung den Projektnamen <span className="font-mono font-semibold">{project.name}</span> eingeben:
+          </label>
+          <div className="flex gap-3">
+            <input value={deleteConfirm} onChange={(e) => setDeleteConfirm(e.target.value)} className={inputCls} />
+            <button
+              onClick={handleDelete}
+              disabled={saving || deleteConfirm !== project.name}
+              className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:opacity-50 whitespace-nowrap"
+            >
+              Endgültig löschen
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Lifecycle row — current value plus one button per allowed next step
+// ---------------------------------------------------------------------------
+
+const LifecycleRow: React.FC<{
+  label: string;
+  current: string | null;
+  labels: Record<string, string>;
+  next: string[];
+  disabled: boolean;
+  onMove: (value: string) => void;
+}> = ({ label, current, labels, next, disabled, onMove }) => {
+  const order = Object.keys(labels);
+  return (
+    <div className="mb-4 last:mb-0">
+      <div className="text-sm text-gray-500 mb-2">{label}</div>
+      <div className="flex items-center gap-2 flex-wrap">
+        {order.map((value, i) => (
+          <React.Fragment key={value}>
+            {i > 0 && <span className="text-gray-300">→</span>}
+            <span className={`px-2 py-1 rounded text-sm ${
+              value === current ? 'bg-blue-600 text-white font-medium' : 'bg-gray-100 text-gray-500'
+            }`}>
+              {labels[value]}
+            </span>
+          </React.Fragment>
+        ))}
+        <div className="ml-auto flex gap-2">
+          {next.length === 0 ? (
+            <span className="text-xs text-gray-400">Endstand erreicht</span>
+          ) : next.map((value) => (
+            <button
+              key={value}
+              onClick={() => onMove(value)}
+              disabled={disabled}
+              className="text-sm px-3 py-1 border border-blue-600 text-blue-600 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {order.indexOf(value) < order.indexOf(current ?? '') ? '← ' : ''}{labels[value]}{order.indexOf(value) > order.indexOf(current ?? '') ? ' →' : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { api } from '../api';
+import type { CarrierOption, ShipmentPage, ShipmentSummary } from '../types';
+
+// ---------------------------------------------------------------------------
+// Constants & helpers
+// ---------------------------------------------------------------------------
+
+const CLASSIFICATION_LABELS: Record<string, string> = {
+  unter: 'Unter Markt',
+  im_markt: 'Im Markt',
+  'drüber': 'Über Markt',
+};
+
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  unter: 'bg-green-100 text-green-700',
+  im_markt: 'bg-gray-100 text-gray-600',
+  'drüber': 'bg-red-100 text-red-700',
+};
+
+const PAGE_SIZES = [25, 50, 100, 250];
+
+// Filter keys mirror the backend query parameters 1:1 so the URL can be passed through.
+const FILTER_KEYS = [
+  'carrier_id',
+  'date_from',
+  'date_to',
+  'origin_country',
+  'origin_zip_prefix',
+  'dest_country',
+  'dest_zip_prefix',
+  'classification',
+  'min_completeness',
+  'max_completeness',
+] as const;
+
+type FilterKey = typeof FILTER_KEYS[number];
+
+function fmt(value: number | string | null | undefined, decimals = 2): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return Number(value).toLocaleString('de-DE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+function fmtDate(value: string | null | undefined): string {
+  return value ? value.split('-').reverse().join('.') : '—';
+}
+
+// ---------------------------------------------------------------------------
+// Sortable column header
+// ---------------------------------------------------------------------------
+
+const SortHeader: React.FC<{
+  label: string;
+  field: string;
+  sortBy: string;
+  sortDir: string;
+  onSort: (field: string) => void;
+  align?: 'left' | 'right';
+}> = ({ label, field, sortBy, sortDir, onSort, align = 'left' }) => (
+  <th className={`pb-2 pr-3 ${align === 'right' ? 'text-right' : ''}`}>
+    <button
+      onClick={() => onSort(field)}
+      className={`hover:text-gray-800 ${sortBy === field ? 'text-gray-800 font-semibold' : ''}`}
+    >
+      {label}
+      {sortBy === field && (sortDir === 'asc' ? ' ▲' : ' ▼')}
+    </button>
+  </th>
+);
+
+// ---------------------------------------------------------------------------
+// Main page
+// ---------------------------------------------------------------------------
+
+export const ProjectShipmentsPage: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [data, setData] = useState<ShipmentPage | null>(null);
+  const [carriers, setCarriers] = useState<CarrierOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draft filter values — applied to the URL on submit so typing doesn't fire a request per keystroke
+  const [draft, setDraft] = useState<Record<FilterKey, string>>(() =>
+    Object.fromEntries(FILTER_KEYS.map((k) => [k, searchParams.get(k) ?? ''])) as Record<FilterKey, string>
+  );
+
+  const page = Number(searchParams.get('page') ?? '1');
+  const pageSize = Number(searchParams.get('page_size') ?? '50');
+  const sortBy = searchParams.get('sort_by') ?? 'date';
+  const sortDir = searchParams.get('sort_dir') ?? 'desc';
+
+  const carrierName = (id: string | null | undefined) =>
+    carriers.find((c) => c.id === id)?.name ?? '—';
+
+  useEffect(() => {
+    api.get<CarrierOption[]>('/api/carriers')
+      .then((res) => setCarriers(res.data))
+      .catch(() => setCarriers([]));
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams(searchParams);
+      if (!params.has('page_size')) params.set('page_size', '50');
+      const res = await api.get<ShipmentPage>(`/api/projects/${projectId}/shipments?${params.toString()}`);
+      setData(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Sendungen konnten nicht geladen werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, searchParams]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null || value === '') next.delete(key);
+      else next.set(key, value);
+    }
+    setSearchParams(next);
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ ...draft, page: null });
+  };
+
+  const handleResetFilters = () => {
+    setDraft(Object.fromEntries(FILTER_KEYS.map((k) => [k, ''])) as Record<FilterKey, string>);
+    updateParams({ ...Object.fromEntries(FILTER_KEYS.map((k) => [k, null])), page: null });
+  };
+
+  const handleSort = (field: string) => {
+    const dir = sortBy === field && sortDir === 'desc' ? 'asc' : 'desc';
+    updateParams({ sort_by: field, sort_dir: dir, page: null });
+  };
+
+  const setField = (key: FilterKey) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const inputCls = 'border border-gray-300 rounded px-2 py-1.5 text-sm w-full focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const sortProps = { sortBy, sortDir, onSort: handleSort };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4 max-w-7xl">
+        <div className="mb-6">
+          <button onClick={() => navigate(`/projects/${projectId}`)} className="text-blue-600 hover:text-blue-700 mb-4 block">
+            ← Zurück zum Projekt
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Sendungen</h1>
+          {data && (
+            <p className="text-gray-500 mt-1">{data.total.toLocaleString('de-DE')} Sendungen gefunden</p>
+          )}
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleApplyFilters} className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Spediteur</label>
+              <select value={draft.carrier_id} onChange={setField('carrier_id')} className={inputCls}>
+                <option value="">Alle</option>
+                {carriers.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Datum von</label>
+              <input type="date" value={draft.date_from} onChange={setField('date_from')} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Datum bis</label>
+              <input type="date" value={draft.date_to} onChange={setField('date_to')} className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Bewertung</label>
+              <select value={draft.classification} onChange={setField('classification')} className={inputCls}>
+                <option value="">Alle</option>
+                {Object.entries(CLASSIFICATION_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Vollständigkeit (%)</label>
+              <div className="flex gap-1 items-center">
+                <select value={draft.min_completeness} onChange={setField('min_completeness')} className={inputCls}>
+                  <option value="">min</option>
+                  {[0.5, 0.7, 0.9, 1].map((v) => <option key={v} value={v}>≥ {v * 100}</option>)}
+                </select>
+                <select value={draft.max_completeness} onChange={setField('max_completeness')} className={inputCls}>
+                  <option value="">max</option>
+                  {[0.5, 0.7, 0.9].map((v) => <option key={v} value={v}>≤ {v * 100}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Von Land</label>
+              <input value={draft.origin_country} onChange={setField('origin_country')} maxLength={2} placeholder="DE" className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Von PLZ beginnt mit</label>
+              <input value={draft.origin_zip_prefix} onChange={setField('origin_zip_prefix')} maxLength={10} placeholder="z.B. 42" className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Nach Land</label>
+              <input value={draft.dest_country} onChange={setField('dest_country')} maxLength={2} placeholder="DE" className={inputCls} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Nach PLZ beginnt mit</label>
+              <input value={draft.dest_zip_prefix} onChange={setField('dest_zip_prefix')} maxLength={10} placeholder="z.B. 8" className={inputCls} />
+            </div>
+            <div className="flex gap-2 items-end">
+              <button type="submit" className="bg-blue-600 text-white px-4 py-1.5 rounded text-sm hover:bg-blue-700">
+                Filtern
+              </button>
+              <button type="button" onClick={handleResetFilters} className="text-gray-500 hover:text-gray-700 text-sm px-2 py-1.5">
+                Zurücksetzen
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {/* Results */}
+        <div className="bg-white rounded-lg shadow p-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded p-3 mb-4 text-sm text-red-600">{error}</div>
+          )}
+
+          {loading && !data ? (
+            <p className="text-gray-500 text-sm">Laden…</p>
+          ) : !data || data.items.length === 0 ? (
+            <p className="text-gray-500 text-sm">Keine Sendungen für diese Filter.</p>
+          ) : (
+            <div className={`overflow-x-auto ${loading ? 'opacity-50' : ''}`}>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <SortHeader label="Datum" field="date" {...sortProps} />
+                    <SortHeader label="Referenz" field="referenceNumber" {...sortProps} />
+                    <th className="pb-2 pr-3">Spediteur</th>
+                    <SortHeader label="Von" field="originZip" {...sortProps} />
+                    <SortHeader label="Nach" field="destZip" {...sortProps} />
+                    <SortHeader label="Gewicht (kg)" field="weightKg" align="right" {...sortProps} />
+                    <SortHeader label="Ist" field="actualTotalAmount" align="right" {...sortProps} />
+                    <th className="pb-2 pr-3 text-right">Soll</th>
+                    <SortHeader label="Delta" field="deltaAmount" align="right" {...sortProps} />
+                    <SortHeader label="Delta %" field="deltaPct" align="right" {...sortProps} />
+                    <th className="pb-2 pr-3">Bewertung</th>
+                    <SortHeader label="Vollst." field="completenessScore" align="right" {...sortProps} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.items.map((s: ShipmentSummary) => {
+                    const bm = s.benchmark;
+                    const delta = bm?.deltaAmount != null ? Number(bm.deltaAmount) : null;
+                    return (
+                      <tr
+                        key={s.id}
+                        onClick={() => navigate(`/projects/${projectId}/shipments/${s.id}`)}
+                        className="border-b last:border-0 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="py-2 pr-3 whitespace-nowrap">{fmtDate(s.date)}</td>
+                        <td className="py-2 pr-3 font-mono text-xs">{s.referenceNumber ?? '—'}</td>
+                        <td className="py-2 pr-3">{carrierName(s.carrierId)}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{s.originCountry ?? ''} {s.originZip ?? '—'}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{s.destCountry ?? ''} {s.destZip ?? '—'}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{fmt(s.weightKg)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{fmt(s.actualTotalAmount)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{fmt(bm?.expectedTotalAmount)}</td>
+                        <td className={`py-2 pr-3 text-right tabular-nums ${delta == null ? '' : delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {fmt(delta)}
+                        </td>
+                        <td className="py-2 pr-3 text-right tabular-nums">
+                          {bm?.deltaPct != null ? `${fmt(bm.deltaPct, 1)} %` : '—'}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {bm?.classification ? (
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${CLASSIFICATION_COLORS[bm.classification] ?? 'bg-gray-100 text-gray-600'}`}>
+                              {CLASSIFICATION_LABELS[bm.classification] ?? bm.classification}
+                            </span>
+                          ) : '—'}
+                        </td>
+                        <td className="py-2 pr-3 text-right tabular-nums">
+                          {s.completenessScore != null ? `${(Number(s.completenessScore) * 100).toFixed(0)}%` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+              <div className="flex items-center gap-2">
+                <span>Pro Seite</span>
+                <select
+                  value={pageSize}
+                  onChange={(e) => updateParams({ page_size: e.target.value, page: null })}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  {PAGE_SIZES.map((n) => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => updateParams({ page: String(page - 1) })}
+                  disabled={page <= 1 || loading}
+                  className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+                >
+                  ← Zurück
+                </button>
+                <span>Seite {data.page} von {data.totalPages}</span>
+                <button
+                  onClick={() => updateParams({ page: String(page + 1) })}
+                  disabled={page >= data.totalPages || loading}
+                  className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40"
+                >
+                  Weiter →
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -65,12 +65,23 @@ export const ProjectsPage: React.FC = () => {
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold text-gray-900">Projects</h1>
-        <Link
-          to="/projects/new"
-          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition"
-        >
-          + New Project
-        </Link>
+        <div className="flex items-center gap-4">
+          <Link to="/settings/carriers" className="text-sm text-gray-600 hover:text-gray-900">
+            Carriers
+          </Link>
+          <Link to="/settings/diesel-floaters" className="text-sm text-gray-600 hover:text-gray-900">
+            Diesel floaters
+          </Link>
+          <Link to="/settings/templates" className="text-sm text-gray-600 hover:text-gray-900">
+            Templates
+          </Link>
+          <Link
+            to="/projects/new"
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 transition"
+          >
+            + New Project
+          </Link>
+        </div>
       </div>
 
       {/* Empty State */}
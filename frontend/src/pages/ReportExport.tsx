@@ -0,0 +1,449 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { api } from '../api';
+import type { Report } from '../types';
+
+/**
+ * ReportExportPage - Client-ready print / PDF version of a report version
+ *
+ * Renders from report.dataSnapshot only (no live statistics), so an old
+ * version always exports the same document. PDF output goes through the
+ * browser's print dialog ("Als PDF speichern") — no fonts, CDNs or export
+ * services involved, so it works offline.
+ *
+ * Layout: cover page, KPIs, carrier breakdown, top overpays, data basis & caveats.
+ */
+export const ReportExportPage: React.FC = () => {
+  const { projectId, reportId } = useParams<{ projectId: string; reportId: string }>();
+  const navigate = useNavigate();
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await api.get<Report>(`/api/reports/${reportId}`);
+      setReport(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Report konnte nicht geladen werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // The browser uses the document title as the suggested PDF file name
+  useEffect(() => {
+    if (!report) return;
+    const previous = document.title;
+    const project = report.dataSnapshot.project?.name ?? 'Report';
+    document.title = `${project} – ${report.title ?? 'Frachtkostenanalyse'} v${report.version}`;
+    return () => {
+      document.title = previous;
+    };
+  }, [report]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-xl text-gray-600">Report wird geladen…</div>
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error || 'Report nicht gefunden'}</p>
+          <button
+            onClick={() => navigate(`/projects/${projectId}/reports`)}
+            className="mt-4 bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600"
+          >
+            Zurück
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const snapshot = report.dataSnapshot;
+  const statistics = snapshot.statistics;
+  // Older snapshots predate dateRange; the report columns are written by the same generate() call
+  const period = snapshot.dateRange ?? {
+    start: report.dateRangeStart ?? null,
+    end: report.dateRangeEnd ?? null,
+  };
+  const caveats = buildCaveats(report);
+
+  return (
+    <div className="report-print bg-gray-100 print:bg-white min-h-screen">
+      {/* Toolbar — not part of the document */}
+      <div className="print:hidden sticky top-0 z-10 bg-white border-b shadow-sm">
+        <div className="max-w-[210mm] mx-auto px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={() => navigate(`/projects/${projectId}/reports/${report.id}`)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            ← Zurück zum Report
+          </button>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500">
+              Im Druckdialog „Als PDF speichern“ wählen
+            </span>
+            <button
+              onClick={() => window.print()}
+              className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 text-sm"
+            >
+              Drucken / PDF
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-[210mm] mx-auto my-6 print:my-0 space-y-6 print:space-y-0">
+        {/* Cover */}
+        <Sheet className="break-after-page flex flex-col justify-between min-h-[260mm] print:min-h-[250mm]">
+          <div>
+            <div className="text-sm uppercase tracking-widest text-blue-700 font-semibold">
+              Frachtkostenanalyse
+            </div>
+            <h1 className="text-4xl font-bold text-gray-900 mt-4">
+              {report.title ?? `Report v${report.version}`}
+            </h1>
+            <p className="text-xl text-gray-600 mt-2">{snapshot.project?.name}</p>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm border-t pt-6">
+            <CoverField label="Berichtsart" value={REPORT_TYPE_LABELS[report.reportType] ?? report.reportType} />
+            <CoverField label="Version" value={`v${report.version}`} />
+            <CoverField label="Datenzeitraum" value={formatPeriod(period.start, period.end)} />
+            <CoverField label="Stand" value={formatDateTime(snapshot.generatedAt ?? report.generatedAt)} />
+            <CoverField label="Sendungen" value={formatInt(statistics?.totalShipments)} />
+            <CoverField label="Datenvollständigkeit" value={formatPct(snapshot.dataCompleteness * 100, 0)} />
+            {snapshot.scope && <CoverField label="Einschränkung" value={describeScope(snapshot.scope)} />}
+            {snapshot.notes && <CoverField label="Anmerkung" value={snapshot.notes} />}
+          </dl>
+        </Sheet>
+
+        {/* KPIs */}
+        <Sheet>
+          <SectionTitle number={1} title="Kennzahlen" />
+          <div className="grid grid-cols-2 gap-3">
+            <Kpi label="Ist-Kosten" value={formatEur(statistics?.totalActualCost)} />
+            <Kpi label="Soll-Kosten (Tarif)" value={formatEur(statistics?.totalExpectedCost)} />
+            <Kpi
+              label="Einsparpotenzial"
+              value={formatEur(statistics?.totalSavingsPotential)}
+              tone="green"
+            />
+            <Kpi label="Überzahlungsquote" value={formatPct(statistics?.overpayRate, 1)} tone="red" />
+          </div>
+          <div className="grid grid-cols-4 gap-3 mt-3">
+            <Kpi small label="Sendungen" value={formatInt(statistics?.totalShipments)} />
+            <Kpi small label="Tarifgeprüft" value={formatInt(statistics?.benchmarkedShipments)} />
+            <Kpi small label="Vollständig" value={formatInt(statistics?.completeShipments)} />
+            <Kpi small label="Carrier" value={formatInt(statistics?.carriers.length)} />
+          </div>
+
+          {/* Carrier breakdown */}
+          <div className="mt-8 break-inside-avoid">
+            <SectionTitle number={2} title="Auswertung nach Carrier" />
+            {!statistics || statistics.carriers.length === 0 ? (
+              <p className="text-sm text-gray-500">Keine Carrier-Daten im Snapshot.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-300 text-gray-700">
+                    <th className="text-left py-2 pr-2">Carrier</th>
+                    <th className="text-right py-2 px-2">Sendungen</th>
+                    <th className="text-right py-2 px-2">Ist</th>
+                    <th className="text-right py-2 px-2">Soll</th>
+                    <th className="text-right py-2 px-2">Differenz</th>
+                    <th className="text-right py-2 px-2">Ø Abw.</th>
+                    <th className="text-right py-2 pl-2">Überzahlt</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {statistics.carriers.map((c) => (
+                    <tr key={c.carrierId} className="border-b border-gray-200 break-inside-avoid">
+                      <td className="py-1.5 pr-2 font-medium text-gray-900">{c.carrierName}</td>
+                      <td className="text-right py-1.5 px-2">{formatInt(c.shipmentCount)}</td>
+                      <td className="text-right py-1.5 px-2">{formatEur(c.totalActualCost)}</td>
+                      <td className="text-right py-1.5 px-2">{formatEur(c.totalExpectedCost)}</td>
+                      <td
+                        className={`text-right py-1.5 px-2 font-medium ${
+                          c.totalDelta > 0 ? 'text-red-700' : 'text-green-700'
+                        }`}
+                      >
+                        {formatEur(c.totalDelta)}
+                      </td>
+                      <td className="text-right py-1.5 px-2">
+                        {c.avgDeltaPct > 0 ? '+' : ''}
+                        {formatPct(c.avgDeltaPct, 1)}
+                      </td>
+                      <td className="text-right py-1.5 pl-2">{formatInt(c.overpayCount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-gray-300 font-semibold text-gray-900">
+                    <td className="py-2 pr-2">Gesamt</td>
+                    <td className="text-right py-2 px-2">{formatInt(statistics.totalShipments)}</td>
+                    <td className="text-right py-2 px-2">{formatEur(statistics.totalActualCost)}</td>
+                    <td className="text-right py-2 px-2">{formatEur(statistics.totalExpectedCost)}</td>
+                    <td className="text-right py-2 px-2">{formatEur(statistics.totalSavingsPotential)}</td>
+                    <td />
+                    <td />
+                  </tr>
+                </tfoot>
+              </table>
+            )}
+          </div>
+        </Sheet>
+
+        {/* Top overpays */}
+        <Sheet className="break-before-page">
+          <SectionTitle number={3} title="Größte Überzahlungen" />
+          {!snapshot.topOverpays ? (
+            <p className="text-sm text-gray-500">
+              Diese Version wurde ohne Top-Überzahlungen erstellt.
+            </p>
+          ) : snapshot.topOverpays.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine überzahlten Sendungen gefunden.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-gray-300 text-gray-700">
+                  <th className="text-left py-2 pr-2">#</th>
+                  <th className="text-left py-2 px-2">Datum</th>
+                  <th className="text-left py-2 px-2">Carrier</th>
+                  <th className="text-left py-2 px-2">Relation</th>
+                  <th className="text-right py-2 px-2">Ist</th>
+                  <th className="text-right py-2 px-2">Soll</th>
+                  <th className="text-right py-2 px-2">Differenz</th>
+                  <th className="text-right py-2 pl-2">%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {snapshot.topOverpays.map((o, i) => (
+                  <tr key={o.shipmentId} className="border-b border-gray-200 break-inside-avoid">
+                    <td className="py-1.5 pr-2 text-gray-500">{i + 1}</td>
+                    <td className="py-1.5 px-2">{formatDate(o.date)}</td>
+                    <td className="py-1.5 px-2">{o.carrier ?? '—'}</td>
+                    <td className="py-1.5 px-2">
+                      {o.originZip ?? '—'} → {o.destZip ?? '—'}
+                    </td>
+                    <td className="text-right py-1.5 px-2">{formatEur(o.actualCost)}</td>
+                    <td className="text-right py-1.5 px-2">{formatEur(o.expectedCost)}</td>
+                    <td className="text-right py-1.5 px-2 font-medium text-red-700">
+                      {formatEur(o.delta)}
+                    </td>
+                    <td className="text-right py-1.5 pl-2">+{formatPct(o.deltaPct, 1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Data basis & caveats */}
+          <div className="mt-8 break-inside-avoid">
+            <SectionTitle number={4} title="Datenbasis und Hinweise" />
+            <dl className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mb-4">
+              <CoverField label="Datenzeitraum" value={formatPeriod(period.start, period.end)} />
+              <CoverField label="Datenvollständigkeit" value={formatPct(snapshot.dataCompleteness * 100, 0)} />
+              <CoverField
+                label="Sendungen vollständig / teilweise / lückenhaft"
+                value={`${formatInt(statistics?.completeShipments)} / ${formatInt(
+                  statistics?.partialShipments
+                )} / ${formatInt(statistics?.missingShipments)}`}
+              />
+              <CoverField
+                label="Tarifgeprüfte Sendungen"
+                value={`${formatInt(statistics?.benchmarkedShipments)} von ${formatInt(
+                  statistics?.totalShipments
+                )}`}
+              />
+            </dl>
+            {caveats.length > 0 ? (
+              <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                {caveats.map((c, i) => (
+                  <li key={i}>{c}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-700">
+                Keine Einschränkungen der Datenbasis festgestellt.
+              </p>
+            )}
+          </div>
+
+          <p className="mt-10 text-xs text-gray-400 border-t pt-3">
+            {snapshot.project?.name} · {report.title ?? `Report v${report.version}`} · Version{' '}
+            {report.version} · Stand {formatDateTime(snapshot.generatedAt ?? report.generatedAt)}
+          </p>
+        </Sheet>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Formatting — fixed locale / time zone so an export looks the same on every machine
+// ---------------------------------------------------------------------------
+
+const REPORT_TYPE_LABELS: Record<string, string> = {
+  quick_check: 'Quick Check',
+  deep_dive: 'Deep Dive',
+  final: 'Abschlussbericht',
+};
+
+const EUR = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' });
+const INT = new Intl.NumberFormat('de-DE', { maximumFractionDigits: 0 });
+
+function formatEur(value: number | null | undefined): string {
+  return value == null ? '—' : EUR.format(value);
+}
+
+function formatInt(value: number | null | undefined): string {
+  return value == null ? '—' : INT.format(value);
+}
+
+function formatPct(value: number | null | undefined, digits: number): string {
+  if (value == null || Number.isNaN(value)) return '—';
+  return `${value.toLocaleString('de-DE', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  })} %`;
+}
+
+// Date-only values are stored as YYYY-MM-DD (UTC midnight when parsed)
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString('de-DE', { timeZone: 'UTC' });
+}
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleString('de-DE', {
+    timeZone: 'Europe/Berlin',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function formatPeriod(start: string | null, end: string | null): string {
+  if (!start && !end) return 'nicht erfasst';
+  return `${formatDate(start)} – ${formatDate(end)}`;
+}
+
+function describeScope(scope: NonNullable<Report['dataSnapshot']['scope']>): string {
+  const parts: string[] = [];
+  if (scope.dateFrom || scope.dateTo) {
+    parts.push(`Sendungen ${formatPeriod(scope.dateFrom, scope.dateTo)}`);
+  }
+  if (scope.carrierIds.length > 0) {
+    parts.push(`${scope.carrierIds.length} ausgewählte Carrier`);
+  }
+  return parts.join(', ');
+}
+
+/** Data-quality caveats a reader of the document needs to weigh the figures. */
+function buildCaveats(report: Report): string[] {
+  const snapshot = report.dataSnapshot;
+  const statistics = snapshot.statistics;
+  const caveats: string[] = [];
+  if (!statistics) return caveats;
+
+  const total = statistics.totalShipments;
+  if (total === 0) {
+    caveats.push('Der Report enthält keine Sendungen.');
+    return caveats;
+  }
+
+  const unbenchmarked = total - statistics.benchmarkedShipments;
+  if (unbenchmarked > 0) {
+    caveats.push(
+      `${formatInt(unbenchmarked)} von ${formatInt(total)} Sendungen (${formatPct(
+        (unbenchmarked / total) * 100,
+        0
+      )}) konnten nicht gegen einen Tarif geprüft werden. Soll-Kosten und Einsparpotenzial beziehen sich nur auf die geprüften Sendungen.`
+    );
+  }
+  if (snapshot.dataCompleteness < 0.9) {
+    caveats.push(
+      `Die durchschnittliche Datenvollständigkeit liegt bei ${formatPct(
+        snapshot.dataCompleteness * 100,
+        0
+      )}. Fehlende Angaben (z. B. Gewicht, PLZ, Maut) können die Soll-Berechnung verfälschen.`
+    );
+  }
+  if (statistics.missingShipments > 0) {
+    caveats.push(
+      `${formatInt(statistics.missingShipments)} Sendungen sind lückenhaft erfasst (Vollständigkeit unter 50 %).`
+    );
+  }
+  if (statistics.partialShipments > 0) {
+    caveats.push(
+      `${formatInt(statistics.partialShipments)} Sendungen sind nur teilweise erfasst (Vollständigkeit 50–90 %).`
+    );
+  }
+  if (snapshot.scope) {
+    caveats.push(
+      `Die Auswertung ist eingeschränkt (${describeScope(snapshot.scope)}) und gilt nicht für den gesamten Datenbestand.`
+    );
+  }
+  return caveats;
+}
+
+// ---------------------------------------------------------------------------
+// Layout building blocks
+// ---------------------------------------------------------------------------
+
+const Sheet: React.FC<{ className?: string; children: React.ReactNode }> = ({
+  className = '',
+  children,
+}) => (
+  <section
+    className={`bg-white shadow print:shadow-none p-[14mm] print:p-0 text-gray-900 ${className}`}
+  >
+    {children}
+  </section>
+);
+
+const SectionTitle: React.FC<{ number: number; title: string }> = ({ number, title }) => (
+  <h2 className="text-lg font-semibold text-gray-900 border-b border-gray-300 pb-1 mb-4">
+    {number}. {title}
+  </h2>
+);
+
+const CoverField: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="font-medium text-gray-900">{value}</dd>
+  </div>
+);
+
+const KPI_TONES = {
+  gray: 'bg-gray-50 text-gray-900',
+  green: 'bg-green-50 text-green-700',
+  red: 'bg-red-50 text-red-700',
+};
+
+const Kpi: React.FC<{
+  label: string;
+  value: string;
+  tone?: keyof typeof KPI_TONES;
+  small?: boolean;
+}> = ({ label, value, tone = 'gray', small = false }) => (
+  <div className={`rounded p-3 break-inside-avoid ${KPI_TONES[tone]}`}>
+    <div className="text-xs text-gray-600 mb-1">{label}</div>
+    <div className={small ? 'text-lg font-semibold' : 'text-2xl font-bold'}>{value}</div>
+  </div>
+);
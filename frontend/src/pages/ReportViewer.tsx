@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { api } from '../api';
-import type { Report } from '../types';
+import type { MetricDelta, Report, ReportComparison, ReportSummary, TopOverpayRef } from '../types';
 
 /**
  * ReportViewerPage - Display Cost Analysis Report (Phase 7.3)
@@ -11,14 +11,21 @@ import type { Report } from '../types';
  * - Carrier-level breakdown
  * - Top overpayment opportunities (quick wins)
  * - Data completeness metrics
+ * - Version sidebar; ?base=&target= switches to a side-by-side compare of two versions
  */
 export const ReportViewerPage: React.FC = () => {
   const { projectId, reportId } = useParams<{ projectId: string; reportId?: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [report, setReport] = useState<Report | null>(null);
+  const [versions, setVersions] = useState<ReportSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const base = Number(searchParams.get('base')) || null;
+  const target = Number(searchParams.get('target')) || null;
+  const compareMode = base !== null && target !== null;
+
   const loadReport = useCallback(async () => {
     try {
       setLoading(true);
@@ -33,8 +40,8 @@ export const ReportViewerPage: React.FC = () => {
 
       setReport(response.data);
     } catch (err: unknown) {
-      const e = err as { response?: { data?: { error?: { message?: string } } } };
-      setError(e.response?.data?.error?.message || 'Failed to load report');
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Failed to load report');
       console.error('Failed to load report:', err);
     } finally {
       setLoading(false);
@@ -42,10 +49,44 @@ export const ReportViewerPage: React.FC = () => {
   }, [projectId, reportId]);
 
   useEffect(() => {
-    if (projectId) {
+    if (projectId && !compareMode) {
       loadReport();
     }
-  }, [projectId, loadReport]);
+  }, [projectId, compareMode, loadReport]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    api.get<ReportSummary[]>(`/api/projects/${projectId}/reports`)
+      .then((res) => setVersions(res.data))
+      .catch((err) => console.error('Failed to load report versions:', err));
+  }, [projectId]);
+
+  const sidebar = (
+    <VersionSidebar
+      versions={versions}
+      activeId={compareMode ? null : report?.id ?? null}
+      base={base}
+      target={target}
+      onOpen={(id) => navigate(`/projects/${projectId}/reports/${id}`)}
+      onCompare={(v1, v2) => setSearchParams({ base: String(v1), target: String(v2) })}
+    />
+  );
+
+  if (compareMode) {
+    return (
+      <div className="container mx-auto p-6 flex gap-6 items-start">
+        {sidebar}
+        <div className="flex-1 min-w-0">
+          <ReportComparisonView
+            projectId={projectId!}
+            base={base}
+            target={target}
+            onExit={() => setSearchParams({})}
+          />
+        </div>
+      </div>
+    );
+  }
 
   if (loading) {
     return (
@@ -57,8 +98,9 @@ export const ReportViewerPage: React.FC = () => {
 
   if (error || !report) {
     return (
-      <div className="container mx-auto p-6">
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+      <div className="container mx-auto p-6 flex gap-6 items-start">
+        {sidebar}
+        <div className="flex-1 bg-red-50 border border-red-200 rounded-lg p-4">
           <h2 className="text-red-800 font-semibold mb-2">Error Loading Report</h2>
           <p className="text-red-600">{error || 'Report not found'}</p>
           <div className="flex gap-2 mt-4">
@@ -84,195 +126,535 @@ export const ReportViewerPage: React.FC = () => {
   const statistics = dataSnapshot?.statistics;
 
   return (
-    <div className="container mx-auto p-6">
-      {/* Header */}
-      <div className="mb-6">
-        <div className="flex justify-between items-start">
-          <div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">
-              {report.title}
-            </h1>
-            <p className="text-gray-600">
-              Version {report.version} • Generated{' '}
-              {report.generatedAt ? new Date(report.generatedAt).toLocaleDateString() : '—'} at{' '}
-              {report.generatedAt ? new Date(report.generatedAt).toLocaleTimeString() : '—'}
-            </p>
-            {report.dateRangeStart && report.dateRangeEnd && (
+    <div className="container mx-auto p-6 flex gap-6 items-start">
+      {sidebar}
+      <div className="flex-1 min-w-0">
+        {/* Header */}
+        <div className="mb-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                {report.title}
+              </h1>
               <p className="text-gray-600">
-                Data Period: {new Date(report.dateRangeStart).toLocaleDateString()} -{' '}
-                {new Date(report.dateRangeEnd).toLocaleDateString()}
+                Version {report.version} • Generated{' '}
+                {report.generatedAt ? new Date(report.generatedAt).toLocaleDateString() : '—'} at{' '}
+                {report.generatedAt ? new Date(report.generatedAt).toLocaleTimeString() : '—'}
               </p>
-            )}
+              {report.dateRangeStart && report.dateRangeEnd && (
+                <p className="text-gray-600">
+                  Data Period: {new Date(report.dateRangeStart).toLocaleDateString()} -{' '}
+                  {new Date(report.dateRangeEnd).toLocaleDateString()}
+                </p>
+              )}
+              {dataSnapshot?.scope && (
+                <p className="text-sm text-orange-700 mt-1">
+                  Restricted to
+                  {dataSnapshot.scope.dateFrom && ` shipments from ${new Date(dataSnapshot.scope.dateFrom).toLocaleDateString()}`}
+                  {dataSnapshot.scope.dateTo && ` until ${new Date(dataSnapshot.scope.dateTo).toLocaleDateString()}`}
+                  {dataSnapshot.scope.carrierIds.length > 0 && ` · ${dataSnapshot.scope.carrierIds.length} carrier(s)`}
+                </p>
+              )}
+              {dataSnapshot?.notes && (
+                <p className="text-sm text-gray-500 mt-1 italic">{dataSnapshot.notes}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => navigate(`/projects/${projectId}/reports/${report.id}/export`)}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+              >
+                Export PDF
+              </button>
+              <button
+                onClick={() => navigate(`/projects/${projectId}`)}
+                className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600"
+              >
+                Back to Project
+              </button>
+            </div>
           </div>
-          <button
-            onClick={() => navigate(`/projects/${projectId}`)}
-            className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600"
-          >
-            Back to Project
-          </button>
         </div>
-      </div>
 
-      {/* Summary Statistics */}
-      <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-900">Summary</h2>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div className="bg-gray-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Total Shipments</div>
-            <div className="text-2xl font-bold text-gray-900">
-              {statistics?.totalShipments.toLocaleString()}
+        {/* Summary Statistics */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">Summary</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Total Shipments</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {statistics?.totalShipments.toLocaleString()}
+              </div>
             </div>
-          </div>
-          <div className="bg-gray-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Total Actual</div>
-            <div className="text-2xl font-bold text-gray-900">
-              €{statistics?.totalActualCost.toLocaleString()}
+            <div className="bg-gray-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Total Actual</div>
+              <div className="text-2xl font-bold text-gray-900">
+                €{statistics?.totalActualCost.toLocaleString()}
+              </div>
             </div>
-          </div>
-          <div className="bg-gray-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Total Expected</div>
-            <div className="text-2xl font-bold text-gray-900">
-              €{statistics?.totalExpectedCost.toLocaleString()}
+            <div className="bg-gray-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Total Expected</div>
+              <div className="text-2xl font-bold text-gray-900">
+                €{statistics?.totalExpectedCost.toLocaleString()}
+              </div>
             </div>
-          </div>
-          <div className="bg-green-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Savings Potential</div>
-            <div className="text-2xl font-bold text-green-600">
-              €{statistics?.totalSavingsPotential.toLocaleString()}
+            <div className="bg-green-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Savings Potential</div>
+              <div className="text-2xl font-bold text-green-600">
+                €{statistics?.totalSavingsPotential.toLocaleString()}
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Data Quality Metrics */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
-          <div className="bg-blue-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Data Completeness</div>
-            <div className="text-2xl font-bold text-blue-600">
-              {report.dataCompleteness != null ? (report.dataCompleteness * 100).toFixed(0) : '—'}%
+          {/* Data Quality Metrics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            <div className="bg-blue-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Data Completeness</div>
+              <div className="text-2xl font-bold text-blue-600">
+                {report.dataCompleteness != null ? (report.dataCompleteness * 100).toFixed(0) : '—'}%
+              </div>
             </div>
-          </div>
-          <div className="bg-purple-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Overpay Rate</div>
-            <div className="text-2xl font-bold text-purple-600">
-              {statistics?.overpayRate.toFixed(1)}%
+            <div className="bg-purple-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Overpay Rate</div>
+              <div className="text-2xl font-bold text-purple-600">
+                {statistics?.overpayRate.toFixed(1)}%
+              </div>
             </div>
-          </div>
-          <div className="bg-yellow-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Benchmarked</div>
-            <div className="text-2xl font-bold text-yellow-600">
-              {statistics?.benchmarkedShipments.toLocaleString()}
+            <div className="bg-yellow-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Benchmarked</div>
+              <div className="text-2xl font-bold text-yellow-600">
+                {statistics?.benchmarkedShipments.toLocaleString()}
+              </div>
+            </div>
+            <div className="bg-gray-50 p-4 rounded">
+              <div className="text-gray-600 text-sm mb-1">Complete Data</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {statistics?.completeShipments.toLocaleString()}
+              </div>
             </div>
           </div>
-          <div className="bg-gray-50 p-4 rounded">
-            <div className="text-gray-600 text-sm mb-1">Complete Data</div>
-            <div className="text-2xl font-bold text-gray-900">
-              {statistics?.completeShipments.toLocaleString()}
+        </div>
+
+        {/* Carrier Breakdown */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">Breakdown by Carrier</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="text-left p-3 font-semibold text-gray-700">Carrier</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Shipments</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Actual</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Expected</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Delta</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Avg %</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Overpays</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statistics?.carriers.map((carrier, i) => (
+                  <tr key={i} className="border-b hover:bg-gray-50">
+                    <td className="p-3 font-medium text-gray-900">{carrier.carrierName}</td>
+                    <td className="text-right p-3 text-gray-700">
+                      {carrier.shipmentCount.toLocaleString()}
+                    </td>
+                    <td className="text-right p-3 text-gray-700">
+                      €{carrier.totalActualCost.toLocaleString()}
+                    </td>
+                    <td className="text-right p-3 text-gray-700">
+                      €{carrier.totalExpectedCost.toLocaleString()}
+                    </td>
+                    <td
+                      className={`text-right p-3 font-medium ${
+                        carrier.totalDelta > 0 ? 'text-red-600' : 'text-green-600'
+                      }`}
+                    >
+                      €{carrier.totalDelta.toLocaleString()}
+                    </td>
+                    <td
+                      className={`text-right p-3 font-medium ${
+                        carrier.avgDeltaPct > 0 ? 'text-red-600' : 'text-green-600'
+                      }`}
+                    >
+                      {carrier.avgDeltaPct > 0 ? '+' : ''}
+                      {carrier.avgDeltaPct.toFixed(1)}%
+                    </td>
+                    <td className="text-right p-3 text-gray-700">
+                      {carrier.overpayCount}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Top Overpayments (Quick Wins) */}
+        {dataSnapshot?.topOverpays && dataSnapshot.topOverpays.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900">
+              Top Overpayment Opportunities
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-left p-3 font-semibold text-gray-700">Date</th>
+                    <th className="text-left p-3 font-semibold text-gray-700">Carrier</th>
+                    <th className="text-left p-3 font-semibold text-gray-700">Route</th>
+                    <th className="text-right p-3 font-semibold text-gray-700">Actual</th>
+                    <th className="text-right p-3 font-semibold text-gray-700">Expected</th>
+                    <th className="text-right p-3 font-semibold text-gray-700">Delta</th>
+                    <th className="text-right p-3 font-semibold text-gray-700">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataSnapshot.topOverpays!.map((overpay, i) => (
+                    <tr
+                      key={i}
+                      onClick={() => navigate(`/projects/${projectId}/shipments/${overpay.shipmentId}`)}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      title="Open shipment detail"
+                    >
+                      <td className="p-3 text-gray-700">
+                        {new Date(overpay.date).toLocaleDateString()}
+                      </td>
+                      <td className="p-3 text-gray-700">{overpay.carrier ?? '—'}</td>
+                      <td className="p-3 text-gray-700">
+                        {overpay.originZip} → {overpay.destZip}
+                      </td>
+                      <td className="text-right p-3 text-gray-700">
+                        €{overpay.actualCost.toFixed(2)}
+                      </td>
+                      <td className="text-right p-3 text-gray-700">
+                        €{overpay.expectedCost.toFixed(2)}
+                      </td>
+                      <td className="text-right p-3 font-medium text-red-600">
+                        €{overpay.delta.toFixed(2)}
+                      </td>
+                      <td className="text-right p-3 font-medium text-red-600">
+                        +{overpay.deltaPct.toFixed(1)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Version sidebar — open a version or pick two to compare
+// ---------------------------------------------------------------------------
+
+const REPORT_TYPE_LABELS: Record<string, string> = {
+  quick_check: 'Quick Check',
+  deep_dive: 'Deep Dive',
+  final: 'Final',
+};
+
+const VersionSidebar: React.FC<{
+  versions: ReportSummary[];
+  activeId: string | null;
+  base: number | null;
+  target: number | null;
+  onOpen: (id: string) => void;
+  onCompare: (v1: number, v2: number) => void;
+}> = ({ versions, activeId, base, target, onOpen, onCompare }) => {
+  // Default to "previous vs latest" — versions arrive newest first
+  const [v1, setV1] = useState<number | ''>(base ?? versions[1]?.version ?? '');
+  const [v2, setV2] = useState<number | ''>(target ?? versions[0]?.version ?? '');
+
+  useEffect(() => {
+    setV1((prev) => prev || (base ?? versions[1]?.version ?? ''));
+    setV2((prev) => prev || (target ?? versions[0]?.version ?? ''));
+  }, [versions, base, target]);
+
+  const selectCls = 'w-full border border-gray-300 rounded px-2 py-1 text-sm';
+
+  return (
+    <aside className="w-64 shrink-0 bg-white rounded-lg shadow p-4">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Versions</h2>
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No reports yet.</p>
+      ) : (
+        <ul className="space-y-1 mb-4 max-h-96 overflow-y-auto">
+          {versions.map((v) => (
+            <li key={v.id}>
+              <button
+                onClick={() => onOpen(v.id)}
+                className={`w-full text-left px-2 py-1.5 rounded text-sm ${
+                  v.id === activeId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50 text-gray-700'
+                }`}
+              >
+                <div className="font-medium">
+                  v{v.version} · {REPORT_TYPE_LABELS[v.reportType] ?? v.reportType}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {v.generatedAt ? new Date(v.generatedAt).toLocaleDateString() : '—'}
+                  {v.shipmentCount != null && ` · ${v.shipmentCount.toLocaleString()} shipments`}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions.length >= 2 && (
+        <div className="border-t pt-3 space-y-2">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase">Compare</h3>
+          <select value={v1} onChange={(e) => setV1(Number(e.target.value))} className={selectCls}>
+            {versions.map((v) => <option key={v.id} value={v.version}>Base: v{v.version}</option>)}
+          </select>
+          <select value={v2} onChange={(e) => setV2(Number(e.target.value))} className={selectCls}>
+            {versions.map((v) => <option key={v.id} value={v.version}>Against: v{v.version}</option>)}
+          </select>
+          <button
+            onClick={() => v1 && v2 && onCompare(v1, v2)}
+            disabled={!v1 || !v2 || v1 === v2}
+            className="w-full bg-blue-600 text-white px-3 py-1.5 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Compare
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Comparison view — diff of two snapshots from /reports/compare
+// ---------------------------------------------------------------------------
+
+const COMPARED_METRICS: Array<{ key: string; label: string; kind: 'count' | 'eur' | 'pct' | 'ratio' }> = [
+  { key: 'totalShipments', label: 'Total Shipments', kind: 'count' },
+  { key: 'benchmarkedShipments', label: 'Benchmarked', kind: 'count' },
+  { key: 'totalActualCost', label: 'Total Actual', kind: 'eur' },
+  { key: 'totalExpectedCost', label: 'Total Expected', kind: 'eur' },
+  { key: 'totalSavingsPotential', label: 'Savings Potential', kind: 'eur' },
+  { key: 'overpayRate', label: 'Overpay Rate', kind: 'pct' },
+  { key: 'dataCompleteness', label: 'Data Completeness', kind: 'ratio' },
+];
+
+const CARRIER_STATUS_STYLES: Record<string, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-500',
+};
+
+const formatValue = (value: number | null, kind: 'count' | 'eur' | 'pct' | 'ratio') => {
+  if (value == null) return '—';
+  switch (kind) {
+    case 'eur': return `€${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'pct': return `${value.toFixed(1)}%`;
+    case 'ratio': return `${(value * 100).toFixed(0)}%`;
+    default: return value.toLocaleString();
+  }
+};
+
+const DeltaCell: React.FC<{ metric: MetricDelta; kind: 'count' | 'eur' | 'pct' | 'ratio' }> = ({ metric, kind }) => {
+  if (metric.delta == null) return <span className="text-gray-400">—</span>;
+  const sign = metric.delta > 0 ? '+' : '';
+  return (
+    <span className={metric.delta === 0 ? 'text-gray-500' : 'font-medium text-gray-900'}>
+      {sign}{formatValue(metric.delta, kind)}
+    </span>
+  );
+};
+
+const ReportComparisonView: React.FC<{
+  projectId: string;
+  base: number;
+  target: number;
+  onExit: () => void;
+}> = ({ projectId, base, target, onExit }) => {
+  const [comparison, setComparison] = useState<ReportComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+    api.get<ReportComparison>(`/api/projects/${projectId}/reports/compare`, { params: { v1: base, v2: target } })
+      .then((res) => { if (!cancelled) setComparison(res.data); })
+      .catch((err: unknown) => {
+        const e = err as { response?: { data?: { detail?: string } } };
+        if (!cancelled) setError(e.response?.data?.detail || 'Failed to compare reports');
+      });
+    return () => { cancelled = true; };
+  }, [projectId, base, target]);
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-600">{error}</p>
+        <button onClick={onExit} className="mt-3 bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600">
+          Exit Compare
+        </button>
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return <div className="text-gray-600 p-6">Comparing versions...</div>;
+  }
+
+  const { report1, report2 } = comparison;
+  const versionLabel = (r: ReportSummary) =>
+    `v${r.version} · ${REPORT_TYPE_LABELS[r.reportType] ?? r.reportType}`;
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {versionLabel(report1)} → {versionLabel(report2)}
+          </h1>
+          <p className="text-gray-600">
+            Generated {report1.generatedAt ? new Date(report1.generatedAt).toLocaleDateString() : '—'} and{' '}
+            {report2.generatedAt ? new Date(report2.generatedAt).toLocaleDateString() : '—'}
+          </p>
         </div>
+        <button onClick={onExit} className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600">
+          Exit Compare
+        </button>
       </div>
 
-      {/* Carrier Breakdown */}
+      {/* Totals */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-900">Breakdown by Carrier</h2>
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b bg-gray-50">
-                <th className="text-left p-3 font-semibold text-gray-700">Carrier</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Shipments</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Actual</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Expected</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Delta</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Avg %</th>
-                <th className="text-right p-3 font-semibold text-gray-700">Overpays</th>
-              </tr>
-            </thead>
-            <tbody>
-              {statistics?.carriers.map((carrier, i) => (
-                <tr key={i} className="border-b hover:bg-gray-50">
-                  <td className="p-3 font-medium text-gray-900">{carrier.carrierName}</td>
-                  <td className="text-right p-3 text-gray-700">
-                    {carrier.shipmentCount.toLocaleString()}
-                  </td>
-                  <td className="text-right p-3 text-gray-700">
-                    €{carrier.totalActualCost.toLocaleString()}
-                  </td>
-                  <td className="text-right p-3 text-gray-700">
-                    €{carrier.totalExpectedCost.toLocaleString()}
-                  </td>
-                  <td
-                    className={`text-right p-3 font-medium ${
-                      carrier.totalDelta > 0 ? 'text-red-600' : 'text-green-600'
-                    }`}
-                  >
-                    €{carrier.totalDelta.toLocaleString()}
-                  </td>
-                  <td
-                    className={`text-right p-3 font-medium ${
-                      carrier.avgDeltaPct > 0 ? 'text-red-600' : 'text-green-600'
-                    }`}
-                  >
-                    {carrier.avgDeltaPct > 0 ? '+' : ''}
-                    {carrier.avgDeltaPct.toFixed(1)}%
-                  </td>
-                  <td className="text-right p-3 text-gray-700">
-                    {carrier.overpayCount}
-                  </td>
+        <h2 className="text-xl font-semibold mb-4 text-gray-900">Summary</h2>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b bg-gray-50">
+              <th className="text-left p-3 font-semibold text-gray-700">Metric</th>
+              <th className="text-right p-3 font-semibold text-gray-700">v{report1.version}</th>
+              <th className="text-right p-3 font-semibold text-gray-700">v{report2.version}</th>
+              <th className="text-right p-3 font-semibold text-gray-700">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARED_METRICS.map(({ key, label, kind }) => {
+              const metric = comparison.metrics[key];
+              if (!metric) return null;
+              return (
+                <tr key={key} className="border-b">
+                  <td className="p-3 text-gray-900">{label}</td>
+                  <td className="text-right p-3 text-gray-700">{formatValue(metric.before, kind)}</td>
+                  <td className="text-right p-3 text-gray-700">{formatValue(metric.after, kind)}</td>
+                  <td className="text-right p-3"><DeltaCell metric={metric} kind={kind} /></td>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
 
-      {/* Top Overpayments (Quick Wins) */}
-      {dataSnapshot?.topOverpays && dataSnapshot.topOverpays.length > 0 && (
-        <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-xl font-semibold mb-4 text-gray-900">
-            Top Overpayment Opportunities
-          </h2>
+      {/* Carriers */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-semibold mb-4 text-gray-900">Carrier Changes</h2>
+        {comparison.carriers.length === 0 ? (
+          <p className="text-sm text-gray-500">No carrier data in either version.</p>
+        ) : (
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b bg-gray-50">
-                  <th className="text-left p-3 font-semibold text-gray-700">Date</th>
                   <th className="text-left p-3 font-semibold text-gray-700">Carrier</th>
-                  <th className="text-left p-3 font-semibold text-gray-700">Route</th>
-                  <th className="text-right p-3 font-semibold text-gray-700">Actual</th>
-                  <th className="text-right p-3 font-semibold text-gray-700">Expected</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Shipments</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Actual Δ</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Expected Δ</th>
                   <th className="text-right p-3 font-semibold text-gray-700">Delta</th>
-                  <th className="text-right p-3 font-semibold text-gray-700">%</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Avg % Δ</th>
+                  <th className="text-right p-3 font-semibold text-gray-700">Overpays</th>
                 </tr>
               </thead>
               <tbody>
-                {dataSnapshot.topOverpays!.map((overpay, i) => (
-                  <tr key={i} className="border-b hover:bg-gray-50">
-                    <td className="p-3 text-gray-700">
-                      {new Date(overpay.date).toLocaleDateString()}
-                    </td>
-                    <td className="p-3 text-gray-700">{overpay.carrier}</td>
-                    <td className="p-3 text-gray-700">
-                      {overpay.originZip} → {overpay.destZip}
+                {comparison.carriers.map((c, i) => (
+                  <tr key={c.carrierId ?? i} className="border-b">
+                    <td className="p-3">
+                      <span className="font-medium text-gray-900">{c.carrierName ?? 'Unknown'}</span>
+                      <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${CARRIER_STATUS_STYLES[c.status]}`}>
+                        {c.status}
+                      </span>
                     </td>
                     <td className="text-right p-3 text-gray-700">
-                      €{overpay.actualCost.toFixed(2)}
+                      {formatValue(c.shipmentCount.before, 'count')} → {formatValue(c.shipmentCount.after, 'count')}
                     </td>
+                    <td className="text-right p-3"><DeltaCell metric={c.totalActualCost} kind="eur" /></td>
+                    <td className="text-right p-3"><DeltaCell metric={c.totalExpectedCost} kind="eur" /></td>
                     <td className="text-right p-3 text-gray-700">
-                      €{overpay.expectedCost.toFixed(2)}
-                    </td>
-                    <td className="text-right p-3 font-medium text-red-600">
-                      €{overpay.delta.toFixed(2)}
+                      {formatValue(c.totalDelta.before, 'eur')} → {formatValue(c.totalDelta.after, 'eur')}
                     </td>
-                    <td className="text-right p-3 font-medium text-red-600">
-                      +{overpay.deltaPct.toFixed(1)}%
+                    <td className="text-right p-3"><DeltaCell metric={c.avgDeltaPct} kind="pct" /></td>
+                    <td className="text-right p-3 text-gray-700">
+                      {formatValue(c.overpayCount.before, 'count')} → {formatValue(c.overpayCount.after, 'count')}
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
-        </div>
+        )}
+      </div>
+
+      {/* Top overpays churn */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold mb-4 text-gray-900">Top Overpayment Changes</h2>
+        {!comparison.topOverpaysAvailable ? (
+          <p className="text-sm text-gray-500">
+            One of the versions was generated without top overpayments, so they cannot be compared.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <OverpayList
+              title={`Entered in v${report2.version}`}
+              entries={comparison.topOverpaysEntered}
+              projectId={projectId}
+            />
+            <OverpayList
+              title={`Left since v${report1.version}`}
+              entries={comparison.topOverpaysLeft}
+              projectId={projectId}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const OverpayList: React.FC<{ title: string; entries: TopOverpayRef[]; projectId: string }> = ({
+  title,
+  entries,
+  projectId,
+}) => {
+  const navigate = useNavigate();
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{title} ({entries.length})</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">None.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {entries.map((o, i) => (
+            <li
+              key={o.shipmentId ?? i}
+              onClick={() => o.shipmentId && navigate(`/projects/${projectId}/shipments/${o.shipmentId}`)}
+              className="py-2 flex justify-between cursor-pointer hover:bg-gray-50"
+              title="Open shipment detail"
+            >
+              <span className="text-gray-700">
+                {o.date ? new Date(o.date).toLocaleDateString() : '—'} · {o.originZip ?? '?'} → {o.destZip ?? '?'}
+              </span>
+              <span className="font-medium text-red-600">{formatValue(o.delta, 'eur')}</span>
+            </li>
+          ))}
+        </ul>
       )}
     </div>
   );
@@ -0,0 +1,300 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { api } from '../api';
+import type { CostBreakdownItem, ShipmentDetail } from '../types';
+
+// ---------------------------------------------------------------------------
+// Constants & helpers
+// ---------------------------------------------------------------------------
+
+const CLASSIFICATION_LABELS: Record<string, string> = {
+  unter: 'Unter Markt',
+  im_markt: 'Im Markt',
+  'drüber': 'Über Markt',
+};
+
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  unter: 'bg-green-100 text-green-700',
+  im_markt: 'bg-gray-100 text-gray-600',
+  'drüber': 'bg-red-100 text-red-700',
+};
+
+const BREAKDOWN_LABELS: Record<string, string> = {
+  base_rate: 'Grundfracht',
+  toll: 'Maut',
+  diesel_surcharge: 'Dieselzuschlag',
+};
+
+const BASIS_LABELS: Record<string, string> = {
+  base: 'Fracht (Basis)',
+  base_plus_toll: 'Fracht + Maut',
+  total: 'Gesamt',
+};
+
+function fmt(value: number | string | null | undefined, decimals = 2): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return Number(value).toLocaleString('de-DE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+function fmtDate(value: string | null | undefined): string {
+  return value ? value.split('-').reverse().join('.') : '—';
+}
+
+function toNum(value: number | string | null | undefined): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+const FieldRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between py-1.5 border-b border-gray-100 last:border-0 text-sm">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-900 font-medium text-right">{value ?? '—'}</span>
+  </div>
+);
+
+/** Details of one CostBreakdownItem — only the inputs the engine actually recorded. */
+function breakdownDetails(item: CostBreakdownItem): string {
+  const parts: string[] = [];
+  if (item.zone != null) parts.push(`Zone ${item.zone}`);
+  if (item.weight != null) parts.push(`${fmt(item.weight)} kg`);
+  if (item.rate != null) parts.push(`Satz ${fmt(item.rate)}`);
+  if (item.base != null) parts.push(`Basis ${fmt(item.base)}`);
+  if (item.pct != null) parts.push(`${fmt(item.pct)} %`);
+  return parts.join(' · ');
+}
+
+const CostComparison: React.FC<{ shipment: ShipmentDetail }> = ({ shipment }) => {
+  const bm = shipment.benchmark;
+  const rows: Array<{ label: string; actual: number | null; expected: number | null }> = [
+    { label: 'Fracht', actual: toNum(shipment.actualBaseAmount), expected: toNum(bm?.expectedBaseAmount) },
+    { label: 'Diesel', actual: toNum(shipment.actualDieselAmount), expected: toNum(bm?.expectedDieselAmount) },
+    { label: 'Maut', actual: toNum(shipment.actualTollAmount), expected: toNum(bm?.expectedTollAmount) },
+    { label: 'Sonstiges', actual: toNum(shipment.actualOtherAmount), expected: null },
+  ];
+  const totalActual = toNum(shipment.actualTotalAmount);
+  const totalExpected = toNum(bm?.expectedTotalAmount);
+
+  const deltaCell = (actual: number | null, expected: number | null) => {
+    if (actual === null || expected === null) return <td className="py-2 text-right text-gray-400">—</td>;
+    const delta = actual - expected;
+    return (
+      <td className={`py-2 text-right tabular-nums ${delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-gray-600'}`}>
+        {delta > 0 ? '+' : ''}{fmt(delta)}
+      </td>
+    );
+  };
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-gray-500">
+          <th className="pb-2">Position</th>
+          <th className="pb-2 text-right">Ist</th>
+          <th className="pb-2 text-right">Soll</th>
+          <th className="pb-2 text-right">Delta</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.label} className="border-b border-gray-100">
+            <td className="py-2 text-gray-700">{r.label}</td>
+            <td className="py-2 text-right tabular-nums">{fmt(r.actual)}</td>
+            <td className="py-2 text-right tabular-nums">{fmt(r.expected)}</td>
+            {deltaCell(r.actual, r.expected)}
+          </tr>
+        ))}
+        <tr className="font-semibold">
+          <td className="py-2 text-gray-900">Gesamt ({shipment.currency ?? 'EUR'})</td>
+          <td className="py-2 text-right tabular-nums">{fmt(totalActual)}</td>
+          <td className="py-2 text-right tabular-nums">{fmt(totalExpected)}</td>
+          {deltaCell(totalActual, totalExpected)}
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Main page
+// ---------------------------------------------------------------------------
+
+export const ShipmentDetailPage: React.FC = () => {
+  const { projectId, shipmentId } = useParams<{ projectId: string; shipmentId: string }>();
+  const navigate = useNavigate();
+  const [shipment, setShipment] = useState<ShipmentDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get<ShipmentDetail>(`/api/projects/${projectId}/shipments/${shipmentId}`);
+      setShipment(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail || 'Sendung konnte nicht geladen werden');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, shipmentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) return <div className="flex items-center justify-center min-h-screen text-gray-600">Laden…</div>;
+  if (error || !shipment) return (
+    <div className="container mx-auto p-6">
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">{error ?? 'Sendung nicht gefunden'}</div>
+    </div>
+  );
+
+  const bm = shipment.benchmark;
+  const breakdown = bm?.costBreakdown ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <button onClick={() => navigate(-1)} className="text-blue-600 hover:text-blue-700 text-sm mb-4 block">
+          ← Zurück
+        </button>
+
+        {/* Header */}
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Sendung {shipment.referenceNumber ?? shipment.id.slice(0, 8)}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {fmtDate(shipment.date)}
+              {' · '}{shipment.carrierName ?? 'Spediteur unbekannt'}
+              {' · '}{shipment.originCountry ?? ''} {shipment.originZip ?? '—'} → {shipment.destCountry ?? ''} {shipment.destZip ?? '—'}
+            </p>
+          </div>
+          {bm?.classification && (
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${CLASSIFICATION_COLORS[bm.classification] ?? 'bg-gray-100 text-gray-600'}`}>
+              {CLASSIFICATION_LABELS[bm.classification] ?? bm.classification}
+              {bm.deltaPct != null && ` (${Number(bm.deltaPct) > 0 ? '+' : ''}${fmt(bm.deltaPct, 1)} %)`}
+            </span>
+          )}
+        </div>
+
+        {/* Source links */}
+        <div className="flex gap-4 text-sm mb-6">
+          {shipment.uploadId && (
+            <Link to={`/uploads/${shipment.uploadId}/detail`} className="text-blue-600 hover:text-blue-700">
+              Quelldatei: {shipment.uploadFilename ?? 'Upload'} →
+            </Link>
+          )}
+          {bm?.tariffUploadId && (
+            <Link to={`/uploads/${bm.tariffUploadId}/detail`} className="text-blue-600 hover:text-blue-700">
+              Tarif: {bm.tariffName ?? 'Tariftabelle'} →
+            </Link>
+          )}
+          {bm?.tariffTableId && !bm.tariffUploadId && (
+            <span className="text-gray-500">Tarif: {bm.tariffName ?? bm.tariffTableId}</span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          {/* Master data */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Sendungsdaten</h2>
+            <FieldRow label="Rechnung" value={shipment.invoiceNumber} />
+            <FieldRow label="Referenz" value={shipment.referenceNumber} />
+            <FieldRow label="Service Level" value={shipment.serviceLevel} />
+            <FieldRow label="Gewicht (kg)" value={fmt(shipment.weightKg)} />
+            <FieldRow label="Volumen (m³)" value={fmt(shipment.volumeCbm, 3)} />
+            <FieldRow label="Paletten" value={fmt(shipment.pallets)} />
+            <FieldRow
+              label="Frachtpfl. Gewicht (kg)"
+              value={`${fmt(shipment.chargeableWeightKg)}${shipment.chargeableBasis ? ` (${shipment.chargeableBasis})` : ''}`}
+            />
+            <FieldRow
+              label="Vollständigkeit"
+              value={shipment.completenessScore != null ? `${(Number(shipment.completenessScore) * 100).toFixed(0)}%` : '—'}
+            />
+            {shipment.missingFields && shipment.missingFields.length > 0 && (
+              <FieldRow label="Fehlende Felder" value={shipment.missingFields.join(', ')} />
+            )}
+            <FieldRow label="Extraktion" value={shipment.extractionMethod} />
+            <FieldRow
+              label="Konfidenz"
+              value={shipment.confidenceScore != null ? `${(Number(shipment.confidenceScore) * 100).toFixed(0)}%` : '—'}
+            />
+          </div>
+
+          {/* Actual vs expected */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Ist vs. Soll</h2>
+            {bm ? (
+              <>
+                <CostComparison shipment={shipment} />
+                <div className="mt-4 text-xs text-gray-500 space-y-0.5">
+                  {bm.zoneCalculated != null && <p>Zone: {bm.zoneCalculated}</p>}
+                  {bm.chargeableWeight != null && (
+                    <p>Berechnetes Gewicht: {fmt(bm.chargeableWeight)} kg{bm.chargeableBasis ? ` (${bm.chargeableBasis})` : ''}</p>
+                  )}
+                  {bm.dieselPctUsed != null && (
+                    <p>
+                      Dieselfloater: {fmt(bm.dieselPctUsed)} %
+                      {bm.dieselBasisUsed && ` auf ${BASIS_LABELS[bm.dieselBasisUsed] ?? bm.dieselBasisUsed}`}
+                    </p>
+                  )}
+                  {bm.calcVersion && <p>Berechnungsversion: {bm.calcVersion}</p>}
+                </div>
+              </>
+            ) : (
+              <p className="text-gray-500 text-sm">Für diese Sendung liegt noch kein Benchmark vor.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Expected cost breakdown */}
+        {bm && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Soll-Kalkulation (Tarif)</h2>
+            {breakdown.length === 0 ? (
+              <p className="text-gray-500 text-sm">Keine Kostenaufstellung gespeichert.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="pb-2 pr-3">Position</th>
+                    <th className="pb-2 pr-3">Berechnung</th>
+                    <th className="pb-2 text-right">Betrag</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breakdown.map((item, i) => (
+                    <tr key={i} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-3 font-medium text-gray-800 whitespace-nowrap">
+                        {BREAKDOWN_LABELS[item.item] ?? item.item}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600">
+                        <div>{breakdownDetails(item) || item.description || '—'}</div>
+                        {item.note && <div className="text-xs text-gray-400 mt-0.5">{item.note}</div>}
+                      </td>
+                      <td className="py-2 text-right tabular-nums whitespace-nowrap">
+                        {fmt(item.amount)} {item.currency}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold">
+                    <td className="py-2 pr-3" colSpan={2}>Summe Soll</td>
+                    <td className="py-2 text-right tabular-nums">
+                      {fmt(bm.expectedTotalAmount)} {bm.currency ?? shipment.currency ?? ''}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,546 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { api } from '../api';
+
+// Mapping value as stored by the backend: a plain column name, or
+// { column, ...options } when transforms (date format, decimal, unit) apply.
+type MappingValue = string | ({ column: string } & Record<string, unknown>);
+
+interface ParsingTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  fileType: string;
+  templateCategory: string | null;
+  isGlobal: boolean;
+  usageCount: number;
+  lastUsedAt: string | null;
+  createdAt: string | null;
+  filenamePattern: string | null;
+  headerKeywords: string[];
+  mimeTypes: string[];
+  mappings: Record<string, MappingValue | string[]>;
+}
+
+interface UploadOption {
+  id: string;
+  filename: string;
+  mimeType: string | null;
+  docType: string | null;
+  receivedAt: string | null;
+}
+
+interface TemplateTestResult {
+  templateId: string;
+  uploadId: string;
+  filename: string;
+  confidence: number;
+  reasons: string[];
+  threshold: number;
+  selected: boolean;
+  bestMatch: { templateId: string; templateName: string; confidence: number } | null;
+  headers: string[];
+}
+
+interface MappingRow {
+  field: string;
+  column: string;
+  options: Record<string, unknown>;
+}
+
+const IGNORED_COLUMNS_KEY = '_ignore';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  shipment_list: 'Sendungsliste',
+  invoice: 'Rechnung',
+  tariff: 'Tarif',
+  unknown: 'Unbekannt',
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('de-DE') : '—');
+const formatPercent = (value: number) => `${Math.round(value * 100)} %`;
+
+export const TemplatesPage: React.FC = () => {
+  const [templates, setTemplates] = useState<ParsingTemplate[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('template');
+  const setSelectedId = (id: string | null) => setSearchParams(prev => {
+    if (id) prev.set('template', id);
+    else prev.delete('template');
+    return prev;
+  }, { replace: true });
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await api.get<ParsingTemplate[]>('/api/templates');
+      setTemplates(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Laden fehlgeschlagen');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadTemplates(); }, [loadTemplates]);
+
+  if (loading) return <div className="flex items-center justify-center min-h-screen"><div className="text-gray-600">Laden…</div></div>;
+  if (error) return <div className="container mx-auto p-6"><div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">{error}</div></div>;
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? templates.filter(t =>
+        t.name.toLowerCase().includes(term)
+        || t.headerKeywords.some(k => k.toLowerCase().includes(term)))
+    : templates;
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+
+  const handleSaved = (updated: ParsingTemplate) => {
+    setTemplates(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+  };
+
+  const handleCloned = (clone: ParsingTemplate) => {
+    setTemplates(prev => [...prev, clone]);
+    setSelectedId(clone.id);
+  };
+
+  const handleDeleted = (id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="mb-4">
+        <h1 className="text-2xl font-bold text-gray-900">Parsing-Vorlagen</h1>
+        <p className="text-sm text-gray-500 mt-1">Spaltenzuordnungen für wiederkehrende Dateiformate</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Template list */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow p-4">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Name oder Stichwort suchen…"
+            className="w-full border border-gray-300 rounded px-3 py-1.5 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="max-h-[75vh] overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-left text-xs text-gray-500 border-b">
+                <tr>
+                  <th className="py-2 pr-2">Name</th>
+                  <th className="py-2 pr-2">Kategorie</th>
+                  <th className="py-2 pr-2 text-right">Nutzung</th>
+                  <th className="py-2 text-right">Zuletzt</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filtered.map(t => (
+                  <tr
+                    key={t.id}
+                    onClick={() => setSelectedId(t.id)}
+                    className={`cursor-pointer ${t.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="py-2 pr-2">
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {t.name}
+                        {t.isGlobal && <span className="px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-600">Global</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate max-w-[16rem]" title={t.headerKeywords.join(', ')}>
+                        {t.headerKeywords.length > 0 ? t.headerKeywords.join(', ') : 'Keine Stichwörter'}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-2 text-gray-700">
+                      {t.templateCategory ? CATEGORY_LABELS[t.templateCategory] ?? t.templateCategory : '—'}
+                    </td>
+                    <td className="py-2 pr-2 text-right text-gray-700">{t.usageCount}</td>
+                    <td className="py-2 text-right text-gray-500">{formatDate(t.lastUsedAt)}</td>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                  <tr><td colSpan={4} className="py-2 text-gray-500">Keine Treffer.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Detail */}
+        <div className="lg:col-span-3">
+          {selected ? (
+            <TemplateDetail
+              key={selected.id}
+              template={selected}
+              onSaved={handleSaved}
+              onCloned={handleCloned}
+              onDeleted={handleDeleted}
+            />
+          ) : (
+            <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-500">Vorlage links auswählen.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Template detail — mapping editor, clone, delete
+// ---------------------------------------------------------------------------
+
+const toRows = (mappings: ParsingTemplate['mappings']): MappingRow[] =>
+  Object.entries(mappings)
+    .filter(([field]) => field !== IGNORED_COLUMNS_KEY)
+    .map(([field, value]) => {
+      if (typeof value === 'string') return { field, column: value, options: {} };
+      if (Array.isArray(value)) return { field, column: value.join(', '), options: {} };
+      const { column, ...options } = value;
+      return { field, column, options };
+    });
+
+const fromRows = (rows: MappingRow[], ignored: string[]): ParsingTemplate['mappings'] => {
+  const mappings: ParsingTemplate['mappings'] = {};
+  for (const row of rows) {
+    const field = row.field.trim();
+    const column = row.column.trim();
+    if (!field || !column) continue;
+    mappings[field] = Object.keys(row.options).length > 0 ? { column, ...row.options } : column;
+  }
+  if (ignored.length > 0) mappings[IGNORED_COLUMNS_KEY] = ignored;
+  return mappings;
+};
+
+const TemplateDetail: React.FC<{
+  template: ParsingTemplate;
+  onSaved: (t: ParsingTemplate) => void;
+  onCloned: (t: ParsingTemplate) => void;
+  onDeleted: (id: string) => void;
+}> = ({ template, onSaved, onCloned, onDeleted }) => {
+  const readOnly = template.isGlobal;
+  const ignoredInitial = template.mappings[IGNORED_COLUMNS_KEY];
+  const ignored = Array.isArray(ignoredInitial) ? ignoredInitial : [];
+
+  const [name, setName] = useState(template.name);
+  const [notes, setNotes] = useState(template.description ?? '');
+  const [filenamePattern, setFilenamePattern] = useState(template.filenamePattern ?? '');
+  const [keywords, setKeywords] = useState(template.headerKeywords.join(', '));
+  const [rows, setRows] = useState<MappingRow[]>(() => toRows(template.mappings));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [cloneName, setCloneName] = useState<string | null>(null);
+
+  const updateRow = (index: number, patch: Partial<MappingRow>) => {
+    setRows(prev => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const duplicateFields = rows
+    .map(r => r.field.trim())
+    .filter((f, i, all) => f && all.indexOf(f) !== i);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Name darf nicht leer sein');
+      return;
+    }
+    if (duplicateFields.length > 0) {
+      setError(`Feld mehrfach zugeordnet: ${duplicateFields.join(', ')}`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await api.put<ParsingTemplate>(`/api/templates/${template.id}`, {
+        name: name.trim(),
+        notes: notes.trim() || null,
+        mappings: fromRows(rows, ignored),
+        filenamePattern: filenamePattern.trim() || null,
+        headerKeywords: keywords.split(',').map(k => k.trim().toLowerCase()).filter(Boolean),
+      });
+      onSaved(res.data);
+      setNotice('Gespeichert');
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Speichern fehlgeschlagen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cloneName?.trim()) return;
+    setError(null);
+    try {
+      const res = await api.post<ParsingTemplate>(`/api/templates/${template.id}/clone`, { name: cloneName.trim() });
+      onCloned(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Kopieren fehlgeschlagen');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Vorlage "${template.name}" löschen?`)) return;
+    setError(null);
+    try {
+      await api.delete(`/api/templates/${template.id}`);
+      onDeleted(template.id);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Löschen fehlgeschlagen');
+    }
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              {template.fileType.toUpperCase()}
+              {' · '}{template.usageCount}× verwendet, zuletzt {formatDate(template.lastUsedAt)}
+              {' · '}angelegt {formatDate(template.createdAt)}
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => setCloneName(`${template.name} (Kopie)`)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Kopieren
+            </button>
+            {!readOnly && (
+              <button
+                onClick={handleDelete}
+                className="px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded hover:bg-red-50"
+              >
+                Löschen
+              </button>
+            )}
+          </div>
+        </div>
+
+        {readOnly && (
+          <div className="mt-4 bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-600">
+            Globale Vorlagen sind schreibgeschützt. Zum Anpassen, z. B. für einen neuen Spediteur, eine Kopie anlegen.
+          </div>
+        )}
+
+        {cloneName !== null && (
+          <form onSubmit={handleClone} className="mt-4 flex gap-2 items-end bg-blue-50 border border-blue-200 rounded p-3">
+            <label className="flex-1 text-sm">
+              <span className="block text-xs text-gray-600 mb-1">Name der Kopie</span>
+              <input value={cloneName} onChange={e => setCloneName(e.target.value)} className={inputClass} autoFocus />
+            </label>
+            <button type="submit" disabled={!cloneName.trim()} className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">
+              Kopie anlegen
+            </button>
+            <button type="button" onClick={() => setCloneName(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900">
+              Abbrechen
+            </button>
+          </form>
+        )}
+
+        {error && <div className="mt-4 bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600">{error}</div>}
+        {notice && <div className="mt-4 bg-green-50 border border-green-200 rounded p-3 text-sm text-green-700">{notice}</div>}
+
+        <div className="grid grid-cols-2 gap-4 mt-4">
+          <label className="text-sm">
+            <span className="block text-xs text-gray-600 mb-1">Name</span>
+            <input value={name} onChange={e => setName(e.target.value)} disabled={readOnly} className={inputClass} />
+          </label>
+          <label className="text-sm">
+            <span className="block text-xs text-gray-600 mb-1">Dateiname-Muster (Regex)</span>
+            <input value={filenamePattern} onChange={e => setFilenamePattern(e.target.value)} disabled={readOnly} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="text-sm col-span-2">
+            <span className="block text-xs text-gray-600 mb-1">Kopfzeilen-Stichwörter (kommagetrennt)</span>
+            <input value={keywords} onChange={e => setKeywords(e.target.value)} disabled={readOnly} className={inputClass} />
+          </label>
+          <label className="text-sm col-span-2">
+            <span className="block text-xs text-gray-600 mb-1">Notizen</span>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} disabled={readOnly} rows={2} className={inputClass} />
+          </label>
+        </div>
+
+        <h3 className="text-sm font-semibold text-gray-900 mt-6 mb-2">Spaltenzuordnung</h3>
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-xs text-gray-500 border-b">
+            <tr>
+              <th className="py-2 pr-2 w-1/3">Zielfeld</th>
+              <th className="py-2 pr-2">Quellspalte</th>
+              <th className="py-2 pr-2">Umrechnung</th>
+              {!readOnly && <th className="py-2 w-8" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <td className="py-1.5 pr-2">
+                  <input
+                    value={row.field}
+                    onChange={e => updateRow(i, { field: e.target.value })}
+                    disabled={readOnly}
+                    className={`${inputClass} font-mono ${duplicateFields.includes(row.field.trim()) ? 'border-red-400' : ''}`}
+                  />
+                </td>
+                <td className="py-1.5 pr-2">
+                  <input value={row.column} onChange={e => updateRow(i, { column: e.target.value })} disabled={readOnly} className={inputClass} />
+                </td>
+                <td className="py-1.5 pr-2 text-xs text-gray-500 font-mono">
+                  {Object.entries(row.options).map(([k, v]) => `${k}=${String(v)}`).join(', ') || '—'}
+                </td>
+                {!readOnly && (
+                  <td className="py-1.5 text-right">
+                    <button
+                      onClick={() => setRows(prev => prev.filter((_, j) => j !== i))}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Zuordnung entfernen"
+                    >
+                      ×
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={4} className="py-2 text-gray-500">Keine Zuordnungen.</td></tr>
+            )}
+          </tbody>
+        </table>
+        {ignored.length > 0 && (
+          <p className="text-xs text-gray-500 mt-2">Ignorierte Spalten: {ignored.join(', ')}</p>
+        )}
+
+        {!readOnly && (
+          <div className="flex justify-between mt-4">
+            <button
+              onClick={() => setRows(prev => [...prev, { field: '', column: '', options: {} }])}
+              className="px-3 py-1.5 text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Zuordnung
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Speichern…' : 'Speichern'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <TemplateTestPanel template={template} />
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Test against upload — find_match score for one upload
+// ---------------------------------------------------------------------------
+
+const TemplateTestPanel: React.FC<{ template: ParsingTemplate }> = ({ template }) => {
+  const [uploads, setUploads] = useState<UploadOption[]>([]);
+  const [uploadId, setUploadId] = useState('');
+  const [result, setResult] = useState<TemplateTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get<UploadOption[]>('/api/uploads')
+      .then(res => setUploads(res.data))
+      .catch(() => setError('Uploads konnten nicht geladen werden'));
+  }, []);
+
+  const handleTest = async () => {
+    if (!uploadId) return;
+    setTesting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const res = await api.post<TemplateTestResult>(`/api/templates/${template.id}/test`, { uploadId });
+      setResult(res.data);
+    } catch (e: unknown) {
+      const err = e as { response?: { data?: { detail?: string } } };
+      setError(err.response?.data?.detail || 'Test fehlgeschlagen');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">Gegen Upload testen</h3>
+      <div className="flex gap-2">
+        <select
+          value={uploadId}
+          onChange={e => { setUploadId(e.target.value); setResult(null); }}
+          className="flex-1 border border-gray-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Upload auswählen…</option>
+          {uploads.map(u => (
+            <option key={u.id} value={u.id}>
+              {u.filename} · {formatDate(u.receivedAt)}{u.docType ? ` · ${u.docType}` : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleTest}
+          disabled={!uploadId || testing}
+          className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {testing ? 'Teste…' : 'Testen'}
+        </button>
+      </div>
+
+      {error && <div className="mt-4 bg-red-50 border border-red-200 rounded p-3 text-sm text-red-600">{error}</div>}
+
+      {result && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div className="flex items-center gap-3">
+            <span className={`text-2xl font-bold ${result.confidence >= result.threshold ? 'text-green-700' : 'text-gray-900'}`}>
+              {formatPercent(result.confidence)}
+            </span>
+            <span className="text-gray-500">Schwelle {formatPercent(result.threshold)}</span>
+            {result.selected
+              ? <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-700">Würde verwendet</span>
+              : <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">Würde nicht verwendet</span>}
+          </div>
+          {result.reasons.length > 0 && (
+            <ul className="list-disc list-inside text-gray-700">
+              {result.reasons.map(r => <li key={r}>{r}</li>)}
+            </ul>
+          )}
+          {!result.selected && (
+            <p className="text-gray-600">
+              {result.bestMatch
+                ? <>Stattdessen gewählt: <span className="font-medium">{result.bestMatch.templateName}</span> ({formatPercent(result.bestMatch.confidence)})</>
+                : 'Keine Vorlage erreicht die Schwelle — der Upload würde per KI geparst.'}
+            </p>
+          )}
+          {result.headers.length > 0 && (
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Erkannte Kopfzeile</div>
+              <div className="flex flex-wrap gap-1">
+                {result.headers.map(h => (
+                  <span key={h} className="px-1.5 py-0.5 rounded bg-gray-100 text-xs font-mono text-gray-700">{h}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,19 @@
-import { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { api } from '../api';
-import type { ShipmentSummary } from '../types';
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { api, streamUploadEvents, UPLOAD_STAGES } from '../api';
+import type {
+  ShipmentSummary,
+  SourceBox,
+  SourceDocument,
+  SourceHit,
+  Upload,
+  UploadMeta,
+  UploadStatusEvent,
+  VisionInspection,
+  VisionPage,
+  VisionPageType,
+  VisionRunEvent,
+} from '../types';
 
 interface DieselBracket {
   id: string;
@@ -97,6 +109,7 @@ interface UploadDetail {
   mimeType: string | null;
   docType: string | null;
   storageUrl: string | null;
+  parentUploadId: string | null;
   status: string | null;
   parseMethod: string | null;
   confidence: number | null;
@@ -104,7 +117,7 @@ interface UploadDetail {
   parseErrors: Record<string, unknown> | null;
   parsingIssues: unknown[] | null;
   suggestedMappings: Record<string, unknown> | null;
-  meta: Record<string, unknown> | null;
+  meta: UploadMeta | null;
   reviewedBy: string | null;
   reviewedAt: string | null;
   receivedAt: string | null;
@@ -123,6 +136,34 @@ const STATUS_COLORS: Record<string, string> = {
   parsing: 'bg-blue-100 text-blue-600',
 };
 
+const ACTIVE_STATUSES = ['pending', 'parsing'];
+
+/** Pipeline stepper fed by the upload status stream */
+const StageProgress: React.FC<{ event: UploadStatusEvent }> = ({ event }) => {
+  const current = event.stageIndex ?? -1;
+  const failed = event.status === 'failed';
+  const done = !ACTIVE_STATUSES.includes(event.status) && !failed;
+  return (
+    <ol className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+      {UPLOAD_STAGES.map((stage, i) => {
+        const style =
+          done || i < current ? 'bg-green-100 text-green-700' :
+          i === current && failed ? 'bg-red-100 text-red-700' :
+          i === current ? 'bg-blue-100 text-blue-700 animate-pulse' :
+          'bg-gray-100 text-gray-400';
+        return (
+          <li key={stage.key} className="flex items-center gap-2">
+            {i > 0 && <span className="text-gray-300">→</span>}
+            <span className={`px-2 py-0.5 rounded font-medium ${style}`}>{stage.label}</span>
+          </li>
+        );
+      })}
+      {event.status === 'pending' && <li className="text-gray-500">Wartet auf Verarbeitung…</li>}
+      {failed && event.message && <li className="text-red-600">{event.message}</li>}
+    </ol>
+  );
+};
+
 const fmt = (n: number | null, decimals = 2) =>
   n != null ? n.toLocaleString('de-DE', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }) : '—';
 
@@ -132,7 +173,9 @@ const RateMatrix: React.FC<{
   currency: string;
   /** For Hauptlauf (zone=0): rate_per_kg is actually per km */
   perKgLabel?: string;
-}> = ({ rates, currency, perKgLabel = '/kg' }) => {
+  /** Cell click — jumps to the rate in the source viewer */
+  onSelect?: (rate: TariffRate) => void;
+}> = ({ rates, currency, perKgLabel = '/kg', onSelect }) => {
   const zones = Array.from(new Set(rates.map((r) => r.zone))).sort((a, b) => a - b);
   // Deduplicate by weightFromKg — one representative row per band (label only; zone columns fill the data)
   const bands = Array.from(
@@ -170,11 +213,20 @@ const RateMatrix: React.FC<{
           {bands.map((band) => (
             <tr key={band.weightFromKg} className="border-t border-gray-100">
               <td className="pr-6 py-1.5 text-gray-500 whitespace-nowrap">{bandLabel(band)}</td>
-              {zones.map((z) => (
-                <td key={z} className="px-3 py-1.5 text-right tabular-nums text-gray-900 whitespace-nowrap">
-                  {cellValue(rateMap.get(`${z}-${band.weightFromKg}`))}
-                </td>
-              ))}
+              {zones.map((z) => {
+                const cell = rateMap.get(`${z}-${band.weightFromKg}`);
+                return (
+                  <td
+                    key={z}
+                    onClick={cell && onSelect ? () => onSelect(cell) : undefined}
+                    className={`px-3 py-1.5 text-right tabular-nums text-gray-900 whitespace-nowrap ${
+                      cell && onSelect ? 'cursor-pointer hover:bg-yellow-50' : ''
+                    }`}
+                  >
+                    {cellValue(cell)}
+                  </td>
+                );
+              })}
             </tr>
           ))}
         </tbody>
@@ -183,10 +235,19 @@ const RateMatrix: React.FC<{
   );
 };
 
-const TariffTableView: React.FC<{ tariff: TariffDetail }> = ({ tariff }) => {
+const TariffTableView: React.FC<{
+  tariff: TariffDetail;
+  onSelectValue?: (value: number) => void;
+}> = ({ tariff, onSelectValue }) => {
   const vorNachlauf = tariff.rates.filter((r) => r.zone > 0);
   const hauptlauf   = tariff.rates.filter((r) => r.zone === 0);
   const direkt      = tariff.rates.filter((r) => r.zone === -1);
+  const selectRate = onSelectValue
+    ? (r: TariffRate) => {
+        const value = r.ratePerShipment ?? r.ratePerKg;
+        if (value != null) onSelectValue(value);
+      }
+    : undefined;
 
   // Group zone_maps by zone for the PLZ table
   const zoneGroups = new Map<number, string[]>();
@@ -233,7 +294,7 @@ const TariffTableView: React.FC<{ tariff: TariffDetail }> = ({ tariff }) => {
       {vorNachlauf.length > 0 && (
         <div>
           <h3 className="text-sm font-semibold text-gray-800 mb-3">Vor-/Nachlauf</h3>
-          <RateMatrix rates={vorNachlauf} currency={tariff.currency} />
+          <RateMatrix rates={vorNachlauf} currency={tariff.currency} onSelect={selectRate} />
         </div>
       )}
 
@@ -241,7 +302,7 @@ const TariffTableView: React.FC<{ tariff: TariffDetail }> = ({ tariff }) => {
       {hauptlauf.length > 0 && (
         <div>
           <h3 className="text-sm font-semibold text-gray-800 mb-3">Hauptlauf</h3>
-          <RateMatrix rates={hauptlauf} currency={tariff.currency} perKgLabel="/km" />
+          <RateMatrix rates={hauptlauf} currency={tariff.currency} perKgLabel="/km" onSelect={selectRate} />
         </div>
       )}
 
@@ -249,7 +310,7 @@ const TariffTableView: React.FC<{ tariff: TariffDetail }> = ({ tariff }) => {
       {direkt.length > 0 && (
         <div>
           <h3 className="text-sm font-semibold text-gray-800 mb-3">Direkt</h3>
-          <RateMatrix rates={direkt} currency={tariff.currency} />
+          <RateMatrix rates={direkt} currency={tariff.currency} onSelect={selectRate} />
         </div>
       )}
     </div>
@@ -312,6 +373,551 @@ const suggestCode = (name: string): string =>
     .replace(/^-+|-+$/g, '')
     .substring(0, 50);
 
+// Contents of a ZIP archive / e-mail — one child upload per document
+const ContainerContents: React.FC<{
+  container: NonNullable<UploadMeta['container']>;
+  uploads: Upload[];
+}> = ({ container, uploads }) => {
+  const rows = [...uploads].sort((a, b) =>
+    (a.meta?.source?.path ?? a.filename).localeCompare(b.meta?.source?.path ?? b.filename));
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">
+        {container.kind === 'zip' ? 'Inhalt des Archivs' : 'Anhänge der E-Mail'} ({rows.length})
+      </h2>
+      {container.kind !== 'zip' && (
+        <dl className="grid grid-cols-[8rem_1fr] gap-y-1 text-sm mb-4">
+          <dt className="text-gray-500">Betreff</dt>
+          <dd className="text-gray-900">{container.subject || '—'}</dd>
+          <dt className="text-gray-500">Absender</dt>
+          <dd className="text-gray-900">
+            {container.sender_name && container.sender && container.sender_name !== container.sender
+              ? `${container.sender_name} <${container.sender}>`
+              : container.sender_name || container.sender || '—'}
+          </dd>
+          <dt className="text-gray-500">Datum</dt>
+          <dd className="text-gray-900">
+            {container.date ? new Date(container.date).toLocaleString('de-DE') : '—'}
+          </dd>
+        </dl>
+      )}
+      {rows.length === 0 ? (
+        <p className="text-gray-500 text-sm">Keine verarbeitbaren Dokumente enthalten.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="pb-2 pr-4">Datei</th>
+              <th className="pb-2 pr-4">Dokumenttyp</th>
+              <th className="pb-2 pr-4">Status</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((upload) => (
+              <tr key={upload.id} className="border-b last:border-0">
+                <td className="py-2 pr-4 text-gray-800">{upload.meta?.source?.path ?? upload.filename}</td>
+                <td className="py-2 pr-4 text-gray-500">{upload.docType ?? '—'}</td>
+                <td className="py-2 pr-4">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[upload.status ?? ''] ?? 'bg-gray-100 text-gray-600'}`}>
+                    {upload.status}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  <Link
+                    to={upload.docType === 'diesel_floater'
+                      ? `/uploads/${upload.id}/diesel-floater`
+                      : `/uploads/${upload.id}/detail`}
+                    className="text-blue-600 hover:text-blue-700 text-xs"
+                  >
+                    Detail →
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {container.skipped_count > 0 && (
+        <p className="text-xs text-orange-700 mt-3">
+          {container.skipped_count} Einträge übersprungen — Gründe unter parsing_issues.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// File types GET /api/uploads/{id}/source can show (see source_document_service.source_kind)
+const SOURCE_VIEW_PATTERN = /\.(pdf|png|jpe?g|csv|xlsx?)$/i;
+
+// What the source viewer should jump to: a page region, a sheet row or a value to search for
+interface SourceFocus {
+  page?: number;
+  boxes?: SourceBox[];
+  row?: number;
+  query?: string;
+  // Bumped on every click so selecting the same value again scrolls back to it
+  key: number;
+}
+
+// Original file next to the extracted data — PDF / image pages or a spreadsheet preview
+const SourceViewer: React.FC<{ uploadId: string; focus: SourceFocus | null }> = ({ uploadId, focus }) => {
+  const [source, setSource] = useState<SourceDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const [boxes, setBoxes] = useState<SourceBox[]>([]);
+  const [row, setRow] = useState<number | null>(null);
+  const [notFound, setNotFound] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    api.get<SourceDocument>(`/api/uploads/${uploadId}/source`)
+      .then((res) => setSource(res.data))
+      .catch((err: unknown) => {
+        const e = err as { response?: { data?: { detail?: string } } };
+        setError(e.response?.data?.detail ?? 'Quelldokument konnte nicht geladen werden');
+      });
+  }, [uploadId]);
+
+  // Page images need the auth header, so they are fetched as blobs like the diesel floater PDF
+  const isPaged = source != null && source.kind !== 'sheet';
+  useEffect(() => {
+    if (!isPaged) return;
+    let url: string | null = null;
+    let cancelled = false;
+    api.get<Blob>(`/api/uploads/${uploadId}/pages/${page}`, { responseType: 'blob' })
+      .then((res) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(res.data);
+        setPageUrl(url);
+      })
+      .catch(() => { if (!cancelled) setPageUrl(null); });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [uploadId, isPaged, page]);
+
+  useEffect(() => {
+    if (!focus || !source) return;
+    setNotFound(null);
+    if (focus.row != null) {
+      setRow(focus.row);
+      return;
+    }
+    if (focus.page != null) {
+      setPage(focus.page);
+      setBoxes(focus.boxes ?? []);
+      return;
+    }
+    const query = focus.query?.trim();
+    if (!query) return;
+    if (source.kind === 'sheet') {
+      // No text layer to search — match whole cells of the preview
+      const variants = [query, query.replace('.', ',')];
+      const hit = source.sheets
+        .flatMap((sheet) => sheet.rows)
+        .find((r) => r.values.some((v) => v != null && variants.includes(v.trim())));
+      if (hit) setRow(hit.rowNumber);
+      else setNotFound(query);
+      return;
+    }
+    let cancelled = false;
+    api.get<SourceHit[]>(`/api/uploads/${uploadId}/locate`, { params: { q: query } })
+      .then((res) => {
+        if (cancelled) return;
+        if (res.data.length === 0) {
+          setBoxes([]);
+          setNotFound(query);
+          return;
+        }
+        const first = res.data[0].pageNumber;
+        setPage(first);
+        setBoxes(res.data.filter((h) => h.pageNumber === first).map((h) => h.bbox));
+      })
+      .catch(() => { if (!cancelled) setNotFound(query); });
+    return () => { cancelled = true; };
+  }, [uploadId, source, focus]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [pageUrl, boxes, row, focus?.key]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!source) return <p className="text-sm text-gray-500">Lade Quelldokument…</p>;
+
+  const pageCount = source.pages.length;
+  const currentPage = source.pages[page - 1];
+
+  return (
+    <div className="space-y-3">
+      {notFound && (
+        <p className="text-xs text-orange-700 bg-orange-50 rounded px-3 py-2">
+          „{notFound}" im Quelldokument nicht gefunden.
+        </p>
+      )}
+      {isPaged ? (
+        <>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <button
+                onClick={() => { setPage(page - 1); setBoxes([]); }}
+                disabled={page <= 1}
+                className="px-2 py-0.5 rounded hover:bg-gray-100 disabled:opacity-40"
+              >
+                ‹
+              </button>
+              <span>Seite {page} / {pageCount}</span>
+              <button
+                onClick={() => { setPage(page + 1); setBoxes([]); }}
+                disabled={page >= pageCount}
+                className="px-2 py-0.5 rounded hover:bg-gray-100 disabled:opacity-40"
+              >
+                ›
+              </button>
+            </div>
+          )}
+          <div
+            className="relative border bg-gray-50"
+            style={currentPage ? { aspectRatio: `${currentPage.width} / ${currentPage.height}` } : undefined}
+          >
+            {pageUrl && <img src={pageUrl} alt={`Seite ${page}`} className="w-full h-full" />}
+            {boxes.map(([x0, y0, x1, y1], i) => (
+              <div
+                key={`${focus?.key ?? 0}-${i}`}
+                ref={i === 0 ? (el) => { highlightRef.current = el; } : undefined}
+                className="absolute border-2 border-yellow-500 bg-yellow-300/30 pointer-events-none"
+                style={{
+                  left: `${x0 * 100}%`,
+                  top: `${y0 * 100}%`,
+                  width: `${(x1 - x0) * 100}%`,
+                  height: `${(y1 - y0) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        source.sheets.map((sheet) => (
+          <div key={sheet.name} className="overflow-x-auto">
+            {source.sheets.length > 1 && (
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">{sheet.name}</h3>
+            )}
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="pb-1 pr-3 text-right">#</th>
+                  {sheet.columns.map((c) => (
+                    <th key={c} className="pb-1 pr-3 whitespace-nowrap">{c}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.rows.map((r) => (
+                  <tr
+                    key={r.rowNumber}
+                    ref={r.rowNumber === row ? (el) => { highlightRef.current = el; } : undefined}
+                    className={`border-b last:border-0 ${r.rowNumber === row ? 'bg-yellow-100' : ''}`}
+                  >
+                    <td className="py-1 pr-3 text-right text-gray-400 tabular-nums">{r.rowNumber}</td>
+                    {r.values.map((v, i) => (
+                      <td key={i} className="py-1 pr-3 whitespace-nowrap text-gray-800">{v ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {sheet.truncated && (
+              <p className="text-xs text-gray-500 mt-2">Vorschau auf die ersten {sheet.rows.length} Zeilen gekürzt.</p>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+const PAGE_TYPE_LABELS: Record<VisionPageType, string> = {
+  'cover':              'Deckblatt',
+  'line-item-table':    'Positionstabelle',
+  'surcharge-appendix': 'Zuschlagsanhang',
+  'continuation':       'Fortsetzung',
+};
+
+const SKIP_LABELS: Record<NonNullable<VisionPage['skipReason']>, string> = {
+  extraction_failed: 'Extraktion fehlgeschlagen',
+  no_data:           'Keine Daten',
+};
+
+const confidenceClass = (value: number) =>
+  value >= 0.9 ? 'text-green-600' : value >= 0.7 ? 'text-yellow-600' : 'text-red-600';
+
+// Page images need the auth header — fetched as blob like the source viewer pages
+const PageThumbnail: React.FC<{ uploadId: string; pageNumber: number }> = ({ uploadId, pageNumber }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    api.get<Blob>(`/api/uploads/${uploadId}/pages/${pageNumber}`, {
+      params: { thumbnail: true },
+      responseType: 'blob',
+    })
+      .then((res) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(res.data);
+        setUrl(objectUrl);
+      })
+      .catch(() => { if (!cancelled) setUrl(null); });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [uploadId, pageNumber]);
+
+  return url
+    ? <img src={url} alt={`Seite ${pageNumber}`} className="w-full border" />
+    : <div className="w-full aspect-[1/1.414] border bg-gray-50" />;
+};
+
+// Vision pipeline run page by page: classification, confidence, skipped pages.
+// A page can be re-extracted as a different page type without re-running the others.
+// A full run is a background task on the server; its progress comes from the upload stream.
+const VisionPagesPanel: React.FC<{
+  uploadId: string;
+  onSelectPage?: (pageNumber: number) => void;
+}> = ({ uploadId, onSelectPage }) => {
+  const [inspection, setInspection] = useState<VisionInspection | null>(null);
+  const [pageTypes, setPageTypes] = useState<Record<number, VisionPageType>>({});
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [analysing, setAnalysing] = useState(false);
+  const [progress, setProgress] = useState<VisionRunEvent | null>(null);
+  const [busyPage, setBusyPage] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get<VisionInspection>(`/api/uploads/${uploadId}/vision-pages`)
+      .then((res) => {
+        setInspection(res.data);
+        // A run started before this page was opened is followed as well
+        setAnalysing(res.data.running);
+      })
+      .catch(() => setError('Seitenanalyse konnte nicht geladen werden'));
+  }, [uploadId]);
+
+  useEffect(() => {
+    if (!analysing) return;
+    const stop = streamUploadEvents(`/api/uploads/${uploadId}/events`, () => {}, false, (event) => {
+      if (event.status === 'running') {
+        setProgress(event);
+        return;
+      }
+      stop();
+      setProgress(null);
+      setAnalysing(false);
+      if (event.status === 'failed') {
+        setError(event.message ?? 'Analyse fehlgeschlagen');
+        return;
+      }
+      api.get<VisionInspection>(`/api/uploads/${uploadId}/vision-pages`)
+        .then((res) => {
+          setInspection(res.data);
+          setPageTypes({});
+        })
+        .catch(() => setError('Seitenanalyse konnte nicht geladen werden'));
+    });
+    return stop;
+  }, [uploadId, analysing]);
+
+  const apply = (next: VisionInspection) => {
+    setInspection(next);
+    setPageTypes({});
+  };
+
+  const handleAnalyse = async () => {
+    setAnalysing(true);
+    setError(null);
+    try {
+      // 202 — the run continues in the background and reports on the upload stream
+      const res = await api.post<VisionInspection>(`/api/uploads/${uploadId}/vision-pages`);
+      apply(res.data);
+      setProgress(null);
+      setAnalysing(true);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail ?? 'Analyse konnte nicht gestartet werden');
+    }
+  };
+
+  const handleExtract = async (page: VisionPage) => {
+    setBusyPage(page.pageNumber);
+    setError(null);
+    try {
+      const res = await api.post<VisionInspection>(
+        `/api/uploads/${uploadId}/vision-pages/${page.pageNumber}/extract`,
+        { pageType: pageTypes[page.pageNumber] ?? page.pageType },
+      );
+      apply(res.data);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { detail?: string } } };
+      setError(e.response?.data?.detail ?? `Seite ${page.pageNumber} konnte nicht extrahiert werden`);
+    } finally {
+      setBusyPage(null);
+    }
+  };
+
+  const pages = inspection?.pages ?? [];
+  const skipped = pages.filter((p) => p.skipReason);
+  const progressLabel =
+    progress?.step === 'rendering' && progress.page != null && progress.pageCount != null
+      ? `Seite ${progress.page} / ${progress.pageCount} vorbereitet…`
+      : progress?.step === 'pipeline' && progress.pageCount != null
+        ? `Analysiere ${progress.pageCount} Seiten…`
+        : 'Analysiere alle Seiten…';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Seitenanalyse (Vision-Pipeline)</h2>
+          {inspection?.extractedAt && (
+            <p className="text-sm text-gray-500 mt-0.5">
+              Stand {new Date(inspection.extractedAt).toLocaleString('de-DE')}
+              {inspection.confidence != null && (
+                <> · Gesamt <span className={confidenceClass(inspection.confidence)}>
+                  {(inspection.confidence * 100).toFixed(0)} %
+                </span></>
+              )}
+              {inspection.reviewAction && <> · {inspection.reviewAction}</>}
+              {skipped.length > 0 && (
+                <span className="text-orange-700"> · übersprungen: Seite {skipped.map((p) => p.pageNumber).join(', ')}</span>
+              )}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleAnalyse}
+          disabled={analysing || busyPage !== null}
+          className="text-sm bg-blue-600 text-white px-4 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {analysing ? progressLabel : inspection?.extractedAt ? 'Neu analysieren' : 'Analyse starten'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {!inspection ? (
+        !error && <p className="text-sm text-gray-500">Lade…</p>
+      ) : pages.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Noch keine Seitenanalyse. Klassifiziert und extrahiert jede Seite einzeln — dauert je nach Seitenzahl einige Minuten
+          und läuft im Hintergrund weiter, auch wenn die Seite verlassen wird.
+          Die importierten Sendungen bleiben unverändert.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {pages.map((page) => {
+            const selectedType = pageTypes[page.pageNumber] ?? page.pageType;
+            return (
+              <div
+                key={page.pageNumber}
+                className={`border rounded p-3 space-y-2 text-sm ${page.skipReason ? 'border-orange-300 bg-orange-50' : ''}`}
+              >
+                <button
+                  onClick={onSelectPage ? () => onSelectPage(page.pageNumber) : undefined}
+                  className={`block w-full ${onSelectPage ? 'cursor-pointer' : 'cursor-default'}`}
+                  title={onSelectPage ? 'Im Quelldokument anzeigen' : undefined}
+                >
+                  <PageThumbnail uploadId={uploadId} pageNumber={page.pageNumber} />
+                </button>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">Seite {page.pageNumber}</span>
+                  {page.confidence != null ? (
+                    <span className={confidenceClass(page.confidence)}>{(page.confidence * 100).toFixed(0)} %</span>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </div>
+                {page.skipReason && (
+                  <p className="text-xs font-medium text-orange-700">Übersprungen: {SKIP_LABELS[page.skipReason]}</p>
+                )}
+                <select
+                  value={selectedType}
+                  onChange={(e) => setPageTypes({ ...pageTypes, [page.pageNumber]: e.target.value as VisionPageType })}
+                  className="w-full border rounded px-2 py-1 text-sm"
+                >
+                  {(Object.keys(PAGE_TYPE_LABELS) as VisionPageType[]).map((t) => (
+                    <option key={t} value={t}>{PAGE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+                {page.pageType !== page.classifiedType && (
+                  <p className="text-xs text-blue-700">
+                    Manuell gesetzt (Klassifizierer: {PAGE_TYPE_LABELS[page.classifiedType]})
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {page.lineCount} Positionen
+                  {page.directOcrRatio != null && <> · direkt gelesen {(page.directOcrRatio * 100).toFixed(0)} %</>}
+                  {page.completenessRatio != null && <> · vollständig {(page.completenessRatio * 100).toFixed(0)} %</>}
+                </p>
+                <button
+                  onClick={() => handleExtract(page)}
+                  disabled={analysing || busyPage !== null}
+                  className="w-full text-xs border border-blue-600 text-blue-600 px-2 py-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                >
+                  {busyPage === page.pageNumber
+                    ? 'Extrahiere…'
+                    : selectedType !== page.pageType ? `Als ${PAGE_TYPE_LABELS[selectedType]} neu extrahieren` : 'Seite neu extrahieren'}
+                </button>
+                {(page.fields.length > 0 || page.issues.length > 0) && (
+                  <button
+                    onClick={() => setExpanded(expanded === page.pageNumber ? null : page.pageNumber)}
+                    className="text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    {expanded === page.pageNumber ? 'Details ausblenden' : 'Felder & Hinweise'}
+                  </button>
+                )}
+                {expanded === page.pageNumber && (
+                  <div className="space-y-2">
+                    {page.fields.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="pr-2">Feld</th>
+                            <th className="pr-2 text-right" title="direkt gelesen">OCR</th>
+                            <th className="pr-2 text-right" title="vom Modell abgeleitet">abgel.</th>
+                            <th className="text-right">fehlt</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {page.fields.map((f) => (
+                            <tr key={f.field} className="border-t border-gray-100">
+                              <td className="pr-2 font-mono text-gray-700 break-all">{f.field}</td>
+                              <td className="pr-2 text-right tabular-nums text-green-700">{f.directOcr || ''}</td>
+                              <td className="pr-2 text-right tabular-nums text-yellow-700">{f.llmInferred || ''}</td>
+                              <td className="text-right tabular-nums text-red-600">{f.missing || ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {page.issues.length > 0 && (
+                      <ul className="text-xs text-orange-700 list-disc pl-4">
+                        {page.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const FieldRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
   <div className="flex gap-2 py-1.5 border-b last:border-0">
     <span className="text-gray-500 w-48 shrink-0 text-sm">{label}</span>
@@ -331,12 +937,30 @@ export const UploadDetailPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [reprocessing, setReprocessing] = useState(false);
+  const [liveEvent, setLiveEvent] = useState<UploadStatusEvent | null>(null);
+  // Documents unpacked from this upload when it is a ZIP archive or e-mail
+  const [contained, setContained] = useState<Upload[]>([]);
+  // Bumped after a reprocess to reopen the stream, which closes on a terminal status
+  const [streamRun, setStreamRun] = useState(0);
   const [showCarrierForm, setShowCarrierForm] = useState(false);
   const [carrierName, setCarrierName] = useState('');
   const [carrierCode, setCarrierCode] = useState('');
   const [carrierCountry, setCarrierCountry] = useState('DE');
   const [creatingCarrier, setCreatingCarrier] = useState(false);
   const [carrierFormError, setCarrierFormError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const [sourceFocus, setSourceFocus] = useState<SourceFocus | null>(null);
+
+  const focusSource = (target: Omit<SourceFocus, 'key'>) =>
+    setSourceFocus((prev) => ({ ...target, key: (prev?.key ?? 0) + 1 }));
+
+  // Vision invoices carry page + row box, CSV / Excel shipments their data row;
+  // anything else is searched by its reference in the text layer
+  const focusShipment = (s: ShipmentSummary) => {
+    if (s.sourceRow != null) focusSource({ row: s.sourceRow });
+    else if (s.sourcePage != null) focusSource({ page: s.sourcePage, boxes: s.sourceBbox ? [s.sourceBbox] : [] });
+    else if (s.referenceNumber) focusSource({ query: s.referenceNumber });
+  };
 
   const loadData = useCallback(async () => {
     try {
@@ -347,6 +971,10 @@ export const UploadDetailPage: React.FC = () => {
       ]);
       setDetail(detailRes.data);
       setShipments(shipmentsRes.data);
+      if (detailRes.data.meta?.container) {
+        const containedRes = await api.get<Upload[]>(`/api/uploads?parent_upload_id=${uploadId}`);
+        setContained(containedRes.data);
+      }
 
       const la = detailRes.data.llmAnalysis;
       const tariffTableId = la && typeof la['tariff_table_id'] === 'string' ? la['tariff_table_id'] : null;
@@ -400,28 +1028,24 @@ export const UploadDetailPage: React.FC = () => {
   }, [uploadId]);
 
   useEffect(() => {
-    if (!uploadId) return;
-    let cancelled = false;
+    loadData();
+  }, [loadData]);
 
-    const pollUntilDone = async () => {
-      await loadData();
-      for (let i = 0; i < 60; i++) {
-        const statusRes = await api.get<{ status: string }>(`/api/uploads/${uploadId}`);
-        const status = statusRes.data.status;
-        if (status !== 'parsing' && status !== 'pending') break;
-        await new Promise((r) => setTimeout(r, 2000));
-        if (cancelled) return;
-        await loadData();
+  useEffect(() => {
+    if (!uploadId) return;
+    // Reload the record once a run that was seen in flight has finished
+    let sawActive = false;
+    return streamUploadEvents(`/api/uploads/${uploadId}/events`, (event) => {
+      setLiveEvent(event);
+      setDetail((prev) => (prev ? { ...prev, status: event.status } : prev));
+      if (ACTIVE_STATUSES.includes(event.status)) {
+        sawActive = true;
+        return;
       }
-    };
-
-    pollUntilDone().catch((err: unknown) => {
-      const e = err as { response?: { data?: { detail?: string } } };
-      setError(e.response?.data?.detail || 'Failed to load upload details');
-      setLoading(false);
-    });
-    return () => { cancelled = true; };
-  }, [uploadId, loadData]);
+      setReprocessing(false);
+      if (sawActive) loadData();
+    }, true);
+  }, [uploadId, loadData, streamRun]);
 
   const handleOpenCarrierForm = () => {
     const name = (detail?.llmAnalysis?.['carrier_name'] as string | undefined) ?? '';
@@ -453,23 +1077,15 @@ export const UploadDetailPage: React.FC = () => {
 
   const handleReprocess = async () => {
     if (!uploadId) return;
-    let cancelled = false;
     setReprocessing(true);
     setError(null);
     try {
       await api.post(`/api/uploads/${uploadId}/reprocess`);
-      // Poll until the pipeline finishes (leaves 'parsing' / 'pending' state)
-      for (let i = 0; i < 60; i++) {
-        await new Promise((r) => setTimeout(r, 2000));
-        if (cancelled) return;
-        await loadData();
-        const currentStatus = (await api.get<{ status: string }>(`/api/uploads/${uploadId}`)).data.status;
-        if (currentStatus !== 'parsing' && currentStatus !== 'pending') break;
-      }
+      // The stream clears `reprocessing` once the run reaches a terminal status
+      setStreamRun((n) => n + 1);
     } catch (err: unknown) {
       const e = err as { response?: { data?: { detail?: string } } };
       setError(e.response?.data?.detail || 'Reprocess failed');
-    } finally {
       setReprocessing(false);
     }
   };
@@ -506,259 +1122,324 @@ export const UploadDetailPage: React.FC = () => {
             </span>
           </div>
           <p className="text-gray-500 text-sm mt-1">Upload-ID: {detail.id}</p>
+          {detail.parentUploadId && detail.meta?.source && (
+            <p className="text-gray-500 text-sm mt-1">
+              Aus {detail.meta.source.kind === 'zip' ? 'ZIP-Archiv' : 'E-Mail'}{' '}
+              <button
+                onClick={() => navigate(`/uploads/${detail.parentUploadId}/detail`)}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                {detail.meta.source.parent_filename ?? detail.parentUploadId}
+              </button>
+              {detail.meta.source.path !== detail.filename && <> — {detail.meta.source.path}</>}
+            </p>
+          )}
+          {liveEvent && (ACTIVE_STATUSES.includes(liveEvent.status) || liveEvent.stage) && (
+            <StageProgress event={liveEvent} />
+          )}
         </div>
 
-        <div className="grid grid-cols-1 gap-6">
-          {/* DB Record */}
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold text-gray-900">Datenbank-Eintrag</h2>
-              <div className="flex gap-2">
-                <button
-                  onClick={handleReprocess}
-                  disabled={reprocessing || detail.status === 'parsing'}
-                  className="text-sm bg-yellow-600 text-white px-4 py-1.5 rounded hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {reprocessing ? 'Wird verarbeitet…' : 'Erneut verarbeiten'}
-                </button>
-                <a
-                  href={`${import.meta.env.VITE_API_URL || 'http://localhost:4000'}/api/uploads/${uploadId}/file`}
-                  download={detail.filename}
-                  className="text-sm bg-blue-600 text-white px-4 py-1.5 rounded hover:bg-blue-700"
-                >
-                  Originaldatei herunterladen
-                </a>
+        <div className={showSource ? 'flex gap-6 items-start' : undefined}>
+          {showSource && uploadId && (
+            <div className="w-1/2 shrink-0 sticky top-4 max-h-[calc(100vh-2rem)] overflow-auto bg-white rounded-lg shadow p-4">
+              <SourceViewer uploadId={uploadId} focus={sourceFocus} />
+            </div>
+          )}
+          <div className={`grid grid-cols-1 gap-6 ${showSource ? 'flex-1 min-w-0' : ''}`}>
+            {/* DB Record */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Datenbank-Eintrag</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleReprocess}
+                    disabled={reprocessing || detail.status === 'parsing'}
+                    className="text-sm bg-yellow-600 text-white px-4 py-1.5 rounded hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {reprocessing ? 'Wird verarbeitet…' : 'Erneut verarbeiten'}
+                  </button>
+                  {SOURCE_VIEW_PATTERN.test(detail.filename) && (
+                    <button
+                      onClick={() => setShowSource(!showSource)}
+                      className="text-sm border border-blue-600 text-blue-600 px-4 py-1.5 rounded hover:bg-blue-50"
+                    >
+                      {showSource ? 'Quelldokument ausblenden' : 'Quelldokument anzeigen'}
+                    </button>
+                  )}
+                  <a
+                    href={`${import.meta.env.VITE_API_URL || 'http://localhost:4000'}/api/uploads/${uploadId}/file`}
+                    download={detail.filename}
+                    className="text-sm bg-blue-600 text-white px-4 py-1.5 rounded hover:bg-blue-700"
+                  >
+                    Originaldatei herunterladen
+                  </a>
+                </div>
               </div>
+
+              <FieldRow label="id" value={detail.id} />
+              <FieldRow label="tenant_id" value={detail.tenantId} />
+              <FieldRow label="project_id" value={detail.projectId} />
+              <FieldRow label="filename" value={detail.filename} />
+              <FieldRow label="file_hash" value={detail.fileHash} />
+              <FieldRow label="raw_text_hash" value={detail.rawTextHash} />
+              <FieldRow label="mime_type" value={detail.mimeType} />
+              <FieldRow label="doc_type" value={detail.docType} />
+              <FieldRow label="storage_url" value={detail.storageUrl} />
+              <FieldRow label="parent_upload_id" value={detail.parentUploadId} />
+              <FieldRow label="status" value={detail.status} />
+              <FieldRow label="parse_method" value={detail.parseMethod} />
+              <FieldRow
+                label="confidence"
+                value={detail.confidence !== null ? `${(detail.confidence * 100).toFixed(0)}%` : null}
+              />
+              <FieldRow label="reviewed_by" value={detail.reviewedBy} />
+              <FieldRow label="reviewed_at" value={detail.reviewedAt} />
+              <FieldRow label="received_at" value={detail.receivedAt} />
+              <FieldRow label="created_at" value={detail.createdAt} />
+              <FieldRow label="updated_at" value={detail.updatedAt} />
             </div>
 
-            <FieldRow label="id" value={detail.id} />
-            <FieldRow label="tenant_id" value={detail.tenantId} />
-            <FieldRow label="project_id" value={detail.projectId} />
-            <FieldRow label="filename" value={detail.filename} />
-            <FieldRow label="file_hash" value={detail.fileHash} />
-            <FieldRow label="raw_text_hash" value={detail.rawTextHash} />
-            <FieldRow label="mime_type" value={detail.mimeType} />
-            <FieldRow label="doc_type" value={detail.docType} />
-            <FieldRow label="storage_url" value={detail.storageUrl} />
-            <FieldRow label="status" value={detail.status} />
-            <FieldRow label="parse_method" value={detail.parseMethod} />
-            <FieldRow
-              label="confidence"
-              value={detail.confidence !== null ? `${(detail.confidence * 100).toFixed(0)}%` : null}
-            />
-            <FieldRow label="reviewed_by" value={detail.reviewedBy} />
-            <FieldRow label="reviewed_at" value={detail.reviewedAt} />
-            <FieldRow label="received_at" value={detail.receivedAt} />
-            <FieldRow label="created_at" value={detail.createdAt} />
-            <FieldRow label="updated_at" value={detail.updatedAt} />
-          </div>
+            {detail.meta?.container && <ContainerContents container={detail.meta.container} uploads={contained} />}
+
+            {/* JSONB Fields */}
+            {detail.parsingIssues && detail.parsingIssues.length > 0 && (
+              <details className="bg-orange-50 border border-orange-200 rounded-lg" open>
+                <summary className="px-6 py-4 cursor-pointer list-none flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-orange-800">parsing_issues ({detail.parsingIssues.length})</h2>
+                  <span className="text-orange-400 text-xs">▼</span>
+                </summary>
+                <div className="px-6 pb-6">
+                  {(detail.parsingIssues as Array<Record<string, unknown>>)
+                    .filter((issue) => issue.type === 'unknown_carrier' && issue.placeholder_carrier_id && !issue.resolved_carrier_id)
+                    .map((issue) => (
+                      <div key={String(issue.placeholder_carrier_id)} className="flex items-center justify-between mb-2 text-sm text-orange-900">
+                        <span>Platzhalter-Spediteur <span className="font-medium">{String(issue.carrier_name ?? '')}</span></span>
+                        <button
+                          onClick={() => navigate(`/settings/carriers?merge=${issue.placeholder_carrier_id}`)}
+                          className="text-blue-600 hover:text-blue-700 text-xs"
+                        >
+                          Zusammenführen →
+                        </button>
+                      </div>
+                    ))}
+                  <pre className="text-xs text-orange-900 overflow-auto bg-orange-100 p-3 rounded">
+                    {JSON.stringify(detail.parsingIssues, null, 2)}
+                  </pre>
+                </div>
+              </details>
+            )}
 
-          {/* JSONB Fields */}
-          {detail.parsingIssues && detail.parsingIssues.length > 0 && (
-            <details className="bg-orange-50 border border-orange-200 rounded-lg" open>
-              <summary className="px-6 py-4 cursor-pointer list-none flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-orange-800">parsing_issues ({detail.parsingIssues.length})</h2>
-                <span className="text-orange-400 text-xs">▼</span>
-              </summary>
-              <div className="px-6 pb-6">
-                <pre className="text-xs text-orange-900 overflow-auto bg-orange-100 p-3 rounded">
-                  {JSON.stringify(detail.parsingIssues, null, 2)}
+            {detail.parseErrors && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+                <h2 className="text-lg font-semibold text-red-800 mb-3">parse_errors</h2>
+                <pre className="text-xs text-red-900 overflow-auto bg-red-100 p-3 rounded">
+                  {JSON.stringify(detail.parseErrors, null, 2)}
                 </pre>
               </div>
-            </details>
-          )}
+            )}
 
-          {detail.parseErrors && (
-            <div className="bg-red-50 border border-red-200 rounded-lg p-6">
-              <h2 className="text-lg font-semibold text-red-800 mb-3">parse_errors</h2>
-              <pre className="text-xs text-red-900 overflow-auto bg-red-100 p-3 rounded">
-                {JSON.stringify(detail.parseErrors, null, 2)}
-              </pre>
-            </div>
-          )}
+            {detail.llmAnalysis && (
+              <details className="bg-white rounded-lg shadow">
+                <summary className="px-6 py-4 cursor-pointer list-none flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-gray-900">llm_analysis</h2>
+                  <span className="text-gray-400 text-xs">▼</span>
+                </summary>
+                <div className="px-6 pb-6">
+                  <pre className="text-xs text-gray-700 overflow-auto bg-gray-50 p-3 rounded">
+                    {JSON.stringify(detail.llmAnalysis, null, 2)}
+                  </pre>
+                </div>
+              </details>
+            )}
 
-          {detail.llmAnalysis && (
-            <details className="bg-white rounded-lg shadow">
-              <summary className="px-6 py-4 cursor-pointer list-none flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-gray-900">llm_analysis</h2>
-                <span className="text-gray-400 text-xs">▼</span>
-              </summary>
-              <div className="px-6 pb-6">
+            {detail.suggestedMappings && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">suggested_mappings</h2>
                 <pre className="text-xs text-gray-700 overflow-auto bg-gray-50 p-3 rounded">
-                  {JSON.stringify(detail.llmAnalysis, null, 2)}
+                  {JSON.stringify(detail.suggestedMappings, null, 2)}
                 </pre>
               </div>
-            </details>
-          )}
-
-          {detail.suggestedMappings && (
-            <div className="bg-white rounded-lg shadow p-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-3">suggested_mappings</h2>
-              <pre className="text-xs text-gray-700 overflow-auto bg-gray-50 p-3 rounded">
-                {JSON.stringify(detail.suggestedMappings, null, 2)}
-              </pre>
-            </div>
-          )}
+            )}
 
-          {detail.meta && (
-            <div className="bg-white rounded-lg shadow p-6">
-              <h2 className="text-lg font-semibold text-gray-900 mb-3">meta</h2>
-              <pre className="text-xs text-gray-700 overflow-auto bg-gray-50 p-3 rounded">
-                {JSON.stringify(detail.meta, null, 2)}
-              </pre>
-            </div>
-          )}
+            {detail.meta && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">meta</h2>
+                <pre className="text-xs text-gray-700 overflow-auto bg-gray-50 p-3 rounded">
+                  {JSON.stringify(detail.meta, null, 2)}
+                </pre>
+              </div>
+            )}
 
-          {/* Tariff Table */}
-          {tariff && isTariffPreview && (
-            <div className="bg-orange-50 border border-orange-200 rounded-lg px-5 py-4">
-              <div className="flex items-start gap-3">
-                <span className="text-orange-500 text-lg leading-none mt-0.5">⚠</span>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between gap-4">
-                    <p className="text-sm font-medium text-orange-800">Vorschau — Spediteur noch nicht zugeordnet</p>
-                    {!showCarrierForm && (
-                      <button
-                        onClick={handleOpenCarrierForm}
-                        className="shrink-0 text-sm bg-orange-600 text-white px-3 py-1 rounded hover:bg-orange-700"
-                      >
-                        Spediteur anlegen
-                      </button>
-                    )}
-                  </div>
-                  <p className="text-xs text-orange-600 mt-0.5">
-                    Der Tarif wurde extrahiert ({detail.llmAnalysis?.['rate_count'] as number | undefined} Zeilen, {detail.llmAnalysis?.['zone_count'] as number | undefined} PLZ-Einträge),
-                    aber noch nicht gespeichert. Legen Sie den Spediteur an — der Tarif wird danach automatisch importiert.
-                  </p>
+            {/* Tariff Table */}
+            {tariff && isTariffPreview && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg px-5 py-4">
+                <div className="flex items-start gap-3">
+                  <span className="text-orange-500 text-lg leading-none mt-0.5">⚠</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="text-sm font-medium text-orange-800">Vorschau — Spediteur noch nicht zugeordnet</p>
+                      {!showCarrierForm && (
+                        <button
+                          onClick={handleOpenCarrierForm}
+                          className="shrink-0 text-sm bg-orange-600 text-white px-3 py-1 rounded hover:bg-orange-700"
+                        >
+                          Spediteur anlegen
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-orange-600 mt-0.5">
+                      Der Tarif wurde extrahiert ({detail.llmAnalysis?.['rate_count'] as number | undefined} Zeilen, {detail.llmAnalysis?.['zone_count'] as number | undefined} PLZ-Einträge),
+                      aber noch nicht gespeichert. Legen Sie den Spediteur an — der Tarif wird danach automatisch importiert.
+                    </p>
 
-                  {showCarrierForm && (
-                    <div className="mt-4 border-t border-orange-200 pt-4 space-y-3">
-                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                        <div className="sm:col-span-2">
-                          <label className="block text-xs font-medium text-orange-800 mb-1">Name</label>
-                          <input
-                            type="text"
-                            value={carrierName}
-                            onChange={(e) => {
-                              setCarrierName(e.target.value);
-                              setCarrierCode(suggestCode(e.target.value));
-                            }}
-                            className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white focus:outline-none focus:ring-1 focus:ring-orange-400"
-                          />
+                    {showCarrierForm && (
+                      <div className="mt-4 border-t border-orange-200 pt-4 space-y-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                          <div className="sm:col-span-2">
+                            <label className="block text-xs font-medium text-orange-800 mb-1">Name</label>
+                            <input
+                              type="text"
+                              value={carrierName}
+                              onChange={(e) => {
+                                setCarrierName(e.target.value);
+                                setCarrierCode(suggestCode(e.target.value));
+                              }}
+                              className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white focus:outline-none focus:ring-1 focus:ring-orange-400"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-orange-800 mb-1">Kürzel (code)</label>
+                            <input
+                              type="text"
+                              value={carrierCode}
+                              onChange={(e) => setCarrierCode(e.target.value)}
+                              className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white font-mono focus:outline-none focus:ring-1 focus:ring-orange-400"
+                            />
+                          </div>
                         </div>
-                        <div>
-                          <label className="block text-xs font-medium text-orange-800 mb-1">Kürzel (code)</label>
+                        <div className="w-24">
+                          <label className="block text-xs font-medium text-orange-800 mb-1">Land</label>
                           <input
                             type="text"
-                            value={carrierCode}
-                            onChange={(e) => setCarrierCode(e.target.value)}
-                            className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white font-mono focus:outline-none focus:ring-1 focus:ring-orange-400"
+                            value={carrierCountry}
+                            onChange={(e) => setCarrierCountry(e.target.value.toUpperCase().slice(0, 2))}
+                            maxLength={2}
+                            placeholder="DE"
+                            className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white font-mono uppercase focus:outline-none focus:ring-1 focus:ring-orange-400"
                           />
                         </div>
+                        {carrierFormError && (
+                          <p className="text-xs text-red-600">{carrierFormError}</p>
+                        )}
+                        <div className="flex gap-2">
+                          <button
+                            onClick={handleCreateCarrier}
+                            disabled={creatingCarrier || !carrierName.trim() || !carrierCode.trim()}
+                            className="text-sm bg-orange-600 text-white px-4 py-1.5 rounded hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {creatingCarrier ? 'Wird angelegt…' : 'Anlegen & importieren'}
+                          </button>
+                          <button
+                            onClick={() => setShowCarrierForm(false)}
+                            disabled={creatingCarrier}
+                            className="text-sm text-orange-700 px-3 py-1.5 rounded hover:bg-orange-100 disabled:opacity-50"
+                          >
+                            Abbrechen
+                          </button>
+                        </div>
                       </div>
-                      <div className="w-24">
-                        <label className="block text-xs font-medium text-orange-800 mb-1">Land</label>
-                        <input
-                          type="text"
-                          value={carrierCountry}
-                          onChange={(e) => setCarrierCountry(e.target.value.toUpperCase().slice(0, 2))}
-                          maxLength={2}
-                          placeholder="DE"
-                          className="w-full text-sm border border-orange-300 rounded px-2.5 py-1.5 bg-white font-mono uppercase focus:outline-none focus:ring-1 focus:ring-orange-400"
-                        />
-                      </div>
-                      {carrierFormError && (
-                        <p className="text-xs text-red-600">{carrierFormError}</p>
-                      )}
-                      <div className="flex gap-2">
-                        <button
-                          onClick={handleCreateCarrier}
-                          disabled={creatingCarrier || !carrierName.trim() || !carrierCode.trim()}
-                          className="text-sm bg-orange-600 text-white px-4 py-1.5 rounded hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          {creatingCarrier ? 'Wird angelegt…' : 'Anlegen & importieren'}
-                        </button>
-                        <button
-                          onClick={() => setShowCarrierForm(false)}
-                          disabled={creatingCarrier}
-                          className="text-sm text-orange-700 px-3 py-1.5 rounded hover:bg-orange-100 disabled:opacity-50"
-                        >
-                          Abbrechen
-                        </button>
-                      </div>
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
-          {tariff && <TariffTableView tariff={tariff} />}
-          {detail.docType === 'tariff' && detail.llmAnalysis?.['billing_conditions'] &&
-            Object.keys(detail.llmAnalysis['billing_conditions'] as Record<string, unknown>).length > 0 && (
-            <BillingConditionsView conditions={detail.llmAnalysis['billing_conditions'] as Record<string, number>} />
-          )}
+            )}
+            {tariff && (
+              <TariffTableView
+                tariff={tariff}
+                onSelectValue={showSource ? (value) => focusSource({ query: String(value) }) : undefined}
+              />
+            )}
+            {detail.docType === 'tariff' && !!detail.llmAnalysis?.['billing_conditions'] &&
+              Object.keys(detail.llmAnalysis['billing_conditions'] as Record<string, unknown>).length > 0 && (
+              <BillingConditionsView conditions={detail.llmAnalysis['billing_conditions'] as Record<string, number>} />
+            )}
 
-          {/* Diesel Floater Brackets */}
-          {detail.docType === 'diesel_floater' && <DieselBracketView brackets={brackets} />}
-
-          {/* Parsed Shipments */}
-          {detail.docType !== 'diesel_floater' && detail.docType !== 'tariff' && <div className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">
-              Geparste Sendungen ({detail.shipmentCount})
-            </h2>
-            {shipments.length === 0 ? (
-              <p className="text-gray-500 text-sm">Keine Sendungen aus diesem Upload.</p>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b text-left text-gray-500">
-                      <th className="pb-2 pr-3">Rechnung</th>
-                      <th className="pb-2 pr-3">Datum</th>
-                      <th className="pb-2 pr-3">Referenz</th>
-                      <th className="pb-2 pr-3">Von PLZ</th>
-                      <th className="pb-2 pr-3">Nach PLZ</th>
-                      <th className="pb-2 pr-3 text-right">Gewicht (kg)</th>
-                      <th className="pb-2 pr-3 text-right">Betrag</th>
-                      <th className="pb-2">Vollständigkeit</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {shipments.map((s) => (
-                      <tr key={s.id} className="border-b last:border-0 hover:bg-gray-50">
-                        <td className="py-2 pr-3 font-mono text-xs">{s.invoiceNumber ?? '—'}</td>
-                        <td className="py-2 pr-3">
-                          {s.shipmentDate ? s.shipmentDate.split('-').reverse().join('.') : '—'}
-                        </td>
-                        <td className="py-2 pr-3 font-mono text-xs">{s.referenceNumber ?? '—'}</td>
-                        <td className="py-2 pr-3">{s.originZip ?? '—'}</td>
-                        <td className="py-2 pr-3">{s.destZip ?? '—'}</td>
-                        <td className="py-2 pr-3 text-right tabular-nums">
-                          {s.weightKg != null ? Number(s.weightKg).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—'}
-                        </td>
-                        <td className="py-2 pr-3 text-right tabular-nums">
-                          {s.actualTotalAmount != null
-                            ? `${Number(s.actualTotalAmount).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${s.currency ?? ''}`
-                            : '—'}
-                        </td>
-                        <td className="py-2">
-                          {s.completenessScore !== null ? (
-                            <span className={
-                              Number(s.completenessScore) >= 0.9 ? 'text-green-600' :
-                              Number(s.completenessScore) >= 0.7 ? 'text-yellow-600' :
-                              'text-red-600'
-                            }>
-                              {(Number(s.completenessScore) * 100).toFixed(0)}%
-                            </span>
-                          ) : '—'}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+            {/* Diesel Floater Brackets */}
+            {detail.docType === 'diesel_floater' && <DieselBracketView brackets={brackets} />}
+
+            {/* Vision pipeline pages (scanned invoices) */}
+            {detail.docType === 'invoice' && uploadId && /\.(pdf|png|jpe?g)$/i.test(detail.filename) && (
+              <VisionPagesPanel
+                uploadId={uploadId}
+                onSelectPage={showSource ? (page) => focusSource({ page }) : undefined}
+              />
             )}
-          </div>}
+
+            {/* Parsed Shipments */}
+            {detail.docType !== 'diesel_floater' && detail.docType !== 'tariff' && <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Geparste Sendungen ({detail.shipmentCount})
+              </h2>
+              {shipments.length === 0 ? (
+                <p className="text-gray-500 text-sm">Keine Sendungen aus diesem Upload.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="pb-2 pr-3">Rechnung</th>
+                        <th className="pb-2 pr-3">Datum</th>
+                        <th className="pb-2 pr-3">Referenz</th>
+                        <th className="pb-2 pr-3">Von PLZ</th>
+                        <th className="pb-2 pr-3">Nach PLZ</th>
+                        <th className="pb-2 pr-3 text-right">Gewicht (kg)</th>
+                        <th className="pb-2 pr-3 text-right">Betrag</th>
+                        <th className="pb-2">Vollständigkeit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shipments.map((s) => (
+                        <tr
+                          key={s.id}
+                          onClick={showSource
+                            ? () => focusShipment(s)
+                            : detail.projectId ? () => navigate(`/projects/${detail.projectId}/shipments/${s.id}`) : undefined}
+                          className={`border-b last:border-0 hover:bg-gray-50 ${showSource || detail.projectId ? 'cursor-pointer' : ''}`}
+                        >
+                          <td className="py-2 pr-3 font-mono text-xs">{s.invoiceNumber ?? '—'}</td>
+                          <td className="py-2 pr-3">
+                            {s.shipmentDate ? s.shipmentDate.split('-').reverse().join('.') : '—'}
+                          </td>
+                          <td className="py-2 pr-3 font-mono text-xs">{s.referenceNumber ?? '—'}</td>
+                          <td className="py-2 pr-3">{s.originZip ?? '—'}</td>
+                          <td className="py-2 pr-3">{s.destZip ?? '—'}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">
+                            {s.weightKg != null ? Number(s.weightKg).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '—'}
+                          </td>
+                          <td className="py-2 pr-3 text-right tabular-nums">
+                            {s.actualTotalAmount != null
+                              ? `${Number(s.actualTotalAmount).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${s.currency ?? ''}`
+                              : '—'}
+                          </td>
+                          <td className="py-2">
+                            {s.completenessScore !== null ? (
+                              <span className={
+                                Number(s.completenessScore) >= 0.9 ? 'text-green-600' :
+                                Number(s.completenessScore) >= 0.7 ? 'text-yellow-600' :
+                                'text-red-600'
+                              }>
+                                {(Number(s.completenessScore) * 100).toFixed(0)}%
+                              </span>
+                            ) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>}
+          </div>
         </div>
       </div>
     </div>
@@ -1,16 +1,22 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { api } from '../api';
-import type { UploadReviewData, CarrierOption, ParsingIssue } from '../types';
+import type {
+  UploadReviewData,
+  CarrierOption,
+  ParsingIssue,
+  ReviewMapping,
+  ReviewAcceptResponse,
+} from '../types';
 
 /**
  * UploadReviewPage - Review LLM Analysis & Mappings (Phase 7.2)
  *
  * Human-in-the-loop review interface for:
  * - LLM file type analysis
- * - Suggested column mappings
- * - Data preview
- * - Accept or reject parsing strategy
+ * - Column mapping editor: re-assign fields, ignore columns, add transformations
+ * - Data preview (raw or with the edited mapping applied)
+ * - Accept (optionally saving the mapping as a named template) or reject
  */
 export const UploadReviewPage: React.FC = () => {
   const { uploadId } = useParams<{ uploadId: string }>();
@@ -22,6 +28,11 @@ export const UploadReviewPage: React.FC = () => {
   const [carriers, setCarriers] = useState<CarrierOption[]>([]);
   const [carrierSelections, setCarrierSelections] = useState<Record<string, string>>({});
   const [resolving, setResolving] = useState<Record<string, boolean>>({});
+  const [mapping, setMapping] = useState<Record<string, FieldMapping>>({});
+  const [ignoredColumns, setIgnoredColumns] = useState<string[]>([]);
+  const [previewMode, setPreviewMode] = useState<'raw' | 'mapped'>('mapped');
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
 
   const loadReviewData = useCallback(async () => {
     try {
@@ -32,6 +43,8 @@ export const UploadReviewPage: React.FC = () => {
         api.get<CarrierOption[]>(`/api/uploads/${uploadId}/review/carriers`),
       ]);
       setReviewData(reviewResponse.data);
+      setMapping(initialMapping(reviewResponse.data.suggestedMappings));
+      setIgnoredColumns([]);
       setCarriers(carriersResponse.data);
     } catch (err: unknown) {
       const e = err as { response?: { data?: { error?: { message?: string } } } };
@@ -76,20 +89,54 @@ export const UploadReviewPage: React.FC = () => {
     }
   };
 
+  const columns = useMemo(() => {
+    if (!reviewData) return [];
+    const fromPreview = reviewData.preview.length > 0 ? Object.keys(reviewData.preview[0]) : [];
+    const fromSuggestions = reviewData.suggestedMappings.map((m) => m.column).filter(Boolean);
+    return Array.from(new Set([...fromPreview, ...fromSuggestions]));
+  }, [reviewData]);
+
+  const mappedColumns = new Set(Object.values(mapping).map((m) => m.column));
+  const dateMapped = Boolean(mapping.date?.column);
+  const templateNameMissing = saveAsTemplate && !templateName.trim();
+
+  const updateField = (field: string, patch: Partial<FieldMapping>) => {
+    setMapping((prev) => {
+      const next = { ...prev, [field]: { ...prev[field], ...patch } as FieldMapping };
+      if (!next[field].column) delete next[field];
+      return next;
+    });
+  };
+
+  const toggleIgnored = (column: string) => {
+    setIgnoredColumns((prev) =>
+      prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column]
+    );
+  };
+
   const handleAccept = async () => {
     if (!reviewData) return;
 
+    const mappings: ReviewMapping[] = TARGET_FIELDS.filter((f) => mapping[f.key]?.column).map(
+      (f) => ({ field: f.key, ...mapping[f.key] })
+    );
+
     try {
       setSubmitting(true);
-      await api.post(`/api/uploads/${uploadId}/review/accept`, {
-        mappings: reviewData.suggestedMappings,
-        saveAsTemplate: false,
+      setError(null);
+      await api.post<ReviewAcceptResponse>(`/api/uploads/${uploadId}/review/accept`, {
+        mappings,
+        ignoredColumns,
+        saveAsTemplate,
+        templateName: saveAsTemplate ? templateName.trim() : null,
       });
       // Navigate back to project page
       navigate(`/projects/${reviewData.upload.projectId}`);
     } catch (err: unknown) {
-      const e = err as { response?: { data?: { error?: { message?: string } } } };
-      setError(e.response?.data?.error?.message || 'Failed to accept mappings');
+      const e = err as { response?: { data?: { detail?: string; error?: { message?: string } } } };
+      setError(
+        e.response?.data?.detail || e.response?.data?.error?.message || 'Failed to accept mappings'
+      );
       console.error('Failed to accept mappings:', err);
     } finally {
       setSubmitting(false);
@@ -242,80 +289,236 @@ export const UploadReviewPage: React.FC = () => {
         </div>
       </div>
 
-      {/* Suggested Mappings */}
+      {/* Column Mapping */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-900">Suggested Mappings</h2>
+        <h2 className="text-xl font-semibold mb-1 text-gray-900">Column Mapping</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Pre-filled from the LLM suggestion. Assign each field to any source column and add a
+          transformation where the file deviates from the defaults.
+        </p>
+        {!dateMapped && (
+          <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded p-2 mb-4">
+            No column is mapped to Date — rows without a date are skipped during parsing.
+          </p>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="border-b bg-gray-50">
                 <th className="text-left p-3 font-semibold text-gray-700">Field</th>
                 <th className="text-left p-3 font-semibold text-gray-700">Source Column</th>
-                <th className="text-left p-3 font-semibold text-gray-700">Confidence</th>
-                <th className="text-left p-3 font-semibold text-gray-700">Sample Values</th>
+                <th className="text-left p-3 font-semibold text-gray-700">Transformation</th>
+                <th className="text-left p-3 font-semibold text-gray-700">Suggestion</th>
+                <th className="text-left p-3 font-semibold text-gray-700">Sample (mapped)</th>
               </tr>
             </thead>
             <tbody>
-              {reviewData.suggestedMappings.map((mapping, i) => (
-                <tr key={i} className="border-b hover:bg-gray-50">
-                  <td className="p-3 font-medium text-gray-900">{mapping.field}</td>
-                  <td className="p-3 text-gray-700">{mapping.column}</td>
-                  <td className="p-3">
-                    <span className={`font-medium ${
-                      mapping.confidence >= 0.8 ? 'text-green-600' :
-                      mapping.confidence >= 0.6 ? 'text-yellow-600' :
-                      'text-red-600'
-                    }`}>
-                      {(mapping.confidence * 100).toFixed(0)}%
-                    </span>
-                  </td>
-                  <td className="p-3 text-gray-600 text-sm">
-                    {mapping.sampleValues.slice(0, 3).join(', ')}
-                  </td>
-                </tr>
-              ))}
+              {TARGET_FIELDS.map((target) => {
+                const current = mapping[target.key];
+                const suggestion = findSuggestion(reviewData.suggestedMappings, target.key);
+                const sample = current
+                  ? applyMapping(reviewData.preview[0]?.[current.column], target.kind, current)
+                  : null;
+                return (
+                  <tr key={target.key} className="border-b hover:bg-gray-50">
+                    <td className="p-3 font-medium text-gray-900">{target.label}</td>
+                    <td className="p-3">
+                      <select
+                        className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                        value={current?.column ?? ''}
+                        onChange={(e) => updateField(target.key, { column: e.target.value })}
+                      >
+                        <option value="">— not mapped —</option>
+                        {columns
+                          .filter((c) => !ignoredColumns.includes(c) || c === current?.column)
+                          .map((c) => (
+                            <option key={c} value={c}>
+                              {c}
+                              {mappedColumns.has(c) && c !== current?.column ? ' (in use)' : ''}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="p-3">
+                      {current && (
+                        <TransformControls
+                          kind={target.kind}
+                          value={current}
+                          onChange={(patch) => updateField(target.key, patch)}
+                        />
+                      )}
+                    </td>
+                    <td className="p-3 text-sm">
+                      {suggestion ? (
+                        <>
+                          <span className="text-gray-700">{suggestion.column}</span>{' '}
+                          <span className={`font-medium ${
+                            suggestion.confidence >= 0.8 ? 'text-green-600' :
+                            suggestion.confidence >= 0.6 ? 'text-yellow-600' :
+                            'text-red-600'
+                          }`}>
+                            {(suggestion.confidence * 100).toFixed(0)}%
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className={`p-3 text-sm ${sample && !sample.ok ? 'text-red-600' : 'text-gray-600'}`}>
+                      {sample ? sample.text : ''}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
+
+        {/* Ignored columns */}
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Ignore columns</h3>
+          <p className="text-xs text-gray-500 mb-2">
+            Ignored columns are dropped from the stored source data of each shipment.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {columns.map((c) => {
+              const inUse = mappedColumns.has(c);
+              const ignored = ignoredColumns.includes(c);
+              return (
+                <label
+                  key={c}
+                  className={`flex items-center gap-1.5 text-sm border rounded px-2 py-1 ${
+                    inUse ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'
+                  } ${ignored ? 'bg-gray-100 line-through text-gray-500' : 'text-gray-700'}`}
+                  title={inUse ? 'Mapped columns cannot be ignored' : undefined}
+                >
+                  <input
+                    type="checkbox"
+                    checked={ignored}
+                    disabled={inUse}
+                    onChange={() => toggleIgnored(c)}
+                  />
+                  {c}
+                </label>
+              );
+            })}
+          </div>
+        </div>
       </div>
 
       {/* Data Preview */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4 text-gray-900">
-          Preview (First 10 rows)
-        </h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Preview (First 10 rows)
+          </h2>
+          <div className="flex rounded border border-gray-300 overflow-hidden text-sm">
+            {(['mapped', 'raw'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setPreviewMode(mode)}
+                className={`px-3 py-1 ${
+                  previewMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {mode === 'mapped' ? 'With mapping' : 'Raw file'}
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="overflow-x-auto">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b bg-gray-50">
-                {reviewData.preview.length > 0 &&
-                  Object.keys(reviewData.preview[0]).map((key) => (
-                    <th key={key} className="text-left p-2 font-semibold text-gray-700">
+          {previewMode === 'raw' ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  {columns.map((key) => (
+                    <th
+                      key={key}
+                      className={`text-left p-2 font-semibold ${
+                        ignoredColumns.includes(key) ? 'text-gray-400 line-through' : 'text-gray-700'
+                      }`}
+                    >
                       {key}
                     </th>
                   ))}
-              </tr>
-            </thead>
-            <tbody>
-              {reviewData.preview.slice(0, 10).map((row, i) => (
-                <tr key={i} className="border-b hover:bg-gray-50">
-                  {Object.values(row).map((val, j) => (
-                    <td key={j} className="p-2 text-gray-700">
-                      {String(val)}
-                    </td>
+                </tr>
+              </thead>
+              <tbody>
+                {reviewData.preview.slice(0, 10).map((row, i) => (
+                  <tr key={i} className="border-b hover:bg-gray-50">
+                    {columns.map((key) => (
+                      <td
+                        key={key}
+                        className={`p-2 ${ignoredColumns.includes(key) ? 'text-gray-300' : 'text-gray-700'}`}
+                      >
+                        {row[key] == null ? '' : String(row[key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  {TARGET_FIELDS.filter((f) => mapping[f.key]).map((f) => (
+                    <th key={f.key} className="text-left p-2 font-semibold text-gray-700">
+                      {f.label}
+                      <div className="text-xs font-normal text-gray-400">{mapping[f.key].column}</div>
+                    </th>
                   ))}
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {reviewData.preview.slice(0, 10).map((row, i) => (
+                  <tr key={i} className="border-b hover:bg-gray-50">
+                    {TARGET_FIELDS.filter((f) => mapping[f.key]).map((f) => {
+                      const cell = applyMapping(row[mapping[f.key].column], f.kind, mapping[f.key]);
+                      return (
+                        <td key={f.key} className={`p-2 ${cell.ok ? 'text-gray-700' : 'text-red-600'}`}>
+                          {cell.text}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
       </div>
 
+      {/* Save as template */}
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <label className="flex items-center gap-2 text-gray-900 font-medium">
+          <input
+            type="checkbox"
+            checked={saveAsTemplate}
+            onChange={(e) => setSaveAsTemplate(e.target.checked)}
+          />
+          Save mapping as template
+        </label>
+        <p className="text-sm text-gray-500 mt-1 ml-6">
+          Future uploads with the same file name pattern and columns are parsed with this mapping.
+        </p>
+        {saveAsTemplate && (
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name, e.g. DHL Standard Export v2"
+            maxLength={255}
+            className="mt-3 ml-6 w-96 border border-gray-300 rounded px-3 py-1.5 text-sm"
+          />
+        )}
+      </div>
+
       {/* Action Buttons */}
       <div className="flex gap-4">
         <button
           onClick={handleAccept}
-          disabled={submitting}
+          disabled={submitting || Object.keys(mapping).length === 0 || templateNameMissing}
           className="bg-green-600 text-white px-6 py-3 rounded hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed font-medium"
         >
           {submitting ? 'Processing...' : 'Accept & Parse'}
@@ -338,3 +541,173 @@ export const UploadReviewPage: React.FC = () => {
     </div>
   );
 };
+
+// ---------------------------------------------------------------------------
+// Mapping editor helpers — the transformations mirror csv_parser.parse_with_template
+// ---------------------------------------------------------------------------
+
+type FieldKind = 'date' | 'number' | 'weight' | 'text';
+type FieldMapping = Omit<ReviewMapping, 'field'>;
+
+const TARGET_FIELDS: Array<{ key: string; label: string; kind: FieldKind }> = [
+  { key: 'date', label: 'Date', kind: 'date' },
+  { key: 'carrier_name', label: 'Carrier', kind: 'text' },
+  { key: 'origin_zip', label: 'Origin ZIP', kind: 'text' },
+  { key: 'origin_country', label: 'Origin Country', kind: 'text' },
+  { key: 'dest_zip', label: 'Destination ZIP', kind: 'text' },
+  { key: 'dest_country', label: 'Destination Country', kind: 'text' },
+  { key: 'weight_kg', label: 'Weight', kind: 'weight' },
+  { key: 'ldm', label: 'Loading Meters', kind: 'number' },
+  { key: 'pallets', label: 'Pallets', kind: 'number' },
+  { key: 'currency', label: 'Currency', kind: 'text' },
+  { key: 'actual_total_amount', label: 'Total Amount', kind: 'number' },
+  { key: 'actual_base_amount', label: 'Base Amount', kind: 'number' },
+  { key: 'diesel_amount', label: 'Diesel Surcharge', kind: 'number' },
+  { key: 'toll_amount', label: 'Toll', kind: 'number' },
+  { key: 'reference_number', label: 'Reference', kind: 'text' },
+  { key: 'service_level', label: 'Service Level', kind: 'text' },
+];
+
+// LLM suggestions use loose field names (camelCase, synonyms)
+const FIELD_ALIASES: Record<string, string> = {
+  shipment_date: 'date',
+  carrier: 'carrier_name',
+  weight: 'weight_kg',
+  total: 'actual_total_amount',
+  total_amount: 'actual_total_amount',
+  actual_total: 'actual_total_amount',
+  base_amount: 'actual_base_amount',
+  diesel: 'diesel_amount',
+  diesel_surcharge: 'diesel_amount',
+  actual_diesel_amount: 'diesel_amount',
+  toll: 'toll_amount',
+  actual_toll_amount: 'toll_amount',
+  reference: 'reference_number',
+  service: 'service_level',
+  length_m: 'ldm',
+};
+
+function toFieldKey(field: string): string {
+  const snake = field.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+  return FIELD_ALIASES[snake] ?? snake;
+}
+
+function findSuggestion(suggestions: UploadReviewData['suggestedMappings'], key: string) {
+  return suggestions.find((s) => toFieldKey(s.field) === key);
+}
+
+function initialMapping(suggestions: UploadReviewData['suggestedMappings']): Record<string, FieldMapping> {
+  const result: Record<string, FieldMapping> = {};
+  for (const s of suggestions) {
+    const key = toFieldKey(s.field);
+    if (s.column && TARGET_FIELDS.some((f) => f.key === key) && !result[key]) {
+      result[key] = { column: s.column };
+    }
+  }
+  return result;
+}
+
+const TransformControls: React.FC<{
+  kind: FieldKind;
+  value: FieldMapping;
+  onChange: (patch: Partial<FieldMapping>) => void;
+}> = ({ kind, value, onChange }) => {
+  const selectCls = 'border border-gray-300 rounded px-2 py-1 text-sm';
+  if (kind === 'text') return null;
+  if (kind === 'date') {
+    return (
+      <select
+        className={selectCls}
+        value={value.dateFormat ?? ''}
+        onChange={(e) => onChange({ dateFormat: (e.target.value || undefined) as FieldMapping['dateFormat'] })}
+      >
+        <option value="">Date: auto</option>
+        <option value="dmy">DD.MM.YYYY</option>
+        <option value="mdy">MM/DD/YYYY</option>
+        <option value="ymd">YYYY-MM-DD</option>
+      </select>
+    );
+  }
+  return (
+    <div className="flex gap-2">
+      <select
+        className={selectCls}
+        value={value.decimal ?? ''}
+        onChange={(e) => onChange({ decimal: (e.target.value || undefined) as FieldMapping['decimal'] })}
+      >
+        <option value="">Decimal: auto</option>
+        <option value="comma">1.234,56</option>
+        <option value="dot">1,234.56</option>
+      </select>
+      {kind === 'weight' && (
+        <select
+          className={selectCls}
+          value={value.unit ?? 'kg'}
+          onChange={(e) => onChange({ unit: e.target.value === 't' ? 't' : undefined })}
+        >
+          <option value="kg">kg</option>
+          <option value="t">t → kg</option>
+        </select>
+      )}
+    </div>
+  );
+};
+
+function parseDate(raw: string, format?: FieldMapping['dateFormat']): string | null {
+  const s = raw.trim();
+  let y: number, m: number, d: number;
+  const parts = s.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/);
+  if (!parts) return null;
+  const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  if (format === 'ymd' || (!format && parts[1].length === 4)) [y, m, d] = [a, b, c];
+  else if (format === 'mdy') [m, d, y] = [a, b, c];
+  else [d, m, y] = [a, b, c];
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseNumber(raw: string, decimal?: FieldMapping['decimal']): number | null {
+  let clean = raw.replace(/[^\d.,-]/g, '');
+  if (decimal === 'comma') {
+    clean = clean.replace(/\./g, '').replace(',', '.');
+  } else if (decimal === 'dot') {
+    clean = clean.replace(/,/g, '');
+  } else {
+    const dot = clean.lastIndexOf('.');
+    const comma = clean.lastIndexOf(',');
+    if (dot !== -1 && comma !== -1) {
+      clean = dot > comma ? clean.replace(/,/g, '') : clean.replace(/\./g, '').replace(',', '.');
+    } else if (comma !== -1) {
+      const after = clean.length - comma - 1;
+      clean = after > 0 && after <= 2 ? clean.replace(',', '.') : clean.replace(/,/g, '');
+    } else if (dot !== -1 && clean.length - dot - 1 > 2) {
+      clean = clean.replace(/\./g, '');
+    }
+  }
+  const n = Number(clean);
+  return clean === '' || Number.isNaN(n) ? null : n;
+}
+
+function applyMapping(value: unknown, kind: FieldKind, m: FieldMapping): { text: string; ok: boolean } {
+  if (value == null || String(value).trim() === '') return { text: '—', ok: kind !== 'date' };
+  const raw = String(value);
+  if (kind === 'date') {
+    const iso = parseDate(raw, m.dateFormat);
+    return iso ? { text: iso, ok: true } : { text: `${raw} (invalid)`, ok: false };
+  }
+  if (kind === 'number' || kind === 'weight') {
+    // Without options the parser reads weights with a plain comma → dot swap
+    const n =
+      kind === 'weight' && !m.decimal && !m.unit
+        ? parseNumber(raw.replace(',', '.'), 'dot')
+        : parseNumber(raw, m.decimal);
+    if (n === null) return { text: `${raw} (invalid)`, ok: false };
+    const result = kind === 'weight' && m.unit === 't' ? n * 1000 : n;
+    return { text: kind === 'weight' ? `${result.toFixed(2)} kg` : result.toFixed(2), ok: true };
+  }
+  return { text: raw, ok: true };
+}
@@ -23,6 +23,64 @@ export interface ProjectStats {
   shipmentCount: number;
   noteCount: number;
   reportCount: number;
+  openNoteCount: number;
+  uploadStatusCounts: Record<string, number>;
+  latestReportId: string | null;
+  latestReportVersion: number | null;
+  latestReportGeneratedAt: string | null;
+  latestSavingsPotential: number | null;
+  latestOverpayRate: number | null;
+}
+
+// Consultant notes — matches NoteResponse from backend
+export interface ConsultantNote {
+  id: string;
+  projectId: string;
+  noteType: string;
+  content: string;
+  relatedUploadId: string | null;
+  relatedShipmentId: string | null;
+  priority: string | null;
+  status: string | null;
+  createdBy: string;
+  createdByName: string | null;
+  createdAt: string | null;
+  resolvedAt: string | null;
+}
+
+// Cross-document consistency — matches ConsistencyResponse from backend
+export type ConsistencySeverity = 'error' | 'warning';
+export type ConsistencyStatus = 'open' | 'accepted' | 'fixed';
+
+export interface ConsistencyRef {
+  uploadId: string | null;
+  filename: string | null;
+  shipmentId: string | null;
+  reference: string | null;
+  row: number | null;   // invoice line number or shipment list row
+  page: number | null;  // 1-based invoice page
+}
+
+export interface ConsistencyFinding {
+  id: string;
+  checkType: string;
+  severity: ConsistencySeverity;
+  message: string;
+  refs: ConsistencyRef[];
+  status: ConsistencyStatus;
+  resolutionNote: string | null;
+  resolvedBy: string | null;
+  resolvedByName: string | null;
+  resolvedAt: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface ConsistencyOverview {
+  findings: ConsistencyFinding[];
+  openCount: number;
+  checkedAt: string | null;  // null until the first check
+  canFinalize: boolean;
 }
 
 // Upload types — matches UploadListItemResponse from backend
@@ -40,11 +98,91 @@ export interface Upload {
   llmAnalysis?: Record<string, unknown> | null;
   parseErrors?: Record<string, unknown> | null;
   parsingIssues?: unknown[] | null;
+  // Set on documents unpacked from a ZIP archive or e-mail
+  parentUploadId: string | null;
+  meta?: UploadMeta | null;
   receivedAt: string | null;
   createdAt: string | null;
   updatedAt: string | null;
 }
 
+// upload.meta — raw JSONB, so keys stay snake_case
+export interface UploadMeta {
+  // On a ZIP archive / e-mail after unpacking
+  container?: {
+    kind: 'zip' | 'eml' | 'msg';
+    subject?: string | null;
+    sender?: string | null;
+    sender_name?: string | null;
+    date?: string | null;
+    file_count: number;
+    skipped_count: number;
+  };
+  // On a document unpacked from a container
+  source?: {
+    kind: 'zip' | 'eml' | 'msg';
+    parent_filename: string | null;
+    path: string;
+    depth: number;
+    subject?: string | null;
+    sender?: string | null;
+    date?: string | null;
+  };
+}
+
+export type UploadStage = 'preprocessing' | 'classification' | 'extraction' | 'validation' | 'review_gate';
+
+// Event of GET /api/uploads/{id}/events and /api/uploads/events?project_id=
+export interface UploadStatusEvent {
+  uploadId: string;
+  projectId: string | null;
+  status: string;
+  // Last pipeline stage reached; null before processing starts
+  stage: UploadStage | null;
+  stageIndex: number | null;
+  message: string | null;
+  at: string;
+}
+
+// "vision" event of GET /api/uploads/{id}/events — progress of a page analysis run
+export interface VisionRunEvent {
+  uploadId: string;
+  status: 'running' | 'completed' | 'failed';
+  // While running: pages rendered so far, then the pipeline itself
+  step: 'rendering' | 'pipeline' | null;
+  page: number | null;
+  pageCount: number | null;
+  extractionId: string | null;
+  message: string | null;
+  at: string;
+}
+
+// Response from POST /api/uploads/duplicates — one entry per existing upload
+export interface DuplicateUpload {
+  fileHash: string;
+  uploadId: string;
+  filename: string;
+  projectId: string | null;
+  projectName: string | null;
+  status: string | null;
+  receivedAt: string | null;
+}
+
+// Chunked upload session — POST/GET /api/uploads/sessions
+export interface UploadSession {
+  sessionId: string;
+  filename: string;
+  fileSize: number;
+  fileHash: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'open' | 'completed' | 'aborted';
+  projectId: string | null;
+  uploadId: string | null;
+  createdAt: string | null;
+}
+
 // Response from POST /api/uploads
 export interface UploadCreatedResponse {
   uploadId: string;
@@ -72,6 +210,22 @@ export interface UploadReviewData {
   parsingIssues?: ParsingIssue[];
 }
 
+// Reviewed column mapping — POST /api/uploads/:id/review/accept
+// Field keys match the template parser (csv_parser.TEMPLATE_FIELDS)
+export interface ReviewMapping {
+  field: string;
+  column: string;
+  dateFormat?: 'dmy' | 'mdy' | 'ymd';
+  decimal?: 'comma' | 'dot';
+  unit?: 'kg' | 't';
+}
+
+export interface ReviewAcceptResponse {
+  uploadId: string;
+  status: string;
+  templateId: string | null;
+}
+
 export interface ParsingIssue {
   type: string;
   message: string;
@@ -85,17 +239,160 @@ export interface ParsingIssue {
   missingFields?: string[];
 }
 
+// Shipment types — matches ShipmentResponse / BenchmarkSummary from backend.
+// The per-upload listing (GET /api/uploads/:id/shipments) returns a lighter
+// shape with invoiceNumber and shipmentDate instead of date.
+export interface BenchmarkSummary {
+  expectedTotalAmount: number | null;
+  actualTotalAmount: number | null;
+  deltaAmount: number | null;
+  deltaPct: number | null;
+  classification: string | null;
+}
+
 export interface ShipmentSummary {
   id: string;
-  invoiceNumber: string | null;
-  shipmentDate: string | null;
+  projectId?: string | null;
+  uploadId?: string | null;
+  carrierId?: string | null;
+  date?: string;
+  invoiceNumber?: string | null;
+  shipmentDate?: string | null;
   referenceNumber: string | null;
+  serviceLevel?: string | null;
   originZip: string | null;
+  originCountry?: string | null;
   destZip: string | null;
+  destCountry?: string | null;
   weightKg: number | null;
+  volumeCbm?: number | null;
+  pallets?: number | null;
+  chargeableWeightKg?: number | null;
+  chargeableBasis?: string | null;
   currency: string | null;
   actualTotalAmount: number | null;
+  actualBaseAmount?: number | null;
+  actualDieselAmount?: number | null;
+  actualTollAmount?: number | null;
   completenessScore: number | null;
+  createdAt?: string | null;
+  benchmark?: BenchmarkSummary | null;
+  // Position in the source file (GET /api/uploads/{id}/shipments): PDF page + row box
+  // from the vision pipeline, or the data row of a CSV / Excel file
+  sourcePage?: number | null;
+  sourceBbox?: SourceBox | null;
+  sourceRow?: number | null;
+}
+
+// x0, y0, x1, y1 as fractions of the page size, origin top-left
+export type SourceBox = [number, number, number, number];
+
+// GET /api/uploads/{id}/source — what the source viewer can show
+export interface SourceDocument {
+  kind: 'pdf' | 'image' | 'sheet';
+  pages: { pageNumber: number; width: number; height: number }[];
+  sheets: SourceSheet[];
+}
+
+export interface SourceSheet {
+  name: string;
+  columns: string[];
+  // rowNumber 1 = first data row below the header (matches ShipmentSummary.sourceRow)
+  rows: { rowNumber: number; values: (string | null)[] }[];
+  truncated: boolean;
+}
+
+// GET /api/uploads/{id}/locate?q=
+export interface SourceHit {
+  pageNumber: number;
+  bbox: SourceBox;
+}
+
+// GET /api/uploads/{id}/vision-pages — latest vision pipeline run, page by page
+export type VisionPageType = 'cover' | 'line-item-table' | 'surcharge-appendix' | 'continuation';
+
+export interface VisionFieldSources {
+  field: string;
+  directOcr: number;
+  llmInferred: number;
+  missing: number;
+}
+
+export interface VisionPage {
+  pageNumber: number;
+  pageType: VisionPageType;
+  // Classifier verdict; differs from pageType after a reviewer override
+  classifiedType: VisionPageType;
+  lineCount: number;
+  skipReason: 'extraction_failed' | 'no_data' | null;
+  confidence: number | null;
+  directOcrRatio: number | null;
+  completenessRatio: number | null;
+  fields: VisionFieldSources[];
+  issues: string[];
+}
+
+export interface VisionInspection {
+  // null until the first run
+  extractionId: string | null;
+  extractedAt: string | null;
+  confidence: number | null;
+  reviewAction: string | null;
+  pages: VisionPage[];
+  // A run is in flight; progress arrives as VisionRunEvent on the upload stream
+  running: boolean;
+}
+
+// One line of the tariff engine's expected-cost calculation (CostBreakdownItem.to_dict())
+export interface CostBreakdownItem {
+  item: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  zone?: number;
+  weight?: number;
+  rate?: number;
+  base?: number;
+  pct?: number;
+  value?: number;
+  note?: string;
+}
+
+export interface BenchmarkDetail extends BenchmarkSummary {
+  tariffTableId: string | null;
+  tariffName: string | null;
+  tariffUploadId: string | null;
+  zoneCalculated: number | null;
+  chargeableWeight: number | null;
+  chargeableBasis: string | null;
+  expectedBaseAmount: number | null;
+  expectedDieselAmount: number | null;
+  expectedTollAmount: number | null;
+  currency: string | null;
+  dieselBasisUsed: string | null;
+  dieselPctUsed: number | null;
+  calcVersion: string | null;
+  costBreakdown: CostBreakdownItem[] | null;
+}
+
+// Response from GET /api/projects/:id/shipments/:shipmentId
+export interface ShipmentDetail extends Omit<ShipmentSummary, 'benchmark'> {
+  carrierName: string | null;
+  uploadFilename: string | null;
+  actualOtherAmount: number | null;
+  missingFields: string[] | null;
+  extractionMethod: string | null;
+  confidenceScore: number | null;
+  benchmark: BenchmarkDetail | null;
+}
+
+// Response from GET /api/projects/:id/shipments
+export interface ShipmentPage {
+  items: ShipmentSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
 }
 
 export interface CarrierOption {
@@ -122,10 +419,22 @@ export interface Report {
     };
     statistics: ProjectStatistics;
     dataCompleteness: number;
+    // MIN/MAX shipment date at generation time (absent in older snapshots)
+    dateRange?: {
+      start: string | null;
+      end: string | null;
+    };
+    notes?: string;
+    // Present only when generation was restricted to a date range / carrier subset
+    scope?: {
+      dateFrom: string | null;
+      dateTo: string | null;
+      carrierIds: string[];
+    };
     topOverpays?: Array<{
       shipmentId: string;
       date: string;
-      carrier: string;
+      carrier?: string | null;
       originZip: string;
       destZip: string;
       actualCost: number;
@@ -172,3 +481,56 @@ export interface CarrierAggregation {
   marketCount: number;
   dataCompletenessAvg: number;
 }
+
+// Report version listing — matches ReportResponse (GET /api/projects/:id/reports)
+export interface ReportSummary {
+  id: string;
+  projectId: string;
+  version: number;
+  reportType: string;
+  title: string | null;
+  shipmentCount: number | null;
+  dateRangeStart: string | null;
+  dateRangeEnd: string | null;
+  generatedAt: string | null;
+}
+
+export interface MetricDelta {
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface CarrierDiff {
+  carrierId: string | null;
+  carrierName: string | null;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  shipmentCount: MetricDelta;
+  totalActualCost: MetricDelta;
+  totalExpectedCost: MetricDelta;
+  totalDelta: MetricDelta;
+  avgDeltaPct: MetricDelta;
+  overpayCount: MetricDelta;
+}
+
+export interface TopOverpayRef {
+  shipmentId: string | null;
+  date: string | null;
+  originZip: string | null;
+  destZip: string | null;
+  actualCost: number | null;
+  expectedCost: number | null;
+  delta: number | null;
+  deltaPct: number | null;
+}
+
+// GET /api/projects/:id/reports/compare?v1=&v2=
+export interface ReportComparison {
+  report1: ReportSummary;
+  report2: ReportSummary;
+  metrics: Record<string, MetricDelta>;
+  carriers: CarrierDiff[];
+  topOverpaysAvailable: boolean;
+  topOverpaysEntered: TopOverpayRef[];
+  topOverpaysLeft: TopOverpayRef[];
+}
@@ -0,0 +1,54 @@
+-- Migration 022: manual Destatis prices, fetch conflicts and change audit
+-- Analysts enter or import monthly prices when GENESIS is unreachable or has
+-- not published a month yet. destatis_diesel_price stays the shared cache of
+-- published values, written by fetches only; manual prices are per tenant and
+-- take precedence over the shared row for that tenant alone.
+
+CREATE TABLE IF NOT EXISTS destatis_price_override (
+    id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id            UUID NOT NULL REFERENCES tenant(id),
+    price_year           SMALLINT NOT NULL,
+    price_month          SMALLINT NOT NULL,   -- 1–12
+    series_code          VARCHAR(50) NOT NULL,
+    price_ct             NUMERIC(7, 2) NOT NULL,  -- ct/liter
+    -- Destatis value the tenant chose to override; a different published
+    -- value is shown as conflict until the tenant decides again
+    confirmed_fetched_ct NUMERIC(7, 2),
+    updated_by           UUID,
+    updated_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (tenant_id, price_year, price_month, series_code)
+);
+
+ALTER TABLE destatis_price_override ENABLE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON destatis_price_override
+    USING (tenant_id = current_setting('app.current_tenant')::uuid);
+
+-- Who changed which month. tenant_id records whose override changed; fetches
+-- (also run without a tenant, e.g. on startup) write rows with NULL tenant_id
+-- that every tenant sees.
+CREATE TABLE IF NOT EXISTS destatis_price_audit (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    price_year    SMALLINT NOT NULL,
+    price_month   SMALLINT NOT NULL,
+    series_code   VARCHAR(50) NOT NULL,
+    action        VARCHAR(20) NOT NULL,  -- fetched | manual | import | keep_manual | use_fetched | deleted
+    old_price_ct  NUMERIC(7, 2),
+    new_price_ct  NUMERIC(7, 2),
+    old_source    VARCHAR(20),
+    new_source    VARCHAR(20),
+    tenant_id     UUID,
+    changed_by    UUID,
+    changed_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE destatis_price_audit ENABLE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON destatis_price_audit
+    USING (
+        tenant_id IS NULL
+        OR tenant_id = current_setting('app.current_tenant', true)::uuid
+    );
+
+CREATE INDEX IF NOT EXISTS idx_destatis_price_audit_month
+    ON destatis_price_audit (series_code, price_year, price_month, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_destatis_price_audit_tenant
+    ON destatis_price_audit (tenant_id, changed_at DESC);
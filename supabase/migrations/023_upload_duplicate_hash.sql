@@ -0,0 +1,15 @@
+-- Migration 023: allow the same file twice per tenant on explicit request
+-- The upload form now checks SHA-256 hashes in the browser and asks before a
+-- duplicate is sent; "upload anyway" needs a second row with the same hash.
+-- Such rows are flagged allow_duplicate; every other upload stays unique per
+-- tenant and hash, so concurrent sends of the same file cannot both insert.
+
+ALTER TABLE upload DROP CONSTRAINT IF EXISTS upload_tenant_id_file_hash_key;
+
+ALTER TABLE upload ADD COLUMN IF NOT EXISTS allow_duplicate BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_upload_tenant_file_hash
+    ON upload(tenant_id, file_hash) WHERE NOT allow_duplicate;
+
+-- Hash lookups that include flagged duplicates
+CREATE INDEX IF NOT EXISTS idx_upload_tenant_file_hash ON upload(tenant_id, file_hash);
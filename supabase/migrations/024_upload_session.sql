@@ -0,0 +1,31 @@
+-- Migration 024: resumable chunked uploads
+-- One row per chunked transfer. Chunks are stored on disk under
+-- uploads/chunks/<session id>/ until the client completes the session; the
+-- assembled file is verified against file_hash before the upload row exists.
+
+CREATE TABLE IF NOT EXISTS upload_session (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id       UUID NOT NULL REFERENCES tenant(id),
+    project_id      UUID REFERENCES project(id),
+    filename        VARCHAR(500) NOT NULL,
+    mime_type       VARCHAR(100),
+    file_size       BIGINT NOT NULL,
+    file_hash       VARCHAR(64) NOT NULL,   -- SHA-256 computed by the client
+    chunk_size      INTEGER NOT NULL,
+    total_chunks    INTEGER NOT NULL,
+    doc_type        VARCHAR(50),
+    allow_duplicate BOOLEAN NOT NULL DEFAULT false,
+    status          VARCHAR(20) NOT NULL DEFAULT 'open',  -- open | completed | aborted
+    upload_id       UUID REFERENCES upload(id) ON DELETE SET NULL,
+    created_by      UUID,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE upload_session ENABLE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON upload_session
+    USING (tenant_id = current_setting('app.current_tenant')::uuid);
+
+-- Resume lookup: an open session for the same file is reused
+CREATE INDEX IF NOT EXISTS idx_upload_session_hash
+    ON upload_session (tenant_id, file_hash, status);
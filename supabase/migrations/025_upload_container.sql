@@ -0,0 +1,10 @@
+-- Migration 025: ZIP archives and e-mails as container uploads
+-- The processor unpacks .zip/.eml/.msg files into one child upload per
+-- contained document; the child keeps a link to the container it came from.
+-- Deleting the container removes its children (routers/upload.py); SET NULL
+-- only guards against rows deleted directly in the database.
+
+ALTER TABLE upload
+    ADD COLUMN IF NOT EXISTS parent_upload_id UUID REFERENCES upload(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_upload_parent ON upload(parent_upload_id);
@@ -0,0 +1,32 @@
+-- Migration 026: cross-document consistency findings per project
+-- ConsistencyService compares the uploads of a project against each other
+-- (invoice totals vs. their lines, invoices vs. the shipment list, the same
+-- shipment billed twice). Each finding is stored once per fingerprint so a
+-- reviewer's decision survives re-checks; a project can only move to the
+-- final phase when no finding is left open.
+
+CREATE TABLE IF NOT EXISTS consistency_finding (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id       UUID NOT NULL REFERENCES tenant(id),
+    project_id      UUID NOT NULL REFERENCES project(id) ON DELETE CASCADE,
+    check_type      VARCHAR(50) NOT NULL,   -- invoice_total | duplicate_billing | ...
+    severity        VARCHAR(20) NOT NULL,   -- error | warning
+    fingerprint     VARCHAR(255) NOT NULL,  -- check_type plus the involved references
+    message         TEXT NOT NULL,
+    refs            JSONB NOT NULL DEFAULT '[]'::jsonb,  -- involved uploads / rows
+    status          VARCHAR(20) NOT NULL DEFAULT 'open',  -- open | accepted | fixed
+    resolution_note TEXT,
+    resolved_by     UUID,
+    resolved_at     TIMESTAMPTZ,
+    first_seen_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_seen_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (project_id, fingerprint)
+);
+
+ALTER TABLE consistency_finding ENABLE ROW LEVEL SECURITY;
+CREATE POLICY tenant_isolation ON consistency_finding
+    USING (tenant_id = current_setting('app.current_tenant')::uuid);
+
+-- Phase gate: open findings of a project
+CREATE INDEX IF NOT EXISTS idx_consistency_finding_status
+    ON consistency_finding (project_id, status);
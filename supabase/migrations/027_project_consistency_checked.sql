@@ -0,0 +1,7 @@
+-- Migration 027: time of the last consistency check per project
+-- Without findings there is no consistency_finding row, so a project that was
+-- never checked looked the same as one that passed. The check stamps the
+-- project; the consistency page and the final-phase gate read it.
+
+ALTER TABLE project
+    ADD COLUMN IF NOT EXISTS consistency_checked_at TIMESTAMPTZ;